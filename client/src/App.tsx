@@ -1,4 +1,4 @@
-import { Switch, Route, useLocation, Redirect } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -7,6 +7,7 @@ import { AuthProvider, useAuth } from "@/lib/auth";
 import Layout from "@/components/Layout";
 import Dashboard from "@/pages/Dashboard";
 import Recipes from "@/pages/Recipes";
+import Articles from "@/pages/Articles";
 import HACCP from "@/pages/HACCP";
 import Reports from "@/pages/Reports";
 import Settings from "@/pages/Settings";
@@ -15,27 +16,28 @@ import Schedule from "@/pages/Schedule";
 import MenuPlanPage from "@/pages/MenuPlan";
 import Today from "@/pages/Today";
 import Login from "@/pages/Login";
+import GuestMenuPage from "@/pages/GuestMenu";
 import NotFound from "@/pages/not-found";
 import { Loader2 } from "lucide-react";
+import type { PermissionResource } from "@shared/permissions";
+
+// Logged-in users only; with `resource` the user also needs permission to view it
+function ProtectedRoute({ component: Component, resource }: { component: React.ComponentType; resource?: PermissionResource }) {
+  const { user, can } = useAuth();
 
-function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
-  const { user, loading } = useAuth();
-  const [, setLocation] = useLocation();
-  
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <Loader2 className="h-8 w-8 animate-spin text-primary" />
-      </div>
-    );
-  }
-  
   if (!user) {
-    setLocation("/login");
-    return null;
+    return <Redirect to="/login" />;
   }
-  
-  return <Component />;
+
+  if (resource && !can(resource, "view")) {
+    return <Redirect to="/today" />;
+  }
+
+  return (
+    <Layout>
+      <Component />
+    </Layout>
+  );
 }
 
 function Router() {
@@ -51,6 +53,9 @@ function Router() {
   
   return (
     <Switch>
+      <Route path="/guest/:token">
+        <GuestMenuPage />
+      </Route>
       <Route path="/login">
         {user ? <Redirect to="/today" /> : <Login />}
       </Route>
@@ -62,76 +67,31 @@ function Router() {
         )}
       </Route>
       <Route path="/recipes">
-        {user ? (
-          <Layout>
-            <Recipes />
-          </Layout>
-        ) : (
-          <Redirect to="/login" />
-        )}
+        <ProtectedRoute component={Recipes} resource="recipes" />
+      </Route>
+      <Route path="/articles">
+        <ProtectedRoute component={Articles} resource="articles" />
       </Route>
       <Route path="/haccp">
-        {user ? (
-          <Layout>
-            <HACCP />
-          </Layout>
-        ) : (
-          <Redirect to="/login" />
-        )}
+        <ProtectedRoute component={HACCP} resource="haccp" />
       </Route>
       <Route path="/guests">
-        {user ? (
-          <Layout>
-            <Guests />
-          </Layout>
-        ) : (
-          <Redirect to="/login" />
-        )}
+        <ProtectedRoute component={Guests} resource="guests" />
       </Route>
       <Route path="/schedule">
-        {user ? (
-          <Layout>
-            <Schedule />
-          </Layout>
-        ) : (
-          <Redirect to="/login" />
-        )}
+        <ProtectedRoute component={Schedule} resource="schedule" />
       </Route>
       <Route path="/menu">
-        {user ? (
-          <Layout>
-            <MenuPlanPage />
-          </Layout>
-        ) : (
-          <Redirect to="/login" />
-        )}
+        <ProtectedRoute component={MenuPlanPage} resource="menu" />
       </Route>
       <Route path="/today">
-        {user ? (
-          <Layout>
-            <Today />
-          </Layout>
-        ) : (
-          <Redirect to="/login" />
-        )}
+        <ProtectedRoute component={Today} />
       </Route>
       <Route path="/reports">
-        {user ? (
-          <Layout>
-            <Reports />
-          </Layout>
-        ) : (
-          <Redirect to="/login" />
-        )}
+        <ProtectedRoute component={Reports} />
       </Route>
       <Route path="/settings">
-        {user ? (
-          <Layout>
-            <Settings />
-          </Layout>
-        ) : (
-          <Redirect to="/login" />
-        )}
+        <ProtectedRoute component={Settings} />
       </Route>
       <Route>
         <NotFound />
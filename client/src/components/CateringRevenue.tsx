@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ChevronLeft, ChevronRight, Euro, Loader2 } from "lucide-react";
+
+interface CateringRevenueMonth {
+  month: string;
+  events: number;
+  persons: number;
+  booked: number;
+  invoiced: number;
+  total: number;
+  quoted: number;
+  unpriced: number;
+}
+
+interface CateringRevenueReport {
+  year: number;
+  months: CateringRevenueMonth[];
+  total: number;
+  invoiced: number;
+  quoted: number;
+}
+
+const MONTHS = ["Jan", "Feb", "Mär", "Apr", "Mai", "Jun", "Jul", "Aug", "Sep", "Okt", "Nov", "Dez"];
+
+const chartConfig = {
+  invoiced: { label: "Abgerechnet", color: "#22c55e" },
+  booked: { label: "Bestätigt", color: "#F37021" },
+} satisfies ChartConfig;
+
+const eur = (value: number) => `€ ${value.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Net catering revenue per month of the event date, from /api/catering/revenue.
+// `refreshKey` refetches, e.g. after a status change.
+export function CateringRevenueCard({ refreshKey }: { refreshKey?: number }) {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [report, setReport] = useState<CateringRevenueReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchRevenue = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/catering/revenue?year=${year}`);
+        if (res.ok) {
+          setReport(await res.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch catering revenue:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchRevenue();
+  }, [year, refreshKey]);
+
+  const data = report?.months.map((m, i) => ({ ...m, label: MONTHS[i] })) ?? [];
+  const unpriced = report?.months.reduce((sum, m) => sum + m.unpriced, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Euro className="h-5 w-5" />
+          Umsatz
+          <div className="ml-auto flex items-center gap-1">
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setYear(year - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium w-10 text-center">{year}</span>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setYear(year + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && !report ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : report ? (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              {[
+                { label: "Gesamt (netto)", value: eur(report.total) },
+                { label: "Abgerechnet", value: eur(report.invoiced) },
+                { label: "Offene Angebote", value: eur(report.quoted) },
+              ].map(item => (
+                <div key={item.label} className="p-2 rounded bg-secondary/30">
+                  <div className="text-[10px] text-muted-foreground">{item.label}</div>
+                  <div className="font-mono text-sm font-bold">{item.value}</div>
+                </div>
+              ))}
+            </div>
+            <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+              <BarChart data={data} margin={{ left: -8, right: 8, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(v: number) => v.toLocaleString("de-DE")} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, name) => (
+                        <div className="flex w-full justify-between gap-2">
+                          <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label ?? name}</span>
+                          <span className="font-mono tabular-nums">{eur(Number(value))}</span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <Bar dataKey="invoiced" stackId="revenue" fill="var(--color-invoiced)" isAnimationActive={false} />
+                <Bar dataKey="booked" stackId="revenue" fill="var(--color-booked)" radius={[3, 3, 0, 0]} isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+            {unpriced > 0 && (
+              <div className="text-xs text-muted-foreground">{unpriced} bestätigte Events ohne Preis pro Person sind nicht enthalten</div>
+            )}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,444 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Upload, Pencil, PlusCircle, Trash2, X } from "lucide-react";
+import {
+  DEFAULT_BOARD_MEALS, GUEST_IMPORT_DATE_FORMATS, GUEST_IMPORT_DELIMITERS, GUEST_IMPORT_DELIMITER_LABELS, GUEST_IMPORT_MEALS,
+  type GuestImportDateFormat, type GuestImportDelimiter, type GuestImportMeal,
+} from "@shared/guestImport";
+
+interface GuestImportSource {
+  id: number;
+  name: string;
+  delimiter: GuestImportDelimiter;
+  headerRow: number;
+  dateColumn: string;
+  dateFormat: GuestImportDateFormat;
+  departureColumn: string | null;
+  adultsColumn: string;
+  childrenColumn: string | null;
+  boardColumn: string | null;
+  boardMeals: string; // JSON: board code → meals
+  defaultMeals: GuestImportMeal[];
+  breakfastNextDay: boolean;
+}
+
+// Response of POST /api/guests/import
+interface GuestImportResult {
+  dryRun: boolean;
+  rows: number;
+  start: string | null;
+  end: string | null;
+  changes: {
+    date: string;
+    meal: GuestImportMeal;
+    adults: number;
+    children: number;
+    current: { adults: number; children: number; isForecast: boolean } | null;
+    action: "create" | "update" | "unchanged";
+  }[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: { row: number; error: string }[];
+}
+
+const MEAL_LABELS: Record<GuestImportMeal, string> = {
+  breakfast: "Frühstück",
+  lunch: "Mittagessen",
+  dinner: "Abendessen",
+};
+
+const MEAL_SHORT: Record<GuestImportMeal, string> = { breakfast: "F", lunch: "M", dinner: "A" };
+
+// Source while editing; the board mapping is edited as rows
+interface SourceDraft {
+  id: number | null;
+  name: string;
+  delimiter: GuestImportDelimiter;
+  headerRow: string;
+  dateColumn: string;
+  dateFormat: GuestImportDateFormat;
+  departureColumn: string;
+  adultsColumn: string;
+  childrenColumn: string;
+  boardColumn: string;
+  boards: { code: string; meals: GuestImportMeal[] }[];
+  defaultMeals: GuestImportMeal[];
+  breakfastNextDay: boolean;
+}
+
+function toSourceDraft(source?: GuestImportSource): SourceDraft {
+  const boardMeals: Record<string, GuestImportMeal[]> = source ? JSON.parse(source.boardMeals || "{}") : DEFAULT_BOARD_MEALS;
+  return {
+    id: source?.id ?? null,
+    name: source?.name ?? "",
+    delimiter: source?.delimiter ?? "auto",
+    headerRow: String(source?.headerRow ?? 1),
+    dateColumn: source?.dateColumn ?? "",
+    dateFormat: source?.dateFormat ?? "DD.MM.YYYY",
+    departureColumn: source?.departureColumn ?? "",
+    adultsColumn: source?.adultsColumn ?? "",
+    childrenColumn: source?.childrenColumn ?? "",
+    boardColumn: source?.boardColumn ?? "",
+    boards: Object.entries(boardMeals).map(([code, meals]) => ({ code, meals })),
+    defaultMeals: source?.defaultMeals ?? [],
+    breakfastNextDay: source?.breakfastNextDay ?? true,
+  };
+}
+
+function toSourcePayload(draft: SourceDraft) {
+  return {
+    name: draft.name,
+    delimiter: draft.delimiter,
+    headerRow: parseInt(draft.headerRow) || 1,
+    dateColumn: draft.dateColumn,
+    dateFormat: draft.dateFormat,
+    departureColumn: draft.departureColumn || null,
+    adultsColumn: draft.adultsColumn,
+    childrenColumn: draft.childrenColumn || null,
+    boardColumn: draft.boardColumn || null,
+    boardMeals: Object.fromEntries(draft.boards.filter(b => b.code.trim()).map(b => [b.code.trim(), b.meals])),
+    defaultMeals: draft.defaultMeals,
+    breakfastNextDay: draft.breakfastNextDay,
+  };
+}
+
+const sortMeals = (meals: string[]) => GUEST_IMPORT_MEALS.filter(m => meals.includes(m));
+
+// Upload of a PMS export (CSV/XLSX) into the guest counts: pick a saved column
+// mapping, check the preview (dry run), then apply.
+export function GuestImportDialog({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [sources, setSources] = useState<GuestImportSource[]>([]);
+  const [sourceId, setSourceId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<GuestImportResult | null>(null);
+  const [draft, setDraft] = useState<SourceDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSources = async (selectId?: number) => {
+    try {
+      const res = await fetch('/api/guests/import-sources');
+      if (!res.ok) return;
+      const data: GuestImportSource[] = await res.json();
+      setSources(data);
+      if (selectId) setSourceId(String(selectId));
+      else if (!data.some(s => String(s.id) === sourceId)) setSourceId(data.length > 0 ? String(data[0].id) : "");
+    } catch (error) {
+      console.error('Failed to fetch import sources:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) fetchSources();
+    else {
+      setFile(null);
+      setPreview(null);
+      setDraft(null);
+    }
+  }, [open]);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file || !sourceId) return;
+    setBusy(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("sourceId", sourceId);
+      formData.append("dryRun", String(dryRun));
+      const res = await fetch('/api/guests/import', { method: 'POST', body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      if (dryRun) {
+        setPreview(data);
+        return;
+      }
+      toast({ title: "Gästezahlen importiert", description: `${data.created} neu, ${data.updated} aktualisiert` });
+      setOpen(false);
+      onImported();
+    } catch (error: any) {
+      toast({ title: "Import fehlgeschlagen", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveSource = async () => {
+    if (!draft) return;
+    setBusy(true);
+    try {
+      const res = await fetch(draft.id ? `/api/guests/import-sources/${draft.id}` : '/api/guests/import-sources', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toSourcePayload(draft))
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setDraft(null);
+      setPreview(null);
+      fetchSources(data.id);
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteSource = async () => {
+    const source = sources.find(s => String(s.id) === sourceId);
+    if (!source || !confirm(`Quelle "${source.name}" löschen?`)) return;
+    await fetch(`/api/guests/import-sources/${source.id}`, { method: 'DELETE' });
+    setSourceId("");
+    setPreview(null);
+    fetchSources();
+  };
+
+  const selectedSource = sources.find(s => String(s.id) === sourceId);
+  const pending = preview ? preview.created + preview.updated : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1" data-testid="button-guest-import">
+          <Upload className="h-4 w-4" /> Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{draft ? (draft.id ? "Quelle bearbeiten" : "Neue Quelle") : "Import aus Hotelsoftware"}</DialogTitle>
+        </DialogHeader>
+        {draft ? (
+          <SourceEditor draft={draft} onChange={setDraft} onSave={saveSource} onCancel={() => setDraft(null)} saving={busy} />
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label>Quelle</Label>
+              <div className="flex gap-2">
+                <Select value={sourceId} onValueChange={(v) => { setSourceId(v); setPreview(null); }}>
+                  <SelectTrigger data-testid="select-import-source">
+                    <SelectValue placeholder="Keine Quelle angelegt" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sources.map(s => (
+                      <SelectItem key={s.id} value={String(s.id)}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="icon" variant="outline" disabled={!selectedSource} onClick={() => setDraft(toSourceDraft(selectedSource))} title="Spaltenzuordnung bearbeiten">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="outline" onClick={() => setDraft(toSourceDraft())} title="Neue Quelle" data-testid="button-new-import-source">
+                  <PlusCircle className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="outline" disabled={!selectedSource} onClick={deleteSource} title="Quelle löschen">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div>
+              <Label>Datei (CSV oder Excel)</Label>
+              <Input
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                onChange={(e) => { setFile(e.target.files?.[0] ?? null); setPreview(null); }}
+                data-testid="input-import-file"
+              />
+            </div>
+            {!preview ? (
+              <Button className="w-full" onClick={() => runImport(true)} disabled={busy || !file || !sourceId} data-testid="button-import-preview">
+                {busy ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                Vorschau
+              </Button>
+            ) : (
+              <ImportPreview
+                preview={preview}
+                footer={
+                  <Button className="w-full" onClick={() => runImport(false)} disabled={busy || pending === 0} data-testid="button-import-apply">
+                    {busy ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                    {pending > 0 ? `${pending} Änderungen übernehmen` : "Keine Änderungen"}
+                  </Button>
+                }
+              />
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ImportPreview({ preview, footer }: { preview: GuestImportResult; footer: React.ReactNode }) {
+  const changes = preview.changes.filter(c => c.action !== "unchanged");
+  const formatDay = (date: string) => new Date(date).toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit' });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="outline">{preview.rows} Zeilen</Badge>
+        <Badge variant="outline" className="bg-green-100 text-green-700 border-green-200">{preview.created} neu</Badge>
+        <Badge variant="outline" className="bg-orange-100 text-orange-700 border-orange-200">{preview.updated} geändert</Badge>
+        <Badge variant="outline">{preview.unchanged} unverändert</Badge>
+        {preview.skipped.length > 0 && (
+          <Badge variant="outline" className="bg-red-100 text-red-700 border-red-200">{preview.skipped.length} übersprungen</Badge>
+        )}
+      </div>
+      {preview.start && preview.end && (
+        <div className="text-xs text-muted-foreground">
+          Zeitraum {formatDay(preview.start)} – {formatDay(preview.end)}; Tage und Mahlzeiten außerhalb der Datei bleiben unverändert.
+        </div>
+      )}
+      {changes.length > 0 && (
+        <div className="max-h-64 overflow-y-auto rounded border">
+          <table className="w-full text-xs">
+            <thead className="bg-secondary/50 sticky top-0">
+              <tr>
+                <th className="text-left p-1.5">Tag</th>
+                <th className="text-left p-1.5">Mahlzeit</th>
+                <th className="text-right p-1.5">Bisher</th>
+                <th className="text-right p-1.5">Neu</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map(c => (
+                <tr key={`${c.date}-${c.meal}`} className="border-t">
+                  <td className="p-1.5">{formatDay(c.date)}</td>
+                  <td className="p-1.5">{MEAL_LABELS[c.meal] ?? c.meal}</td>
+                  <td className={`p-1.5 text-right text-muted-foreground ${c.current?.isForecast ? 'italic' : ''}`}>
+                    {c.current ? `${c.current.adults} + ${c.current.children}` : '-'}
+                    {c.current?.isForecast ? ' (Prognose)' : ''}
+                  </td>
+                  <td className="p-1.5 text-right font-medium">{c.adults} + {c.children}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {preview.skipped.length > 0 && (
+        <div className="text-xs text-red-600 space-y-0.5 max-h-24 overflow-y-auto">
+          {preview.skipped.map(s => (
+            <div key={s.row}>Zeile {s.row}: {s.error}</div>
+          ))}
+        </div>
+      )}
+      {footer}
+    </div>
+  );
+}
+
+function SourceEditor({ draft, onChange, onSave, onCancel, saving }: {
+  draft: SourceDraft;
+  onChange: (draft: SourceDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  saving: boolean;
+}) {
+  const set = (patch: Partial<SourceDraft>) => onChange({ ...draft, ...patch });
+  const updateBoard = (index: number, patch: Partial<SourceDraft["boards"][number]>) =>
+    set({ boards: draft.boards.map((b, i) => i === index ? { ...b, ...patch } : b) });
+
+  const columnField = (label: string, key: "dateColumn" | "departureColumn" | "adultsColumn" | "childrenColumn" | "boardColumn", placeholder: string) => (
+    <div>
+      <Label className="text-xs">{label}</Label>
+      <Input value={draft[key]} onChange={(e) => set({ [key]: e.target.value })} placeholder={placeholder} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Name</Label>
+        <Input value={draft.name} onChange={(e) => set({ name: e.target.value })} placeholder="z.B. Belegungsliste PMS" data-testid="input-import-source-name" />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label className="text-xs">Trennzeichen (CSV)</Label>
+          <Select value={draft.delimiter} onValueChange={(v) => set({ delimiter: v as GuestImportDelimiter })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {GUEST_IMPORT_DELIMITERS.map(d => (
+                <SelectItem key={d} value={d}>{GUEST_IMPORT_DELIMITER_LABELS[d]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Datumsformat</Label>
+          <Select value={draft.dateFormat} onValueChange={(v) => set({ dateFormat: v as GuestImportDateFormat })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {GUEST_IMPORT_DATE_FORMATS.map(f => (
+                <SelectItem key={f} value={f}>{f}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Kopfzeile</Label>
+          <Input type="number" min="1" value={draft.headerRow} onChange={(e) => set({ headerRow: e.target.value })} />
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground">Spalten werden über ihre Überschrift in der Kopfzeile gefunden.</div>
+      <div className="grid grid-cols-2 gap-2">
+        {columnField("Datum / Anreise", "dateColumn", "z.B. Datum")}
+        {columnField("Abreise (optional)", "departureColumn", "nur bei Reservierungslisten")}
+        {columnField("Erwachsene", "adultsColumn", "z.B. Erwachsene")}
+        {columnField("Kinder (optional)", "childrenColumn", "z.B. Kinder")}
+        {columnField("Verpflegung (optional)", "boardColumn", "z.B. Verpflegung")}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Verpflegung → Mahlzeiten</Label>
+        {draft.boards.map((board, idx) => (
+          <div key={idx} className="flex items-center gap-2">
+            <Input className="w-20 h-8" value={board.code} onChange={(e) => updateBoard(idx, { code: e.target.value })} placeholder="Code" />
+            <ToggleGroup type="multiple" size="sm" value={board.meals} onValueChange={(v) => updateBoard(idx, { meals: sortMeals(v) })}>
+              {GUEST_IMPORT_MEALS.map(meal => (
+                <ToggleGroupItem key={meal} value={meal} title={MEAL_LABELS[meal]} className="w-8">{MEAL_SHORT[meal]}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Button size="icon" variant="ghost" className="h-8 w-8 ml-auto" onClick={() => set({ boards: draft.boards.filter((_, i) => i !== idx) })}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => set({ boards: [...draft.boards, { code: "", meals: [] }] })}>
+          <PlusCircle className="h-4 w-4" /> Verpflegungsart
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs">Ohne Verpflegungsangabe</Label>
+        <ToggleGroup type="multiple" size="sm" value={draft.defaultMeals} onValueChange={(v) => set({ defaultMeals: sortMeals(v) })}>
+          {GUEST_IMPORT_MEALS.map(meal => (
+            <ToggleGroupItem key={meal} value={meal} title={MEAL_LABELS[meal]} className="w-8">{MEAL_SHORT[meal]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <Label className="text-xs">Frühstück am Folgetag</Label>
+          <div className="text-[10px] text-muted-foreground">Zahlen pro Nacht: das Frühstück gibt es am nächsten Morgen</div>
+        </div>
+        <Switch checked={draft.breakfastNextDay} onCheckedChange={(v) => set({ breakfastNextDay: v })} />
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={onCancel}>Abbrechen</Button>
+        <Button className="flex-1" onClick={onSave} disabled={saving || !draft.name.trim()} data-testid="button-save-import-source">
+          {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+          Speichern
+        </Button>
+      </div>
+    </div>
+  );
+}
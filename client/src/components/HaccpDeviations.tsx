@@ -0,0 +1,166 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { HaccpDeviation } from "@/lib/store";
+import { useAuth } from "@/lib/auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertTriangle, ClipboardCheck, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+// Open HACCP deviations (out-of-range readings without a passing re-measurement).
+// Renders nothing while there are none. `refreshKey` refetches, e.g. after a new reading.
+export function OpenDeviationsCard({ refreshKey, linkToHaccp = false }: { refreshKey?: number; linkToHaccp?: boolean }) {
+  const [deviations, setDeviations] = useState<HaccpDeviation[]>([]);
+  const { can } = useAuth();
+
+  const fetchDeviations = async () => {
+    try {
+      const res = await fetch("/api/haccp/deviations?status=open");
+      if (res.ok) {
+        setDeviations(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch deviations:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeviations();
+  }, [refreshKey]);
+
+  if (deviations.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/40 bg-destructive/5">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2 text-destructive">
+          <AlertTriangle className="h-5 w-5" />
+          Offene HACCP-Abweichungen
+          <Badge variant="destructive" className="ml-auto">{deviations.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {deviations.map(deviation => (
+          <div key={deviation.log.id} className="flex items-center justify-between gap-2 p-2 bg-background rounded border text-sm">
+            <div className="min-w-0">
+              <div className="font-medium">
+                {deviation.fridgeName}{deviation.log.item && ` (${deviation.log.item})`}: <span className="font-mono text-destructive">{deviation.log.temperature} {deviation.unit}</span>
+                <span className="text-xs text-muted-foreground ml-1">(Soll {deviation.limits})</span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {new Date(deviation.log.timestamp).toLocaleString("de-DE")} • {deviation.log.user}
+                {deviation.actions.length > 0 && ` • ${deviation.actions.length} Maßnahme(n), Nachmessung nicht im Sollbereich`}
+              </div>
+            </div>
+            {!can("haccp", "edit") ? null : linkToHaccp ? (
+              <Link href="/haccp">
+                <Button size="sm" variant="outline" className="shrink-0">Beheben</Button>
+              </Link>
+            ) : (
+              <CorrectiveActionDialog deviation={deviation} onSaved={fetchDeviations} />
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function CorrectiveActionDialog({ deviation, onSaved }: { deviation: HaccpDeviation; onSaved: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [action, setAction] = useState("");
+  const [remeasured, setRemeasured] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/haccp-logs/${deviation.log.id}/corrective-actions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          remeasuredTemperature: remeasured === "" ? null : parseFloat(remeasured),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+
+      toast({
+        title: data.resolved ? "Abweichung behoben" : "Maßnahme erfasst",
+        description: data.resolved ? undefined : "Nachmessung liegt noch nicht im Sollbereich",
+        variant: data.resolved ? "default" : "destructive",
+      });
+      setOpen(false);
+      setAction("");
+      setRemeasured("");
+      onSaved();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="shrink-0 gap-1" data-testid={`button-corrective-${deviation.log.id}`}>
+          <ClipboardCheck className="h-3.5 w-3.5" /> Maßnahme
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Korrekturmaßnahme: {deviation.fridgeName}</DialogTitle>
+        </DialogHeader>
+        <div className="text-sm text-muted-foreground">
+          {deviation.log.temperature} {deviation.unit} gemessen am {new Date(deviation.log.timestamp).toLocaleString("de-DE")}, Soll {deviation.limits}
+        </div>
+        {deviation.actions.length > 0 && (
+          <div className="space-y-1 text-xs border rounded p-2">
+            {deviation.actions.map(a => (
+              <div key={a.id}>
+                {new Date(a.timestamp).toLocaleString("de-DE")} – {a.responsibleUser}: {a.action}
+                {a.remeasuredTemperature != null ? ` (${a.remeasuredTemperature} ${deviation.unit})` : " (keine Nachmessung)"}
+              </div>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Maßnahme *</Label>
+            <Textarea
+              value={action}
+              onChange={(e) => setAction(e.target.value)}
+              placeholder="z.B. Tür geschlossen, Ware umgelagert, Techniker informiert"
+              rows={3}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Nachmessung ({deviation.unit})</Label>
+              <Input type="number" step="0.1" value={remeasured} onChange={(e) => setRemeasured(e.target.value)} placeholder="optional" />
+            </div>
+            <div className="space-y-2">
+              <Label>Verantwortlich</Label>
+              <Input value={user?.name ?? ""} disabled />
+            </div>
+          </div>
+          <Button type="submit" className="w-full" disabled={saving || !action.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Maßnahme speichern
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
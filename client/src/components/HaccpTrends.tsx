@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceArea, XAxis, YAxis } from "recharts";
+import { Fridge, HaccpFridgeStats, HaccpStatsReport } from "@/lib/store";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { LineChart as LineChartIcon, Loader2 } from "lucide-react";
+import { controlPointTypeInfo } from "@shared/haccp";
+
+const RANGES = [
+  { days: 1, label: "24 h" },
+  { days: 7, label: "7 Tage" },
+  { days: 30, label: "30 Tage" },
+  { days: 90, label: "90 Tage" },
+];
+
+const chartConfig = {
+  avg: { label: "Mittelwert", color: "#F37021" },
+  range: { label: "Min – Max", color: "#F37021" },
+} satisfies ChartConfig;
+
+// Trend of one control point with its limit band shaded, plus statistics for
+// the selected range. Data comes pre-aggregated from /api/haccp/stats.
+// `refreshKey` refetches, e.g. after a new reading.
+export function HaccpTrendsCard({ fridges, refreshKey }: { fridges: Fridge[]; refreshKey?: number }) {
+  const [fridgeId, setFridgeId] = useState<string>("");
+  const [days, setDays] = useState(7);
+  const [report, setReport] = useState<HaccpStatsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!fridgeId && fridges.length > 0) setFridgeId(String(fridges[0].id));
+  }, [fridges, fridgeId]);
+
+  useEffect(() => {
+    if (!fridgeId) return;
+    const fetchStats = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/haccp/stats?fridgeId=${fridgeId}&days=${days}`);
+        if (res.ok) {
+          setReport(await res.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch HACCP stats:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchStats();
+  }, [fridgeId, days, refreshKey]);
+
+  if (fridges.length === 0) return null;
+
+  const stats = report?.fridges.find(f => String(f.fridgeId) === fridgeId);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <LineChartIcon className="h-5 w-5" />
+          Verlauf
+        </CardTitle>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Select value={fridgeId} onValueChange={setFridgeId}>
+            <SelectTrigger className="h-8 w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {fridges.map(f => (
+                <SelectItem key={f.id} value={String(f.id)}>{f.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-1">
+            {RANGES.map(range => (
+              <Button
+                key={range.days}
+                size="sm"
+                variant={days === range.days ? "default" : "outline"}
+                className="h-8 px-2 text-xs"
+                onClick={() => setDays(range.days)}
+              >
+                {range.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && !stats ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : stats && report ? (
+          <>
+            <StatsRow stats={stats} />
+            {stats.series.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">Keine Messwerte im Zeitraum</div>
+            ) : (
+              <TrendChart stats={stats} bucket={report.bucket} />
+            )}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+function StatsRow({ stats }: { stats: HaccpFridgeStats }) {
+  const value = (v: number | null) => v === null ? "–" : `${v.toLocaleString("de-DE")} ${stats.unit}`;
+  const items = [
+    { label: "Mittelwert", value: value(stats.mean) },
+    { label: "Minimum", value: value(stats.min) },
+    { label: "Maximum", value: value(stats.max) },
+    { label: "Im Sollbereich", value: stats.inRangePercent === null ? "–" : `${stats.inRangePercent.toLocaleString("de-DE")} %` },
+    { label: "Abweichungen", value: String(stats.deviations), warn: stats.deviations > 0 },
+  ];
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+        {items.map(item => (
+          <div key={item.label} className="p-2 rounded bg-secondary/30">
+            <div className="text-[10px] text-muted-foreground">{item.label}</div>
+            <div className={`font-mono text-sm font-bold ${item.warn ? "text-destructive" : ""}`}>{item.value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground">{stats.count} Messungen • Soll {stats.limits}</div>
+    </div>
+  );
+}
+
+function TrendChart({ stats, bucket }: { stats: HaccpFridgeStats; bucket: "hour" | "day" }) {
+  const { bounds } = controlPointTypeInfo(stats.type);
+  const data = stats.series.map(point => ({
+    time: point.time,
+    avg: point.avg,
+    range: [point.min, point.max],
+  }));
+  const formatTime = (time: string) => format(new Date(time), bucket === "hour" ? "dd.MM. HH:mm" : "dd.MM.");
+
+  // Keep the limit band in view even if all readings are far inside it
+  const values = stats.series.flatMap(p => [p.min, p.max]);
+  const limits = [bounds !== "max" ? stats.tempMin : null, bounds !== "min" ? stats.tempMax : null].filter((v): v is number => v !== null);
+  const domainMin = Math.floor(Math.min(...values, ...limits) - 1);
+  const domainMax = Math.ceil(Math.max(...values, ...limits) + 1);
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+      <ComposedChart data={data} margin={{ left: -16, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <ReferenceArea
+          y1={bounds === "max" ? domainMin : stats.tempMin}
+          y2={bounds === "min" ? domainMax : stats.tempMax}
+          fill="#22c55e"
+          fillOpacity={0.12}
+          ifOverflow="hidden"
+        />
+        <XAxis dataKey="time" tickFormatter={formatTime} tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis domain={[domainMin, domainMax]} tickLine={false} axisLine={false} width={40} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => payload[0] ? formatTime(payload[0].payload.time) : ""}
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-2">
+                  <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label ?? name}</span>
+                  <span className="font-mono tabular-nums">
+                    {Array.isArray(value) ? value.join(" – ") : value} {stats.unit}
+                  </span>
+                </div>
+              )}
+            />
+          }
+        />
+        <Area dataKey="range" type="monotone" stroke="none" fill="var(--color-range)" fillOpacity={0.2} isAnimationActive={false} />
+        <Line dataKey="avg" type="monotone" stroke="var(--color-avg)" strokeWidth={2} dot={data.length < 40} isAnimationActive={false} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
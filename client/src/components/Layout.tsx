@@ -2,21 +2,26 @@ import { Link, useLocation } from "wouter";
 import { LayoutDashboard, ChefHat, ThermometerSnowflake, Users, CalendarDays, Settings, UtensilsCrossed, ListTodo, FileBarChart } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useTranslation } from "@/lib/i18n";
+import { useAuth } from "@/lib/auth";
+import type { PermissionResource } from "@shared/permissions";
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const [location] = useLocation();
   const { t } = useTranslation();
+  const { can } = useAuth();
 
   // R2-T10/T11: Added Guests and Reports to navigation
-  const navItems = [
+  // Items with a resource are only shown if the user may view it
+  const navItems: { icon: typeof ListTodo; label: string; href: string; resource?: PermissionResource }[] = [
     { icon: ListTodo, label: "Heute", href: "/today" },
-    { icon: ChefHat, label: t("recipes"), href: "/recipes" },
-    { icon: UtensilsCrossed, label: "Menü", href: "/menu" },
-    { icon: CalendarDays, label: "Dienst", href: "/schedule" },
-    { icon: Users, label: "Gäste", href: "/guests" },
+    { icon: ChefHat, label: t("recipes"), href: "/recipes", resource: "recipes" },
+    { icon: UtensilsCrossed, label: "Menü", href: "/menu", resource: "menu" },
+    { icon: CalendarDays, label: "Dienst", href: "/schedule", resource: "schedule" },
+    { icon: Users, label: "Gäste", href: "/guests", resource: "guests" },
     { icon: FileBarChart, label: "Reports", href: "/reports" },
     { icon: Settings, label: t("settings"), href: "/settings" },
   ];
+  const visibleItems = navItems.filter(item => !item.resource || can(item.resource, "view"));
 
   return (
     <div className="min-h-screen bg-background flex flex-col md:max-w-md md:mx-auto md:border-x md:shadow-2xl overflow-hidden relative">
@@ -27,8 +32,8 @@ export default function Layout({ children }: { children: React.ReactNode }) {
 
       {/* Bottom Navigation */}
       <nav className="fixed md:absolute bottom-0 left-0 right-0 bg-white dark:bg-slate-900 border-t border-border/50 h-16 pb-safe z-50 md:w-full md:max-w-md md:mx-auto">
-        <div className="grid grid-cols-7 h-full gap-0">
-          {navItems.map((item) => {
+        <div className="grid h-full gap-0" style={{ gridTemplateColumns: `repeat(${visibleItems.length}, minmax(0, 1fr))` }}>
+          {visibleItems.map((item) => {
             const isActive = location === item.href || (item.href !== "/" && location.startsWith(item.href));
             return (
               <Link key={item.href} href={item.href} className={cn(
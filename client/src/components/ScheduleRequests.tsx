@@ -0,0 +1,557 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/lib/auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, CalendarClock, Loader2, Palmtree } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_VACATION_REQUEST_DAYS,
+  SCHEDULE_REQUEST_STATUS_LABELS,
+  SCHEDULE_REQUEST_TYPE_LABELS,
+  awaitsColleague,
+  isScheduleRequestStatus,
+  type ScheduleRequestType,
+} from "@shared/scheduleRequests";
+import type { ScheduleViolation } from "@shared/schedule";
+
+interface ScheduleRequest {
+  id: number;
+  type: ScheduleRequestType;
+  staffId: number;
+  startDate: string;
+  endDate: string;
+  entryId: number | null;
+  targetStaffId: number | null;
+  targetEntryId: number | null;
+  targetDate: string | null;
+  note: string | null;
+  status: string;
+  acceptedAt: string | null;
+  requestedBy: string;
+  decidedBy: string | null;
+  decisionNote: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+}
+
+interface StaffMember {
+  id: number;
+  name: string;
+  color: string;
+  userId: string | null;
+}
+
+interface ShiftEntry {
+  id: number;
+  staffId: number;
+  date: string;
+  type: string;
+  shiftTypeId: number | null;
+}
+
+interface ShiftTypeTimes {
+  id: number;
+  name: string;
+  startTime: string;
+  endTime: string;
+}
+
+// Days ahead offered for swaps
+const SWAP_DAYS_AHEAD = 60;
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  approved: "secondary",
+  rejected: "destructive",
+  declined: "destructive",
+  withdrawn: "outline",
+};
+
+function isoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("de-DE", { weekday: "short", day: "2-digit", month: "2-digit" });
+}
+
+function describeRequest(request: ScheduleRequest, staffById: Map<number, StaffMember>): string {
+  if (request.type === "vacation") {
+    return request.startDate === request.endDate
+      ? formatDay(request.startDate)
+      : `${formatDay(request.startDate)} – ${formatDay(request.endDate)}`;
+  }
+  const colleague = request.targetStaffId != null ? staffById.get(request.targetStaffId)?.name ?? "Unbekannt" : "Unbekannt";
+  return request.targetDate
+    ? `Dienst ${formatDay(request.startDate)} mit ${colleague} gegen Dienst ${formatDay(request.targetDate)}`
+    : `Dienst ${formatDay(request.startDate)} an ${colleague} abgeben`;
+}
+
+async function postRequestAction(url: string, body: Record<string, unknown>): Promise<ScheduleRequest & { warnings?: ScheduleViolation[] }> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+// Pending vacation and swap requests: the ones to decide for schedule editors,
+// the own ones for everyone else, plus swaps waiting for the user's consent.
+// Renders nothing while there are none.
+export function PendingRequestsCard() {
+  const [fetched, setFetched] = useState<ScheduleRequest[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const { user, can } = useAuth();
+  const canView = can("schedule", "view");
+
+  useEffect(() => {
+    if (!canView) return;
+    Promise.all([fetch("/api/schedule-requests?status=pending"), fetch("/api/staff")])
+      .then(async ([requestsRes, staffRes]) => {
+        if (requestsRes.ok) setFetched(await requestsRes.json());
+        if (staffRes.ok) setStaff(await staffRes.json());
+      })
+      .catch(error => console.error("Failed to fetch schedule requests:", error));
+  }, [canView]);
+
+  // Swaps the colleague has not accepted yet are not up for decision
+  const me = staff.find(member => member.userId === user?.id);
+  const requests = can("schedule", "edit")
+    ? fetched.filter(r => !awaitsColleague(r) || r.staffId === me?.id || r.targetStaffId === me?.id)
+    : fetched;
+  if (requests.length === 0) return null;
+  const staffById = new Map(staff.map(member => [member.id, member]));
+
+  return (
+    <Card className="border-primary/40 bg-primary/5">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          {can("schedule", "edit") ? "Anträge zu entscheiden" : "Offene Anträge"}
+          <Badge className="ml-auto">{requests.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {requests.slice(0, 5).map(request => (
+          <div key={request.id} className="p-2 bg-background rounded border text-sm">
+            <div className="font-medium">
+              {SCHEDULE_REQUEST_TYPE_LABELS[request.type]}: {staffById.get(request.staffId)?.name ?? request.requestedBy}
+            </div>
+            <div className="text-xs text-muted-foreground">{describeRequest(request, staffById)}</div>
+            {awaitsColleague(request) && request.targetStaffId === me?.id && (
+              <div className="text-xs text-primary">Wartet auf Ihre Zustimmung</div>
+            )}
+          </div>
+        ))}
+        <Link href="/schedule">
+          <Button size="sm" variant="outline" className="w-full">Zum Dienstplan</Button>
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Request list with the dialogs to request and decide. `onChange` is called
+// after every change, e.g. to refresh a pending badge.
+export function ScheduleRequestsView({ onChange }: { onChange?: () => void }) {
+  const [requests, setRequests] = useState<ScheduleRequest[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+
+  const fetchRequests = async () => {
+    try {
+      const [requestsRes, staffRes] = await Promise.all([fetch("/api/schedule-requests"), fetch("/api/staff")]);
+      if (requestsRes.ok) setRequests(await requestsRes.json());
+      if (staffRes.ok) setStaff(await staffRes.json());
+    } catch (error) {
+      console.error("Failed to fetch schedule requests:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const handleChanged = () => {
+    fetchRequests();
+    onChange?.();
+  };
+
+  const handleConsent = async (request: ScheduleRequest, action: "accept" | "decline") => {
+    if (action === "decline" && !confirm("Tausch wirklich ablehnen?")) return;
+    try {
+      await postRequestAction(`/api/schedule-requests/${request.id}/${action}`, {});
+      toast({ title: action === "accept" ? "Tausch angenommen" : "Tausch abgelehnt" });
+      handleChanged();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleWithdraw = async (request: ScheduleRequest) => {
+    if (!confirm("Antrag wirklich zurückziehen?")) return;
+    try {
+      await postRequestAction(`/api/schedule-requests/${request.id}/withdraw`, {});
+      toast({ title: "Antrag zurückgezogen" });
+      handleChanged();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const me = staff.find(member => member.userId === user?.id);
+  const staffById = new Map(staff.map(member => [member.id, member]));
+  const pending = requests.filter(r => r.status === "pending");
+  const decided = requests.filter(r => r.status !== "pending");
+
+  const renderRequest = (request: ScheduleRequest) => (
+    <Card key={request.id} data-testid={`card-request-${request.id}`}>
+      <CardContent className="p-3 flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-medium text-sm flex items-center gap-2">
+            {request.type === "vacation" ? <Palmtree className="h-4 w-4 text-green-600" /> : <ArrowLeftRight className="h-4 w-4 text-primary" />}
+            {staffById.get(request.staffId)?.name ?? request.requestedBy}
+            <Badge variant={STATUS_VARIANTS[request.status] ?? "outline"} className="text-xs">
+              {isScheduleRequestStatus(request.status) ? SCHEDULE_REQUEST_STATUS_LABELS[request.status] : request.status}
+            </Badge>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {SCHEDULE_REQUEST_TYPE_LABELS[request.type]}: {describeRequest(request, staffById)}
+          </div>
+          {request.note && <div className="text-xs mt-1">„{request.note}“</div>}
+          {awaitsColleague(request) && (
+            <div className="text-xs text-muted-foreground mt-1">
+              Wartet auf Zustimmung von {request.targetStaffId != null ? staffById.get(request.targetStaffId)?.name ?? "Unbekannt" : "Unbekannt"}
+            </div>
+          )}
+          {request.type === "swap" && request.status === "pending" && request.acceptedAt && (
+            <div className="text-xs text-muted-foreground mt-1">
+              Vom Kollegen angenommen am {new Date(request.acceptedAt).toLocaleDateString("de-DE")}
+            </div>
+          )}
+          {request.decidedBy && (
+            <div className="text-xs text-muted-foreground mt-1">
+              {request.decidedBy}, {new Date(request.decidedAt!).toLocaleDateString("de-DE")}
+              {request.decisionNote && `: ${request.decisionNote}`}
+            </div>
+          )}
+        </div>
+        {request.status === "pending" && (
+          <div className="flex gap-1 shrink-0">
+            {me?.id === request.staffId && (
+              <Button size="sm" variant="ghost" onClick={() => handleWithdraw(request)}>Zurückziehen</Button>
+            )}
+            {me != null && me.id === request.targetStaffId && request.type === "swap" && (
+              <>
+                {awaitsColleague(request) && (
+                  <Button size="sm" onClick={() => handleConsent(request, "accept")} data-testid={`button-accept-${request.id}`}>Annehmen</Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => handleConsent(request, "decline")}>Ablehnen</Button>
+              </>
+            )}
+            {can("schedule", "edit") && (
+              <DecisionDialog request={request} description={describeRequest(request, staffById)} onSaved={handleChanged} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-4">
+      {me ? (
+        <div className="flex gap-2 justify-end">
+          <VacationRequestDialog onSaved={handleChanged} />
+          <SwapRequestDialog me={me} staff={staff} onSaved={handleChanged} />
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Ihrem Konto ist kein Mitarbeiter zugeordnet, daher können Sie keine Anträge stellen.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Offen</h3>
+        {pending.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">Keine offenen Anträge</div>
+        ) : pending.map(renderRequest)}
+      </div>
+
+      {decided.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Entschieden</h3>
+          {decided.slice(0, 20).map(renderRequest)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VacationRequestDialog({ onSaved }: { onSaved: () => void }) {
+  const today = isoDate(new Date());
+  const [open, setOpen] = useState(false);
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await postRequestAction("/api/schedule-requests", { type: "vacation", startDate, endDate, note: note || null });
+      toast({ title: "Urlaub beantragt" });
+      setOpen(false);
+      setNote("");
+      onSaved();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="gap-1" data-testid="button-request-vacation">
+          <Palmtree className="h-4 w-4" /> Urlaub beantragen
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Urlaub beantragen</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Von</Label>
+              <Input type="date" min={today} value={startDate} onChange={(e) => setStartDate(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label>Bis</Label>
+              <Input type="date" min={startDate} value={endDate} onChange={(e) => setEndDate(e.target.value)} required />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Höchstens {MAX_VACATION_REQUEST_DAYS} Tage pro Antrag. Eingetragen werden Montag bis Freitag und Tage mit geplantem Dienst.
+          </p>
+          <div className="space-y-2">
+            <Label>Bemerkung</Label>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+          </div>
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Beantragen
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SwapRequestDialog({ me, staff, onSaved }: { me: StaffMember; staff: StaffMember[]; onSaved: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<ShiftEntry[]>([]);
+  const [shiftTypes, setShiftTypes] = useState<ShiftTypeTimes[]>([]);
+  const [entryId, setEntryId] = useState("");
+  const [targetStaffId, setTargetStaffId] = useState("");
+  const [targetEntryId, setTargetEntryId] = useState("none");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    const start = isoDate(new Date());
+    const end = isoDate(new Date(Date.now() + SWAP_DAYS_AHEAD * 24 * 60 * 60 * 1000));
+    Promise.all([fetch(`/api/schedule?start=${start}&end=${end}`), fetch("/api/shift-types")])
+      .then(async ([entriesRes, shiftTypesRes]) => {
+        const all: ShiftEntry[] = await entriesRes.json();
+        setEntries(all.filter(e => e.type === "shift").sort((a, b) => a.date.localeCompare(b.date)));
+        setShiftTypes(await shiftTypesRes.json());
+      })
+      .catch(error => console.error("Failed to fetch shifts:", error));
+  }, [open]);
+
+  const shiftLabel = (entry: ShiftEntry) => {
+    const shiftType = shiftTypes.find(st => st.id === entry.shiftTypeId);
+    return shiftType
+      ? `${formatDay(entry.date)} ${shiftType.name} (${shiftType.startTime.substring(0, 5)}–${shiftType.endTime.substring(0, 5)})`
+      : `${formatDay(entry.date)} Dienst`;
+  };
+  const ownShifts = entries.filter(e => e.staffId === me.id);
+  const colleagueShifts = entries.filter(e => String(e.staffId) === targetStaffId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entryId || !targetStaffId) {
+      toast({ title: "Bitte Dienst und Mitarbeiter wählen", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      await postRequestAction("/api/schedule-requests", {
+        type: "swap",
+        entryId: parseInt(entryId, 10),
+        targetStaffId: parseInt(targetStaffId, 10),
+        targetEntryId: targetEntryId === "none" ? null : parseInt(targetEntryId, 10),
+        note: note || null,
+      });
+      toast({ title: "Tausch beantragt" });
+      setOpen(false);
+      setEntryId("");
+      setTargetStaffId("");
+      setTargetEntryId("none");
+      setNote("");
+      onSaved();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-1" data-testid="button-request-swap">
+          <ArrowLeftRight className="h-4 w-4" /> Dienst tauschen
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Diensttausch beantragen</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Mein Dienst</Label>
+            <Select value={entryId} onValueChange={setEntryId}>
+              <SelectTrigger><SelectValue placeholder={ownShifts.length === 0 ? "Keine geplanten Dienste" : "Dienst wählen"} /></SelectTrigger>
+              <SelectContent>
+                {ownShifts.map(entry => (
+                  <SelectItem key={entry.id} value={String(entry.id)}>{shiftLabel(entry)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Mit</Label>
+            <Select value={targetStaffId} onValueChange={(v) => { setTargetStaffId(v); setTargetEntryId("none"); }}>
+              <SelectTrigger><SelectValue placeholder="Mitarbeiter wählen" /></SelectTrigger>
+              <SelectContent>
+                {staff.filter(member => member.id !== me.id).map(member => (
+                  <SelectItem key={member.id} value={String(member.id)}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Im Tausch gegen</Label>
+            <Select value={targetEntryId} onValueChange={setTargetEntryId} disabled={!targetStaffId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Kein Gegendienst (Übernahme)</SelectItem>
+                {colleagueShifts.map(entry => (
+                  <SelectItem key={entry.id} value={String(entry.id)}>{shiftLabel(entry)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Bemerkung</Label>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+          </div>
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Beantragen
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DecisionDialog({ request, description, onSaved }: { request: ScheduleRequest; description: string; onSaved: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const decide = async (decision: "approve" | "reject") => {
+    setSaving(true);
+    try {
+      const result = await postRequestAction(`/api/schedule-requests/${request.id}/${decision}`, { note: note || null });
+      const warnings = result.warnings ?? [];
+      toast({
+        title: decision === "approve" ? "Antrag genehmigt" : "Antrag abgelehnt",
+        description: warnings.length > 0 ? warnings.map(w => w.message).join("\n") : undefined,
+      });
+      setOpen(false);
+      onSaved();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" data-testid={`button-decide-${request.id}`}>Entscheiden</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{SCHEDULE_REQUEST_TYPE_LABELS[request.type]} von {request.requestedBy}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm">{description}</p>
+          {request.note && <p className="text-sm text-muted-foreground">„{request.note}“</p>}
+          <p className="text-xs text-muted-foreground">
+            {request.type === "vacation"
+              ? "Beim Genehmigen werden die Einträge dieser Tage durch Urlaub ersetzt."
+              : awaitsColleague(request)
+                ? "Der Kollege hat dem Tausch noch nicht zugestimmt, genehmigen ist erst danach möglich."
+                : "Beim Genehmigen werden die Dienste umgetragen und gegen die Dienstplan-Regeln geprüft."}
+          </p>
+          <div className="space-y-2">
+            <Label>Bemerkung</Label>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" disabled={saving} onClick={() => decide("reject")}>Ablehnen</Button>
+            <Button disabled={saving || awaitsColleague(request)} onClick={() => decide("approve")}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Genehmigen
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,6 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { DEFAULT_PERMISSIONS, hasPermission, type PermissionAction, type PermissionMatrix, type PermissionResource } from "@shared/permissions";
+import { DEFAULT_MODULE_VISIBILITY, isAppModule, isModuleVisible, type AppModule, type ModuleVisibility } from "@shared/modules";
 
 interface User {
   id: string;
@@ -19,6 +21,11 @@ interface AuthContextType {
   refreshUser: () => Promise<void>;
   isAdmin: boolean;
   needsSetup: boolean;
+  permissions: PermissionMatrix;
+  modules: ModuleVisibility;
+  can: (resource: PermissionResource, action: PermissionAction) => boolean;
+  canSee: (module: AppModule) => boolean;
+  refreshPermissions: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -27,6 +34,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [needsSetup, setNeedsSetup] = useState(false);
+  const [permissions, setPermissions] = useState<PermissionMatrix>(DEFAULT_PERMISSIONS);
+  const [modules, setModules] = useState<ModuleVisibility>(DEFAULT_MODULE_VISIBILITY);
 
   const checkAuth = async () => {
     try {
@@ -59,6 +68,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkAuth();
   }, []);
 
+  // Matrix and module visibility are adjustable by admins, so they are loaded from the server (defaults until then)
+  const refreshPermissions = async () => {
+    try {
+      const [permissionsRes, modulesRes] = await Promise.all([fetch("/api/permissions"), fetch("/api/modules")]);
+      if (permissionsRes.ok) {
+        setPermissions(await permissionsRes.json());
+      }
+      if (modulesRes.ok) {
+        setModules(await modulesRes.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch permissions:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) refreshPermissions();
+  }, [user?.id]);
+
   const login = async (email: string, password: string) => {
     try {
       const res = await fetch("/api/auth/login", {
@@ -126,9 +154,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const isAdmin = user?.role === "admin";
+  const canSee = (module: AppModule) => !!user && isModuleVisible(user.role, module, modules);
+  // Mirrors requirePermission: matrix entry and, for resources that are modules, visibility
+  const can = (resource: PermissionResource, action: PermissionAction) =>
+    !!user && hasPermission(user.role, resource, action, permissions) && (!isAppModule(resource) || canSee(resource));
 
   return (
-    <AuthContext.Provider value={{ user, loading, login, logout, register, setup, refreshUser, isAdmin, needsSetup }}>
+    <AuthContext.Provider value={{ user, loading, login, logout, register, setup, refreshUser, isAdmin, needsSetup, permissions, modules, can, canSee, refreshPermissions }}>
       {children}
     </AuthContext.Provider>
   );
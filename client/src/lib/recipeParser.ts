@@ -1,5 +1,7 @@
 // Parse OCR text into structured recipe data
 
+import { canonicalUnit } from "@shared/units";
+
 export interface ParsedRecipe {
   name: string;
   ingredients: { name: string; amount: number; unit: string }[];
@@ -100,7 +102,7 @@ export function parseRecipeText(text: string): ParsedRecipe {
     if (match) {
       ingredients.push({
         amount: parseAmount(match[1]),
-        unit: match[2] || "Stk",
+        unit: canonicalUnit(match[2] || "Stk"),
         name: match[3].trim(),
       });
     }
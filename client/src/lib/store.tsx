@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect } from "react";
 import { AllergenCode } from "./i18n";
+import { useAuth } from "./auth";
 
 // Types matching the backend
 export type Category = "ClearSoups" | "CreamSoups" | "MainMeat" | "MainVegan" | "Sides" | "ColdSauces" | "HotSauces" | "Salads" | "HotDesserts" | "ColdDesserts";
@@ -7,12 +8,21 @@ export type Category = "ClearSoups" | "CreamSoups" | "MainMeat" | "MainVegan" |
 export interface Ingredient {
   id?: number;
   recipeId?: number;
+  articleId?: number | null;
   name: string;
   amount: number;
   unit: string;
   allergens: AllergenCode[];
 }
 
+export interface RecipeCost {
+  total: number;
+  perPortion: number;
+  salesPrice: number | null;
+  foodCostPercent: number | null;
+  missing: string[];
+}
+
 export interface Recipe {
   id: number;
   name: string;
@@ -23,18 +33,32 @@ export interface Recipe {
   sourceUrl: string | null;
   steps: string[];
   allergens: AllergenCode[];
+  // Manual additions; allergens = ingredient allergens + declaredAllergens + mayContain
+  declaredAllergens?: AllergenCode[];
+  mayContain?: AllergenCode[];
   ingredientsList?: Ingredient[];
   // R2-T3: Tags for filtering
   tags?: string[];
   // R2-T4: Last modification timestamp
   updatedAt?: string;
+  // Ingredient names without article match (returned by create/import)
+  unmatchedIngredients?: string[];
+  // Net sales price per portion and computed material cost
+  salesPrice?: number | null;
+  cost?: RecipeCost;
 }
 
+// HACCP control point (fridge, core temperature, cooling, goods receiving, fryer oil)
 export interface Fridge {
   id: number;
   name: string;
+  type?: string;
   tempMin: number;
   tempMax: number;
+  limitMinutes?: number | null;
+  // Daily measurement slots ("HH:MM") and the window a reading may deviate from them
+  checkTimes?: string[];
+  checkToleranceMinutes?: number;
 }
 
 export interface HaccpLog {
@@ -45,6 +69,84 @@ export interface HaccpLog {
   user: string;
   status: string;
   notes: string | null;
+  item?: string | null;
+  startTemperature?: number | null;
+  startedAt?: string | null;
+  userId?: string | null;
+  correctsLogId?: number | null;
+  correctionReason?: string | null;
+  sensorId?: number | null;
+  hash?: string | null;
+}
+
+// Values of a new reading; user, time and status are set by the server
+export type NewHaccpReading = Pick<HaccpLog, 'fridgeId' | 'temperature' | 'notes' | 'item' | 'startTemperature' | 'startedAt'>;
+
+export interface HaccpCorrectiveAction {
+  id: number;
+  logId: number;
+  action: string;
+  remeasuredTemperature: number | null;
+  responsibleUser: string;
+  timestamp: string;
+  userId: string | null;
+}
+
+export interface MeasurementSlot {
+  date: string;
+  time: string;
+  fridgeId: number;
+  fridgeName: string;
+  status: "done" | "missed" | "pending";
+  logId: number | null;
+}
+
+export interface MeasurementScheduleReport {
+  start: string;
+  end: string;
+  totalMissed: number;
+  days: { date: string; due: number; done: number; missed: number; pending: number }[];
+  missed: MeasurementSlot[];
+  slots: MeasurementSlot[];
+}
+
+// Trend and statistics per control point from /api/haccp/stats (aggregated per hour or day)
+export interface HaccpFridgeStats {
+  fridgeId: number;
+  fridgeName: string;
+  type: string;
+  unit: string;
+  limits: string;
+  tempMin: number;
+  tempMax: number;
+  count: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  inRangePercent: number | null;
+  deviations: number;
+  series: { time: string; count: number; avg: number; min: number; max: number; deviations: number }[];
+}
+
+export interface HaccpStatsReport {
+  start: string;
+  end: string;
+  bucket: "hour" | "day";
+  fridges: HaccpFridgeStats[];
+}
+
+// Out-of-range reading with its follow-up, resolved once a re-measurement is in range
+export interface HaccpDeviation {
+  log: HaccpLog;
+  fridgeName: string;
+  type: string;
+  unit: string;
+  limits: string;
+  tempMin: number;
+  tempMax: number;
+  actions: HaccpCorrectiveAction[];
+  resolved: boolean;
+  resolvedAt: string | null;
 }
 
 interface AppState {
@@ -59,7 +161,7 @@ interface AppState {
   addFridge: (fridge: Omit<Fridge, 'id'>) => Promise<Fridge>;
   updateFridge: (id: number, fridge: Partial<Fridge>) => Promise<Fridge>;
   deleteFridge: (id: number) => Promise<void>;
-  addLog: (log: Omit<HaccpLog, 'id'>) => Promise<HaccpLog>;
+  addLog: (log: NewHaccpReading) => Promise<HaccpLog>;
   getFridgeName: (id: number) => string;
   refetch: () => Promise<void>;
 }
@@ -71,19 +173,23 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const [fridges, setFridges] = useState<Fridge[]>([]);
   const [logs, setLogs] = useState<HaccpLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [seeded, setSeeded] = useState(false);
+  const { user, canSee } = useAuth();
+  const showRecipes = canSee("recipes");
+  const showHaccp = canSee("haccp");
 
   const fetchAll = async () => {
     try {
-      const [recipesRes, fridgesRes, logsRes] = await Promise.all([
-        fetch('/api/recipes'),
-        fetch('/api/fridges'),
-        fetch('/api/haccp-logs')
-      ]);
-      
+      // Hidden modules are not fetched; a list the user may not see (403) or that failed loads as empty
+      const listOf = async <T,>(url: string, visible: boolean): Promise<T[]> => {
+        if (!visible) return [];
+        const res = await fetch(url);
+        return res.ok ? res.json() : [];
+      };
       const [recipesData, fridgesData, logsData] = await Promise.all([
-        recipesRes.json(),
-        fridgesRes.json(),
-        logsRes.json()
+        listOf<Recipe>('/api/recipes', showRecipes),
+        listOf<Fridge>('/api/fridges', showHaccp),
+        listOf<HaccpLog>('/api/haccp-logs', showHaccp)
       ]);
 
       setRecipes(recipesData);
@@ -98,9 +204,14 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
 
   useEffect(() => {
     // Seed data on first load
-    fetch('/api/seed', { method: 'POST' }).then(() => fetchAll());
+    fetch('/api/seed', { method: 'POST' }).finally(() => setSeeded(true));
   }, []);
 
+  // Visibility depends on the user and the admin's module settings
+  useEffect(() => {
+    if (seeded) fetchAll();
+  }, [seeded, user?.id, showRecipes, showHaccp]);
+
   const addRecipe = async (recipe: Omit<Recipe, 'id'> & { ingredientsList?: Ingredient[] }): Promise<Recipe> => {
     const res = await fetch('/api/recipes', {
       method: 'POST',
@@ -170,13 +281,14 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     await fetchAll();
   };
 
-  const addLog = async (log: Omit<HaccpLog, 'id'>): Promise<HaccpLog> => {
+  const addLog = async (log: NewHaccpReading): Promise<HaccpLog> => {
     const res = await fetch('/api/haccp-logs', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(log)
     });
     const created = await res.json();
+    if (!res.ok) throw new Error(created.error);
     await fetchAll();
     return created;
   };
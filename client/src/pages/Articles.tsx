@@ -0,0 +1,387 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { ALLERGENS, AllergenCode, useTranslation } from "@/lib/i18n";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Loader2, PlusCircle, Pencil, Trash2, Search, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+
+interface Article {
+  id: number;
+  name: string;
+  synonyms: string[];
+  defaultUnit: string;
+  allergens: string[];
+  supplier: string | null;
+  price: number | null;
+}
+
+interface UnmatchedIngredient {
+  id: number;
+  recipeId: number;
+  recipeName: string | null;
+  name: string;
+  amount: number;
+  unit: string;
+  allergens: string[];
+  suggestions: { id: number; name: string; score: number }[];
+}
+
+const UNITS = ["kg", "g", "l", "ml", "Stk", "Bund", "Pkg", "Dose"];
+
+export default function Articles() {
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [unmatched, setUnmatched] = useState<UnmatchedIngredient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const { can } = useAuth();
+
+  const fetchData = async () => {
+    try {
+      const [articlesRes, unmatchedRes] = await Promise.all([
+        fetch('/api/articles'),
+        fetch('/api/articles/unmatched')
+      ]);
+      setArticles(await articlesRes.json());
+      setUnmatched(await unmatchedRes.json());
+    } catch (error) {
+      console.error('Failed to fetch articles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const term = search.toLowerCase();
+  const filtered = articles.filter(a =>
+    a.name.toLowerCase().includes(term) || a.synonyms.some(s => s.toLowerCase().includes(term))
+  );
+
+  return (
+    <div className="p-4 space-y-4 pb-24">
+      <div className="flex items-center gap-3">
+        <Link href="/recipes">
+          <Button variant="ghost" size="icon" className="shrink-0">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-heading font-bold">Artikel</h1>
+        {can("articles", "edit") && (
+          <div className="ml-auto">
+            <ArticleDialog onSave={fetchData} />
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <Tabs defaultValue="catalog" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="catalog">Katalog ({articles.length})</TabsTrigger>
+            <TabsTrigger value="review">
+              Zu prüfen
+              {unmatched.length > 0 && <Badge variant="destructive" className="ml-1 h-4 px-1 text-[10px]">{unmatched.length}</Badge>}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="catalog" className="mt-4 space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Artikel suchen..."
+                className="pl-9 bg-secondary/50 border-0"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            {filtered.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Keine Artikel vorhanden</div>
+            ) : (
+              <div className="space-y-2">
+                {filtered.map(article => (
+                  <ArticleRow key={article.id} article={article} onSave={fetchData} />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="review" className="mt-4 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Zutaten, die beim Import keinem Artikel zugeordnet werden konnten.
+            </p>
+            {unmatched.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Alle Zutaten sind zugeordnet</div>
+            ) : (
+              unmatched.map(ing => (
+                <UnmatchedRow key={ing.id} ingredient={ing} articles={articles} onSave={fetchData} />
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
+
+function ArticleRow({ article, onSave }: { article: Article; onSave: () => void }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const handleDelete = async () => {
+    if (!confirm(`Artikel "${article.name}" wirklich löschen? Verknüpfte Zutaten müssen danach neu zugeordnet werden.`)) return;
+    try {
+      await fetch(`/api/articles/${article.id}`, { method: 'DELETE' });
+      toast({ title: "Gelöscht" });
+      onSave();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-3 flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-medium flex items-center gap-1 flex-wrap">
+            {article.name}
+            {article.allergens.map(code => (
+              <span key={code} className="text-[10px] text-destructive font-bold px-1 border border-destructive/30 rounded font-mono">{code}</span>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground truncate">
+            {article.price != null ? `€ ${article.price.toFixed(2)} / ${article.defaultUnit}` : article.defaultUnit}
+            {article.supplier ? ` • ${article.supplier}` : ''}
+            {article.synonyms.length > 0 ? ` • ${article.synonyms.join(', ')}` : ''}
+          </div>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          {can("articles", "edit") && <ArticleDialog article={article} onSave={onSave} />}
+          {can("articles", "delete") && (
+            <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function UnmatchedRow({ ingredient, articles, onSave }: {
+  ingredient: UnmatchedIngredient;
+  articles: Article[];
+  onSave: () => void;
+}) {
+  const [articleId, setArticleId] = useState(ingredient.suggestions[0] ? String(ingredient.suggestions[0].id) : "");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const link = async (id: number) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/ingredients/${ingredient.id}/article`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ articleId: id, addSynonym: true })
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      toast({ title: "Zugeordnet" });
+      onSave();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const createAndLink = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/articles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: ingredient.name.trim(), defaultUnit: ingredient.unit, allergens: ingredient.allergens })
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const created = await res.json();
+      await link(created.id);
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-3 space-y-2">
+        <div className="flex justify-between items-start">
+          <div>
+            <div className="font-medium">{ingredient.name}</div>
+            <div className="text-xs text-muted-foreground">{ingredient.recipeName || '-'} • {ingredient.amount} {ingredient.unit}</div>
+          </div>
+        </div>
+        {can("recipes", "edit") && (
+          <div className="flex gap-2">
+            <Select value={articleId} onValueChange={setArticleId}>
+              <SelectTrigger className="h-8 text-xs flex-1">
+                <SelectValue placeholder="Artikel wählen..." />
+              </SelectTrigger>
+              <SelectContent className="max-h-60">
+                {ingredient.suggestions.map(s => (
+                  <SelectItem key={`s-${s.id}`} value={String(s.id)}>★ {s.name}</SelectItem>
+                ))}
+                {articles.filter(a => !ingredient.suggestions.some(s => s.id === a.id)).map(a => (
+                  <SelectItem key={a.id} value={String(a.id)}>{a.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-8" disabled={!articleId || saving} onClick={() => link(parseInt(articleId))}>
+              <Check className="h-3.5 w-3.5" />
+            </Button>
+            {can("articles", "edit") && (
+              <Button size="sm" variant="outline" className="h-8 text-xs" disabled={saving} onClick={createAndLink}>
+                Neu anlegen
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ArticleDialog({ article, onSave }: { article?: Article; onSave: () => void }) {
+  const { lang } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(article?.name || "");
+  const [synonyms, setSynonyms] = useState(article?.synonyms.join(", ") || "");
+  const [defaultUnit, setDefaultUnit] = useState(article?.defaultUnit || "kg");
+  const [allergens, setAllergens] = useState<string[]>(article?.allergens || []);
+  const [supplier, setSupplier] = useState(article?.supplier || "");
+  const [price, setPrice] = useState(article?.price != null ? String(article.price) : "");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const toggleAllergen = (code: string) => {
+    setAllergens(prev => prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code].sort());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const body = {
+        name: name.trim(),
+        synonyms: synonyms.split(",").map(s => s.trim()).filter(Boolean),
+        defaultUnit,
+        allergens,
+        supplier: supplier.trim() || null,
+        price: price ? parseFloat(price.replace(",", ".")) : null
+      };
+      const res = await fetch(article ? `/api/articles/${article.id}` : '/api/articles', {
+        method: article ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      toast({ title: "Gespeichert" });
+      setOpen(false);
+      if (!article) {
+        setName("");
+        setSynonyms("");
+        setAllergens([]);
+        setSupplier("");
+        setPrice("");
+      }
+      onSave();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {article ? (
+          <Button size="icon" variant="ghost" className="h-8 w-8">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button size="sm" className="gap-1">
+            <PlusCircle className="h-4 w-4" /> Neuer Artikel
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-sm max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{article ? "Artikel bearbeiten" : "Artikel anlegen"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="z.B. Zwiebel" required />
+          </div>
+          <div className="space-y-2">
+            <Label>Synonyme (kommagetrennt)</Label>
+            <Input value={synonyms} onChange={(e) => setSynonyms(e.target.value)} placeholder="Zwiebeln, Speisezwiebel" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Einheit</Label>
+              <Select value={defaultUnit} onValueChange={setDefaultUnit}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {UNITS.map(u => <SelectItem key={u} value={u}>{u}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Preis (€ / {defaultUnit})</Label>
+              <Input type="number" step="0.01" min="0" value={price} onChange={(e) => setPrice(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Lieferant</Label>
+            <Input value={supplier} onChange={(e) => setSupplier(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Allergene</Label>
+            <div className="flex flex-wrap gap-1">
+              {Object.keys(ALLERGENS).map(code => (
+                <Badge
+                  key={code}
+                  variant={allergens.includes(code) ? "destructive" : "outline"}
+                  className="cursor-pointer font-mono"
+                  title={ALLERGENS[code as AllergenCode]?.[lang]}
+                  onClick={() => toggleAllergen(code)}
+                >
+                  {code}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Speichern
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
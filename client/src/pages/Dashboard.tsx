@@ -1,16 +1,31 @@
-import { useApp } from "@/lib/store";
+import { useState, useEffect } from "react";
+import { useApp, MeasurementScheduleReport } from "@/lib/store";
 import { useTranslation } from "@/lib/i18n";
 import { Badge } from "@/components/ui/badge";
 import { ChefHat, ThermometerSnowflake, CheckCircle2, Loader2 } from "lucide-react";
 import { Link } from "wouter";
+import { format } from "date-fns";
+import { OpenDeviationsCard } from "@/components/HaccpDeviations";
+import { PendingRequestsCard } from "@/components/ScheduleRequests";
 
 export default function Dashboard() {
   const { recipes, logs, fridges, loading } = useApp();
   const { t } = useTranslation();
 
+  const [schedule, setSchedule] = useState<MeasurementScheduleReport | null>(null);
+
   const warnings = logs.filter(l => l.status === "WARNING" || l.status === "CRITICAL").length;
-  const todaysLogs = logs.filter(l => new Date(l.timestamp).toDateString() === new Date().toDateString()).length;
-  const pendingChecks = Math.max(0, fridges.length * 2 - todaysLogs);
+
+  // Today's scheduled measurement slots that have no reading yet
+  useEffect(() => {
+    const today = format(new Date(), "yyyy-MM-dd");
+    fetch(`/api/haccp/missed-checks?start=${today}&end=${today}`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setSchedule)
+      .catch(error => console.error("Failed to fetch measurement schedule:", error));
+  }, [logs.length, fridges.length]);
+
+  const pendingChecks = schedule ? schedule.days.reduce((sum, d) => sum + d.pending + d.missed, 0) : 0;
 
   if (loading) {
     return (
@@ -52,6 +67,10 @@ export default function Dashboard() {
         </Link>
       </div>
 
+      <OpenDeviationsCard linkToHaccp />
+
+      <PendingRequestsCard />
+
       {/* Quick Actions */}
       <div>
         <h2 className="text-lg font-heading font-semibold mb-3">{t("quickActions")}</h2>
@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Printer, FileDown } from "lucide-react";
+import { GUEST_LANGUAGES, GUEST_MENU_TEXTS, type GuestLanguage } from "@shared/guestMenu";
+
+interface GuestDish {
+  course: string;
+  courseLabel: string;
+  name: string;
+  allergens: { code: string; name: string }[];
+  mayContain: { code: string; name: string }[];
+  tags: string[];
+}
+
+interface GuestMenu {
+  date: string;
+  lang: GuestLanguage;
+  meals: { meal: string; label: string; dishes: GuestDish[] }[];
+}
+
+const LANGUAGE_LABELS: Record<GuestLanguage, string> = {
+  de: "Deutsch",
+  en: "English",
+  tr: "Türkçe",
+  uk: "Українська",
+};
+
+// Public, read-only menu for guests; reachable without login via a share token
+export default function GuestMenuPage() {
+  const { token } = useParams<{ token: string }>();
+  const [lang, setLang] = useState<GuestLanguage>("de");
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [menu, setMenu] = useState<GuestMenu | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const texts = GUEST_MENU_TEXTS[lang];
+
+  useEffect(() => {
+    const fetchMenu = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/public/menu/${token}?date=${date}&lang=${lang}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setMenu(data);
+        setError(null);
+      } catch (err: any) {
+        setMenu(null);
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchMenu();
+  }, [token, date, lang]);
+
+  const formattedDate = new Date(`${date}T12:00:00`).toLocaleDateString(lang === "uk" ? "uk-UA" : lang, {
+    weekday: "long", day: "numeric", month: "long", year: "numeric",
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-heading font-bold text-primary">{texts.title}</h1>
+          <div className="flex gap-1 print:hidden">
+            {GUEST_LANGUAGES.map(code => (
+              <Button
+                key={code}
+                size="sm"
+                variant={lang === code ? "default" : "outline"}
+                onClick={() => setLang(code)}
+                data-testid={`guest-lang-${code}`}
+              >
+                {LANGUAGE_LABELS[code]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 print:hidden">
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-40" />
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-1" /> {texts.print}
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/public/menu/${token}/signs?date=${date}&lang=${lang}`}>
+              <FileDown className="h-4 w-4 mr-1" /> {texts.signs}
+            </a>
+          </Button>
+        </div>
+
+        <div className="text-muted-foreground">{formattedDate}</div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">{error}</CardContent>
+          </Card>
+        ) : !menu || menu.meals.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">{texts.noMenu}</CardContent>
+          </Card>
+        ) : (
+          menu.meals.map(meal => (
+            <Card key={meal.meal} className="break-inside-avoid">
+              <CardHeader className="py-3">
+                <CardTitle className="text-lg">{meal.label}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {meal.dishes.map((dish, i) => (
+                  <div key={`${dish.course}-${i}`} className="border-l-4 border-primary pl-3">
+                    <div className="text-xs uppercase text-muted-foreground">{dish.courseLabel}</div>
+                    <div className="font-semibold text-base">{dish.name}</div>
+                    {dish.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {dish.tags.map(tag => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+                      </div>
+                    )}
+                    <div className="text-sm mt-1">
+                      {dish.allergens.length > 0 ? (
+                        <>
+                          <span className="font-medium">{texts.allergens}: </span>
+                          {dish.allergens.map(a => `${a.code} ${a.name}`).join(", ")}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">{texts.noAllergens}</span>
+                      )}
+                    </div>
+                    {dish.mayContain.length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {texts.mayContain}: {dish.mayContain.map(a => `${a.code} ${a.name}`).join(", ")}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,21 @@
 import { useState, useEffect } from "react";
+import { useApp } from "@/lib/store";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, Users, Baby, ChevronLeft, ChevronRight, PlusCircle, Pencil, Trash2, Download, FileSpreadsheet, Calendar } from "lucide-react";
+import { Loader2, Users, Baby, ChevronLeft, ChevronRight, PlusCircle, Pencil, Trash2, Download, FileSpreadsheet, Calendar, FileText, X, ArrowRightLeft, CalendarCheck, Wand2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { CateringRevenueCard } from "@/components/CateringRevenue";
+import { GuestImportDialog } from "@/components/GuestImport";
+import { CATERING_STATUSES, CATERING_STATUS_LABELS, CATERING_STATUS_TRANSITIONS, isCateringBooked, type CateringStatus } from "@shared/catering";
 
 interface GuestCount {
   id: number;
@@ -17,8 +24,26 @@ interface GuestCount {
   adults: number;
   children: number;
   notes: string | null;
+  isForecast: boolean;
 }
 
+// Forecast of one day and meal from /api/guests/forecast
+interface GuestForecast {
+  date: string;
+  meal: string;
+  adults: number;
+  children: number;
+  basis: "weekday" | "lastYear" | "both";
+  samples: number;
+  actual: { adults: number; children: number } | null;
+}
+
+const FORECAST_BASIS_LABELS: Record<GuestForecast["basis"], string> = {
+  weekday: "Wochentage der letzten Wochen",
+  lastYear: "Vorjahreszeitraum",
+  both: "Wochentage und Vorjahreszeitraum",
+};
+
 interface CateringEvent {
   id: number;
   clientName: string;
@@ -26,10 +51,87 @@ interface CateringEvent {
   date: string;
   time: string;
   personCount: number;
-  dishes: string[];
   notes: string | null;
+  status: CateringStatus;
+  pricePerPerson: number | null;
+  depositAmount: number | null;
+  quoteNumber: string | null;
+  quotedAt: string | null;
+  invoiceNumber: string | null;
+  invoicedAt: string | null;
+  dishList: CateringDish[];
+  extras: CateringExtra[];
+  cost?: {
+    total: number;
+    perPerson: number;
+    dishes: { name: string; recipeId: number | null; portions: number; perPortion: number | null; total: number | null }[];
+  };
+  price: { base: number | null; extras: number; total: number | null; deposit: number; balance: number | null };
+}
+
+interface CateringExtra {
+  id: number;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+interface CateringDish {
+  id: number;
+  recipeId: number | null;
+  name: string;
+  portions: number;
+  notes: string | null;
+}
+
+// Dish row while editing; portions stay a string until saved
+interface DishDraft {
+  recipeId: number | null;
+  name: string;
+  portions: string;
+  notes: string;
 }
 
+function toDishDrafts(dishes: CateringDish[]): DishDraft[] {
+  return dishes.map(d => ({ recipeId: d.recipeId, name: d.name, portions: String(d.portions), notes: d.notes ?? "" }));
+}
+
+function toDishList(drafts: DishDraft[]) {
+  return drafts
+    .filter(d => d.recipeId != null || d.name.trim())
+    .map(d => ({ recipeId: d.recipeId, name: d.name.trim(), portions: parseInt(d.portions) || 0, notes: d.notes.trim() || null }));
+}
+
+// Extra row while editing; numbers stay strings until saved
+interface ExtraDraft {
+  name: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+function toExtraDrafts(extras: CateringExtra[]): ExtraDraft[] {
+  return extras.map(e => ({ name: e.name, quantity: String(e.quantity), unitPrice: String(e.unitPrice) }));
+}
+
+function toExtraList(drafts: ExtraDraft[]) {
+  return drafts
+    .filter(e => e.name.trim())
+    .map(e => ({ name: e.name.trim(), quantity: parseFloat(e.quantity) || 1, unitPrice: parseFloat(e.unitPrice) || 0 }));
+}
+
+const parsePrice = (value: string) => value.trim() === "" ? null : parseFloat(value);
+
+const formatEuro = (value: number) => `€ ${value.toFixed(2)}`;
+
+const STATUS_BADGE_CLASSES: Record<CateringStatus, string> = {
+  inquiry: "bg-slate-100 text-slate-700 border-slate-200",
+  quoted: "bg-blue-100 text-blue-700 border-blue-200",
+  confirmed: "bg-orange-100 text-orange-700 border-orange-200",
+  done: "bg-violet-100 text-violet-700 border-violet-200",
+  invoiced: "bg-green-100 text-green-700 border-green-200",
+  cancelled: "bg-red-100 text-red-700 border-red-200 line-through",
+};
+
 const MEALS = [
   { key: "breakfast", de: "Frühstück", en: "Breakfast" },
   { key: "lunch", de: "Mittagessen", en: "Lunch" },
@@ -70,23 +172,27 @@ function getMonthDates(baseDate: Date): Date[] {
 const WEEKDAYS = ["Mo", "Di", "Mi", "Do", "Fr", "Sa", "So"];
 
 export default function Guests() {
+  const { can } = useAuth();
+
   return (
     <div className="p-4 space-y-4 pb-24">
       <h1 className="text-2xl font-heading font-bold">Gäste & Catering</h1>
       
       <Tabs defaultValue="guests" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className={`grid w-full ${can("catering", "view") ? 'grid-cols-2' : 'grid-cols-1'}`}>
           <TabsTrigger value="guests">Gästezahlen</TabsTrigger>
-          <TabsTrigger value="catering">Catering</TabsTrigger>
+          {can("catering", "view") && <TabsTrigger value="catering">Catering</TabsTrigger>}
         </TabsList>
         
         <TabsContent value="guests" className="mt-4">
           <GuestCountsView />
         </TabsContent>
         
-        <TabsContent value="catering" className="mt-4">
-          <CateringView />
-        </TabsContent>
+        {can("catering", "view") && (
+          <TabsContent value="catering" className="mt-4">
+            <CateringView />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -95,9 +201,13 @@ export default function Guests() {
 function GuestCountsView() {
   const [baseDate, setBaseDate] = useState(new Date());
   const [counts, setCounts] = useState<GuestCount[]>([]);
+  const [cateringEvents, setCateringEvents] = useState<CateringEvent[]>([]);
+  const [forecasts, setForecasts] = useState<GuestForecast[]>([]);
+  const [prefilling, setPrefilling] = useState(false);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<"day" | "week" | "month">("week");
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const getDates = () => {
     if (viewMode === "day") return [baseDate];
@@ -112,9 +222,15 @@ function GuestCountsView() {
   const fetchCounts = async () => {
     setLoading(true);
     try {
-      const res = await fetch(`/api/guests?start=${startDate}&end=${endDate}`);
-      const data = await res.json();
-      setCounts(data);
+      const [guestsRes, cateringRes, forecastRes] = await Promise.all([
+        fetch(`/api/guests?start=${startDate}&end=${endDate}`),
+        fetch(`/api/catering?start=${startDate}&end=${endDate}`),
+        fetch(`/api/guests/forecast?start=${startDate}&end=${endDate}`),
+      ]);
+      setCounts(await guestsRes.json());
+      setForecasts(forecastRes.ok ? (await forecastRes.json()).entries : []);
+      const catering: CateringEvent[] = cateringRes.ok ? await cateringRes.json() : [];
+      setCateringEvents(catering.filter(e => isCateringBooked(e.status)));
     } catch (error) {
       console.error('Failed to fetch guests:', error);
       toast({ title: "Fehler beim Laden", variant: "destructive" });
@@ -131,6 +247,37 @@ function GuestCountsView() {
     return counts.find(c => c.date === date && c.meal === meal);
   };
 
+  const getForecast = (date: string, meal: string) => {
+    return forecasts.find(f => f.date === date && f.meal === meal);
+  };
+
+  // Writes the forecast into empty days of the visible range (from today on)
+  const handlePrefill = async () => {
+    setPrefilling(true);
+    try {
+      const res = await fetch('/api/guests/forecast/prefill', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ start: startDate, end: endDate })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      toast({
+        title: data.created + data.updated > 0 ? "Prognose übernommen" : "Keine leeren Tage",
+        description: data.created + data.updated > 0 ? `${data.created} neu, ${data.updated} aktualisiert` : undefined,
+      });
+      fetchCounts();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setPrefilling(false);
+    }
+  };
+
+  const getCateringPersons = (date: string) => {
+    return cateringEvents.filter(e => e.date === date).reduce((sum, e) => sum + e.personCount, 0);
+  };
+
   const navigate = (direction: number) => {
     const d = new Date(baseDate);
     if (viewMode === "day") d.setDate(d.getDate() + direction);
@@ -150,12 +297,15 @@ function GuestCountsView() {
   };
 
   const getTotalForPeriod = () => {
-    let adults = 0, children = 0;
+    let adults = 0, children = 0, catering = 0;
     for (const count of counts) {
       adults += count.adults;
       children += count.children;
     }
-    return { adults, children, total: adults + children };
+    for (const event of cateringEvents) {
+      catering += event.personCount;
+    }
+    return { adults, children, catering, total: adults + children + catering };
   };
 
   const periodTotals = getTotalForPeriod();
@@ -169,21 +319,39 @@ function GuestCountsView() {
           <ToggleGroupItem value="month" data-testid="toggle-view-month">Monat</ToggleGroupItem>
         </ToggleGroup>
         
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="outline" size="sm" className="gap-1" data-testid="button-export">
-              <Download className="h-4 w-4" /> Export
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent>
-            <DropdownMenuItem onClick={() => window.open(`/api/guest-counts/export?start=${startDate}&end=${endDate}&format=pdf`, '_blank')}>
-              <Download className="h-4 w-4 mr-2" /> PDF
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => window.open(`/api/guest-counts/export?start=${startDate}&end=${endDate}&format=xlsx`, '_blank')}>
-              <FileSpreadsheet className="h-4 w-4 mr-2" /> Excel
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+        <div className="flex gap-2">
+          {can("guests", "edit") && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={handlePrefill}
+                disabled={prefilling || endDate < formatDate(new Date())}
+                title="Leere Tage ab heute mit der Prognose vorbelegen"
+                data-testid="button-forecast-prefill"
+              >
+                {prefilling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />} Prognose
+              </Button>
+              <GuestImportDialog onImported={fetchCounts} />
+            </>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-1" data-testid="button-export">
+                <Download className="h-4 w-4" /> Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => window.open(`/api/guest-counts/export?start=${startDate}&end=${endDate}&format=pdf`, '_blank')}>
+                <Download className="h-4 w-4 mr-2" /> PDF
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => window.open(`/api/guest-counts/export?start=${startDate}&end=${endDate}&format=xlsx`, '_blank')}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" /> Excel
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </div>
 
       <div className="flex items-center justify-between">
@@ -201,7 +369,7 @@ function GuestCountsView() {
           <Loader2 className="h-6 w-6 animate-spin" />
         </div>
       ) : viewMode === "month" ? (
-        <MonthView dates={dates} counts={counts} getCount={getCount} onSave={fetchCounts} />
+        <MonthView dates={dates} counts={counts} getCount={getCount} getCateringPersons={getCateringPersons} onSave={fetchCounts} />
       ) : (
         <div className="space-y-4">
           {MEALS.map(meal => (
@@ -225,6 +393,7 @@ function GuestCountsView() {
                         dayNum={date.getDate()}
                         meal={meal.key}
                         count={count}
+                        forecast={getForecast(dateStr, meal.key)}
                         isToday={isToday}
                         onSave={fetchCounts}
                         showDayName={viewMode === "week"}
@@ -235,6 +404,33 @@ function GuestCountsView() {
               </CardContent>
             </Card>
           ))}
+          {cateringEvents.length > 0 && (
+            <Card>
+              <CardHeader className="py-2 px-3">
+                <CardTitle className="text-sm font-medium">Catering</CardTitle>
+              </CardHeader>
+              <CardContent className="p-2">
+                <div className={`grid gap-1 text-center text-xs ${viewMode === "day" ? "grid-cols-1" : "grid-cols-7"}`}>
+                  {dates.map(date => {
+                    const dateStr = formatDate(date);
+                    const events = cateringEvents.filter(e => e.date === dateStr);
+                    return (
+                      <div
+                        key={dateStr}
+                        className="p-1 rounded border border-border"
+                        title={events.map(e => `${e.time} ${e.eventName} (${e.personCount})`).join('\n')}
+                      >
+                        <div className="text-lg font-bold">{getCateringPersons(dateStr) || '-'}</div>
+                        {viewMode === "day" && events.map(e => (
+                          <div key={e.id} className="text-muted-foreground">{e.time} {e.eventName}</div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
 
@@ -254,6 +450,10 @@ function GuestCountsView() {
               <div className="text-lg font-medium">{periodTotals.children}</div>
               <div className="text-xs text-muted-foreground">Kinder</div>
             </div>
+            <div>
+              <div className="text-lg font-medium">{periodTotals.catering}</div>
+              <div className="text-xs text-muted-foreground">Catering</div>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -261,10 +461,11 @@ function GuestCountsView() {
   );
 }
 
-function MonthView({ dates, counts, getCount, onSave }: {
+function MonthView({ dates, counts, getCount, getCateringPersons, onSave }: {
   dates: Date[];
   counts: GuestCount[];
   getCount: (date: string, meal: string) => GuestCount | undefined;
+  getCateringPersons: (date: string) => number;
   onSave: () => void;
 }) {
   const firstDayOffset = dates[0].getDay() === 0 ? 6 : dates[0].getDay() - 1;
@@ -275,7 +476,7 @@ function MonthView({ dates, counts, getCount, onSave }: {
       const count = getCount(dateStr, meal.key);
       total += (count?.adults || 0) + (count?.children || 0);
     });
-    return total;
+    return total + getCateringPersons(dateStr);
   };
 
   return (
@@ -362,6 +563,7 @@ function MealInputRow({ date, meal, mealName, count, onSave }: {
   const [children, setChildren] = useState(String(count?.children || 0));
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const handleSave = async () => {
     setSaving(true);
@@ -384,23 +586,26 @@ function MealInputRow({ date, meal, mealName, count, onSave }: {
     <div className="space-y-1">
       <div className="text-sm font-medium">{mealName}</div>
       <div className="flex gap-2 items-center">
-        <Input type="number" value={adults} onChange={(e) => setAdults(e.target.value)} min="0" className="w-16 h-8 text-center" placeholder="Erw" />
+        <Input type="number" value={adults} onChange={(e) => setAdults(e.target.value)} min="0" className="w-16 h-8 text-center" placeholder="Erw" disabled={!can("guests", "edit")} />
         <span className="text-xs text-muted-foreground">+</span>
-        <Input type="number" value={children} onChange={(e) => setChildren(e.target.value)} min="0" className="w-16 h-8 text-center" placeholder="Kind" />
-        <Button size="sm" onClick={handleSave} disabled={saving} className="h-8">
-          {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : "OK"}
-        </Button>
+        <Input type="number" value={children} onChange={(e) => setChildren(e.target.value)} min="0" className="w-16 h-8 text-center" placeholder="Kind" disabled={!can("guests", "edit")} />
+        {can("guests", "edit") && (
+          <Button size="sm" onClick={handleSave} disabled={saving} className="h-8">
+            {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : "OK"}
+          </Button>
+        )}
       </div>
     </div>
   );
 }
 
-function GuestCell({ date, dayName, dayNum, meal, count, isToday, onSave, showDayName }: {
+function GuestCell({ date, dayName, dayNum, meal, count, forecast, isToday, onSave, showDayName }: {
   date: string;
   dayName: string;
   dayNum: number;
   meal: string;
   count: GuestCount | undefined;
+  forecast: GuestForecast | undefined;
   isToday: boolean;
   onSave: () => void;
   showDayName: boolean;
@@ -410,6 +615,7 @@ function GuestCell({ date, dayName, dayNum, meal, count, isToday, onSave, showDa
   const [children, setChildren] = useState(String(count?.children || 0));
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   useEffect(() => {
     setAdults(String(count?.adults || 0));
@@ -440,13 +646,19 @@ function GuestCell({ date, dayName, dayNum, meal, count, isToday, onSave, showDa
   };
 
   const total = (count?.adults || 0) + (count?.children || 0);
+  const forecastTotal = forecast ? forecast.adults + forecast.children : null;
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         <button className={`p-1 rounded border ${isToday ? 'border-primary bg-primary/10' : 'border-border'} hover:bg-secondary/50 transition-colors`}>
           {showDayName && <div className="text-[10px] text-muted-foreground">{dayName}</div>}
-          <div className="font-bold text-lg">{total || '-'}</div>
+          <div className={`font-bold text-lg ${count?.isForecast ? 'italic text-muted-foreground' : ''}`} title={count?.isForecast ? 'Vorbelegt aus Prognose' : undefined}>
+            {total || '-'}
+          </div>
+          {forecastTotal != null && !count?.isForecast && (
+            <div className="text-[10px] text-muted-foreground" title="Prognose">~{forecastTotal}</div>
+          )}
         </button>
       </DialogTrigger>
       <DialogContent className="max-w-xs">
@@ -454,20 +666,28 @@ function GuestCell({ date, dayName, dayNum, meal, count, isToday, onSave, showDa
           <DialogTitle>{dayName}, {dayNum}. - {meal === 'breakfast' ? 'Frühstück' : meal === 'lunch' ? 'Mittagessen' : 'Abendessen'}</DialogTitle>
         </DialogHeader>
         <div className="space-y-4 py-2">
+          {forecast && (
+            <div className="text-xs text-muted-foreground">
+              Prognose: {forecast.adults} Erw. / {forecast.children} Ki. ({FORECAST_BASIS_LABELS[forecast.basis]}, {forecast.samples} Werte)
+              {count?.isForecast && <div>Vorbelegt – mit Speichern wird die Zahl bestätigt.</div>}
+            </div>
+          )}
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label className="flex items-center gap-1"><Users className="h-3 w-3" /> Erwachsene</Label>
-              <Input type="number" value={adults} onChange={(e) => setAdults(e.target.value)} min="0" />
+              <Input type="number" value={adults} onChange={(e) => setAdults(e.target.value)} min="0" disabled={!can("guests", "edit")} />
             </div>
             <div className="space-y-2">
               <Label className="flex items-center gap-1"><Baby className="h-3 w-3" /> Kinder</Label>
-              <Input type="number" value={children} onChange={(e) => setChildren(e.target.value)} min="0" />
+              <Input type="number" value={children} onChange={(e) => setChildren(e.target.value)} min="0" disabled={!can("guests", "edit")} />
             </div>
           </div>
-          <Button onClick={handleSave} className="w-full" disabled={saving}>
-            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-            Speichern
-          </Button>
+          {can("guests", "edit") && (
+            <Button onClick={handleSave} className="w-full" disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Speichern
+            </Button>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -477,7 +697,10 @@ function GuestCell({ date, dayName, dayNum, meal, count, isToday, onSave, showDa
 function CateringView() {
   const [events, setEvents] = useState<CateringEvent[]>([]);
   const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<"all" | CateringStatus>("all");
+  const [refreshKey, setRefreshKey] = useState(0);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const fetchEvents = async () => {
     setLoading(true);
@@ -485,6 +708,7 @@ function CateringView() {
       const res = await fetch('/api/catering');
       const data = await res.json();
       setEvents(data);
+      setRefreshKey(k => k + 1);
     } catch (error) {
       console.error('Failed to fetch catering:', error);
     } finally {
@@ -499,7 +723,8 @@ function CateringView() {
   const handleDelete = async (id: number) => {
     if (!confirm("Catering-Event wirklich löschen?")) return;
     try {
-      await fetch(`/api/catering/${id}`, { method: 'DELETE' });
+      const res = await fetch(`/api/catering/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error);
       toast({ title: "Gelöscht" });
       fetchEvents();
     } catch (error: any) {
@@ -507,42 +732,180 @@ function CateringView() {
     }
   };
 
+  const handleStatus = async (event: CateringEvent, status: CateringStatus) => {
+    try {
+      const res = await fetch(`/api/catering/${event.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      toast({
+        title: `Status: ${CATERING_STATUS_LABELS[status]}`,
+        description: status === "quoted" ? `Angebot ${data.quoteNumber}` : status === "invoiced" ? `Rechnung ${data.invoiceNumber}` : undefined,
+      });
+      fetchEvents();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const today = formatDate(new Date());
+  const upcoming = events
+    .filter(e => e.status === "confirmed" && e.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+  const filtered = statusFilter === "all" ? events : events.filter(e => e.status === statusFilter);
+
   return (
     <div className="space-y-4">
-      <div className="flex justify-end">
-        <AddCateringDialog onSave={fetchEvents} />
+      {upcoming.length > 0 && (
+        <Card className="border-primary/20 bg-primary/5">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CalendarCheck className="h-5 w-5 text-primary" />
+              Anstehend (bestätigt)
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {upcoming.map(event => (
+              <div key={event.id} className="flex justify-between gap-2 text-sm">
+                <span>
+                  <span className="text-muted-foreground">
+                    {new Date(event.date).toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit' })} {event.time}
+                  </span>{" "}
+                  <span className="font-medium">{event.eventName}</span>
+                </span>
+                <span className="text-muted-foreground shrink-0">{event.personCount} Pers.</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <CateringRevenueCard refreshKey={refreshKey} />
+
+      <div className="flex justify-between gap-2">
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as "all" | CateringStatus)}>
+          <SelectTrigger className="h-9 w-40" data-testid="select-catering-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Alle Status</SelectItem>
+            {CATERING_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>
+                {CATERING_STATUS_LABELS[status]} ({events.filter(e => e.status === status).length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {can("catering", "edit") && <AddCateringDialog onSave={fetchEvents} />}
       </div>
 
       {loading ? (
         <div className="flex justify-center py-8">
           <Loader2 className="h-6 w-6 animate-spin" />
         </div>
-      ) : events.length === 0 ? (
+      ) : filtered.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
           Keine Catering-Events vorhanden
         </div>
       ) : (
         <div className="space-y-3">
-          {events.map(event => (
-            <Card key={event.id}>
+          {filtered.map(event => (
+            <Card key={event.id} className={event.status === "cancelled" ? "opacity-60" : undefined}>
               <CardContent className="p-3">
                 <div className="flex justify-between items-start">
                   <div>
-                    <div className="font-bold">{event.eventName}</div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-bold">{event.eventName}</span>
+                      <Badge variant="outline" className={`text-[10px] ${STATUS_BADGE_CLASSES[event.status]}`}>
+                        {CATERING_STATUS_LABELS[event.status]}
+                      </Badge>
+                    </div>
                     <div className="text-sm text-muted-foreground">{event.clientName}</div>
                     <div className="text-xs mt-1">
                       {new Date(event.date).toLocaleDateString('de-DE')} um {event.time} Uhr
                     </div>
                     <div className="text-xs text-muted-foreground">{event.personCount} Personen</div>
-                    {event.dishes.length > 0 && (
-                      <div className="text-xs mt-1 text-primary">{event.dishes.join(', ')}</div>
+                    {event.dishList.length > 0 && (
+                      <div className="text-xs mt-1 text-primary">
+                        {event.dishList.map(d => `${d.name} (${d.portions})`).join(', ')}
+                      </div>
+                    )}
+                    {event.price.total != null && (
+                      <div
+                        className="text-xs mt-1 font-mono"
+                        title={[
+                          `Menü: ${formatEuro(event.price.base ?? 0)}`,
+                          ...event.extras.map(e => `${e.name}: ${e.quantity} × ${formatEuro(e.unitPrice)}`),
+                        ].join('\n')}
+                      >
+                        Preis {formatEuro(event.price.total)} netto
+                        {event.price.deposit > 0 && ` • Anzahlung ${formatEuro(event.price.deposit)} • Rest ${formatEuro(event.price.balance ?? 0)}`}
+                      </div>
+                    )}
+                    {event.cost && event.cost.total > 0 && (
+                      <div
+                        className="text-xs mt-1 text-muted-foreground font-mono"
+                        title={event.cost.dishes.map(d => `${d.name}: ${d.total != null ? `€ ${d.total.toFixed(2)}` : 'kein Rezept'}`).join('\n')}
+                      >
+                        Wareneinsatz € {event.cost.total.toFixed(2)} (€ {event.cost.perPerson.toFixed(2)} / Person)
+                      </div>
+                    )}
+                    {(event.quoteNumber || event.invoiceNumber) && (
+                      <div className="text-xs mt-1 text-muted-foreground">
+                        {event.quoteNumber && `Angebot ${event.quoteNumber}`}
+                        {event.quoteNumber && event.invoiceNumber && ' • '}
+                        {event.invoiceNumber && `Rechnung ${event.invoiceNumber} vom ${new Date(event.invoicedAt!).toLocaleDateString('de-DE')}`}
+                      </div>
                     )}
                   </div>
                   <div className="flex gap-1">
-                    <EditCateringDialog event={event} onSave={fetchEvents} />
-                    <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(event.id)}>
-                      <Trash2 className="h-3 w-3" />
-                    </Button>
+                    {can("catering", "edit") && CATERING_STATUS_TRANSITIONS[event.status].length > 0 && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button size="icon" variant="ghost" className="h-7 w-7" title="Status ändern" data-testid={`button-catering-status-${event.id}`}>
+                            <ArrowRightLeft className="h-3 w-3" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {CATERING_STATUS_TRANSITIONS[event.status].map(status => (
+                            <DropdownMenuItem key={status} onClick={() => handleStatus(event, status)}>
+                              {CATERING_STATUS_LABELS[status]}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="icon" variant="ghost" className="h-7 w-7" title="Dokumente">
+                          <FileText className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {event.pricePerPerson != null && (
+                          <DropdownMenuItem onClick={() => window.open(`/api/catering/${event.id}/quote`, '_blank')}>
+                            {event.quoteNumber ? `Angebot ${event.quoteNumber} (PDF)` : 'Angebot Entwurf (PDF)'}
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => window.open(`/api/catering/${event.id}/beo/pdf`, '_blank')}>BEO Küche (PDF)</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => window.open(`/api/catering/${event.id}/beo/docx`, '_blank')}>BEO Küche (Word)</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => window.open(`/api/catering/${event.id}/beo/pdf?version=client`, '_blank')}>Auftragsbestätigung Kunde (PDF)</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => window.open(`/api/catering/${event.id}/beo/docx?version=client`, '_blank')}>Auftragsbestätigung Kunde (Word)</DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    {event.status !== "invoiced" && (
+                      <>
+                        {can("catering", "edit") && <EditCateringDialog event={event} onSave={fetchEvents} />}
+                        {can("catering", "delete") && (
+                          <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(event.id)}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -561,7 +924,10 @@ function AddCateringDialog({ onSave }: { onSave: () => void }) {
   const [date, setDate] = useState(formatDate(new Date()));
   const [time, setTime] = useState("12:00");
   const [personCount, setPersonCount] = useState("10");
-  const [dishes, setDishes] = useState("");
+  const [dishes, setDishes] = useState<DishDraft[]>([]);
+  const [pricePerPerson, setPricePerPerson] = useState("");
+  const [depositAmount, setDepositAmount] = useState("");
+  const [extras, setExtras] = useState<ExtraDraft[]>([]);
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
 
@@ -569,7 +935,7 @@ function AddCateringDialog({ onSave }: { onSave: () => void }) {
     e.preventDefault();
     setSaving(true);
     try {
-      await fetch('/api/catering', {
+      const res = await fetch('/api/catering', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -578,14 +944,21 @@ function AddCateringDialog({ onSave }: { onSave: () => void }) {
           date,
           time,
           personCount: parseInt(personCount) || 0,
-          dishes: dishes.split(',').map(d => d.trim()).filter(Boolean)
+          pricePerPerson: parsePrice(pricePerPerson),
+          depositAmount: parsePrice(depositAmount),
+          dishList: toDishList(dishes),
+          extras: toExtraList(extras)
         })
       });
+      if (!res.ok) throw new Error((await res.json()).error);
       toast({ title: "Event erstellt" });
       setOpen(false);
       setClientName("");
       setEventName("");
-      setDishes("");
+      setDishes([]);
+      setPricePerPerson("");
+      setDepositAmount("");
+      setExtras([]);
       onSave();
     } catch (error: any) {
       toast({ title: "Fehler", description: error.message, variant: "destructive" });
@@ -601,7 +974,7 @@ function AddCateringDialog({ onSave }: { onSave: () => void }) {
           <PlusCircle className="h-4 w-4" /> Neues Event
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-sm">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Catering-Event hinzufügen</DialogTitle>
         </DialogHeader>
@@ -628,10 +1001,14 @@ function AddCateringDialog({ onSave }: { onSave: () => void }) {
             <Label>Personenzahl</Label>
             <Input type="number" value={personCount} onChange={(e) => setPersonCount(e.target.value)} required />
           </div>
-          <div className="space-y-2">
-            <Label>Speisen (kommagetrennt)</Label>
-            <Input value={dishes} onChange={(e) => setDishes(e.target.value)} placeholder="Vorspeise, Hauptgang, Dessert" />
-          </div>
+          <DishListEditor dishes={dishes} onChange={setDishes} personCount={parseInt(personCount) || 0} />
+          <PriceFields
+            pricePerPerson={pricePerPerson}
+            onPricePerPersonChange={setPricePerPerson}
+            depositAmount={depositAmount}
+            onDepositAmountChange={setDepositAmount}
+          />
+          <ExtrasEditor extras={extras} onChange={setExtras} />
           <Button type="submit" className="w-full" disabled={saving}>
             {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
             Speichern
@@ -649,15 +1026,25 @@ function EditCateringDialog({ event, onSave }: { event: CateringEvent; onSave: (
   const [date, setDate] = useState(event.date);
   const [time, setTime] = useState(event.time);
   const [personCount, setPersonCount] = useState(String(event.personCount));
-  const [dishes, setDishes] = useState(event.dishes.join(', '));
+  const [dishes, setDishes] = useState<DishDraft[]>(toDishDrafts(event.dishList));
+  const [pricePerPerson, setPricePerPerson] = useState(event.pricePerPerson != null ? String(event.pricePerPerson) : "");
+  const [depositAmount, setDepositAmount] = useState(event.depositAmount != null ? String(event.depositAmount) : "");
+  const [extras, setExtras] = useState<ExtraDraft[]>(toExtraDrafts(event.extras));
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (open) {
+      setDishes(toDishDrafts(event.dishList));
+      setExtras(toExtraDrafts(event.extras));
+    }
+  }, [open, event.dishList, event.extras]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
     try {
-      await fetch(`/api/catering/${event.id}`, {
+      const res = await fetch(`/api/catering/${event.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -666,9 +1053,13 @@ function EditCateringDialog({ event, onSave }: { event: CateringEvent; onSave: (
           date,
           time,
           personCount: parseInt(personCount) || 0,
-          dishes: dishes.split(',').map(d => d.trim()).filter(Boolean)
+          pricePerPerson: parsePrice(pricePerPerson),
+          depositAmount: parsePrice(depositAmount),
+          dishList: toDishList(dishes),
+          extras: toExtraList(extras)
         })
       });
+      if (!res.ok) throw new Error((await res.json()).error);
       toast({ title: "Gespeichert" });
       setOpen(false);
       onSave();
@@ -686,7 +1077,7 @@ function EditCateringDialog({ event, onSave }: { event: CateringEvent; onSave: (
           <Pencil className="h-3 w-3" />
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-sm">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Event bearbeiten</DialogTitle>
         </DialogHeader>
@@ -713,10 +1104,14 @@ function EditCateringDialog({ event, onSave }: { event: CateringEvent; onSave: (
             <Label>Personenzahl</Label>
             <Input type="number" value={personCount} onChange={(e) => setPersonCount(e.target.value)} required />
           </div>
-          <div className="space-y-2">
-            <Label>Speisen (kommagetrennt)</Label>
-            <Input value={dishes} onChange={(e) => setDishes(e.target.value)} />
-          </div>
+          <DishListEditor dishes={dishes} onChange={setDishes} personCount={parseInt(personCount) || 0} />
+          <PriceFields
+            pricePerPerson={pricePerPerson}
+            onPricePerPersonChange={setPricePerPerson}
+            depositAmount={depositAmount}
+            onDepositAmountChange={setDepositAmount}
+          />
+          <ExtrasEditor extras={extras} onChange={setExtras} />
           <Button type="submit" className="w-full" disabled={saving}>
             {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
             Speichern
@@ -726,3 +1121,115 @@ function EditCateringDialog({ event, onSave }: { event: CateringEvent; onSave: (
     </Dialog>
   );
 }
+
+function PriceFields({ pricePerPerson, onPricePerPersonChange, depositAmount, onDepositAmountChange }: {
+  pricePerPerson: string;
+  onPricePerPersonChange: (value: string) => void;
+  depositAmount: string;
+  onDepositAmountChange: (value: string) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-2">
+        <Label>Preis pro Person (€ netto)</Label>
+        <Input type="number" step="0.01" min="0" value={pricePerPerson} onChange={(e) => onPricePerPersonChange(e.target.value)} placeholder="offen" />
+      </div>
+      <div className="space-y-2">
+        <Label>Anzahlung (€)</Label>
+        <Input type="number" step="0.01" min="0" value={depositAmount} onChange={(e) => onDepositAmountChange(e.target.value)} placeholder="keine" />
+      </div>
+    </div>
+  );
+}
+
+// Priced extras beside the menu, e.g. drinks flat rate, service staff, delivery
+function ExtrasEditor({ extras, onChange }: { extras: ExtraDraft[]; onChange: (extras: ExtraDraft[]) => void }) {
+  const update = (index: number, patch: Partial<ExtraDraft>) => {
+    onChange(extras.map((e, i) => i === index ? { ...e, ...patch } : e));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Zusatzleistungen</Label>
+      {extras.map((extra, index) => (
+        <div key={index} className="flex gap-2">
+          <Input className="flex-1 h-8" value={extra.name} onChange={(e) => update(index, { name: e.target.value })} placeholder="z.B. Servicepersonal" />
+          <Input type="number" step="0.5" min="0" className="w-16 h-8" value={extra.quantity} onChange={(e) => update(index, { quantity: e.target.value })} title="Menge" />
+          <Input type="number" step="0.01" min="0" className="w-20 h-8" value={extra.unitPrice} onChange={(e) => update(index, { unitPrice: e.target.value })} title="Einzelpreis (€ netto)" placeholder="€" />
+          <Button type="button" size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => onChange(extras.filter((_, i) => i !== index))}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        className="w-full gap-1"
+        onClick={() => onChange([...extras, { name: "", quantity: "1", unitPrice: "" }])}
+      >
+        <PlusCircle className="h-3.5 w-3.5" /> Zusatzleistung hinzufügen
+      </Button>
+    </div>
+  );
+}
+
+// Dishes of an event: a recipe (or free text) with its own portions and a note for the kitchen
+function DishListEditor({ dishes, onChange, personCount }: { dishes: DishDraft[]; onChange: (dishes: DishDraft[]) => void; personCount: number }) {
+  const { recipes } = useApp();
+  const sortedRecipes = [...recipes].sort((a, b) => a.name.localeCompare(b.name, 'de'));
+
+  const update = (index: number, patch: Partial<DishDraft>) => {
+    onChange(dishes.map((d, i) => i === index ? { ...d, ...patch } : d));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Speisen</Label>
+      {dishes.map((dish, index) => (
+        <div key={index} className="space-y-1 p-2 rounded border">
+          <div className="flex gap-2">
+            <Select
+              value={dish.recipeId != null ? String(dish.recipeId) : "free"}
+              onValueChange={(v) => update(index, v === "free" ? { recipeId: null } : { recipeId: parseInt(v), name: "" })}
+            >
+              <SelectTrigger className="flex-1 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="free">Ohne Rezept (Freitext)</SelectItem>
+                {sortedRecipes.map(r => (
+                  <SelectItem key={r.id} value={String(r.id)}>{r.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              className="w-20 h-8"
+              value={dish.portions}
+              onChange={(e) => update(index, { portions: e.target.value })}
+              title="Portionen"
+            />
+            <Button type="button" size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => onChange(dishes.filter((_, i) => i !== index))}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          {dish.recipeId == null && (
+            <Input className="h-8" value={dish.name} onChange={(e) => update(index, { name: e.target.value })} placeholder="Bezeichnung, z.B. Käseplatte" />
+          )}
+          <Input className="h-8" value={dish.notes} onChange={(e) => update(index, { notes: e.target.value })} placeholder="Hinweis, z.B. 3x vegan, Sauce extra" />
+        </div>
+      ))}
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        className="w-full gap-1"
+        onClick={() => onChange([...dishes, { recipeId: null, name: "", portions: String(personCount), notes: "" }])}
+      >
+        <PlusCircle className="h-3.5 w-3.5" /> Speise hinzufügen
+      </Button>
+    </div>
+  );
+}
@@ -1,17 +1,24 @@
-import { useState } from "react";
-import { useApp, Fridge } from "@/lib/store";
+import { useState, useEffect } from "react";
+import { useApp, Fridge, HaccpLog, MeasurementScheduleReport } from "@/lib/store";
 import { useTranslation } from "@/lib/i18n";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ThermometerSnowflake, History, Loader2, PlusCircle, Pencil, Trash2, Download } from "lucide-react";
+import { ThermometerSnowflake, History, Loader2, PlusCircle, Pencil, Trash2, Download, CalendarX2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CONTROL_POINT_TYPES, CONTROL_POINT_TYPE_INFO, controlPointTypeInfo, formatLimits, coolingDurationMinutes } from "@shared/haccp";
+import { OpenDeviationsCard } from "@/components/HaccpDeviations";
+import { HaccpTrendsCard } from "@/components/HaccpTrends";
 
 export default function HACCP() {
   const { fridges, logs, loading } = useApp();
   const { t } = useTranslation();
+  const { can } = useAuth();
   
   const getLatestLog = (fridgeId: number) => {
     return logs.find(l => l.fridgeId === fridgeId);
@@ -30,7 +37,7 @@ export default function HACCP() {
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-heading font-bold">{t("haccp")}</h1>
         <div className="flex gap-2">
-          <AddFridgeDialog />
+          {can("haccp", "edit") && <AddFridgeDialog />}
           <Button 
             variant="outline" 
             size="sm" 
@@ -42,6 +49,10 @@ export default function HACCP() {
         </div>
       </div>
 
+      <OpenDeviationsCard refreshKey={logs.length} />
+      <MissedChecksCard refreshKey={logs.length + fridges.length} />
+      <HaccpTrendsCard fridges={fridges} refreshKey={logs.length} />
+
       <div className="grid gap-4">
         {fridges.length === 0 ? (
           <div className="text-center py-12 text-muted-foreground">
@@ -59,25 +70,36 @@ export default function HACCP() {
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
                         <h3 className="font-heading font-bold text-lg">{fridge.name}</h3>
-                        <EditFridgeDialog fridge={fridge} />
+                        {can("haccp", "edit") && <EditFridgeDialog fridge={fridge} />}
                       </div>
-                      <p className="text-xs text-muted-foreground">{t("range")}: {fridge.tempMin}°C bis {fridge.tempMax}°C</p>
+                      <Badge variant="outline" className="text-[10px] mb-1">{controlPointTypeInfo(fridge.type ?? "storage").label}</Badge>
+                      <p className="text-xs text-muted-foreground">{t("range")}: {formatLimits({ ...fridge, type: fridge.type ?? "storage" })}</p>
+                      {fridge.checkTimes && fridge.checkTimes.length > 0 && (
+                        <p className="text-xs text-muted-foreground">Kontrollen: {fridge.checkTimes.join(", ")} Uhr</p>
+                      )}
                     </div>
                     <div className={`px-2 py-1 rounded text-xs font-bold flex items-center gap-1 ${isWarning ? 'bg-destructive/10 text-destructive' : 'bg-green-100 text-green-700'}`}>
                       {latest ? (
-                        <span className="text-lg">{latest.temperature}°C</span>
+                        <span className="text-lg">{latest.temperature} {controlPointTypeInfo(fridge.type ?? "storage").unit}</span>
                       ) : (
                         t("noData")
                       )}
                     </div>
                   </div>
 
-                  <LogDialog fridge={fridge} />
+                  <div className="flex gap-2">
+                    {can("haccp", "edit") && (
+                      <div className="flex-1">
+                        <LogDialog fridge={fridge} />
+                      </div>
+                    )}
+                    <HistoryDialog fridge={fridge} />
+                  </div>
                   
                   {latest && (
                      <div className="mt-3 pt-3 border-t text-[10px] text-muted-foreground flex justify-between">
                        <span>{t("lastCheck")}: {new Date(latest.timestamp).toLocaleString()}</span>
-                       <span>{t("by")}: {latest.user}</span>
+                       <span>{latest.item && `${latest.item} • `}{t("by")}: {latest.user}</span>
                      </div>
                   )}
                 </CardContent>
@@ -90,28 +112,157 @@ export default function HACCP() {
   );
 }
 
+// "7:00, 15:30" -> ["07:00", "15:30"]; invalid entries are left for the server to reject
+function parseCheckTimes(value: string): string[] {
+  return value
+    .split(/[,;\s]+/)
+    .map(v => v.trim())
+    .filter(Boolean)
+    .map(v => /^\d:\d{2}$/.test(v) ? `0${v}` : v);
+}
+
+function MissedChecksCard({ refreshKey }: { refreshKey: number }) {
+  const [report, setReport] = useState<MeasurementScheduleReport | null>(null);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        const res = await fetch("/api/haccp/missed-checks");
+        if (res.ok) {
+          setReport(await res.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch missed checks:", error);
+      }
+    };
+    fetchReport();
+  }, [refreshKey]);
+
+  if (!report || report.totalMissed === 0) return null;
+
+  return (
+    <Card className="border-orange-300 bg-orange-50 dark:bg-orange-950/20">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2 font-heading font-bold">
+          <CalendarX2 className="h-5 w-5 text-orange-600" />
+          Verpasste Kontrollen (letzte 7 Tage): {report.totalMissed}
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-[10px]">
+          {report.days.map(day => (
+            <div key={day.date} className={`rounded p-1 ${day.missed > 0 ? 'bg-orange-200 dark:bg-orange-900/50 font-bold' : 'bg-secondary/40'}`}>
+              <div>{new Date(`${day.date}T12:00:00`).toLocaleDateString("de-DE", { weekday: "short", day: "2-digit" })}</div>
+              <div className="text-sm">{day.missed}</div>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1 text-xs max-h-40 overflow-y-auto">
+          {report.missed.map(slot => (
+            <div key={`${slot.fridgeId}-${slot.date}-${slot.time}`} className="flex justify-between">
+              <span>{slot.fridgeName}</span>
+              <span className="text-muted-foreground">
+                {new Date(`${slot.date}T12:00:00`).toLocaleDateString("de-DE")} {slot.time} Uhr
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Limit inputs of a control point; which ones are shown depends on the type
+function LimitFields({ type, tempMin, tempMax, limitMinutes, onTempMin, onTempMax, onLimitMinutes }: {
+  type: string;
+  tempMin: string;
+  tempMax: string;
+  limitMinutes: string;
+  onTempMin: (value: string) => void;
+  onTempMax: (value: string) => void;
+  onLimitMinutes: (value: string) => void;
+}) {
+  const info = controlPointTypeInfo(type);
+  const showMin = info.bounds !== "max" || type === "cooling";
+  const showMax = info.bounds !== "min";
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {showMin && (
+        <div className="space-y-2">
+          <Label>{info.minLabel}</Label>
+          <Input type="number" step="0.1" value={tempMin} onChange={(e) => onTempMin(e.target.value)} required />
+        </div>
+      )}
+      {showMax && (
+        <div className="space-y-2">
+          <Label>{info.maxLabel}</Label>
+          <Input type="number" step="0.1" value={tempMax} onChange={(e) => onTempMax(e.target.value)} required />
+        </div>
+      )}
+      {type === "cooling" && (
+        <div className="space-y-2">
+          <Label>Zeitfenster (Min.)</Label>
+          <Input type="number" min="1" value={limitMinutes} onChange={(e) => onLimitMinutes(e.target.value)} required />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ControlPointTypeSelect({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CONTROL_POINT_TYPES.map(type => (
+          <SelectItem key={type} value={type}>{CONTROL_POINT_TYPE_INFO[type].label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 function AddFridgeDialog() {
   const { addFridge } = useApp();
   const { t } = useTranslation();
   const { toast } = useToast();
   const [open, setOpen] = useState(false);
   const [name, setName] = useState("");
+  const [type, setType] = useState("storage");
   const [tempMin, setTempMin] = useState("");
   const [tempMax, setTempMax] = useState("");
+  const [limitMinutes, setLimitMinutes] = useState("");
+  const [checkTimes, setCheckTimes] = useState("07:00, 15:00");
   const [saving, setSaving] = useState(false);
 
+  const handleTypeChange = (value: string) => {
+    const { defaults } = controlPointTypeInfo(value);
+    setType(value);
+    setTempMin(String(defaults.tempMin));
+    setTempMax(String(defaults.tempMax));
+    setLimitMinutes(defaults.limitMinutes ? String(defaults.limitMinutes) : "");
+    // Only storage temperatures are measured in fixed rounds by default
+    setCheckTimes(value === "storage" ? "07:00, 15:00" : "");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
     try {
+      const { defaults } = controlPointTypeInfo(type);
       await addFridge({
         name,
-        tempMin: parseFloat(tempMin),
-        tempMax: parseFloat(tempMax)
+        type,
+        tempMin: tempMin === "" ? defaults.tempMin : parseFloat(tempMin),
+        tempMax: tempMax === "" ? defaults.tempMax : parseFloat(tempMax),
+        limitMinutes: type === "cooling" ? parseInt(limitMinutes, 10) || null : null,
+        checkTimes: parseCheckTimes(checkTimes)
       });
-      toast({ title: "Kühlgerät hinzugefügt" });
+      toast({ title: "Kontrollpunkt hinzugefügt" });
       setOpen(false);
       setName("");
+      handleTypeChange("storage");
       setTempMin("");
       setTempMax("");
     } catch (error: any) {
@@ -130,22 +281,29 @@ function AddFridgeDialog() {
       </DialogTrigger>
       <DialogContent className="max-w-sm">
         <DialogHeader>
-          <DialogTitle>Kühlgerät hinzufügen</DialogTitle>
+          <DialogTitle>Kontrollpunkt hinzufügen</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Art</Label>
+            <ControlPointTypeSelect value={type} onChange={handleTypeChange} />
+          </div>
           <div className="space-y-2">
             <Label>Name</Label>
             <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="z.B. Kühlschrank 1" required />
           </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Min. Temperatur (°C)</Label>
-              <Input type="number" step="0.1" value={tempMin} onChange={(e) => setTempMin(e.target.value)} placeholder="0" required />
-            </div>
-            <div className="space-y-2">
-              <Label>Max. Temperatur (°C)</Label>
-              <Input type="number" step="0.1" value={tempMax} onChange={(e) => setTempMax(e.target.value)} placeholder="4" required />
-            </div>
+          <LimitFields
+            type={type}
+            tempMin={tempMin}
+            tempMax={tempMax}
+            limitMinutes={limitMinutes}
+            onTempMin={setTempMin}
+            onTempMax={setTempMax}
+            onLimitMinutes={setLimitMinutes}
+          />
+          <div className="space-y-2">
+            <Label>Kontrollzeiten</Label>
+            <Input value={checkTimes} onChange={(e) => setCheckTimes(e.target.value)} placeholder="07:00, 15:00" />
           </div>
           <Button type="submit" className="w-full" disabled={saving}>
             {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
@@ -161,10 +319,15 @@ function EditFridgeDialog({ fridge }: { fridge: Fridge }) {
   const { updateFridge, deleteFridge } = useApp();
   const { t } = useTranslation();
   const { toast } = useToast();
+  const { can } = useAuth();
   const [open, setOpen] = useState(false);
   const [name, setName] = useState(fridge.name);
+  const [type, setType] = useState(fridge.type ?? "storage");
   const [tempMin, setTempMin] = useState(String(fridge.tempMin));
   const [tempMax, setTempMax] = useState(String(fridge.tempMax));
+  const [limitMinutes, setLimitMinutes] = useState(fridge.limitMinutes ? String(fridge.limitMinutes) : "");
+  const [checkTimes, setCheckTimes] = useState((fridge.checkTimes ?? []).join(", "));
+  const [tolerance, setTolerance] = useState(String(fridge.checkToleranceMinutes ?? 60));
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
 
@@ -174,10 +337,14 @@ function EditFridgeDialog({ fridge }: { fridge: Fridge }) {
     try {
       await updateFridge(fridge.id, {
         name,
+        type,
         tempMin: parseFloat(tempMin),
-        tempMax: parseFloat(tempMax)
+        tempMax: parseFloat(tempMax),
+        limitMinutes: type === "cooling" ? parseInt(limitMinutes, 10) || null : null,
+        checkTimes: parseCheckTimes(checkTimes),
+        checkToleranceMinutes: parseInt(tolerance, 10) || 0
       });
-      toast({ title: "Kühlgerät aktualisiert" });
+      toast({ title: "Kontrollpunkt aktualisiert" });
       setOpen(false);
     } catch (error: any) {
       toast({ title: "Fehler", description: error.message, variant: "destructive" });
@@ -187,11 +354,11 @@ function EditFridgeDialog({ fridge }: { fridge: Fridge }) {
   };
 
   const handleDelete = async () => {
-    if (!confirm("Kühlgerät und alle zugehörigen Logs wirklich löschen?")) return;
+    if (!confirm("Kontrollpunkt entfernen? Vorhandene Messungen bleiben für die HACCP-Dokumentation erhalten.")) return;
     setDeleting(true);
     try {
       await deleteFridge(fridge.id);
-      toast({ title: "Kühlgerät gelöscht" });
+      toast({ title: "Kontrollpunkt gelöscht" });
       setOpen(false);
     } catch (error: any) {
       toast({ title: "Fehler", description: error.message, variant: "destructive" });
@@ -209,21 +376,34 @@ function EditFridgeDialog({ fridge }: { fridge: Fridge }) {
       </DialogTrigger>
       <DialogContent className="max-w-sm">
         <DialogHeader>
-          <DialogTitle>Kühlgerät bearbeiten</DialogTitle>
+          <DialogTitle>Kontrollpunkt bearbeiten</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Art</Label>
+            <ControlPointTypeSelect value={type} onChange={setType} />
+          </div>
           <div className="space-y-2">
             <Label>Name</Label>
             <Input value={name} onChange={(e) => setName(e.target.value)} required />
           </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Min. Temperatur (°C)</Label>
-              <Input type="number" step="0.1" value={tempMin} onChange={(e) => setTempMin(e.target.value)} required />
+          <LimitFields
+            type={type}
+            tempMin={tempMin}
+            tempMax={tempMax}
+            limitMinutes={limitMinutes}
+            onTempMin={setTempMin}
+            onTempMax={setTempMax}
+            onLimitMinutes={setLimitMinutes}
+          />
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label>Kontrollzeiten</Label>
+              <Input value={checkTimes} onChange={(e) => setCheckTimes(e.target.value)} placeholder="07:00, 15:00" />
             </div>
             <div className="space-y-2">
-              <Label>Max. Temperatur (°C)</Label>
-              <Input type="number" step="0.1" value={tempMax} onChange={(e) => setTempMax(e.target.value)} required />
+              <Label>Toleranz (Min.)</Label>
+              <Input type="number" min="0" value={tolerance} onChange={(e) => setTolerance(e.target.value)} />
             </div>
           </div>
           <div className="flex gap-2">
@@ -231,9 +411,11 @@ function EditFridgeDialog({ fridge }: { fridge: Fridge }) {
               {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
               {t("save")}
             </Button>
-            <Button type="button" variant="destructive" size="icon" onClick={handleDelete} disabled={deleting}>
-              {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
-            </Button>
+            {can("haccp", "delete") && (
+              <Button type="button" variant="destructive" size="icon" onClick={handleDelete} disabled={deleting}>
+                {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              </Button>
+            )}
           </div>
         </form>
       </DialogContent>
@@ -243,11 +425,26 @@ function EditFridgeDialog({ fridge }: { fridge: Fridge }) {
 
 function LogDialog({ fridge }: { fridge: Fridge }) {
   const [temp, setTemp] = useState("");
+  const [item, setItem] = useState("");
+  const [startTemp, setStartTemp] = useState("");
+  const [startTime, setStartTime] = useState("");
   const [saving, setSaving] = useState(false);
   const { addLog } = useApp();
   const { t } = useTranslation();
   const { toast } = useToast();
   const [open, setOpen] = useState(false);
+  const type = fridge.type ?? "storage";
+  const info = controlPointTypeInfo(type);
+
+  // Start time of a cooling reading; a time later than now belongs to yesterday
+  const resolveStartedAt = (now: Date): Date | null => {
+    if (!startTime) return null;
+    const [hours, minutes] = startTime.split(":").map(Number);
+    const started = new Date(now);
+    started.setHours(hours, minutes, 0, 0);
+    if (started > now) started.setDate(started.getDate() - 1);
+    return started;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -257,25 +454,30 @@ function LogDialog({ fridge }: { fridge: Fridge }) {
 
     setSaving(true);
     try {
-      const status = (val >= fridge.tempMin && val <= fridge.tempMax) ? "OK" : "WARNING";
+      const startedAt = type === "cooling" ? resolveStartedAt(new Date()) : null;
 
-      await addLog({
+      // User, time and status are set by the server
+      const created = await addLog({
         fridgeId: fridge.id,
         temperature: val,
-        timestamp: new Date().toISOString(),
-        user: "Chef User",
-        status,
-        notes: null
+        startTemperature: type === "cooling" && startTemp !== "" ? parseFloat(startTemp) : null,
+        startedAt: startedAt ? startedAt.toISOString() : null,
+        notes: null,
+        item: info.itemLabel && item.trim() ? item.trim() : null,
       });
 
+      const duration = coolingDurationMinutes(created);
       toast({
-        title: status === "OK" ? t("temperatureRecorded") : t("warningRecorded"),
-        description: `${val}°C für ${fridge.name} erfasst`,
-        variant: status === "OK" ? "default" : "destructive",
+        title: created.status === "OK" ? t("temperatureRecorded") : t("warningRecorded"),
+        description: `${val} ${info.unit} für ${fridge.name} erfasst${duration !== null ? ` (${duration} min)` : ""}`,
+        variant: created.status === "OK" ? "default" : "destructive",
       });
 
       setOpen(false);
       setTemp("");
+      setItem("");
+      setStartTemp("");
+      setStartTime("");
     } catch (error: any) {
       toast({
         title: "Fehler",
@@ -291,7 +493,7 @@ function LogDialog({ fridge }: { fridge: Fridge }) {
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         <Button className="w-full" variant="secondary">
-          <ThermometerSnowflake className="mr-2 h-4 w-4" /> {t("logTemperature")}
+          <ThermometerSnowflake className="mr-2 h-4 w-4" /> {type === "storage" ? t("logTemperature") : `${info.label} erfassen`}
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-xs">
@@ -300,9 +502,29 @@ function LogDialog({ fridge }: { fridge: Fridge }) {
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-4 py-4">
+          {info.itemLabel && (
+            <div className="space-y-2">
+              <Label>{info.itemLabel}</Label>
+              <Input value={item} onChange={(e) => setItem(e.target.value)} required />
+            </div>
+          )}
+
+          {type === "cooling" && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Start (°C)</Label>
+                <Input type="number" step="0.1" value={startTemp} onChange={(e) => setStartTemp(e.target.value)} placeholder={String(fridge.tempMin)} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Startzeit</Label>
+                <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} required />
+              </div>
+            </div>
+          )}
+
           <div className="flex items-center justify-center p-6 bg-secondary/20 rounded-xl border border-dashed">
             <span className="text-4xl font-mono font-bold">{temp || "--"}</span>
-            <span className="text-muted-foreground ml-1">°C</span>
+            <span className="text-muted-foreground ml-1">{info.unit}</span>
           </div>
           
           <div className="grid grid-cols-3 gap-2">
@@ -336,3 +558,120 @@ function LogDialog({ fridge }: { fridge: Fridge }) {
     </Dialog>
   );
 }
+
+// Readings of a control point. Entries are never edited: a correction is
+// appended with a reason and the original stays visible as corrected.
+function HistoryDialog({ fridge }: { fridge: Fridge }) {
+  const { logs, refetch } = useApp();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [correcting, setCorrecting] = useState<HaccpLog | null>(null);
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const unit = controlPointTypeInfo(fridge.type ?? "storage").unit;
+
+  const fridgeLogs = logs.filter(l => l.fridgeId === fridge.id).slice(0, 50);
+  const correctedIds = new Set(logs.map(l => l.correctsLogId).filter((id): id is number => id != null));
+
+  const startCorrection = (log: HaccpLog) => {
+    setCorrecting(log);
+    setValue(String(log.temperature));
+    setReason("");
+  };
+
+  const handleCorrect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!correcting) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/haccp-logs/${correcting.id}/corrections`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ temperature: parseFloat(value), reason }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      toast({ title: "Korrektur gespeichert" });
+      setCorrecting(null);
+      await refetch();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { setOpen(o); if (!o) setCorrecting(null); }}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="outline" title="Verlauf">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Verlauf: {fridge.name}</DialogTitle>
+        </DialogHeader>
+
+        {correcting && (
+          <form onSubmit={handleCorrect} className="space-y-3 p-3 border rounded bg-secondary/20">
+            <div className="text-sm font-medium">
+              Korrektur zu #{correcting.id} ({correcting.temperature} {unit}, {new Date(correcting.timestamp).toLocaleString("de-DE")})
+            </div>
+            <div className="space-y-2">
+              <Label>Richtiger Wert ({unit})</Label>
+              <Input type="number" step="0.1" value={value} onChange={(e) => setValue(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label>Grund *</Label>
+              <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="z.B. Tippfehler" required />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" className="flex-1" disabled={saving || !reason.trim() || value === ""}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                Korrektur speichern
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setCorrecting(null)}>Abbrechen</Button>
+            </div>
+          </form>
+        )}
+
+        {fridgeLogs.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">Noch keine Messungen</div>
+        ) : (
+          <div className="space-y-1">
+            {fridgeLogs.map(log => {
+              const isCorrected = correctedIds.has(log.id);
+              return (
+                <div key={log.id} className="flex items-center justify-between gap-2 p-2 rounded border text-xs">
+                  <div className="min-w-0">
+                    <div className={`font-medium ${isCorrected ? "line-through text-muted-foreground" : ""}`}>
+                      <span className={log.status === "OK" ? "" : "text-destructive"}>{log.temperature} {unit}</span>
+                      {log.item && ` • ${log.item}`}
+                      <span className="text-muted-foreground ml-1">#{log.id}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {new Date(log.timestamp).toLocaleString("de-DE")} • {log.user}
+                    </div>
+                    {log.correctsLogId && (
+                      <div className="text-muted-foreground">Korrektur zu #{log.correctsLogId}: {log.correctionReason}</div>
+                    )}
+                  </div>
+                  {isCorrected ? (
+                    <Badge variant="secondary" className="text-[10px] shrink-0">korrigiert</Badge>
+                  ) : can("haccp", "edit") && (
+                    <Button size="sm" variant="ghost" className="h-7 shrink-0" onClick={() => startCorrection(log)}>
+                      Korrigieren
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,13 +4,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Trash2, ShoppingCart, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { Loader2, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Trash2, ShoppingCart, Download, FileSpreadsheet, FileText, ChefHat, RotateCcw, PartyPopper } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { isCateringBooked } from "@shared/catering";
 
 interface MenuPlan {
   id: number;
@@ -19,6 +22,7 @@ interface MenuPlan {
   course: string;
   recipeId: number | null;
   portions: number;
+  portionsOverride: number | null;
   notes: string | null;
 }
 
@@ -28,6 +32,73 @@ interface Ingredient {
   unit: string;
 }
 
+interface ShoppingGroup {
+  group: string;
+  items: (Ingredient & { recipes: string[] })[];
+}
+
+interface ProductionItem {
+  planId: number;
+  date: string;
+  meal: string;
+  course: string;
+  recipeId: number;
+  recipeName: string;
+  portions: number;
+  portionSource: "override" | "guests" | "forecast" | "plan";
+  ingredients: Ingredient[];
+}
+
+interface ProductionCateringEvent {
+  eventId: number;
+  date: string;
+  time: string;
+  eventName: string;
+  clientName: string;
+  personCount: number;
+  items: { dishId: number; recipeId: number | null; recipeName: string; portions: number; notes: string | null; ingredients: Ingredient[] }[];
+}
+
+interface ProductionPlan {
+  start: string;
+  end: string;
+  childFactor: number;
+  meals: { date: string; meal: string; adults: number; children: number; guestPortions: number | null; guestForecast: boolean; items: ProductionItem[] }[];
+  catering: ProductionCateringEvent[];
+  byRecipe: { recipeId: number; recipeName: string; portions: number; courses: string[]; ingredients: Ingredient[] }[];
+  byCourse: { course: string; portions: number; recipes: { recipeId: number; recipeName: string; portions: number }[] }[];
+}
+
+interface CateringEvent {
+  id: number;
+  clientName: string;
+  eventName: string;
+  date: string;
+  time: string;
+  personCount: number;
+  status: string;
+  dishList: { id: number; name: string; portions: number }[];
+}
+
+interface MenuCost {
+  start: string;
+  end: string;
+  total: number;
+  days: { date: string; total: number; meals: { meal: string; portions: number; total: number }[] }[];
+  incompleteRecipes: string[];
+}
+
+const COURSE_NAMES: Record<string, string> = {
+  soup: "Suppe",
+  main_meat: "Fleisch",
+  side1: "Beilage 1",
+  side2: "Beilage 2",
+  main_veg: "Vegetarisch",
+  dessert: "Dessert",
+  main: "Gericht",
+  catering: "Catering"
+};
+
 const MEALS = [
   { key: "breakfast", de: "Frühstück" },
   { key: "lunch", de: "Mittagessen" },
@@ -73,10 +144,13 @@ const WEEKDAYS = ["Mo", "Di", "Mi", "Do", "Fr", "Sa", "So"];
 
 export default function MenuPlan() {
   const { recipes } = useApp();
+  const { canSee } = useAuth();
   const [baseDate, setBaseDate] = useState(new Date());
   const [plans, setPlans] = useState<MenuPlan[]>([]);
+  const [cateringEvents, setCateringEvents] = useState<CateringEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [showShoppingList, setShowShoppingList] = useState(false);
+  const [showProduction, setShowProduction] = useState(false);
   const { toast } = useToast();
   
   const weekDates = getWeekDates(baseDate);
@@ -96,8 +170,21 @@ export default function MenuPlan() {
     }
   };
 
+  const fetchCatering = async () => {
+    try {
+      const res = await fetch(`/api/catering?start=${startDate}&end=${endDate}`);
+      if (res.ok) {
+        const events: CateringEvent[] = await res.json();
+        setCateringEvents(events.filter(e => isCateringBooked(e.status)));
+      }
+    } catch (error) {
+      console.error('Failed to fetch catering events:', error);
+    }
+  };
+
   useEffect(() => {
     fetchPlans();
+    fetchCatering();
   }, [startDate, endDate]);
 
   const getPlan = (date: string, meal: string, course: string) => {
@@ -132,6 +219,9 @@ export default function MenuPlan() {
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-heading font-bold">Menüplan</h1>
         <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => setShowProduction(true)}>
+            <ChefHat className="h-4 w-4" /> Produktion
+          </Button>
           <Button variant="outline" size="sm" className="gap-1" onClick={() => setShowShoppingList(true)}>
             <ShoppingCart className="h-4 w-4" /> Liste
           </Button>
@@ -168,6 +258,14 @@ export default function MenuPlan() {
         </Button>
       </div>
 
+      {!loading && canSee("costs") && (
+        <MenuCostSummary weekDates={weekDates} startDate={startDate} endDate={endDate} plans={plans} />
+      )}
+
+      {!loading && cateringEvents.length > 0 && (
+        <CateringWeekRow weekDates={weekDates} events={cateringEvents} />
+      )}
+
       {loading ? (
         <div className="flex justify-center py-8">
           <Loader2 className="h-6 w-6 animate-spin" />
@@ -193,13 +291,108 @@ export default function MenuPlan() {
       <ShoppingListDialog
         open={showShoppingList}
         onOpenChange={setShowShoppingList}
-        plans={plans}
-        recipes={recipes}
+        startDate={startDate}
+        endDate={endDate}
+      />
+
+      <ProductionDialog
+        open={showProduction}
+        onOpenChange={setShowProduction}
+        startDate={startDate}
+        endDate={endDate}
+        onSave={fetchPlans}
       />
     </div>
   );
 }
 
+// Catering events of the week on their day; their dishes are part of production and shopping list
+function CateringWeekRow({ weekDates, events }: { weekDates: Date[]; events: CateringEvent[] }) {
+  return (
+    <Card className="border-primary/30">
+      <CardHeader className="py-2 px-4">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <PartyPopper className="h-4 w-4 text-primary" /> Catering
+          <Badge variant="secondary" className="text-xs">{events.reduce((sum, e) => sum + e.personCount, 0)} Personen</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-2 pt-0">
+        <div className="grid grid-cols-7 gap-1">
+          {weekDates.map((date, idx) => {
+            const dateStr = formatDate(date);
+            const dayEvents = events.filter(e => e.date === dateStr);
+            return (
+              <div key={dateStr} className="min-h-10 space-y-1">
+                <div className="text-[10px] text-center text-muted-foreground">{WEEKDAYS[idx]}</div>
+                {dayEvents.map(event => (
+                  <div
+                    key={event.id}
+                    className="text-[10px] leading-tight p-1 rounded bg-primary/10 border border-primary/20"
+                    title={`${event.clientName}\n${event.dishList.map(d => `${d.name} (${d.portions})`).join('\n')}`}
+                  >
+                    <div className="font-medium truncate">{event.eventName}</div>
+                    <div className="text-muted-foreground">{event.time} · {event.personCount} P.</div>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Material cost of the planned days; refetched whenever the plans change
+function MenuCostSummary({ weekDates, startDate, endDate, plans }: {
+  weekDates: Date[];
+  startDate: string;
+  endDate: string;
+  plans: MenuPlan[];
+}) {
+  const [cost, setCost] = useState<MenuCost | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/costs/menu?start=${startDate}&end=${endDate}`)
+      .then(res => res.json())
+      .then(setCost)
+      .catch(error => console.error('Failed to fetch menu cost:', error));
+  }, [startDate, endDate, plans]);
+
+  if (!cost || cost.total === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-3 space-y-2">
+        <div className="flex justify-between items-center text-sm">
+          <span className="font-medium">Wareneinsatz Woche</span>
+          <span className="font-mono font-bold">€ {cost.total.toFixed(2)}</span>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {weekDates.map((date, idx) => {
+            const day = cost.days.find(d => d.date === formatDate(date));
+            return (
+              <div
+                key={idx}
+                className="text-[10px] bg-muted/50 rounded py-1"
+                title={day?.meals.map(m => `${MEALS.find(x => x.key === m.meal)?.de ?? m.meal}: € ${m.total.toFixed(2)} (${m.portions} Port.)`).join('\n')}
+              >
+                <div className="text-muted-foreground">{WEEKDAYS[idx]}</div>
+                <div className="font-mono font-medium">{day ? day.total.toFixed(0) : '–'}</div>
+              </div>
+            );
+          })}
+        </div>
+        {cost.incompleteRecipes.length > 0 && (
+          <p className="text-[10px] text-muted-foreground">
+            Unvollständige Preise: {cost.incompleteRecipes.join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function MealSection({ meal, weekDates, plans, recipes, getCoursesForMeal, getPlan, getRecipeName, onSave }: {
   meal: { key: string; de: string };
   weekDates: Date[];
@@ -320,6 +513,7 @@ function MenuCell({ date, dayName, dayNum, meal, course, courseCategories, plan,
   const [portions, setPortions] = useState(String(plan?.portions || 10));
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   useEffect(() => {
     setRecipeId(plan?.recipeId ? String(plan.recipeId) : "");
@@ -380,26 +574,38 @@ function MenuCell({ date, dayName, dayNum, meal, course, courseCategories, plan,
     }
   };
 
-  const courseName = {
-    soup: "Suppe",
-    main_meat: "Fleisch",
-    side1: "Beilage 1",
-    side2: "Beilage 2", 
-    main_veg: "Vegetarisch",
-    dessert: "Dessert",
-    main: "Gericht"
-  }[course] || course;
+  const courseName = COURSE_NAMES[course] || course;
+  const allergens: string[] = plan?.recipeId ? recipes.find(r => r.id === plan.recipeId)?.allergens ?? [] : [];
+
+  const cellContent = (
+    <>
+      {showDayHeader && <div className="text-[10px] text-muted-foreground text-center">{dayName} {dayNum}</div>}
+      {recipeName ? (
+        <>
+          <div className="text-[9px] font-medium leading-tight line-clamp-2">{recipeName}</div>
+          {allergens.length > 0 && (
+            <div className="text-[8px] text-destructive font-mono leading-tight">{allergens.join('')}</div>
+          )}
+        </>
+      ) : (
+        <div className="text-[10px] text-muted-foreground text-center">-</div>
+      )}
+    </>
+  );
+
+  if (!can("menu", "edit")) {
+    return (
+      <div className={`p-1 rounded border text-left ${isToday ? 'border-primary bg-primary/10' : 'border-border'} min-h-[40px]`}>
+        {cellContent}
+      </div>
+    );
+  }
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         <button className={`p-1 rounded border text-left ${isToday ? 'border-primary bg-primary/10' : 'border-border'} hover:bg-secondary/50 transition-colors min-h-[40px]`}>
-          {showDayHeader && <div className="text-[10px] text-muted-foreground text-center">{dayName} {dayNum}</div>}
-          {recipeName ? (
-            <div className="text-[9px] font-medium leading-tight line-clamp-2">{recipeName}</div>
-          ) : (
-            <div className="text-[10px] text-muted-foreground text-center">-</div>
-          )}
+          {cellContent}
         </button>
       </DialogTrigger>
       <DialogContent className="max-w-sm">
@@ -438,7 +644,7 @@ function MenuCell({ date, dayName, dayNum, meal, course, courseCategories, plan,
               {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
               Speichern
             </Button>
-            {plan && (
+            {plan && can("menu", "delete") && (
               <Button variant="destructive" size="icon" onClick={handleDelete} disabled={saving}>
                 <Trash2 className="h-4 w-4" />
               </Button>
@@ -450,45 +656,21 @@ function MenuCell({ date, dayName, dayNum, meal, course, courseCategories, plan,
   );
 }
 
-function ShoppingListDialog({ open, onOpenChange, plans, recipes }: {
+function ShoppingListDialog({ open, onOpenChange, startDate, endDate }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  plans: MenuPlan[];
-  recipes: any[];
+  startDate: string;
+  endDate: string;
 }) {
-  const [ingredients, setIngredients] = useState<Map<string, { amount: number; unit: string }>>(new Map());
+  const [groups, setGroups] = useState<ShoppingGroup[]>([]);
   const [loading, setLoading] = useState(false);
 
-  const generateList = async () => {
+  const fetchList = async () => {
     setLoading(true);
-    const ingredientMap = new Map<string, { amount: number; unit: string }>();
-    
     try {
-      for (const plan of plans) {
-        if (!plan.recipeId) continue;
-        
-        const recipe = recipes.find(r => r.id === plan.recipeId);
-        if (!recipe) continue;
-        
-        const res = await fetch(`/api/recipes/${plan.recipeId}/ingredients`);
-        const ings = await res.json();
-        
-        const scaleFactor = plan.portions / recipe.portions;
-        
-        for (const ing of ings) {
-          const key = `${ing.name.toLowerCase()}_${ing.unit}`;
-          const scaledAmount = ing.amount * scaleFactor;
-          
-          if (ingredientMap.has(key)) {
-            const existing = ingredientMap.get(key)!;
-            existing.amount += scaledAmount;
-          } else {
-            ingredientMap.set(key, { amount: scaledAmount, unit: ing.unit });
-          }
-        }
-      }
-      
-      setIngredients(ingredientMap);
+      const res = await fetch(`/api/shopping-list?start=${startDate}&end=${endDate}`);
+      const data = await res.json();
+      setGroups(data.groups || []);
     } catch (error) {
       console.error('Failed to generate shopping list:', error);
     } finally {
@@ -497,45 +679,262 @@ function ShoppingListDialog({ open, onOpenChange, plans, recipes }: {
   };
 
   useEffect(() => {
-    if (open && plans.length > 0) {
-      generateList();
+    if (open) {
+      fetchList();
     }
-  }, [open, plans]);
-
-  const ingredientList = Array.from(ingredients.entries()).map(([key, val]) => {
-    const name = key.split('_')[0];
-    return { name: name.charAt(0).toUpperCase() + name.slice(1), ...val };
-  });
+  }, [open, startDate, endDate]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-sm max-h-[80vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>Einkaufsliste</DialogTitle>
+          <div className="flex items-center justify-between pr-6">
+            <DialogTitle>Einkaufsliste</DialogTitle>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="h-7 gap-1" disabled={groups.length === 0}>
+                  <Download className="h-3.5 w-3.5" /> Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem onClick={() => window.open(`/api/shopping-list/export?start=${startDate}&end=${endDate}&format=pdf`, '_blank')}>
+                  <Download className="h-4 w-4 mr-2" /> PDF
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => window.open(`/api/shopping-list/export?start=${startDate}&end=${endDate}&format=xlsx`, '_blank')}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" /> Excel
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </DialogHeader>
         <div className="flex-1 overflow-y-auto">
           {loading ? (
             <div className="flex justify-center py-8">
               <Loader2 className="h-6 w-6 animate-spin" />
             </div>
-          ) : ingredientList.length === 0 ? (
+          ) : groups.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               Keine Zutaten im Menüplan
             </div>
           ) : (
-            <ul className="space-y-2">
-              {ingredientList.map((ing, idx) => (
-                <li key={idx} className="flex justify-between items-center py-1 border-b">
-                  <span>{ing.name}</span>
-                  <span className="font-mono text-sm">
-                    {Number.isInteger(ing.amount) ? ing.amount : ing.amount.toFixed(1)} {ing.unit}
-                  </span>
-                </li>
+            <div className="space-y-4">
+              {groups.map(group => (
+                <div key={group.group}>
+                  <div className="text-xs font-medium text-muted-foreground uppercase mb-1">{group.group}</div>
+                  <ul className="space-y-1">
+                    {group.items.map((ing, idx) => (
+                      <li key={idx} className="flex justify-between items-center py-1 border-b">
+                        <span>{ing.name}</span>
+                        <span className="font-mono text-sm">
+                          {Number.isInteger(ing.amount) ? ing.amount : ing.amount.toFixed(1)} {ing.unit}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               ))}
-            </ul>
+            </div>
           )}
         </div>
       </DialogContent>
     </Dialog>
   );
 }
+
+function ProductionDialog({ open, onOpenChange, startDate, endDate, onSave }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  startDate: string;
+  endDate: string;
+  onSave: () => void;
+}) {
+  const [production, setProduction] = useState<ProductionPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchProduction = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/production?start=${startDate}&end=${endDate}`);
+      const data = await res.json();
+      setProduction(data);
+    } catch (error) {
+      console.error('Failed to fetch production plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      fetchProduction();
+    }
+  }, [open, startDate, endDate]);
+
+  const saveOverride = async (planId: number, value: number | null) => {
+    try {
+      await fetch(`/api/menu-plans/${planId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ portionsOverride: value })
+      });
+      fetchProduction();
+      onSave();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const mealName = (key: string) => MEALS.find(m => m.key === key)?.de || key;
+  const formatAmount = (amount: number) => Number.isInteger(amount) ? amount : amount.toFixed(1);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Produktionsplan</DialogTitle>
+        </DialogHeader>
+        {loading && !production ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !production || (production.meals.length === 0 && production.catering.length === 0) ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Keine Rezepte im Menüplan
+          </div>
+        ) : (
+          <Tabs defaultValue="days" className="flex-1 flex flex-col overflow-hidden">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="days">Tage</TabsTrigger>
+              <TabsTrigger value="recipes">Rezepte</TabsTrigger>
+              <TabsTrigger value="courses">Gänge</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="days" className="flex-1 overflow-y-auto space-y-3 mt-2">
+              <p className="text-xs text-muted-foreground">
+                Portionen = Erwachsene + Kinder × {production.childFactor}. Eigene Werte überschreiben die Gästezahl.
+              </p>
+              {production.meals.map(meal => (
+                <div key={`${meal.date}-${meal.meal}`} className="border rounded p-2 space-y-1">
+                  <div className="flex justify-between items-center text-sm font-medium">
+                    <span>
+                      {new Date(meal.date).toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit' })} · {mealName(meal.meal)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {meal.guestPortions != null ? `${meal.adults} Erw. / ${meal.children} Ki.${meal.guestForecast ? ' (Prognose)' : ''}` : 'Keine Gästezahl'}
+                    </span>
+                  </div>
+                  {meal.items.map(item => (
+                    <ProductionItemRow key={item.planId} item={item} onOverride={saveOverride} />
+                  ))}
+                </div>
+              ))}
+              {production.catering.map(event => (
+                <div key={`catering-${event.eventId}`} className="border border-primary/30 rounded p-2 space-y-1">
+                  <div className="flex justify-between items-center text-sm font-medium">
+                    <span>
+                      {new Date(event.date).toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit' })} · Catering {event.time}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{event.personCount} Pers.</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{event.eventName} ({event.clientName})</div>
+                  {event.items.map(item => (
+                    <div key={item.dishId} className="flex items-center gap-2 text-xs">
+                      <span className="flex-1 truncate" title={item.notes ?? undefined}>
+                        {item.recipeName}{item.recipeId == null && ' (ohne Rezept)'}
+                      </span>
+                      <span className="font-mono">{item.portions}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="recipes" className="flex-1 overflow-y-auto space-y-3 mt-2">
+              {production.byRecipe.map(recipe => (
+                <div key={recipe.recipeId} className="border rounded p-2">
+                  <div className="flex justify-between items-center font-medium text-sm">
+                    <span>{recipe.recipeName}</span>
+                    <Badge variant="secondary">{recipe.portions} Port.</Badge>
+                  </div>
+                  <ul className="mt-1 space-y-0.5">
+                    {recipe.ingredients.map((ing, idx) => (
+                      <li key={idx} className="flex justify-between text-xs">
+                        <span>{ing.name}</span>
+                        <span className="font-mono">{formatAmount(ing.amount)} {ing.unit}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="courses" className="flex-1 overflow-y-auto space-y-3 mt-2">
+              {production.byCourse.map(course => (
+                <div key={course.course} className="border rounded p-2">
+                  <div className="flex justify-between items-center font-medium text-sm">
+                    <span>{COURSE_NAMES[course.course] || course.course}</span>
+                    <Badge variant="secondary">{course.portions} Port.</Badge>
+                  </div>
+                  <ul className="mt-1 space-y-0.5">
+                    {course.recipes.map(recipe => (
+                      <li key={recipe.recipeId} className="flex justify-between text-xs">
+                        <span>{recipe.recipeName}</span>
+                        <span className="font-mono">{recipe.portions}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ProductionItemRow({ item, onOverride }: {
+  item: ProductionItem;
+  onOverride: (planId: number, value: number | null) => void;
+}) {
+  const [value, setValue] = useState(String(item.portions));
+  const { can } = useAuth();
+
+  useEffect(() => {
+    setValue(String(item.portions));
+  }, [item.portions]);
+
+  const commit = () => {
+    const parsed = parseInt(value);
+    if (isNaN(parsed) || parsed < 0 || parsed === item.portions) {
+      setValue(String(item.portions));
+      return;
+    }
+    onOverride(item.planId, parsed);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-20 text-muted-foreground shrink-0">{COURSE_NAMES[item.course] || item.course}</span>
+      <span className="flex-1 truncate">{item.recipeName}</span>
+      <Input
+        type="number"
+        min="0"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        disabled={!can("menu", "edit")}
+        className={`h-7 w-16 text-xs ${item.portionSource === 'override' ? 'border-primary' : ''}`}
+      />
+      {item.portionSource === 'override' && can("menu", "edit") ? (
+        <Button size="icon" variant="ghost" className="h-7 w-7" title="Zurücksetzen" onClick={() => onOverride(item.planId, null)}>
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+      ) : (
+        <span className="w-7 text-[10px] text-muted-foreground text-center">{item.portionSource === 'guests' ? 'Gäste' : item.portionSource === 'forecast' ? 'Prog.' : item.portionSource === 'override' ? 'Man.' : 'Plan'}</span>
+      )}
+    </div>
+  );
+}
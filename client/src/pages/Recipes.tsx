@@ -1,18 +1,24 @@
 import { useState, useMemo, useEffect } from "react";
-import { useApp, Recipe, Ingredient } from "@/lib/store";
+import { Link } from "wouter";
+import { useApp, Recipe, RecipeCost, Ingredient } from "@/lib/store";
 import { ALLERGENS, AllergenCode, useTranslation } from "@/lib/i18n";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Search, Minus, Plus, Clock, Users, ExternalLink, PlusCircle, Link2, Loader2, Trash2, Pencil, Download, FileText, X, ArrowLeft, Camera, FileUp } from "lucide-react";
+import { Search, Minus, Plus, Clock, Users, ExternalLink, PlusCircle, Link2, Loader2, Trash2, Pencil, Download, FileText, X, ArrowLeft, Camera, FileUp, Package, AlertCircle } from "lucide-react";
 import { Dialog, DialogContent, DialogTrigger, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
 import { RECIPE_CATEGORIES } from "@shared/schema";
+import { scaleQuantity } from "@shared/units";
+import { allergenDeviation, deriveAllergens, ingredientAllergens, sortAllergens } from "@shared/allergens";
 
 // Debounce hook
 function useDebounce<T>(value: T, delay: number): T {
@@ -29,6 +35,7 @@ const CATEGORIES = RECIPE_CATEGORIES;
 
 export default function Recipes() {
   const { recipes, loading } = useApp();
+  const { can } = useAuth();
   const { t } = useTranslation();
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [search, setSearch] = useState("");
@@ -142,7 +149,7 @@ export default function Recipes() {
             </Button>
             <h1 className="text-2xl font-heading font-bold">{categoryInfo?.label}</h1>
             <div className="ml-auto">
-              <AddRecipeDialog defaultCategory={selectedCategory} />
+              {can("recipes", "edit") && <AddRecipeDialog defaultCategory={selectedCategory} />}
             </div>
           </div>
           <div className="relative">
@@ -182,7 +189,14 @@ export default function Recipes() {
     <div className="p-4 space-y-4 pb-24">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-heading font-bold">{t("recipes")}</h1>
-        <AddRecipeDialog />
+        <div className="flex gap-2">
+          <Link href="/articles">
+            <Button variant="outline" size="sm" className="gap-1">
+              <Package className="h-4 w-4" /> Artikel
+            </Button>
+          </Link>
+          {can("recipes", "edit") && <AddRecipeDialog />}
+        </div>
       </div>
 
       {/* Global Search */}
@@ -235,6 +249,7 @@ function AddRecipeDialog({ defaultCategory }: { defaultCategory?: string }) {
   const [ocrText, setOcrText] = useState("");
   const [ocrParsed, setOcrParsed] = useState<any>(null);
   const [ocrCategory, setOcrCategory] = useState<string>("MainMeat");
+  const [ocrMatches, setOcrMatches] = useState<({ id: number; name: string } | null)[]>([]);
 
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -265,9 +280,10 @@ function AddRecipeDialog({ defaultCategory }: { defaultCategory?: string }) {
     setImporting(true);
     try {
       const recipe = await importRecipe(importUrl);
+      const unmatched = recipe.unmatchedIngredients?.length || 0;
       toast({
         title: "Import erfolgreich!",
-        description: `"${recipe.name}" wurde importiert.`
+        description: `"${recipe.name}" wurde importiert.${unmatched > 0 ? ` ${unmatched} Zutaten ohne Artikel – bitte unter Artikel prüfen.` : ''}`
       });
       setOpen(false);
       setImportUrl("");
@@ -287,6 +303,7 @@ function AddRecipeDialog({ defaultCategory }: { defaultCategory?: string }) {
     setOcrProgress(0);
     setOcrText("");
     setOcrParsed(null);
+    setOcrMatches([]);
 
     try {
       let text: string;
@@ -314,6 +331,19 @@ function AddRecipeDialog({ defaultCategory }: { defaultCategory?: string }) {
         parsed.steps
       );
       setOcrCategory(detectedCat);
+
+      // Flag ingredients that are not in the article catalog
+      if (parsed.ingredients.length > 0) {
+        const matchRes = await fetch('/api/articles/match', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ names: parsed.ingredients.map(i => i.name) })
+        });
+        if (matchRes.ok) {
+          const matches = await matchRes.json();
+          setOcrMatches(matches.map((m: any) => m.article));
+        }
+      }
     } catch (error: any) {
       toast({ title: "OCR fehlgeschlagen", description: error.message, variant: "destructive" });
     } finally {
@@ -325,7 +355,7 @@ function AddRecipeDialog({ defaultCategory }: { defaultCategory?: string }) {
     if (!ocrParsed) return;
 
     try {
-      await addRecipe({
+      const created = await addRecipe({
         name: ocrParsed.name,
         category: ocrCategory,
         portions: ocrParsed.portions || 4,
@@ -336,7 +366,11 @@ function AddRecipeDialog({ defaultCategory }: { defaultCategory?: string }) {
         allergens: [],
         ingredientsList: ocrParsed.ingredients || []
       });
-      toast({ title: "Rezept gespeichert", description: `"${ocrParsed.name}" wurde erstellt.` });
+      const unmatched = created.unmatchedIngredients?.length || 0;
+      toast({
+        title: "Rezept gespeichert",
+        description: `"${ocrParsed.name}" wurde erstellt.${unmatched > 0 ? ` ${unmatched} Zutaten ohne Artikel – bitte unter Artikel prüfen.` : ''}`
+      });
       setOpen(false);
       setOcrText("");
       setOcrParsed(null);
@@ -501,8 +535,15 @@ function AddRecipeDialog({ defaultCategory }: { defaultCategory?: string }) {
                       <Label className="text-xs">Erkannte Zutaten ({ocrParsed.ingredients.length})</Label>
                       <div className="max-h-32 overflow-y-auto border rounded p-2 text-xs space-y-1">
                         {ocrParsed.ingredients.map((ing: any, i: number) => (
-                          <div key={i} className="text-muted-foreground">
-                            {ing.amount} {ing.unit} {ing.name}
+                          <div key={i} className="text-muted-foreground flex items-center justify-between gap-2">
+                            <span>{ing.amount} {ing.unit} {ing.name}</span>
+                            {ocrMatches.length > 0 && (
+                              ocrMatches[i] ? (
+                                <span className="text-[10px] text-green-600 truncate">→ {ocrMatches[i]!.name}</span>
+                              ) : (
+                                <Badge variant="outline" className="text-[9px] h-4 px-1 border-orange-400 text-orange-600">Neu</Badge>
+                              )
+                            )}
                           </div>
                         ))}
                       </div>
@@ -575,6 +616,7 @@ function AddRecipeDialog({ defaultCategory }: { defaultCategory?: string }) {
 function RecipeCard({ recipe }: { recipe: Recipe }) {
   const { t, lang } = useTranslation();
   const { deleteRecipe, updateRecipe } = useApp();
+  const { can, canSee } = useAuth();
   const { toast } = useToast();
   const [portions, setPortions] = useState(recipe.portions);
   const [ingredients, setIngredients] = useState<Ingredient[]>([]);
@@ -588,8 +630,11 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
   const [editPortions, setEditPortions] = useState(String(recipe.portions));
   const [editPrepTime, setEditPrepTime] = useState(String(recipe.prepTime));
   const [editSteps, setEditSteps] = useState(recipe.steps.join('\n'));
-  const [editAllergens, setEditAllergens] = useState<string[]>(recipe.allergens);
+  const [editMayContain, setEditMayContain] = useState<string[]>(recipe.mayContain ?? []);
+  const [editContains, setEditContains] = useState<string[]>([]);
   const [editIngredients, setEditIngredients] = useState<Ingredient[]>([]);
+  const [editSalesPrice, setEditSalesPrice] = useState(recipe.salesPrice != null ? String(recipe.salesPrice) : "");
+  const [ingredientCosts, setIngredientCosts] = useState<Record<number, number | null>>({});
   const [saving, setSaving] = useState(false);
 
   const categoryLabel = CATEGORIES.find(c => c.id === recipe.category)?.label || recipe.category;
@@ -608,6 +653,17 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
     }
   };
 
+  const loadIngredientCosts = async () => {
+    if (!canSee("costs")) return;
+    try {
+      const res = await fetch(`/api/recipes/${recipe.id}/cost`);
+      const data = await res.json();
+      setIngredientCosts(Object.fromEntries(data.ingredients.map((line: { id: number; cost: number | null }) => [line.id, line.cost])));
+    } catch (error) {
+      console.error('Failed to load recipe cost:', error);
+    }
+  };
+
   const loadIngredients = async () => {
     if (ingredients.length > 0) return;
     setLoadingIngredients(true);
@@ -616,6 +672,7 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
       const data = await res.json();
       setIngredients(data);
       setEditIngredients(data);
+      loadIngredientCosts();
     } catch (error) {
       console.error('Failed to load ingredients:', error);
     } finally {
@@ -629,8 +686,13 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
     setEditPortions(String(recipe.portions));
     setEditPrepTime(String(recipe.prepTime));
     setEditSteps(recipe.steps.join('\n'));
-    setEditAllergens([...recipe.allergens]);
-    setEditIngredients([...ingredients]);
+    // Without ingredients there is nothing to derive from, the declared codes are maintained by hand
+    setEditMayContain([...(recipe.mayContain ?? [])]);
+    setEditContains(ingredients.length > 0
+      ? [...(recipe.declaredAllergens ?? [])]
+      : recipe.allergens.filter(code => !(recipe.mayContain ?? []).includes(code)));
+    setEditIngredients(ingredients.map(ing => ({ ...ing, allergens: [...(ing.allergens ?? [])] })));
+    setEditSalesPrice(recipe.salesPrice != null ? String(recipe.salesPrice) : "");
     setEditMode(true);
   };
 
@@ -643,7 +705,10 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
         portions: parseInt(editPortions) || 1,
         prepTime: parseInt(editPrepTime) || 0,
         steps: editSteps.split('\n').filter(s => s.trim()),
-        allergens: editAllergens as any,
+        allergens: deriveAllergens(editIngredients, editMayContain, editContains) as any,
+        declaredAllergens: editContains as any,
+        mayContain: editMayContain as any,
+        salesPrice: editSalesPrice ? parseFloat(editSalesPrice.replace(',', '.')) : null,
         ingredientsList: editIngredients
       });
       toast({ title: "Rezept gespeichert" });
@@ -651,6 +716,7 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
       const res = await fetch(`/api/recipes/${recipe.id}/ingredients`);
       const data = await res.json();
       setIngredients(data);
+      loadIngredientCosts();
     } catch (error: any) {
       toast({ title: "Fehler", description: error.message, variant: "destructive" });
     } finally {
@@ -672,14 +738,38 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
     setEditIngredients(editIngredients.filter((_, i) => i !== idx));
   };
 
+  // Allergens coming from ingredients are fixed; the others cycle through
+  // contained, "may contain" and none.
+  const editIngredientAllergens = ingredientAllergens(editIngredients);
+  const editContained = sortAllergens([...editIngredientAllergens, ...editContains]);
   const toggleAllergen = (code: string) => {
-    if (editAllergens.includes(code)) {
-      setEditAllergens(editAllergens.filter(a => a !== code));
+    if (editIngredientAllergens.includes(code)) return;
+    if (editContains.includes(code)) {
+      setEditContains(editContains.filter(a => a !== code));
+      setEditMayContain([...editMayContain, code]);
+    } else if (editMayContain.includes(code)) {
+      setEditMayContain(editMayContain.filter(a => a !== code));
     } else {
-      setEditAllergens([...editAllergens, code]);
+      setEditContains([...editContains, code]);
     }
   };
 
+  // A code an ingredient contains is no longer declared by hand or only a trace
+  const editIngredientAllergenKey = editIngredientAllergens.join(',');
+  useEffect(() => {
+    const prune = (prev: string[]) => prev.some(code => editIngredientAllergens.includes(code))
+      ? prev.filter(code => !editIngredientAllergens.includes(code))
+      : prev;
+    setEditMayContain(prune);
+    setEditContains(prune);
+  }, [editIngredientAllergenKey]);
+
+  // Stored list vs. what the saved ingredients, declared codes and mayContain imply
+  const storedDeviation = ingredients.length > 0
+    ? allergenDeviation(recipe.allergens, deriveAllergens(ingredients, recipe.mayContain ?? [], recipe.declaredAllergens ?? []))
+    : { missing: [], extra: [] };
+  const hasDeviation = storedDeviation.missing.length > 0 || storedDeviation.extra.length > 0;
+
   const exportRecipe = (format: 'pdf' | 'docx') => {
     window.open(`/api/recipes/${recipe.id}/export/${format}`, '_blank');
   };
@@ -708,6 +798,9 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
             <div className="flex gap-3">
               <span className="flex items-center gap-1"><Clock className="h-3.5 w-3.5" /> {recipe.prepTime}m</span>
               <span className="flex items-center gap-1"><Users className="h-3.5 w-3.5" /> {recipe.portions}p</span>
+              {recipe.cost && recipe.cost.total > 0 && (
+                <span className="flex items-center gap-1" title="Wareneinsatz pro Portion">€ {recipe.cost.perPortion.toFixed(2)}</span>
+              )}
             </div>
             <div className="flex gap-1">
               {recipe.allergens.length > 0 ? recipe.allergens.map(code => (
@@ -738,9 +831,11 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
           <div className="flex gap-2 flex-wrap">
             {!editMode && (
               <>
-                <Button variant="outline" size="sm" className="gap-1" onClick={startEdit}>
-                  <Pencil className="h-3 w-3" /> Bearbeiten
-                </Button>
+                {can("recipes", "edit") && (
+                  <Button variant="outline" size="sm" className="gap-1" onClick={startEdit}>
+                    <Pencil className="h-3 w-3" /> Bearbeiten
+                  </Button>
+                )}
                 <Button variant="outline" size="sm" className="gap-1" onClick={() => exportRecipe('pdf')}>
                   <Download className="h-3 w-3" /> PDF
                 </Button>
@@ -754,9 +849,11 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
                     </a>
                   </Button>
                 )}
-                <Button variant="destructive" size="sm" onClick={handleDelete} disabled={deleting}>
-                  {deleting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
-                </Button>
+                {can("recipes", "delete") && (
+                  <Button variant="destructive" size="sm" onClick={handleDelete} disabled={deleting}>
+                    {deleting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+                  </Button>
+                )}
               </>
             )}
             {editMode && (
@@ -799,19 +896,52 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
               </div>
 
               <div className="space-y-2">
-                <Label>{t("allergens")} (A-N)</Label>
+                <Label>Verkaufspreis netto (€ / Portion)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={editSalesPrice}
+                  onChange={(e) => setEditSalesPrice(e.target.value)}
+                  placeholder="z.B. 12.50"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t("allergens")} (A-R)</Label>
+                {hasDeviation && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription className="text-xs">
+                      Gespeicherte Allergene weichen von den Zutaten ab
+                      {storedDeviation.missing.length > 0 && ` – fehlen: ${storedDeviation.missing.join(', ')}`}
+                      {storedDeviation.extra.length > 0 && ` – nicht durch Zutaten oder Angaben belegt: ${storedDeviation.extra.join(', ')}`}.
+                      {' '}Beim Speichern wird die abgeleitete Liste übernommen.
+                    </AlertDescription>
+                  </Alert>
+                )}
                 <div className="flex flex-wrap gap-1">
-                  {Object.values(ALLERGENS).map(alg => (
-                    <Badge 
-                      key={alg.code}
-                      variant={editAllergens.includes(alg.code) ? "destructive" : "outline"}
-                      className="cursor-pointer text-xs"
-                      onClick={() => toggleAllergen(alg.code)}
-                    >
-                      {alg.code}
-                    </Badge>
-                  ))}
+                  {Object.values(ALLERGENS).map(alg => {
+                    const fromIngredients = editIngredientAllergens.includes(alg.code);
+                    const contained = editContained.includes(alg.code);
+                    const mayContain = !contained && editMayContain.includes(alg.code);
+                    return (
+                      <Badge
+                        key={alg.code}
+                        variant={contained ? "destructive" : mayContain ? "secondary" : "outline"}
+                        className={`text-xs ${fromIngredients ? "cursor-default" : "cursor-pointer"} ${mayContain ? "border-destructive text-destructive" : ""}`}
+                        title={fromIngredients ? "Aus Zutaten" : contained ? "Enthalten (manuell)" : mayContain ? "Kann enthalten (manuell)" : alg[lang]}
+                        onClick={() => toggleAllergen(alg.code)}
+                      >
+                        {alg.code}
+                      </Badge>
+                    );
+                  })}
                 </div>
+                <p className="text-[10px] text-muted-foreground">
+                  {editIngredients.length > 0
+                    ? "Codes aus Zutaten sind fest. Weitere antippen: enthalten (rot), kann enthalten, keine Angabe."
+                    : "Antippen: enthalten (rot), kann enthalten, keine Angabe."}
+                </p>
               </div>
 
               <div className="space-y-2">
@@ -844,6 +974,10 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
                         onChange={(e) => updateIngredient(idx, 'name', e.target.value)} 
                         placeholder="Zutat"
                       />
+                      <IngredientAllergenPicker
+                        value={ing.allergens ?? []}
+                        onChange={(allergens) => updateIngredient(idx, 'allergens', allergens)}
+                      />
                       <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => removeIngredient(idx)}>
                         <X className="h-3 w-3" />
                       </Button>
@@ -887,6 +1021,8 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
                 </div>
               </div>
 
+              {recipe.cost && <RecipeCostSummary cost={recipe.cost} portions={recipe.portions} />}
+
               {/* R2-T5: Display tags */}
               {recipe.tags && recipe.tags.length > 0 && (
                 <div>
@@ -910,7 +1046,8 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
                 ) : (
                   <ul className="space-y-2 text-sm">
                     {ingredients.map((ing, idx) => {
-                      const scaledAmount = (ing.amount / recipe.portions) * portions;
+                      const scaled = scaleQuantity(ing.amount, ing.unit, portions / recipe.portions);
+                      const cost = ing.id !== undefined ? ingredientCosts[ing.id] : undefined;
                       return (
                         <li key={idx} className="flex justify-between items-center py-1">
                           <span className="text-muted-foreground">{ing.name}</span>
@@ -921,8 +1058,13 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
                               </span>
                             ))}
                             <span className="font-mono font-medium text-foreground">
-                              {Number.isInteger(scaledAmount) ? scaledAmount : scaledAmount.toFixed(1)} {ing.unit}
+                              {Number.isInteger(scaled.amount) ? scaled.amount : scaled.amount.toFixed(1)} {scaled.unit}
                             </span>
+                            {cost != null && (
+                              <span className="font-mono text-xs text-muted-foreground w-14 text-right">
+                                € {(cost * portions / recipe.portions).toFixed(2)}
+                              </span>
+                            )}
                           </div>
                         </li>
                       );
@@ -957,3 +1099,73 @@ function RecipeCard({ recipe }: { recipe: Recipe }) {
     </Dialog>
   );
 }
+
+function IngredientAllergenPicker({ value, onChange }: { value: string[]; onChange: (allergens: string[]) => void }) {
+  const { t, lang } = useTranslation();
+
+  const toggle = (code: string) => {
+    onChange(value.includes(code) ? value.filter(a => a !== code) : [...value, code].sort());
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" size="sm" variant="outline" className="h-8 px-1.5 text-[10px] font-mono min-w-8" title={t("allergens")}>
+          {value.length > 0 ? <span className="text-destructive">{value.join('')}</span> : "–"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-64 overflow-y-auto">
+        {Object.values(ALLERGENS).map(alg => (
+          <DropdownMenuCheckboxItem
+            key={alg.code}
+            checked={value.includes(alg.code)}
+            onCheckedChange={() => toggle(alg.code)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="font-mono font-bold mr-2">{alg.code}</span> {alg[lang]}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// Food cost above this share of the sales price is highlighted
+const FOOD_COST_LIMIT_PERCENT = 35;
+
+function RecipeCostSummary({ cost, portions }: { cost: RecipeCost; portions: number }) {
+  const percentClass = cost.foodCostPercent == null
+    ? "text-muted-foreground"
+    : cost.foodCostPercent > FOOD_COST_LIMIT_PERCENT ? "text-destructive" : "text-green-600";
+
+  return (
+    <div>
+      <h3 className="text-sm font-heading font-semibold mb-2 text-muted-foreground uppercase tracking-wide">Kalkulation</h3>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="bg-secondary/30 p-2 rounded-md border border-border">
+          <div className="text-xs text-muted-foreground">Wareneinsatz ({portions} Port.)</div>
+          <div className="font-mono font-bold">€ {cost.total.toFixed(2)}</div>
+        </div>
+        <div className="bg-secondary/30 p-2 rounded-md border border-border">
+          <div className="text-xs text-muted-foreground">pro Portion</div>
+          <div className="font-mono font-bold">€ {cost.perPortion.toFixed(2)}</div>
+        </div>
+        <div className="bg-secondary/30 p-2 rounded-md border border-border">
+          <div className="text-xs text-muted-foreground">Verkaufspreis netto</div>
+          <div className="font-mono font-bold">{cost.salesPrice != null ? `€ ${cost.salesPrice.toFixed(2)}` : "–"}</div>
+        </div>
+        <div className="bg-secondary/30 p-2 rounded-md border border-border">
+          <div className="text-xs text-muted-foreground">Food-Cost</div>
+          <div className={`font-mono font-bold ${percentClass}`}>
+            {cost.foodCostPercent != null ? `${cost.foodCostPercent.toFixed(1)} %` : "–"}
+          </div>
+        </div>
+      </div>
+      {cost.missing.length > 0 && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Ohne Preis: {cost.missing.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
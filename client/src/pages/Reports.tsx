@@ -1,49 +1,27 @@
-import { useApp } from "@/lib/store";
+import { useState } from "react";
 import { useTranslation } from "@/lib/i18n";
+import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Download, FileText } from "lucide-react";
-import jsPDF from "jspdf";
-import { format } from "date-fns";
-import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, FileText, FileSpreadsheet } from "lucide-react";
+import { format, startOfWeek, endOfWeek, startOfMonth } from "date-fns";
 
 export default function Reports() {
-  const { logs, fridges } = useApp();
   const { t } = useTranslation();
-  const { toast } = useToast();
+  const { can } = useAuth();
+  const [haccpStart, setHaccpStart] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [haccpEnd, setHaccpEnd] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [matrixStart, setMatrixStart] = useState(format(startOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd"));
+  const [matrixEnd, setMatrixEnd] = useState(format(endOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd"));
 
-  const handleExportPDF = () => {
-    const doc = new jsPDF();
-    
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(20);
-    doc.text("HACCP Temperature Report", 14, 20);
-    
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "normal");
-    doc.text(`Generated: ${format(new Date(), "PPpp")}`, 14, 30);
-    
-    let y = 40;
-    
-    fridges.forEach(fridge => {
-      doc.setFont("helvetica", "bold");
-      doc.text(`Unit: ${fridge.name}`, 14, y);
-      y += 6;
-      
-      const fridgeLogs = logs.filter(l => l.fridgeId === fridge.id).slice(0, 10);
-      
-      fridgeLogs.forEach(log => {
-        doc.setFont("helvetica", "normal");
-        const line = `${format(new Date(log.timestamp), "yyyy-MM-dd HH:mm")} | ${log.temperature}°C | ${log.user} | ${log.status}`;
-        doc.text(line, 20, y);
-        y += 5;
-      });
-      
-      y += 10;
-    });
+  const exportAllergenMatrix = (fileFormat: 'pdf' | 'xlsx' | 'csv') => {
+    window.open(`/api/allergen-matrix/export?start=${matrixStart}&end=${matrixEnd}&format=${fileFormat}`, '_blank');
+  };
 
-    doc.save("haccp-report.pdf");
-    toast({ title: t("exportComplete"), description: "HACCP Report downloaded." });
+  const exportHaccp = () => {
+    window.open(`/api/haccp-logs/export?start=${haccpStart}&end=${haccpEnd}`, '_blank');
   };
 
   return (
@@ -51,33 +29,61 @@ export default function Reports() {
       <h1 className="text-2xl font-heading font-bold">{t("reports")}</h1>
       
       <div className="grid gap-4">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Weekly HACCP Log</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            <p className="text-sm text-muted-foreground">Export all temperature records for the past 7 days for audit compliance.</p>
-            <div className="flex gap-2">
-              <Button onClick={handleExportPDF} className="flex-1">
+        {can("haccp", "view") && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">HACCP-Bericht</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-muted-foreground">Alle Messungen je Monat und Kontrollpunkt mit Bemerkungen, Abweichungen und Unterschriftsfeld für die Küchenleitung.</p>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Von</Label>
+                  <Input type="date" value={haccpStart} onChange={(e) => setHaccpStart(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Bis</Label>
+                  <Input type="date" value={haccpEnd} onChange={(e) => setHaccpEnd(e.target.value)} />
+                </div>
+              </div>
+              <Button onClick={exportHaccp} className="w-full" disabled={!haccpStart || !haccpEnd || haccpStart > haccpEnd}>
                 <FileText className="mr-2 h-4 w-4" /> {t("exportPDF")}
               </Button>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
 
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Allergen Matrix</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            <p className="text-sm text-muted-foreground">Download current menu allergen overview.</p>
-             <div className="flex gap-2">
-              <Button variant="secondary" className="flex-1" onClick={() => toast({ title: t("comingSoon"), description: "This report is not yet implemented in mock." })}>
-                <Download className="mr-2 h-4 w-4" /> CSV
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+        {can("menu", "view") && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Allergen Matrix</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-muted-foreground">Planned dishes against allergen codes A-R, for the buffet display.</p>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Von</Label>
+                  <Input type="date" value={matrixStart} onChange={(e) => setMatrixStart(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Bis</Label>
+                  <Input type="date" value={matrixEnd} onChange={(e) => setMatrixEnd(e.target.value)} />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="secondary" className="flex-1" onClick={() => exportAllergenMatrix('pdf')}>
+                  <FileText className="mr-2 h-4 w-4" /> PDF
+                </Button>
+                <Button variant="secondary" className="flex-1" onClick={() => exportAllergenMatrix('xlsx')}>
+                  <FileSpreadsheet className="mr-2 h-4 w-4" /> Excel
+                </Button>
+                <Button variant="secondary" className="flex-1" onClick={() => exportAllergenMatrix('csv')}>
+                  <Download className="mr-2 h-4 w-4" /> CSV
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
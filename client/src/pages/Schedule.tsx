@@ -3,14 +3,27 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, ChevronLeft, ChevronRight, PlusCircle, Pencil, Trash2, UserPlus, Calendar, Palmtree, Pill, X, Download, FileSpreadsheet } from "lucide-react";
+import { Loader2, ChevronLeft, ChevronRight, PlusCircle, Pencil, Trash2, UserPlus, Calendar, Palmtree, Pill, X, Download, FileSpreadsheet, AlertTriangle } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ScheduleRequestsView } from "@/components/ScheduleRequests";
+import {
+  SCHEDULE_RULES,
+  SCHEDULE_RULE_LABELS,
+  SCHEDULE_RULE_SEVERITIES,
+  SCHEDULE_RULE_SEVERITY_LABELS,
+  shiftBreakMinutes,
+  type ScheduleRule,
+  type ScheduleRuleConfig,
+  type ScheduleRuleSeverity,
+  type ScheduleViolation,
+} from "@shared/schedule";
 
 interface Staff {
   id: number;
@@ -19,6 +32,10 @@ interface Staff {
   color: string;
   email: string | null;
   phone: string | null;
+  userId: string | null;
+  weeklyHours: number | null;
+  hoursBalanceStart: string | null;
+  openingBalanceHours: number;
 }
 
 interface ScheduleEntry {
@@ -36,9 +53,38 @@ interface ShiftType {
   name: string;
   startTime: string;
   endTime: string;
+  breakMinutes: number | null;
   color: string;
 }
 
+interface WorkingHoursRow {
+  staffId: number;
+  name: string;
+  role: string;
+  weeklyHours: number | null;
+  shifts: number;
+  untimedShifts: number;
+  grossHours: number;
+  breakHours: number;
+  netHours: number;
+  vacationDays: number;
+  sickDays: number;
+  creditedHours: number;
+  targetHours: number | null;
+  difference: number | null;
+  carryOver: number | null;
+  balance: number | null;
+  weeks: { start: string; week: number; hours: number }[];
+}
+
+interface WorkingHoursReport {
+  month: string;
+  start: string;
+  end: string;
+  weeks: { start: string; week: number }[];
+  staff: WorkingHoursRow[];
+}
+
 const ENTRY_TYPES = [
   { key: "shift", de: "Dienst", color: "bg-primary" },
   { key: "vacation", de: "Urlaub", color: "bg-green-500" },
@@ -82,15 +128,34 @@ const WEEKDAYS = ["Mo", "Di", "Mi", "Do", "Fr", "Sa", "So"];
 const COLORS = ["#3b82f6", "#ef4444", "#22c55e", "#f59e0b", "#8b5cf6", "#ec4899", "#06b6d4", "#84cc16"];
 
 export default function Schedule() {
+  const [pendingRequests, setPendingRequests] = useState(0);
+
+  const fetchPendingRequests = () => {
+    fetch('/api/schedule-requests?status=pending')
+      .then(res => res.ok ? res.json() : [])
+      .then(requests => setPendingRequests(requests.length))
+      .catch(error => console.error('Failed to fetch schedule requests:', error));
+  };
+
+  useEffect(() => {
+    fetchPendingRequests();
+  }, []);
+
   return (
     <div className="p-4 space-y-4 pb-24">
       <h1 className="text-2xl font-heading font-bold">Dienstplan</h1>
       
       <Tabs defaultValue="schedule" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="schedule">Kalender</TabsTrigger>
           <TabsTrigger value="staff">Mitarbeiter</TabsTrigger>
           <TabsTrigger value="dienste">Dienste</TabsTrigger>
+          <TabsTrigger value="requests" className="gap-1">
+            Anträge
+            {pendingRequests > 0 && <Badge className="h-5 px-1.5" data-testid="badge-pending-requests">{pendingRequests}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="hours">Stunden</TabsTrigger>
+          <TabsTrigger value="rules">Regeln</TabsTrigger>
         </TabsList>
         
         <TabsContent value="schedule" className="mt-4">
@@ -104,16 +169,57 @@ export default function Schedule() {
         <TabsContent value="dienste" className="mt-4">
           <ShiftTypesView />
         </TabsContent>
+
+        <TabsContent value="requests" className="mt-4">
+          <ScheduleRequestsView onChange={fetchPendingRequests} />
+        </TabsContent>
+
+        <TabsContent value="hours" className="mt-4">
+          <WorkingHoursView />
+        </TabsContent>
+
+        <TabsContent value="rules" className="mt-4">
+          <ScheduleRulesView />
+        </TabsContent>
       </Tabs>
     </div>
   );
 }
 
+// Saves the entry of a cell and returns the rule warnings; throws with the server message if a rule blocks it
+async function saveScheduleEntry(entry: ScheduleEntry | undefined, body: Record<string, unknown>): Promise<ScheduleViolation[]> {
+  const res = await fetch(entry ? `/api/schedule/${entry.id}` : '/api/schedule', {
+    method: entry ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data.warnings ?? [];
+}
+
+function savedToast(warnings: ScheduleViolation[]) {
+  return warnings.length > 0
+    ? { title: "Gespeichert mit Warnungen", description: warnings.map(w => w.message).join("\n") }
+    : { title: "Gespeichert" };
+}
+
+function ViolationMarker({ violations, className = "" }: { violations: ScheduleViolation[]; className?: string }) {
+  if (violations.length === 0) return null;
+  const isError = violations.some(v => v.severity === "error");
+  return (
+    <span className={className} title={violations.map(v => v.message).join("\n")} data-testid="schedule-violation">
+      <AlertTriangle className={`h-3 w-3 ${isError ? 'text-destructive' : 'text-amber-500'}`} />
+    </span>
+  );
+}
+
 function ScheduleView() {
   const [baseDate, setBaseDate] = useState(new Date());
   const [staffList, setStaffList] = useState<Staff[]>([]);
   const [entries, setEntries] = useState<ScheduleEntry[]>([]);
   const [shiftTypes, setShiftTypes] = useState<ShiftType[]>([]);
+  const [violations, setViolations] = useState<ScheduleViolation[]>([]);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<"day" | "week" | "month">("week");
   const { toast } = useToast();
@@ -131,10 +237,11 @@ function ScheduleView() {
   const fetchData = async () => {
     setLoading(true);
     try {
-      const [staffRes, entriesRes, shiftTypesRes] = await Promise.all([
+      const [staffRes, entriesRes, shiftTypesRes, violationsRes] = await Promise.all([
         fetch('/api/staff'),
         fetch(`/api/schedule?start=${startDate}&end=${endDate}`),
-        fetch('/api/shift-types')
+        fetch('/api/shift-types'),
+        fetch(`/api/schedule/violations?start=${startDate}&end=${endDate}`)
       ]);
       const staffData = await staffRes.json();
       const entriesData = await entriesRes.json();
@@ -142,6 +249,7 @@ function ScheduleView() {
       setStaffList(staffData);
       setEntries(entriesData);
       setShiftTypes(shiftTypesData);
+      setViolations(violationsRes.ok ? await violationsRes.json() : []);
     } catch (error) {
       console.error('Failed to fetch schedule:', error);
       toast({ title: "Fehler beim Laden", variant: "destructive" });
@@ -162,6 +270,10 @@ function ScheduleView() {
     return entries.find(e => e.staffId === staffId && e.date === date);
   };
 
+  const getViolations = (staffId: number, date: string) => {
+    return violations.filter(v => v.staffId === staffId && v.date === date);
+  };
+
   const navigate = (direction: number) => {
     const d = new Date(baseDate);
     if (viewMode === "day") d.setDate(d.getDate() + direction);
@@ -225,7 +337,7 @@ function ScheduleView() {
           Keine Mitarbeiter vorhanden. Bitte zuerst Mitarbeiter anlegen.
         </div>
       ) : viewMode === "month" ? (
-        <MonthScheduleView dates={dates} staffList={staffList} entries={entries} getEntry={getEntry} shiftTypes={shiftTypes} onSave={fetchData} />
+        <MonthScheduleView dates={dates} staffList={staffList} entries={entries} getEntry={getEntry} violations={violations} shiftTypes={shiftTypes} onSave={fetchData} />
       ) : (
         <div className="overflow-x-auto border rounded-lg">
           <table className="w-full text-xs border-collapse">
@@ -270,6 +382,7 @@ function ScheduleView() {
                         isToday={isToday}
                         isWeekend={isWeekend}
                         shiftTypes={shiftTypes}
+                        violations={getViolations(staff.id, dateStr)}
                         onSave={fetchData}
                       />
                     );
@@ -300,11 +413,12 @@ function ScheduleView() {
   );
 }
 
-function MonthScheduleView({ dates, staffList, entries, getEntry, shiftTypes, onSave }: {
+function MonthScheduleView({ dates, staffList, entries, getEntry, violations, shiftTypes, onSave }: {
   dates: Date[];
   staffList: Staff[];
   entries: ScheduleEntry[];
   getEntry: (staffId: number, date: string) => ScheduleEntry | undefined;
+  violations: ScheduleViolation[];
   shiftTypes: ShiftType[];
   onSave: () => void;
 }) {
@@ -335,6 +449,7 @@ function MonthScheduleView({ dates, staffList, entries, getEntry, shiftTypes, on
               dayNum={date.getDate()}
               isToday={isToday}
               entries={dayEntries}
+              violations={violations.filter(v => v.date === dateStr)}
               staffList={staffList}
               shiftTypes={shiftTypes}
               onSave={onSave}
@@ -346,11 +461,12 @@ function MonthScheduleView({ dates, staffList, entries, getEntry, shiftTypes, on
   );
 }
 
-function MonthDayScheduleCell({ date, dayNum, isToday, entries, staffList, shiftTypes, onSave }: {
+function MonthDayScheduleCell({ date, dayNum, isToday, entries, violations, staffList, shiftTypes, onSave }: {
   date: string;
   dayNum: number;
   isToday: boolean;
   entries: ScheduleEntry[];
+  violations: ScheduleViolation[];
   staffList: Staff[];
   shiftTypes: ShiftType[];
   onSave: () => void;
@@ -380,7 +496,8 @@ function MonthDayScheduleCell({ date, dayNum, isToday, entries, staffList, shift
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
-        <button className={`min-h-20 p-1 rounded border text-left overflow-hidden ${isToday ? 'border-primary bg-primary/10' : 'border-border'} hover:bg-secondary/50 transition-colors`}>
+        <button className={`relative min-h-20 p-1 rounded border text-left overflow-hidden ${isToday ? 'border-primary bg-primary/10' : 'border-border'} hover:bg-secondary/50 transition-colors`}>
+          <ViolationMarker violations={violations} className="absolute top-0.5 right-0.5" />
           <div className="text-xs text-muted-foreground font-medium">{dayNum}</div>
           <div className="flex flex-col gap-0.5 mt-0.5">
             {entries.slice(0, 3).map((entry, idx) => (
@@ -415,6 +532,7 @@ function MonthDayScheduleCell({ date, dayNum, isToday, entries, staffList, shift
                 date={date}
                 entry={entry}
                 shiftTypes={shiftTypes}
+                violations={violations.filter(v => v.staffId === staff.id)}
                 onSave={() => { setOpen(false); onSave(); }}
               />
             );
@@ -425,17 +543,19 @@ function MonthDayScheduleCell({ date, dayNum, isToday, entries, staffList, shift
   );
 }
 
-function DayStaffRow({ staff, date, entry, shiftTypes, onSave }: {
+function DayStaffRow({ staff, date, entry, shiftTypes, violations, onSave }: {
   staff: Staff;
   date: string;
   entry: ScheduleEntry | undefined;
   shiftTypes: ShiftType[];
+  violations: ScheduleViolation[];
   onSave: () => void;
 }) {
   const [type, setType] = useState(entry?.type || "shift");
   const [shiftTypeId, setShiftTypeId] = useState<string>(entry?.shiftTypeId?.toString() || (shiftTypes[0]?.id?.toString() || ""));
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const handleSave = async () => {
     setSaving(true);
@@ -444,23 +564,11 @@ function DayStaffRow({ staff, date, entry, shiftTypes, onSave }: {
         type,
         shiftTypeId: type === 'shift' && shiftTypeId ? parseInt(shiftTypeId) : null
       };
-      if (entry) {
-        await fetch(`/api/schedule/${entry.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload)
-        });
-      } else {
-        await fetch('/api/schedule', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ staffId: staff.id, date, ...payload })
-        });
-      }
-      toast({ title: "Gespeichert" });
+      const warnings = await saveScheduleEntry(entry, { staffId: staff.id, date, ...payload });
+      toast(savedToast(warnings));
       onSave();
     } catch (error: any) {
-      toast({ title: "Fehler", variant: "destructive" });
+      toast({ title: "Nicht gespeichert", description: error.message, variant: "destructive" });
     } finally {
       setSaving(false);
     }
@@ -470,28 +578,31 @@ function DayStaffRow({ staff, date, entry, shiftTypes, onSave }: {
     <div className="flex items-center gap-2 p-2 border rounded">
       <div className="w-6 h-6 rounded-full" style={{ backgroundColor: staff.color }} />
       <span className="font-medium text-sm flex-1 truncate">{staff.name}</span>
-      <Select value={type} onValueChange={setType}>
+      <ViolationMarker violations={violations} />
+      <Select value={type} onValueChange={setType} disabled={!can("schedule", "edit")}>
         <SelectTrigger className="w-20 h-7 text-xs"><SelectValue /></SelectTrigger>
         <SelectContent>
           {ENTRY_TYPES.map(t => <SelectItem key={t.key} value={t.key}>{t.de}</SelectItem>)}
         </SelectContent>
       </Select>
       {type === 'shift' && shiftTypes.length > 0 && (
-        <Select value={shiftTypeId} onValueChange={setShiftTypeId}>
+        <Select value={shiftTypeId} onValueChange={setShiftTypeId} disabled={!can("schedule", "edit")}>
           <SelectTrigger className="w-24 h-7 text-xs"><SelectValue /></SelectTrigger>
           <SelectContent>
             {shiftTypes.map(st => <SelectItem key={st.id} value={st.id.toString()}>{st.startTime}</SelectItem>)}
           </SelectContent>
         </Select>
       )}
-      <Button size="sm" className="h-7" onClick={handleSave} disabled={saving}>
-        {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : "OK"}
-      </Button>
+      {can("schedule", "edit") && (
+        <Button size="sm" className="h-7" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : "OK"}
+        </Button>
+      )}
     </div>
   );
 }
 
-function ScheduleCell({ staffId, date, entry, staffColor, isToday, isWeekend, shiftTypes, onSave }: {
+function ScheduleCell({ staffId, date, entry, staffColor, isToday, isWeekend, shiftTypes, violations, onSave }: {
   staffId: number;
   date: string;
   entry: ScheduleEntry | undefined;
@@ -499,6 +610,7 @@ function ScheduleCell({ staffId, date, entry, staffColor, isToday, isWeekend, sh
   isToday: boolean;
   isWeekend?: boolean;
   shiftTypes: ShiftType[];
+  violations: ScheduleViolation[];
   onSave: () => void;
 }) {
   const [open, setOpen] = useState(false);
@@ -507,6 +619,7 @@ function ScheduleCell({ staffId, date, entry, staffColor, isToday, isWeekend, sh
   const [notes, setNotes] = useState(entry?.notes || "");
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   useEffect(() => {
     setType(entry?.type || "shift");
@@ -523,24 +636,12 @@ function ScheduleCell({ staffId, date, entry, staffColor, isToday, isWeekend, sh
         notes: notes || null
       };
       
-      if (entry) {
-        await fetch(`/api/schedule/${entry.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload)
-        });
-      } else {
-        await fetch('/api/schedule', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ staffId, date, ...payload })
-        });
-      }
-      toast({ title: "Gespeichert" });
+      const warnings = await saveScheduleEntry(entry, { staffId, date, ...payload });
+      toast(savedToast(warnings));
       setOpen(false);
       onSave();
     } catch (error: any) {
-      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+      toast({ title: "Nicht gespeichert", description: error.message, variant: "destructive" });
     } finally {
       setSaving(false);
     }
@@ -596,10 +697,22 @@ function ScheduleCell({ staffId, date, entry, staffColor, isToday, isWeekend, sh
     return '';
   };
 
+  if (!can("schedule", "edit")) {
+    return (
+      <td className={`relative p-1 text-center border ${isToday ? 'ring-2 ring-primary ring-inset' : ''} ${bgColor()}`}>
+        <ViolationMarker violations={violations} className="absolute top-0 right-0" />
+        <div className="min-h-[32px] flex items-center justify-center">
+          {getDisplayContent()}
+        </div>
+      </td>
+    );
+  }
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
-        <td className={`p-1 text-center cursor-pointer hover:bg-secondary/50 transition-colors border ${isToday ? 'ring-2 ring-primary ring-inset' : ''} ${bgColor()}`}>
+        <td className={`relative p-1 text-center cursor-pointer hover:bg-secondary/50 transition-colors border ${isToday ? 'ring-2 ring-primary ring-inset' : ''} ${bgColor()}`}>
+          <ViolationMarker violations={violations} className="absolute top-0 right-0" />
           <div className="min-h-[32px] flex items-center justify-center">
             {getDisplayContent()}
           </div>
@@ -610,6 +723,16 @@ function ScheduleCell({ staffId, date, entry, staffColor, isToday, isWeekend, sh
           <DialogTitle>{new Date(date).toLocaleDateString('de-DE', { weekday: 'long', day: '2-digit', month: 'long' })}</DialogTitle>
         </DialogHeader>
         <div className="space-y-4 py-2">
+          {violations.length > 0 && (
+            <div className="space-y-1">
+              {violations.map((violation, idx) => (
+                <div key={idx} className={`flex items-start gap-2 text-xs rounded p-2 ${violation.severity === 'error' ? 'bg-destructive/10 text-destructive' : 'bg-amber-50 text-amber-700'}`}>
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                  <span>{violation.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="space-y-2">
             <Label>Typ</Label>
             <Select value={type} onValueChange={setType}>
@@ -648,7 +771,7 @@ function ScheduleCell({ staffId, date, entry, staffColor, isToday, isWeekend, sh
               {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
               Speichern
             </Button>
-            {entry && (
+            {entry && can("schedule", "delete") && (
               <Button variant="destructive" size="icon" onClick={handleDelete} disabled={saving}>
                 <Trash2 className="h-4 w-4" />
               </Button>
@@ -664,6 +787,7 @@ function StaffView() {
   const [staffList, setStaffList] = useState<Staff[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const fetchStaff = async () => {
     setLoading(true);
@@ -695,9 +819,11 @@ function StaffView() {
 
   return (
     <div className="space-y-4">
-      <div className="flex justify-end">
-        <AddStaffDialog onSave={fetchStaff} />
-      </div>
+      {can("schedule", "edit") && (
+        <div className="flex justify-end">
+          <AddStaffDialog onSave={fetchStaff} />
+        </div>
+      )}
 
       {loading ? (
         <div className="flex justify-center py-8">
@@ -718,14 +844,18 @@ function StaffView() {
                   </div>
                   <div>
                     <div className="font-medium">{member.name}</div>
-                    <div className="text-xs text-muted-foreground">{member.role}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {member.role}{member.weeklyHours != null && ` · ${formatHours(member.weeklyHours)} h/Woche`}
+                    </div>
                   </div>
                 </div>
                 <div className="flex gap-1">
-                  <EditStaffDialog member={member} onSave={fetchStaff} />
-                  <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => handleDelete(member.id)}>
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {can("schedule", "edit") && <EditStaffDialog member={member} onSave={fetchStaff} />}
+                  {can("schedule", "delete") && (
+                    <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => handleDelete(member.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -741,6 +871,7 @@ function AddStaffDialog({ onSave }: { onSave: () => void }) {
   const [name, setName] = useState("");
   const [role, setRole] = useState("Koch");
   const [color, setColor] = useState(COLORS[0]);
+  const [weeklyHours, setWeeklyHours] = useState("");
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
 
@@ -748,14 +879,16 @@ function AddStaffDialog({ onSave }: { onSave: () => void }) {
     e.preventDefault();
     setSaving(true);
     try {
-      await fetch('/api/staff', {
+      const res = await fetch('/api/staff', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, role, color })
+        body: JSON.stringify({ name, role, color, weeklyHours: parseHours(weeklyHours) })
       });
+      if (!res.ok) throw new Error((await res.json()).error);
       toast({ title: "Mitarbeiter hinzugefügt" });
       setOpen(false);
       setName("");
+      setWeeklyHours("");
       onSave();
     } catch (error: any) {
       toast({ title: "Fehler", description: error.message, variant: "destructive" });
@@ -780,6 +913,10 @@ function AddStaffDialog({ onSave }: { onSave: () => void }) {
             <Label>Name</Label>
             <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Max Mustermann" required />
           </div>
+          <div className="space-y-2">
+            <Label>Wochenstunden laut Vertrag</Label>
+            <Input type="number" min="0" step="0.5" value={weeklyHours} onChange={(e) => setWeeklyHours(e.target.value)} placeholder="z.B. 40" />
+          </div>
           <div className="space-y-2">
             <Label>Rolle</Label>
             <Select value={role} onValueChange={setRole}>
@@ -823,18 +960,42 @@ function EditStaffDialog({ member, onSave }: { member: Staff; onSave: () => void
   const [name, setName] = useState(member.name);
   const [role, setRole] = useState(member.role);
   const [color, setColor] = useState(member.color);
+  const [weeklyHours, setWeeklyHours] = useState(member.weeklyHours?.toString() ?? "");
+  const [hoursBalanceStart, setHoursBalanceStart] = useState(member.hoursBalanceStart ?? "");
+  const [openingBalanceHours, setOpeningBalanceHours] = useState(member.openingBalanceHours.toString());
+  const [userId, setUserId] = useState(member.userId ?? "none");
+  const [users, setUsers] = useState<{ id: string; name: string; email: string }[]>([]);
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const { isAdmin } = useAuth();
+
+  // Only admins may list user accounts
+  useEffect(() => {
+    if (!open || !isAdmin) return;
+    fetch('/api/admin/users')
+      .then(res => res.ok ? res.json() : [])
+      .then(setUsers)
+      .catch(error => console.error('Failed to fetch users:', error));
+  }, [open, isAdmin]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
     try {
-      await fetch(`/api/staff/${member.id}`, {
+      const res = await fetch(`/api/staff/${member.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, role, color })
+        body: JSON.stringify({
+          name,
+          role,
+          color,
+          weeklyHours: parseHours(weeklyHours),
+          hoursBalanceStart: hoursBalanceStart || null,
+          openingBalanceHours: parseHours(openingBalanceHours) ?? 0,
+          ...(isAdmin ? { userId: userId === "none" ? null : userId } : {}),
+        })
       });
+      if (!res.ok) throw new Error((await res.json()).error);
       toast({ title: "Gespeichert" });
       setOpen(false);
       onSave();
@@ -861,6 +1022,35 @@ function EditStaffDialog({ member, onSave }: { member: Staff; onSave: () => void
             <Label>Name</Label>
             <Input value={name} onChange={(e) => setName(e.target.value)} required />
           </div>
+          <div className="space-y-2">
+            <Label>Wochenstunden laut Vertrag</Label>
+            <Input type="number" min="0" step="0.5" value={weeklyHours} onChange={(e) => setWeeklyHours(e.target.value)} placeholder="Ohne Soll" />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Saldo ab</Label>
+              <Input type="date" value={hoursBalanceStart} onChange={(e) => setHoursBalanceStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Anfangssaldo (h)</Label>
+              <Input type="number" step="0.25" value={openingBalanceHours} onChange={(e) => setOpeningBalanceHours(e.target.value)} />
+            </div>
+          </div>
+          {isAdmin && (
+            <div className="space-y-2">
+              <Label>Benutzerkonto</Label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Kein Konto</SelectItem>
+                  {users.map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.name || u.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Mit Konto sieht der Mitarbeiter „Meine Schichten“ und kann Urlaub und Diensttausch beantragen.</p>
+            </div>
+          )}
           <div className="space-y-2">
             <Label>Rolle</Label>
             <Select value={role} onValueChange={setRole}>
@@ -899,6 +1089,107 @@ function EditStaffDialog({ member, onSave }: { member: Staff; onSave: () => void
   );
 }
 
+// Limits that belong to a rule; the absence rule has none
+const RULE_LIMITS: Partial<Record<ScheduleRule, { key: "minRestHours" | "maxConsecutiveDays" | "maxWeeklyHours"; unit: string; step: string }>> = {
+  minRest: { key: "minRestHours", unit: "h", step: "0.5" },
+  maxConsecutiveDays: { key: "maxConsecutiveDays", unit: "Tage", step: "1" },
+  maxWeeklyHours: { key: "maxWeeklyHours", unit: "h", step: "0.5" },
+};
+
+function ScheduleRulesView() {
+  const [rules, setRules] = useState<ScheduleRuleConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  useEffect(() => {
+    fetch('/api/schedule/rules')
+      .then(res => res.json())
+      .then(setRules)
+      .catch(error => console.error('Failed to fetch schedule rules:', error));
+  }, []);
+
+  if (!rules) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const setSeverity = (rule: ScheduleRule, severity: ScheduleRuleSeverity) => {
+    setRules({ ...rules, severity: { ...rules.severity, [rule]: severity } });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/schedule/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rules)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setRules(data);
+      toast({ title: "Regeln gespeichert" });
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Warnungen werden im Kalender markiert, gesperrte Einträge lassen sich nicht speichern.
+      </p>
+      <div className="grid gap-3">
+        {SCHEDULE_RULES.map(rule => {
+          const limit = RULE_LIMITS[rule];
+          return (
+            <Card key={rule}>
+              <CardContent className="p-3 flex items-center justify-between gap-2">
+                <div className="font-medium text-sm flex-1">{SCHEDULE_RULE_LABELS[rule]}</div>
+                {limit && (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min="1"
+                      step={limit.step}
+                      value={rules[limit.key]}
+                      onChange={(e) => setRules({ ...rules, [limit.key]: parseFloat(e.target.value) || 0 })}
+                      disabled={!can("schedule", "edit")}
+                      className="w-20 h-8"
+                      data-testid={`input-rule-${rule}`}
+                    />
+                    <span className="text-xs text-muted-foreground w-8">{limit.unit}</span>
+                  </div>
+                )}
+                <Select value={rules.severity[rule]} onValueChange={(v) => setSeverity(rule, v as ScheduleRuleSeverity)} disabled={!can("schedule", "edit")}>
+                  <SelectTrigger className="w-28 h-8 text-xs" data-testid={`select-rule-${rule}`}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SCHEDULE_RULE_SEVERITIES.map(severity => (
+                      <SelectItem key={severity} value={severity}>{SCHEDULE_RULE_SEVERITY_LABELS[severity]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+      {can("schedule", "edit") && (
+        <Button onClick={handleSave} className="w-full" disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+          Speichern
+        </Button>
+      )}
+    </div>
+  );
+}
+
 function getWeekNumber(date: Date): number {
   const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
   const dayNum = d.getUTCDay() || 7;
@@ -912,6 +1203,7 @@ function ShiftTypesView() {
   const [loading, setLoading] = useState(true);
   const [showAdd, setShowAdd] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const fetchShiftTypes = async () => {
     try {
@@ -954,9 +1246,11 @@ function ShiftTypesView() {
         <p className="text-sm text-muted-foreground">
           Hier können Sie eigene Dienste mit Namen und Zeiten erstellen.
         </p>
-        <Button size="sm" onClick={() => setShowAdd(true)} className="gap-1">
-          <PlusCircle className="h-4 w-4" /> Neuer Dienst
-        </Button>
+        {can("schedule", "edit") && (
+          <Button size="sm" onClick={() => setShowAdd(true)} className="gap-1">
+            <PlusCircle className="h-4 w-4" /> Neuer Dienst
+          </Button>
+        )}
       </div>
 
       {shiftTypes.length === 0 ? (
@@ -978,19 +1272,21 @@ function ShiftTypesView() {
                   <div>
                     <div className="font-medium">{st.name}</div>
                     <div className="text-sm text-muted-foreground">
-                      {st.startTime.substring(0, 5)} - {st.endTime.substring(0, 5)}
+                      {st.startTime.substring(0, 5)} - {st.endTime.substring(0, 5)} · {shiftBreakMinutes(st)} Min. Pause
                     </div>
                   </div>
                 </div>
                 <div className="flex gap-2">
-                  <ShiftTypeEditDialog shiftType={st} onSave={fetchShiftTypes} />
-                  <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    onClick={() => handleDelete(st.id)}
-                  >
-                    <Trash2 className="h-4 w-4 text-destructive" />
-                  </Button>
+                  {can("schedule", "edit") && <ShiftTypeEditDialog shiftType={st} onSave={fetchShiftTypes} />}
+                  {can("schedule", "delete") && (
+                    <Button 
+                      variant="ghost" 
+                      size="icon" 
+                      onClick={() => handleDelete(st.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -1015,6 +1311,7 @@ function ShiftTypeAddDialog({ open, onOpenChange, onSave }: {
   const [name, setName] = useState('');
   const [startTime, setStartTime] = useState('08:00');
   const [endTime, setEndTime] = useState('16:30');
+  const [breakMinutes, setBreakMinutes] = useState('');
   const [color, setColor] = useState('#F37021');
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
@@ -1030,12 +1327,13 @@ function ShiftTypeAddDialog({ open, onOpenChange, onSave }: {
       await fetch('/api/shift-types', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, startTime, endTime, color })
+        body: JSON.stringify({ name, startTime, endTime, breakMinutes: parseBreakMinutes(breakMinutes), color })
       });
       toast({ title: 'Dienst erstellt' });
       setName('');
       setStartTime('08:00');
       setEndTime('16:30');
+      setBreakMinutes('');
       onSave();
     } catch (error) {
       toast({ title: 'Fehler', variant: 'destructive' });
@@ -1077,6 +1375,7 @@ function ShiftTypeAddDialog({ open, onOpenChange, onSave }: {
               />
             </div>
           </div>
+          <BreakMinutesInput value={breakMinutes} onChange={setBreakMinutes} startTime={startTime} endTime={endTime} />
           <div className="space-y-2">
             <Label>Farbe</Label>
             <div className="flex gap-2 flex-wrap">
@@ -1112,6 +1411,7 @@ function ShiftTypeEditDialog({ shiftType, onSave }: { shiftType: ShiftType; onSa
   const [name, setName] = useState(shiftType.name);
   const [startTime, setStartTime] = useState(shiftType.startTime.substring(0, 5));
   const [endTime, setEndTime] = useState(shiftType.endTime.substring(0, 5));
+  const [breakMinutes, setBreakMinutes] = useState(shiftType.breakMinutes?.toString() ?? '');
   const [color, setColor] = useState(shiftType.color);
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
@@ -1123,7 +1423,7 @@ function ShiftTypeEditDialog({ shiftType, onSave }: { shiftType: ShiftType; onSa
       await fetch(`/api/shift-types/${shiftType.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, startTime, endTime, color })
+        body: JSON.stringify({ name, startTime, endTime, breakMinutes: parseBreakMinutes(breakMinutes), color })
       });
       toast({ title: 'Gespeichert' });
       setOpen(false);
@@ -1161,6 +1461,7 @@ function ShiftTypeEditDialog({ shiftType, onSave }: { shiftType: ShiftType; onSa
               <Input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} />
             </div>
           </div>
+          <BreakMinutesInput value={breakMinutes} onChange={setBreakMinutes} startTime={startTime} endTime={endTime} />
           <div className="space-y-2">
             <Label>Farbe</Label>
             <div className="flex gap-2 flex-wrap">
@@ -1190,3 +1491,154 @@ function ShiftTypeEditDialog({ shiftType, onSave }: { shiftType: ShiftType; onSa
     </Dialog>
   );
 }
+
+// Empty break field = statutory minimum
+function parseBreakMinutes(value: string): number | null {
+  return value.trim() === '' ? null : Math.max(0, Math.round(parseFloat(value) || 0));
+}
+
+function BreakMinutesInput({ value, onChange, startTime, endTime }: {
+  value: string;
+  onChange: (value: string) => void;
+  startTime: string;
+  endTime: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>Pause (Min.)</Label>
+      <Input
+        type="number"
+        min="0"
+        step="5"
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        placeholder={`Gesetzlich: ${shiftBreakMinutes({ startTime, endTime })} Min.`}
+      />
+    </div>
+  );
+}
+
+function formatHours(hours: number): string {
+  return hours.toLocaleString('de-DE', { maximumFractionDigits: 2 });
+}
+
+function parseHours(value: string): number | null {
+  return value.trim() === '' ? null : parseFloat(value.replace(',', '.'));
+}
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function HoursCell({ value, signed = false }: { value: number | null; signed?: boolean }) {
+  if (value === null) return <td className="p-2 text-right text-muted-foreground">–</td>;
+  const color = signed && value < 0 ? 'text-destructive' : signed && value > 0 ? 'text-green-600' : '';
+  return (
+    <td className={`p-2 text-right tabular-nums ${color}`}>
+      {signed && value > 0 ? '+' : ''}{formatHours(value)}
+    </td>
+  );
+}
+
+function WorkingHoursView() {
+  const { can } = useAuth();
+  const [month, setMonth] = useState(currentMonth());
+  const [report, setReport] = useState<WorkingHoursReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!month) return;
+    setLoading(true);
+    fetch(`/api/schedule/hours?month=${month}`)
+      .then(res => res.json())
+      .then(data => setReport(data.staff ? data : null))
+      .catch(error => console.error('Failed to fetch working hours:', error))
+      .finally(() => setLoading(false));
+  }, [month]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="w-44" data-testid="input-hours-month" />
+        {can("schedule", "edit") && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            disabled={!month}
+            onClick={() => window.open(`/api/schedule/hours/export?month=${month}`, '_blank')}
+            data-testid="button-hours-export"
+          >
+            <FileSpreadsheet className="h-4 w-4" /> Excel
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Netto-Stunden ohne Pausen. Urlaubs- und Krankheitstage werden mit einem Fünftel der Wochenstunden gutgeschrieben, das Soll gilt für Montag bis Freitag.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !report || report.staff.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Keine Mitarbeiter vorhanden
+        </div>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-xs text-muted-foreground">
+              <tr>
+                <th className="p-2 text-left">Mitarbeiter</th>
+                <th className="p-2 text-right">Dienste</th>
+                <th className="p-2 text-right">Ist</th>
+                <th className="p-2 text-right">Urlaub</th>
+                <th className="p-2 text-right">Krank</th>
+                <th className="p-2 text-right">Soll</th>
+                <th className="p-2 text-right">Differenz</th>
+                <th className="p-2 text-right">Übertrag</th>
+                <th className="p-2 text-right">Saldo</th>
+                {report.weeks.map(week => (
+                  <th key={week.start} className="p-2 text-right">KW {week.week}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.staff.map(row => (
+                <tr key={row.staffId} className="border-t" data-testid={`row-hours-${row.staffId}`}>
+                  <td className="p-2">
+                    <div className="font-medium">{row.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {row.weeklyHours != null ? `${formatHours(row.weeklyHours)} h/Woche` : 'Ohne Soll'}
+                    </div>
+                  </td>
+                  <td className="p-2 text-right">
+                    <span className="inline-flex items-center gap-1">
+                      {row.untimedShifts > 0 && (
+                        <span title={`${row.untimedShifts} Dienst(e) ohne Dienstzeiten, mit 0 h gezählt`}>
+                          <AlertTriangle className="h-3 w-3 text-amber-500" />
+                        </span>
+                      )}
+                      {row.shifts}
+                    </span>
+                  </td>
+                  <HoursCell value={row.netHours} />
+                  <td className="p-2 text-right">{row.vacationDays}</td>
+                  <td className="p-2 text-right">{row.sickDays}</td>
+                  <HoursCell value={row.targetHours} />
+                  <HoursCell value={row.difference} signed />
+                  <HoursCell value={row.carryOver} signed />
+                  <HoursCell value={row.balance} signed />
+                  {row.weeks.map(week => (
+                    <HoursCell key={week.start} value={week.hours} />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,12 +8,26 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Loader2, Users, Shield, Settings2, Check, Globe, Trash2, UserCheck, UserX, LogOut, UserPlus } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Users, Shield, Settings2, Check, Globe, Trash2, UserCheck, UserX, LogOut, UserPlus, Link2, Copy, ExternalLink, Radio, KeyRound, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { useLocation } from "wouter";
+import { useApp } from "@/lib/store";
+import {
+  DEFAULT_PERMISSIONS,
+  PERMISSION_ACTIONS,
+  PERMISSION_ACTION_LABELS,
+  PERMISSION_RESOURCES,
+  PERMISSION_RESOURCE_LABELS,
+  type PermissionAction,
+  type PermissionMatrix,
+  type PermissionResource,
+  type Role,
+} from "@shared/permissions";
+import { APP_MODULES, APP_MODULE_INFO, type AppModule } from "@shared/modules";
 
 interface UserData {
   id: string;
@@ -77,10 +91,13 @@ export default function SettingsPage() {
       )}
 
       <Tabs defaultValue="general" className="w-full">
-        <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-3' : 'grid-cols-1'}`}>
+        <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-6' : 'grid-cols-1'}`}>
           <TabsTrigger value="general"><Globe className="h-4 w-4 mr-1" /> Sprache</TabsTrigger>
           {isAdmin && <TabsTrigger value="users"><Users className="h-4 w-4 mr-1" /> Benutzer</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="permissions"><KeyRound className="h-4 w-4 mr-1" /> Rechte</TabsTrigger>}
           {isAdmin && <TabsTrigger value="visibility"><Settings2 className="h-4 w-4 mr-1" /> Sichtbarkeit</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="guestmenu"><Link2 className="h-4 w-4 mr-1" /> Gästemenü</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="sensors"><Radio className="h-4 w-4 mr-1" /> Sensoren</TabsTrigger>}
         </TabsList>
         
         <TabsContent value="general" className="mt-4">
@@ -120,11 +137,29 @@ export default function SettingsPage() {
           </TabsContent>
         )}
         
+        {isAdmin && (
+          <TabsContent value="permissions" className="mt-4">
+            <PermissionSettings />
+          </TabsContent>
+        )}
+
         {isAdmin && (
           <TabsContent value="visibility" className="mt-4">
             <VisibilitySettings />
           </TabsContent>
         )}
+
+        {isAdmin && (
+          <TabsContent value="guestmenu" className="mt-4">
+            <GuestMenuLinks />
+          </TabsContent>
+        )}
+
+        {isAdmin && (
+          <TabsContent value="sensors" className="mt-4">
+            <SensorDevices />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -387,54 +422,401 @@ function UserManagement() {
   );
 }
 
+// Minimum role per area and action; admins can always do everything
+function PermissionSettings() {
+  const { permissions, refreshPermissions } = useAuth();
+  const [matrix, setMatrix] = useState<PermissionMatrix>(permissions);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setMatrix(permissions);
+  }, [permissions]);
+
+  const setRole = (resource: PermissionResource, action: PermissionAction, role: Role) => {
+    setMatrix(prev => ({ ...prev, [resource]: { ...prev[resource], [action]: role } }));
+  };
+
+  const handleSave = async (next: PermissionMatrix) => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/permissions", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(next),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setMatrix(data);
+      await refreshPermissions();
+      toast({ title: "Rechte gespeichert" });
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm("Alle Rechte auf die Standardwerte zurücksetzen?")) return;
+    handleSave(DEFAULT_PERMISSIONS);
+  };
+
+  const changed = JSON.stringify(matrix) !== JSON.stringify(permissions);
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="text-sm">Rechte nach Rolle</CardTitle>
+        <CardDescription className="text-xs">Mindestrolle je Bereich und Aktion. Höhere Rollen haben dieselben Rechte, Admins dürfen alles.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="py-1 pr-2 font-medium">Bereich</th>
+                {PERMISSION_ACTIONS.map(action => (
+                  <th key={action} className="py-1 px-1 font-medium">{PERMISSION_ACTION_LABELS[action]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PERMISSION_RESOURCES.map(resource => (
+                <tr key={resource} className="border-t">
+                  <td className="py-1 pr-2 font-medium">{PERMISSION_RESOURCE_LABELS[resource]}</td>
+                  {PERMISSION_ACTIONS.map(action => (
+                    <td key={action} className="py-1 px-1">
+                      <Select value={matrix[resource][action]} onValueChange={(role) => setRole(resource, action, role as Role)}>
+                        <SelectTrigger className="h-8 text-xs min-w-28" data-testid={`select-permission-${resource}-${action}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => (
+                            <SelectItem key={role.key} value={role.key}>{role.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => handleSave(matrix)} className="flex-1" disabled={saving || !changed} data-testid="button-save-permissions">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Check className="h-4 w-4 mr-2" />}
+            Speichern
+          </Button>
+          <Button variant="outline" onClick={handleReset} disabled={saving} className="gap-1">
+            <RotateCcw className="h-4 w-4" /> Standard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Hidden modules per role; admins always see everything
 function VisibilitySettings() {
-  const [settings, setSettings] = useState<Record<string, string>>({});
-  const [loading, setLoading] = useState(true);
+  const { modules, refreshPermissions } = useAuth();
+  const [saving, setSaving] = useState(false);
   const { toast } = useToast();
 
-  const MODULES = [
-    { key: "show_recipes", label: "Rezepte", description: "Rezeptdatenbank anzeigen" },
-    { key: "show_menu_plan", label: "Menüplan", description: "Wochenmenü anzeigen" },
-    { key: "show_guests", label: "Gästezahlen", description: "Gästeverwaltung anzeigen" },
-    { key: "show_schedule", label: "Dienstplan", description: "Personalplanung anzeigen" },
-    { key: "show_haccp", label: "HACCP", description: "Temperaturprotokoll anzeigen" },
-  ];
+  const roles = ROLES.filter(role => role.key !== "admin");
 
-  const fetchSettings = async () => {
+  const handleToggle = async (module: AppModule, role: Role, visible: boolean) => {
+    const hidden = visible ? modules[module].filter(r => r !== role) : [...modules[module], role];
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/module-visibility", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...modules, [module]: hidden }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      await refreshPermissions();
+      toast({ title: "Einstellung gespeichert" });
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="text-sm">Bereiche je Rolle</CardTitle>
+        <CardDescription className="text-xs">Ausgeblendete Bereiche verschwinden aus der Navigation und sind für die Rolle gesperrt</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground">
+                <th className="py-1 pr-2 text-left font-medium">Bereich</th>
+                {roles.map(role => (
+                  <th key={role.key} className="py-1 px-1 font-medium text-center text-[10px]">{role.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {APP_MODULES.map(module => (
+                <tr key={module} className="border-t">
+                  <td className="py-2 pr-2">
+                    <div className="font-medium text-sm">{APP_MODULE_INFO[module].label}</div>
+                    <div className="text-xs text-muted-foreground">{APP_MODULE_INFO[module].description}</div>
+                  </td>
+                  {roles.map(role => (
+                    <td key={role.key} className="py-2 px-1 text-center">
+                      <Checkbox
+                        checked={!modules[module].includes(role.key as Role)}
+                        onCheckedChange={(checked) => handleToggle(module, role.key as Role, checked === true)}
+                        disabled={saving}
+                        data-testid={`checkbox-module-${module}-${role.key}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ShareToken {
+  id: number;
+  token: string;
+  label: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+function GuestMenuLinks() {
+  const [tokens, setTokens] = useState<ShareToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [label, setLabel] = useState("");
+  const { toast } = useToast();
+
+  const fetchTokens = async () => {
     setLoading(true);
     try {
-      const res = await fetch("/api/admin/settings");
+      const res = await fetch("/api/admin/share-tokens");
       if (res.ok) {
-        const data = await res.json();
-        setSettings(data);
+        setTokens(await res.json());
       }
     } catch (error) {
-      console.error("Failed to fetch settings:", error);
+      console.error("Failed to fetch share tokens:", error);
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchSettings();
+    fetchTokens();
   }, []);
 
-  const handleToggle = async (key: string, enabled: boolean) => {
+  const linkFor = (token: string) => `${window.location.origin}/guest/${token}`;
+
+  const handleCreate = async () => {
     try {
-      const res = await fetch(`/api/admin/settings/${key}`, {
-        method: "PUT",
+      const res = await fetch("/api/admin/share-tokens", {
+        method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ value: enabled ? "true" : "false" }),
+        body: JSON.stringify({ label }),
       });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setLabel("");
+      toast({ title: "Link erstellt" });
+      fetchTokens();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    if (!confirm("Link widerrufen? Gäste können das Menü dann nicht mehr über diesen Link abrufen.")) return;
+    try {
+      const res = await fetch(`/api/admin/share-tokens/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).error);
+      toast({ title: "Link widerrufen" });
+      fetchTokens();
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(linkFor(token));
+      toast({ title: "Link kopiert" });
+    } catch {
+      toast({ title: "Kopieren nicht möglich", description: linkFor(token), variant: "destructive" });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="text-sm">Öffentliche Menü-Links</CardTitle>
+        <CardDescription className="text-xs">Gäste sehen das Tagesmenü mit Allergenen ohne Anmeldung, z. B. per QR-Code am Buffet</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Bezeichnung, z. B. Speisesaal"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            data-testid="input-share-label"
+          />
+          <Button onClick={handleCreate} data-testid="button-create-share">
+            <Link2 className="h-4 w-4 mr-1" /> Erstellen
+          </Button>
+        </div>
+
+        {tokens.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            Noch keine Links erstellt
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map(token => (
+              <div key={token.id} className="flex items-center justify-between p-2 bg-secondary/30 rounded gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium text-sm flex items-center gap-2">
+                    {token.label || "Ohne Bezeichnung"}
+                    {token.revokedAt && <Badge variant="secondary" className="text-[10px]">Widerrufen</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{linkFor(token.token)}</div>
+                </div>
+                {!token.revokedAt && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleCopy(token.token)} data-testid={`copy-share-${token.id}`}>
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" asChild>
+                      <a href={`/guest/${token.token}`} target="_blank" rel="noreferrer">
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleRevoke(token.id)} data-testid={`revoke-share-${token.id}`}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface SensorDevice {
+  id: number;
+  name: string;
+  fridgeId: number | null;
+  keyPrefix: string;
+  sampleIntervalMinutes: number;
+  active: boolean;
+  lastSeenAt: string | null;
+  createdAt: string;
+}
+
+function SensorDevices() {
+  const { fridges } = useApp();
+  const [devices, setDevices] = useState<SensorDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [fridgeId, setFridgeId] = useState("any");
+  const [sampleInterval, setSampleInterval] = useState("15");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchDevices = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/sensors");
       if (res.ok) {
-        setSettings(prev => ({ ...prev, [key]: enabled ? "true" : "false" }));
-        toast({ title: "Einstellung gespeichert" });
+        setDevices(await res.json());
       }
+    } catch (error) {
+      console.error("Failed to fetch sensors:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      const res = await fetch("/api/admin/sensors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          fridgeId: fridgeId === "any" ? null : parseInt(fridgeId, 10),
+          sampleIntervalMinutes: parseInt(sampleInterval, 10) || 0,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setNewKey(data.apiKey);
+      setName("");
+      fetchDevices();
     } catch (error: any) {
       toast({ title: "Fehler", description: error.message, variant: "destructive" });
     }
   };
 
+  const handleToggle = async (device: SensorDevice, active: boolean) => {
+    try {
+      const res = await fetch(`/api/admin/sensors/${device.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setDevices(prev => prev.map(d => d.id === device.id ? { ...d, active } : d));
+    } catch (error: any) {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (device: SensorDevice) => {
+    if (!confirm(`Sensor "${device.name}" löschen? Der API-Schlüssel wird sofort ungültig, bisherige Messwerte bleiben erhalten.`)) return;
+    await fetch(`/api/admin/sensors/${device.id}`, { method: "DELETE" });
+    fetchDevices();
+  };
+
+  const handleCopyKey = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey);
+      toast({ title: "Schlüssel kopiert" });
+    } catch {
+      toast({ title: "Kopieren nicht möglich", variant: "destructive" });
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center py-8">
@@ -446,23 +828,73 @@ function VisibilitySettings() {
   return (
     <Card>
       <CardHeader className="py-3">
-        <CardTitle className="text-sm">Bereiche ein-/ausblenden</CardTitle>
-        <CardDescription className="text-xs">Steuern Sie, welche Bereiche für alle Benutzer sichtbar sind</CardDescription>
+        <CardTitle className="text-sm">Temperatursensoren</CardTitle>
+        <CardDescription className="text-xs">Funkthermometer oder Gateways senden Messwerte per API-Schlüssel an POST /api/sensors/readings</CardDescription>
       </CardHeader>
-      <CardContent className="space-y-4">
-        {MODULES.map(mod => (
-          <div key={mod.key} className="flex items-center justify-between">
-            <div>
-              <div className="font-medium text-sm">{mod.label}</div>
-              <div className="text-xs text-muted-foreground">{mod.description}</div>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <Input placeholder="Name, z. B. Funkfühler Kühlraum" value={name} onChange={(e) => setName(e.target.value)} className="col-span-2" />
+          <Select value={fridgeId} onValueChange={setFridgeId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Gateway (alle Kontrollpunkte)</SelectItem>
+              {fridges.map(f => (
+                <SelectItem key={f.id} value={String(f.id)}>{f.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Input type="number" min="0" value={sampleInterval} onChange={(e) => setSampleInterval(e.target.value)} />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">Min. Intervall</span>
+          </div>
+          <Button onClick={handleCreate} disabled={!name.trim()} className="col-span-2">
+            <Radio className="h-4 w-4 mr-1" /> Sensor anlegen
+          </Button>
+        </div>
+
+        {newKey && (
+          <div className="p-3 rounded border border-primary bg-primary/5 space-y-2">
+            <div className="text-xs font-medium">API-Schlüssel (wird nur einmal angezeigt):</div>
+            <div className="flex items-center gap-2">
+              <code className="text-xs break-all flex-1">{newKey}</code>
+              <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" onClick={handleCopyKey}>
+                <Copy className="h-3 w-3" />
+              </Button>
             </div>
-            <Switch 
-              checked={settings[mod.key] !== "false"}
-              onCheckedChange={(checked) => handleToggle(mod.key, checked)}
-              data-testid={`switch-${mod.key}`}
-            />
+            <Button size="sm" variant="outline" onClick={() => setNewKey(null)}>Schlüssel notiert</Button>
+          </div>
+        )}
+
+        {devices.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            Noch keine Sensoren angelegt
           </div>
-        ))}
+        ) : (
+          <div className="space-y-2">
+            {devices.map(device => (
+              <div key={device.id} className="flex items-center justify-between p-2 bg-secondary/30 rounded gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium text-sm">{device.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {device.fridgeId ? fridges.find(f => f.id === device.fridgeId)?.name ?? `#${device.fridgeId}` : "Gateway"}
+                    {" • "}{device.keyPrefix}…{" • "}alle {device.sampleIntervalMinutes} Min.
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {device.lastSeenAt ? `Zuletzt gesendet: ${new Date(device.lastSeenAt).toLocaleString("de-DE")}` : "Noch keine Daten empfangen"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Switch checked={device.active} onCheckedChange={(checked) => handleToggle(device, checked)} />
+                  <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(device)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -11,10 +11,14 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { CalendarIcon, Plus, Trash2, Loader2, CheckCircle2, Circle, ListTodo, UtensilsCrossed } from "lucide-react";
-import { format } from "date-fns";
+import { CalendarIcon, Plus, Trash2, Loader2, CheckCircle2, Circle, ListTodo, UtensilsCrossed, PartyPopper, Users } from "lucide-react";
+import { format, addDays } from "date-fns";
 import { de } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { OpenDeviationsCard } from "@/components/HaccpDeviations";
+import { PendingRequestsCard } from "@/components/ScheduleRequests";
+import { isCateringBooked } from "@shared/catering";
 
 interface Task {
   id: number;
@@ -40,11 +44,37 @@ interface MenuPlanItem {
   };
 }
 
+interface GuestCount {
+  id: number;
+  date: string;
+  meal: string;
+  adults: number;
+  children: number;
+}
+
+interface CateringEvent {
+  id: number;
+  clientName: string;
+  eventName: string;
+  date: string;
+  time: string;
+  personCount: number;
+  status: string;
+  notes: string | null;
+  dishList: { id: number; name: string; portions: number; notes: string | null }[];
+}
+
+// Catering events this many days ahead are shown for preparation
+const CATERING_LOOKAHEAD_DAYS = 2;
+
 export default function Today() {
   const { t } = useTranslation();
   const { toast } = useToast();
+  const { can } = useAuth();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [menuItems, setMenuItems] = useState<MenuPlanItem[]>([]);
+  const [guestCounts, setGuestCounts] = useState<GuestCount[]>([]);
+  const [cateringEvents, setCateringEvents] = useState<CateringEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [addDialogOpen, setAddDialogOpen] = useState(false);
@@ -72,6 +102,10 @@ export default function Today() {
   };
 
   const fetchTasks = async () => {
+    if (!can("tasks", "view")) {
+      setTasks([]);
+      return;
+    }
     try {
       const res = await fetch(`/api/tasks?date=${dateStr}`);
       if (!res.ok) throw new Error("Fehler beim Laden der Tasks");
@@ -94,9 +128,31 @@ export default function Today() {
     }
   };
 
+  const fetchGuestCounts = async () => {
+    try {
+      const res = await fetch(`/api/guests?start=${dateStr}&end=${dateStr}`);
+      setGuestCounts(res.ok ? await res.json() : []);
+    } catch (error: any) {
+      console.error("Guest count fetch error:", error);
+      setGuestCounts([]);
+    }
+  };
+
+  const fetchCatering = async () => {
+    const endStr = format(addDays(selectedDate, CATERING_LOOKAHEAD_DAYS), "yyyy-MM-dd");
+    try {
+      const res = await fetch(`/api/catering?start=${dateStr}&end=${endStr}`);
+      const events: CateringEvent[] = res.ok ? await res.json() : [];
+      setCateringEvents(events.filter(e => isCateringBooked(e.status)));
+    } catch (error: any) {
+      console.error("Catering fetch error:", error);
+      setCateringEvents([]);
+    }
+  };
+
   useEffect(() => {
     setLoading(true);
-    Promise.all([fetchTasks(), fetchMenuPlan()]).finally(() => {
+    Promise.all([fetchTasks(), fetchMenuPlan(), fetchGuestCounts(), fetchCatering()]).finally(() => {
       setLoading(false);
     });
   }, [dateStr]);
@@ -163,6 +219,16 @@ export default function Today() {
     }
   };
 
+  const todaysCatering = cateringEvents.filter(e => e.date === dateStr);
+  const upcomingCatering = cateringEvents.filter(e => e.date > dateStr);
+  const cateringPersons = todaysCatering.reduce((sum, e) => sum + e.personCount, 0);
+  const mealGuests = ["breakfast", "lunch", "dinner"]
+    .map(meal => {
+      const count = guestCounts.find(g => g.meal === meal);
+      return { meal, total: count ? count.adults + count.children : 0 };
+    })
+    .filter(g => g.total > 0);
+
   const openTasks = tasks.filter(t => t.status === "open");
   const doneTasks = tasks.filter(t => t.status === "done");
 
@@ -179,55 +245,57 @@ export default function Today() {
       {/* Header */}
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-heading font-bold">Heute</h1>
-        <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button size="icon" variant="outline" className="rounded-full h-10 w-10 border-primary text-primary hover:bg-primary/10">
-              <Plus className="h-6 w-6" />
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Neuer Task</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleAddTask} className="space-y-4">
-              <div className="space-y-2">
-                <Label>Titel *</Label>
-                <Input
-                  value={newTitle}
-                  onChange={(e) => setNewTitle(e.target.value)}
-                  placeholder="Was ist zu tun?"
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Notiz</Label>
-                <Textarea
-                  value={newNote}
-                  onChange={(e) => setNewNote(e.target.value)}
-                  placeholder="Optionale Details..."
-                  rows={3}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Priorität</Label>
-                <Select value={newPriority} onValueChange={setNewPriority}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="low">Niedrig</SelectItem>
-                    <SelectItem value="normal">Normal</SelectItem>
-                    <SelectItem value="high">Hoch</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <Button type="submit" className="w-full" disabled={submitting || !newTitle.trim()}>
-                {submitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                Task erstellen
+        {can("tasks", "edit") && (
+          <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="icon" variant="outline" className="rounded-full h-10 w-10 border-primary text-primary hover:bg-primary/10">
+                <Plus className="h-6 w-6" />
               </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Neuer Task</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleAddTask} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Titel *</Label>
+                  <Input
+                    value={newTitle}
+                    onChange={(e) => setNewTitle(e.target.value)}
+                    placeholder="Was ist zu tun?"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Notiz</Label>
+                  <Textarea
+                    value={newNote}
+                    onChange={(e) => setNewNote(e.target.value)}
+                    placeholder="Optionale Details..."
+                    rows={3}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Priorität</Label>
+                  <Select value={newPriority} onValueChange={setNewPriority}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Niedrig</SelectItem>
+                      <SelectItem value="normal">Normal</SelectItem>
+                      <SelectItem value="high">Hoch</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" className="w-full" disabled={submitting || !newTitle.trim()}>
+                  {submitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                  Task erstellen
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       {/* Date Picker */}
@@ -248,6 +316,23 @@ export default function Today() {
         </PopoverContent>
       </Popover>
 
+      <OpenDeviationsCard linkToHaccp />
+
+      <PendingRequestsCard />
+
+      {/* Guests of the day: menu guests per meal plus catering persons */}
+      {(mealGuests.length > 0 || cateringPersons > 0) && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+          <Users className="h-4 w-4 text-muted-foreground" />
+          {mealGuests.map(g => (
+            <span key={g.meal}>{mealLabels[g.meal]}: <span className="font-semibold">{g.total}</span></span>
+          ))}
+          {cateringPersons > 0 && (
+            <span>Catering: <span className="font-semibold">{cateringPersons}</span></span>
+          )}
+        </div>
+      )}
+
       {/* Today's Menu */}
       {menuItems.length > 0 && (
         <Card className="border-primary/20 bg-primary/5">
@@ -279,20 +364,53 @@ export default function Today() {
         </Card>
       )}
 
+      {/* Catering of the day and the next days (preparation) */}
+      {cateringEvents.length > 0 && (
+        <Card className="border-primary/20">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <PartyPopper className="h-5 w-5 text-primary" />
+              Catering
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {todaysCatering.map(event => (
+              <CateringEventItem key={event.id} event={event} />
+            ))}
+            {upcomingCatering.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-muted-foreground">Vorbereitung</h4>
+                {upcomingCatering.map(event => (
+                  <CateringEventItem
+                    key={event.id}
+                    event={event}
+                    dayLabel={format(new Date(event.date), "EEEE", { locale: de })}
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Tasks List */}
       {tasks.length === 0 ? (
         <div className="text-center py-12 text-muted-foreground">
           <ListTodo className="h-12 w-12 mx-auto mb-4 opacity-30" />
           <p className="font-medium">Keine Tasks für diesen Tag</p>
-          <p className="text-sm mt-1">Erstellen Sie einen neuen Task</p>
-          <Button
-            variant="outline"
-            className="mt-4"
-            onClick={() => setAddDialogOpen(true)}
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Task anlegen
-          </Button>
+          {can("tasks", "edit") && (
+            <>
+              <p className="text-sm mt-1">Erstellen Sie einen neuen Task</p>
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={() => setAddDialogOpen(true)}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Task anlegen
+              </Button>
+            </>
+          )}
         </div>
       ) : (
         <div className="space-y-4">
@@ -306,8 +424,8 @@ export default function Today() {
                 <TaskItem
                   key={task.id}
                   task={task}
-                  onToggle={() => handleToggleStatus(task)}
-                  onDelete={() => handleDeleteTask(task.id)}
+                  onToggle={can("tasks", "edit") ? () => handleToggleStatus(task) : undefined}
+                  onDelete={can("tasks", "delete") ? () => handleDeleteTask(task.id) : undefined}
                 />
               ))}
             </div>
@@ -323,8 +441,8 @@ export default function Today() {
                 <TaskItem
                   key={task.id}
                   task={task}
-                  onToggle={() => handleToggleStatus(task)}
-                  onDelete={() => handleDeleteTask(task.id)}
+                  onToggle={can("tasks", "edit") ? () => handleToggleStatus(task) : undefined}
+                  onDelete={can("tasks", "delete") ? () => handleDeleteTask(task.id) : undefined}
                 />
               ))}
             </div>
@@ -335,14 +453,41 @@ export default function Today() {
   );
 }
 
+function CateringEventItem({ event, dayLabel }: { event: CateringEvent; dayLabel?: string }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between gap-2 text-sm">
+        <span className="font-medium">
+          {dayLabel && <span className="text-muted-foreground font-normal">{dayLabel}, </span>}
+          {event.time} · {event.eventName}
+        </span>
+        <span className="text-muted-foreground shrink-0">{event.personCount} Pers.</span>
+      </div>
+      <div className="text-xs text-muted-foreground">{event.clientName}</div>
+      {event.dishList.length > 0 && (
+        <ul className="space-y-0.5 pl-2">
+          {event.dishList.map(dish => (
+            <li key={dish.id} className="text-sm flex gap-2">
+              <span className="font-medium">{dish.name}</span>
+              <span className="text-muted-foreground">{dish.portions} Port.</span>
+              {dish.notes && <span className="text-xs text-muted-foreground truncate">({dish.notes})</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {event.notes && <p className="text-xs text-muted-foreground">{event.notes}</p>}
+    </div>
+  );
+}
+
 function TaskItem({
   task,
   onToggle,
   onDelete,
 }: {
   task: Task;
-  onToggle: () => void;
-  onDelete: () => void;
+  onToggle?: () => void;
+  onDelete?: () => void;
 }) {
   const isDone = task.status === "done";
   // Priority: 0=low, 1=normal, 2=high (also support legacy string values)
@@ -360,6 +505,7 @@ function TaskItem({
       <CardContent className="p-3 flex items-start gap-3">
         <button
           onClick={onToggle}
+          disabled={!onToggle}
           className="mt-0.5 shrink-0 touch-manipulation"
           style={{ minWidth: 44, minHeight: 44, display: 'flex', alignItems: 'center', justifyContent: 'center' }}
         >
@@ -377,32 +523,34 @@ function TaskItem({
             <p className="text-sm text-muted-foreground mt-1 truncate">{task.note}</p>
           )}
         </div>
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="shrink-0 text-muted-foreground hover:text-destructive"
-              style={{ minWidth: 44, minHeight: 44 }}
-            >
-              <Trash2 className="h-5 w-5" />
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Task löschen?</AlertDialogTitle>
-              <AlertDialogDescription>
-                Möchten Sie "{task.title}" wirklich löschen? Diese Aktion kann nicht rückgängig gemacht werden.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Abbrechen</AlertDialogCancel>
-              <AlertDialogAction onClick={onDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-                Löschen
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+        {onDelete && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0 text-muted-foreground hover:text-destructive"
+                style={{ minWidth: 44, minHeight: 44 }}
+              >
+                <Trash2 className="h-5 w-5" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Task löschen?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Möchten Sie "{task.title}" wirklich löschen? Diese Aktion kann nicht rückgängig gemacht werden.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+                <AlertDialogAction onClick={onDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                  Löschen
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
       </CardContent>
     </Card>
   );
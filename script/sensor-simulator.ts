@@ -0,0 +1,74 @@
+// Sensor simulator: pushes fake fridge readings to the ingestion API so the
+// sensor path can be tested without hardware.
+//
+//   MISE_SENSOR_KEY=mise_... npm run sensor:sim -- --fridge 1 --every 10 --batch 6
+//
+// Options (all optional):
+//   --url <base>        server URL (default http://localhost:5000, env MISE_URL)
+//   --fridge <id>       control point id; omit for devices bound to one control point
+//   --min/--max <°C>    normal band of the simulated fridge (default 2 / 4)
+//   --every <seconds>   simulated measurement interval (default 60)
+//   --batch <n>         readings per request, like a buffering gateway (default 1)
+//   --count <n>         number of requests before exiting (default 10)
+//   --spike <p>         probability of an out-of-range reading (default 0.05)
+//   --duplicate         resend every batch once to exercise de-duplication
+
+function option(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const baseUrl = option("url", process.env.MISE_URL || "http://localhost:5000");
+const apiKey = process.env.MISE_SENSOR_KEY;
+const fridgeId = process.argv.includes("--fridge") ? parseInt(option("fridge", "0"), 10) : undefined;
+const min = parseFloat(option("min", "2"));
+const max = parseFloat(option("max", "4"));
+const everySeconds = parseFloat(option("every", "60"));
+const batchSize = parseInt(option("batch", "1"), 10);
+const count = parseInt(option("count", "10"), 10);
+const spike = parseFloat(option("spike", "0.05"));
+const duplicate = process.argv.includes("--duplicate");
+
+if (!apiKey) {
+  console.error("MISE_SENSOR_KEY is not set (create a sensor under Einstellungen > Sensoren)");
+  process.exit(1);
+}
+
+let temperature = (min + max) / 2;
+
+// Random walk inside the band with occasional door-open spikes
+function nextTemperature(): number {
+  if (Math.random() < spike) return Math.round((max + 3 + Math.random() * 4) * 10) / 10;
+  temperature += (Math.random() - 0.5) * 0.4;
+  temperature = Math.min(max, Math.max(min, temperature));
+  return Math.round(temperature * 10) / 10;
+}
+
+async function send(readings: object[]): Promise<void> {
+  const res = await fetch(`${baseUrl}/api/sensors/readings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+    body: JSON.stringify({ readings }),
+  });
+  console.log(res.status, JSON.stringify(await res.json()));
+}
+
+async function main() {
+  // Timestamps are spread backwards so a batch looks like buffered readings
+  for (let i = 0; i < count; i++) {
+    const now = Date.now();
+    const readings = Array.from({ length: batchSize }, (_, n) => ({
+      ...(fridgeId !== undefined ? { fridgeId } : {}),
+      temperature: nextTemperature(),
+      measuredAt: new Date(now - (batchSize - 1 - n) * everySeconds * 1000).toISOString(),
+    }));
+    await send(readings);
+    if (duplicate) await send(readings);
+    if (i < count - 1) await new Promise(resolve => setTimeout(resolve, everySeconds * batchSize * 1000));
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+import { storage } from "./storage";
+import type { Ingredient, Recipe } from "@shared/schema";
+import { ALLERGENS, ALLERGEN_CODES, deriveAllergens, ingredientAllergens, splitAllergens } from "@shared/allergens";
+
+// Allergen handling on the server: keeps recipes.allergens in sync with the
+// ingredients and builds the allergen matrix of the planned menu.
+
+// Recomputes recipes.allergens from the stored ingredients, declaredAllergens
+// and mayContain. Recipes without ingredients keep their manually maintained
+// list, there is nothing to derive from.
+export async function syncRecipeAllergens(recipeId: number): Promise<Recipe | undefined> {
+  const recipe = await storage.getRecipe(recipeId);
+  if (!recipe) return undefined;
+  const ingredients = await storage.getIngredients(recipeId);
+  if (ingredients.length === 0) return recipe;
+
+  const allergens = deriveAllergens(ingredients, recipe.mayContain, recipe.declaredAllergens);
+  const unchanged = allergens.length === recipe.allergens.length && allergens.every((code, i) => code === recipe.allergens[i]);
+  if (unchanged) return recipe;
+  return storage.updateRecipe(recipeId, { allergens });
+}
+
+// Allergens of the stored ingredients per recipe id
+export async function ingredientAllergensByRecipe(): Promise<Map<number, string[]>> {
+  const byRecipe = new Map<number, Ingredient[]>();
+  for (const ing of await storage.getAllIngredients()) {
+    byRecipe.set(ing.recipeId, [...(byRecipe.get(ing.recipeId) ?? []), ing]);
+  }
+  return new Map(Array.from(byRecipe, ([recipeId, ings]) => [recipeId, ingredientAllergens(ings)]));
+}
+
+// Recipes with ingredients whose stored list holds codes neither the ingredients
+// nor mayContain explain (JSON imports from before declaredAllergens) keep them
+// as declared, so the next sync does not drop them
+export async function migrateDeclaredAllergens(): Promise<number> {
+  const [recipes, fromIngredients] = await Promise.all([storage.getRecipes(), ingredientAllergensByRecipe()]);
+  let migrated = 0;
+  for (const recipe of recipes) {
+    const codes = fromIngredients.get(recipe.id);
+    if (!codes || recipe.declaredAllergens.length > 0) continue;
+    const declared = recipe.allergens.filter(code => !codes.includes(code) && !recipe.mayContain.includes(code));
+    if (declared.length === 0) continue;
+    await storage.updateRecipe(recipe.id, { declaredAllergens: declared });
+    migrated++;
+  }
+  return migrated;
+}
+
+export interface AllergenMatrixRow {
+  date: string;
+  meal: string;
+  course: string;
+  recipeId: number;
+  recipeName: string;
+  contains: string[];    // allergens of the ingredients plus declared ones
+  mayContain: string[];  // "may contain" codes the dish does not contain anyway
+}
+
+export interface AllergenMatrix {
+  start: string;
+  end: string;
+  allergens: { code: string; name: string }[];
+  rows: AllergenMatrixRow[];
+}
+
+const MEAL_ORDER = ["breakfast", "lunch", "dinner"];
+const COURSE_ORDER = ["soup", "main_meat", "side1", "side2", "main_veg", "dessert", "main"];
+
+// Planned dishes of a date range against the EU-14 allergen codes
+export async function buildAllergenMatrix(startDate: string, endDate: string): Promise<AllergenMatrix> {
+  const [plans, recipes, fromIngredients] = await Promise.all([
+    storage.getMenuPlans(startDate, endDate),
+    storage.getRecipes(),
+    ingredientAllergensByRecipe(),
+  ]);
+  const recipeMap = new Map(recipes.map(r => [r.id, r]));
+
+  const seen = new Set<string>();
+  const rows: AllergenMatrixRow[] = [];
+  for (const plan of plans) {
+    const recipe = plan.recipeId ? recipeMap.get(plan.recipeId) : undefined;
+    if (!recipe) continue;
+    const key = `${plan.date}|${plan.meal}|${recipe.id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const { contains, traces } = splitAllergens(recipe.allergens, recipe.mayContain, fromIngredients.get(recipe.id));
+    rows.push({
+      date: plan.date,
+      meal: plan.meal,
+      course: plan.course,
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      contains,
+      mayContain: traces,
+    });
+  }
+
+  rows.sort((a, b) =>
+    a.date.localeCompare(b.date) ||
+    MEAL_ORDER.indexOf(a.meal) - MEAL_ORDER.indexOf(b.meal) ||
+    COURSE_ORDER.indexOf(a.course) - COURSE_ORDER.indexOf(b.course)
+  );
+
+  return {
+    start: startDate,
+    end: endDate,
+    allergens: ALLERGEN_CODES.map(code => ({ code, name: ALLERGENS[code].de })),
+    rows,
+  };
+}
@@ -0,0 +1,114 @@
+import { storage } from "./storage";
+import type { Article } from "@shared/schema";
+
+// Fuzzy matching of free-text ingredient names against the article catalog.
+// Used by the recipe import paths (URL, JSON, OCR/manual save) to link
+// ingredients to articles; names without a match are left for review.
+
+export const MATCH_THRESHOLD = 0.8;
+// Names containing the catalog term as a word ("Mehl glatt" / "Mehl") are only
+// suggested, never linked automatically: "Rinderbrühe mit Mehl" is no flour
+const CONTAINMENT_SCORE = 0.75;
+
+export interface ArticleMatch {
+  article: Article;
+  score: number;
+}
+
+interface IncomingIngredient {
+  name: string;
+  amount: number;
+  unit: string;
+  allergens?: string[];
+  articleId?: number | null;
+}
+
+// Preparation notes that do not change the product
+const DESCRIPTORS = [
+  "frisch", "frische", "frischer", "gehackt", "gehackte", "fein", "feine", "grob", "gewürfelt", "geschnitten",
+  "getrocknet", "getrocknete", "gemahlen", "gemahlener", "geschält", "geschälte", "gerieben", "geriebener",
+  "klein", "kleine", "groß", "große", "mittelgroß", "mittelgroße", "bio", "ca", "etwas", "evtl", "nach", "belieben",
+];
+
+export function normalizeArticleName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, " ")
+    .split(",")[0]
+    .replace(/[^a-zäöüß\s-]/g, " ")
+    .split(/\s+/)
+    .filter(word => word && !DESCRIPTORS.includes(word))
+    .join(" ")
+    .trim();
+}
+
+// Crude German plural stripping: "Zwiebeln" -> "zwiebel", "Karotten" -> "karott"
+function stem(word: string): string {
+  return word.replace(/(en|n|e|s)$/, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = temp;
+    }
+  }
+  return prev[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (stem(a) === stem(b)) return 0.95;
+  const maxLen = Math.max(a.length, b.length);
+  if (maxLen === 0) return 0;
+  const ratio = 1 - levenshtein(a, b) / maxLen;
+  // "mehl glatt" contains the catalog term "mehl" as a word
+  const words = a.split(" ").map(stem);
+  if (b.split(" ").every(w => words.includes(stem(w)))) return Math.max(ratio, CONTAINMENT_SCORE);
+  return ratio;
+}
+
+function scoreArticle(name: string, article: Article): number {
+  const terms = [article.name, ...article.synonyms].map(normalizeArticleName).filter(Boolean);
+  return Math.max(0, ...terms.map(term => similarity(name, term)));
+}
+
+export function suggestArticles(name: string, catalog: Article[], limit = 3): ArticleMatch[] {
+  const normalized = normalizeArticleName(name);
+  if (!normalized) return [];
+  return catalog
+    .map(article => ({ article, score: scoreArticle(normalized, article) }))
+    .filter(match => match.score > 0.5)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export function matchArticle(name: string, catalog: Article[]): ArticleMatch | null {
+  const [best] = suggestArticles(name, catalog, 1);
+  return best && best.score >= MATCH_THRESHOLD ? best : null;
+}
+
+// Links incoming ingredients to catalog articles. Allergens of the article are
+// taken over when the ingredient does not carry its own.
+export async function linkIngredientsToArticles<T extends IncomingIngredient>(
+  incoming: T[]
+): Promise<{ ingredients: (T & { articleId: number | null; allergens: string[] })[]; unmatched: string[] }> {
+  const catalog = await storage.getArticles();
+  const byId = new Map(catalog.map(a => [a.id, a]));
+  const unmatched: string[] = [];
+
+  const ingredients = incoming.map(ing => {
+    const explicit = ing.articleId ? byId.get(ing.articleId) : undefined;
+    const article = explicit ?? matchArticle(ing.name, catalog)?.article;
+    if (!article) unmatched.push(ing.name);
+    const allergens = ing.allergens && ing.allergens.length > 0 ? ing.allergens : article?.allergens ?? [];
+    return { ...ing, articleId: article?.id ?? null, allergens };
+  });
+
+  return { ingredients, unmatched };
+}
@@ -0,0 +1,187 @@
+import { storage, type CateringNumberPrefixes, type CateringStatusUpdate } from "./storage";
+import { mergeIngredients, scaleIngredients, type ProductionIngredient } from "./production";
+import { productGroup } from "./shopping";
+import { withCateringCosts } from "./costing";
+import {
+  cateringDishInputSchema, cateringExtraInputSchema,
+  type CateringDish, type CateringEvent, type InsertCateringDish, type InsertCateringExtra,
+} from "@shared/schema";
+import {
+  CATERING_STATUS_LABELS, canChangeCateringStatus, isCateringBooked, isCateringStatus, type CateringStatus,
+} from "@shared/catering";
+
+// Catering orders: dishes of an event reference recipes with their own portion
+// count. The production view scales those recipes and sums up the ingredient
+// demand of the whole event, for the kitchen and the banquet event order (BEO).
+// Status changes assign quote and invoice numbers; revenue is reported per month.
+
+const QUOTE_PREFIX = "AN";
+const INVOICE_PREFIX = "RE";
+
+export interface CateringProductionDish {
+  dishId: number;
+  recipeId: number | null;
+  name: string;
+  portions: number;
+  notes: string | null;
+  ingredients: ProductionIngredient[];  // empty for dishes without a recipe
+}
+
+export interface CateringProduction {
+  eventId: number;
+  date: string;
+  personCount: number;
+  totalPortions: number;
+  dishes: CateringProductionDish[];
+  ingredients: (ProductionIngredient & { group: string })[];
+}
+
+// Validates the dish list of a request and fills in recipe names
+export async function resolveCateringDishes(input: unknown): Promise<Omit<InsertCateringDish, "eventId">[]> {
+  if (!Array.isArray(input)) {
+    throw new Error("dishList muss eine Liste sein");
+  }
+  const parsed = input.map(dish => cateringDishInputSchema.parse(dish));
+  const recipes = new Map((await storage.getRecipes()).map(r => [r.id, r]));
+
+  return parsed.map(dish => {
+    if (dish.recipeId != null) {
+      const recipe = recipes.get(dish.recipeId);
+      if (!recipe) throw new Error(`Rezept ${dish.recipeId} nicht gefunden`);
+      return { recipeId: recipe.id, name: recipe.name, portions: dish.portions, notes: dish.notes || null };
+    }
+    return { recipeId: null, name: dish.name!, portions: dish.portions, notes: dish.notes || null };
+  });
+}
+
+// Validates the extras of a request
+export function resolveCateringExtras(input: unknown): Omit<InsertCateringExtra, "eventId">[] {
+  if (!Array.isArray(input)) {
+    throw new Error("extras muss eine Liste sein");
+  }
+  return input.map(extra => cateringExtraInputSchema.parse(extra));
+}
+
+export interface CateringRevenueMonth {
+  month: string;      // YYYY-MM
+  events: number;     // booked events
+  persons: number;
+  booked: number;     // confirmed or done, not yet invoiced
+  invoiced: number;
+  total: number;      // booked + invoiced
+  quoted: number;     // open quotes, not counted in total
+  unpriced: number;   // booked events without a price per person
+}
+
+export interface CateringRevenue {
+  year: number;
+  months: CateringRevenueMonth[];
+  total: number;
+  invoiced: number;
+  quoted: number;
+}
+
+// Numbers have the form AN-2026-0001, counted per prefix and year
+function numberPrefix(prefix: string, year: number): string {
+  return `${prefix}-${year}-`;
+}
+
+// Moves an event to the next status of its lifecycle. Quote and invoice numbers
+// are assigned once and kept when a quote is revised.
+export async function changeCateringStatus(event: CateringEvent, status: CateringStatus, now = new Date()): Promise<CateringEvent> {
+  if (!canChangeCateringStatus(event.status, status)) {
+    const from = isCateringStatus(event.status) ? CATERING_STATUS_LABELS[event.status] : event.status;
+    throw new Error(`Statuswechsel von „${from}“ zu „${CATERING_STATUS_LABELS[status]}“ ist nicht möglich`);
+  }
+  if ((status === "quoted" || status === "invoiced") && event.pricePerPerson == null) {
+    throw new Error("Bitte zuerst den Preis pro Person festlegen");
+  }
+  if (status === "done" && event.date > now.toISOString().split("T")[0]) {
+    throw new Error("Die Veranstaltung hat noch nicht stattgefunden");
+  }
+
+  const update: CateringStatusUpdate = { status };
+  const numbers: CateringNumberPrefixes = {};
+  if (status === "quoted") {
+    update.quotedAt = now;
+    if (!event.quoteNumber) numbers.quoteNumber = numberPrefix(QUOTE_PREFIX, now.getFullYear());
+  }
+  if (status === "invoiced") {
+    update.invoicedAt = now;
+    numbers.invoiceNumber = numberPrefix(INVOICE_PREFIX, now.getFullYear());
+  }
+
+  // Fails when someone else changed the status in the meantime
+  const updated = await storage.updateCateringEventStatus(event.id, event.status, update, numbers);
+  if (!updated) throw new Error("Der Status wurde inzwischen geändert, bitte neu laden");
+  return updated;
+}
+
+// Net revenue of booked events per month of the event date, plus open quotes
+export async function buildCateringRevenue(year: number): Promise<CateringRevenue> {
+  const events = await withCateringCosts(await storage.getCateringEventsInRange(`${year}-01-01`, `${year}-12-31`));
+  const months: CateringRevenueMonth[] = Array.from({ length: 12 }, (_, i) => ({
+    month: `${year}-${String(i + 1).padStart(2, "0")}`,
+    events: 0, persons: 0, booked: 0, invoiced: 0, total: 0, quoted: 0, unpriced: 0,
+  }));
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  for (const event of events) {
+    const month = months[parseInt(event.date.slice(5, 7), 10) - 1];
+    const amount = event.price.total ?? 0;
+    if (event.status === "quoted") {
+      month.quoted = round(month.quoted + amount);
+      continue;
+    }
+    if (!isCateringBooked(event.status)) continue;
+    month.events++;
+    month.persons += event.personCount;
+    if (event.price.total == null) month.unpriced++;
+    if (event.status === "invoiced") {
+      month.invoiced = round(month.invoiced + amount);
+    } else {
+      month.booked = round(month.booked + amount);
+    }
+    month.total = round(month.booked + month.invoiced);
+  }
+
+  return {
+    year,
+    months,
+    total: round(months.reduce((sum, m) => sum + m.total, 0)),
+    invoiced: round(months.reduce((sum, m) => sum + m.invoiced, 0)),
+    quoted: round(months.reduce((sum, m) => sum + m.quoted, 0)),
+  };
+}
+
+export async function buildCateringProduction(event: CateringEvent, dishes: CateringDish[]): Promise<CateringProduction> {
+  const recipes = new Map((await storage.getRecipes()).map(r => [r.id, r]));
+
+  const productionDishes: CateringProductionDish[] = [];
+  for (const dish of dishes) {
+    const recipe = dish.recipeId ? recipes.get(dish.recipeId) : undefined;
+    const ingredients = recipe
+      ? scaleIngredients((await storage.getIngredients(recipe.id)).map(i => ({ name: i.name, amount: i.amount, unit: i.unit })), recipe, dish.portions)
+      : [];
+    productionDishes.push({
+      dishId: dish.id,
+      recipeId: dish.recipeId,
+      name: dish.name,
+      portions: dish.portions,
+      notes: dish.notes,
+      ingredients,
+    });
+  }
+
+  const ingredients = mergeIngredients(productionDishes.flatMap(d => d.ingredients))
+    .map(ing => ({ ...ing, group: productGroup(ing.name) }));
+
+  return {
+    eventId: event.id,
+    date: event.date,
+    personCount: event.personCount,
+    totalPortions: productionDishes.reduce((sum, d) => sum + d.portions, 0),
+    dishes: productionDishes,
+    ingredients,
+  };
+}
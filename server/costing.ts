@@ -0,0 +1,196 @@
+import { storage } from "./storage";
+import { buildProductionPlan, CHILD_PORTION_FACTOR } from "./production";
+import type { Article, CateringDish, CateringEvent, CateringExtra, Ingredient, Recipe } from "@shared/schema";
+import { convertUnit } from "@shared/units";
+import { calculateCateringPrice, type CateringPrice } from "@shared/catering";
+
+// Recipe costing: material cost from the article prices of the linked
+// ingredients, food-cost percentage against the sales price, and the cost of
+// planned menu days and catering events. Costs are always computed from the
+// current ingredients and prices, so changes show up immediately.
+
+export interface RecipeCost {
+  total: number;                  // material cost of the base recipe (recipe.portions)
+  perPortion: number;
+  salesPrice: number | null;
+  foodCostPercent: number | null; // perPortion / salesPrice
+  missing: string[];              // ingredients without price or convertible unit
+}
+
+export interface IngredientCostLine {
+  id: number;
+  name: string;
+  amount: number;
+  unit: string;
+  articleId: number | null;
+  articleName: string | null;
+  cost: number | null;
+}
+
+export interface MenuCostMeal {
+  meal: string;
+  portions: number;
+  total: number;
+}
+
+export interface MenuCostDay {
+  date: string;
+  total: number;
+  meals: MenuCostMeal[];
+}
+
+export interface MenuCost {
+  start: string;
+  end: string;
+  total: number;
+  days: MenuCostDay[];
+  incompleteRecipes: string[];    // planned recipes with missing prices
+}
+
+export interface CateringDishCost {
+  name: string;
+  recipeId: number | null;
+  portions: number;
+  perPortion: number | null;
+  total: number | null;
+}
+
+export interface CateringCost {
+  total: number;
+  perPerson: number;
+  dishes: CateringDishCost[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Price of an ingredient quantity, converted into the unit the article price refers to
+export function ingredientCost(ing: Pick<Ingredient, "amount" | "unit">, article: Article | undefined): number | null {
+  if (!article || article.price == null) return null;
+  const amount = convertUnit(ing.amount, ing.unit, article.defaultUnit, article.name);
+  return amount === null ? null : amount * article.price;
+}
+
+export function calculateRecipeCost(recipe: Recipe, ingredients: Ingredient[], articleMap: Map<number, Article>): RecipeCost {
+  let total = 0;
+  const missing: string[] = [];
+  for (const ing of ingredients) {
+    const cost = ingredientCost(ing, ing.articleId ? articleMap.get(ing.articleId) : undefined);
+    if (cost === null) missing.push(ing.name);
+    else total += cost;
+  }
+
+  const perPortion = total / (recipe.portions > 0 ? recipe.portions : 1);
+  const salesPrice = recipe.salesPrice ?? null;
+  return {
+    total: round(total),
+    perPortion: round(perPortion),
+    salesPrice,
+    foodCostPercent: salesPrice ? round((perPortion / salesPrice) * 100) : null,
+    missing,
+  };
+}
+
+// Costs of all given recipes with two queries instead of one per recipe
+export async function getRecipeCosts(recipes: Recipe[]): Promise<Map<number, RecipeCost>> {
+  const [articles, ingredients] = await Promise.all([storage.getArticles(), storage.getAllIngredients()]);
+  const articleMap = new Map(articles.map(a => [a.id, a]));
+  const byRecipe = new Map<number, Ingredient[]>();
+  for (const ing of ingredients) {
+    if (!byRecipe.has(ing.recipeId)) byRecipe.set(ing.recipeId, []);
+    byRecipe.get(ing.recipeId)!.push(ing);
+  }
+  return new Map(recipes.map(r => [r.id, calculateRecipeCost(r, byRecipe.get(r.id) ?? [], articleMap)]));
+}
+
+export async function getRecipeCostBreakdown(recipe: Recipe): Promise<RecipeCost & { ingredients: IngredientCostLine[] }> {
+  const [articles, ingredients] = await Promise.all([storage.getArticles(), storage.getIngredients(recipe.id)]);
+  const articleMap = new Map(articles.map(a => [a.id, a]));
+  const lines = ingredients.map(ing => {
+    const article = ing.articleId ? articleMap.get(ing.articleId) : undefined;
+    const cost = ingredientCost(ing, article);
+    return {
+      id: ing.id,
+      name: ing.name,
+      amount: ing.amount,
+      unit: ing.unit,
+      articleId: ing.articleId,
+      articleName: article?.name ?? null,
+      cost: cost === null ? null : round(cost),
+    };
+  });
+  return { ...calculateRecipeCost(recipe, ingredients, articleMap), ingredients: lines };
+}
+
+// Cost of the planned menu, using the same portion resolution as production planning
+export async function buildMenuCost(startDate: string, endDate: string, childFactor = CHILD_PORTION_FACTOR): Promise<MenuCost> {
+  const [production, recipes] = await Promise.all([
+    buildProductionPlan(startDate, endDate, childFactor),
+    storage.getRecipes(),
+  ]);
+  const costs = await getRecipeCosts(recipes);
+
+  const dayMap = new Map<string, MenuCostDay>();
+  const incomplete = new Set<string>();
+  for (const meal of production.meals) {
+    if (!dayMap.has(meal.date)) dayMap.set(meal.date, { date: meal.date, total: 0, meals: [] });
+    const day = dayMap.get(meal.date)!;
+    const mealCost: MenuCostMeal = { meal: meal.meal, portions: 0, total: 0 };
+
+    for (const item of meal.items) {
+      const cost = costs.get(item.recipeId);
+      if (!cost) continue;
+      if (cost.missing.length > 0) incomplete.add(item.recipeName);
+      mealCost.portions += item.portions;
+      mealCost.total += cost.perPortion * item.portions;
+    }
+
+    mealCost.total = round(mealCost.total);
+    day.meals.push(mealCost);
+    day.total = round(day.total + mealCost.total);
+  }
+
+  const days = Array.from(dayMap.values()).sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    start: startDate,
+    end: endDate,
+    total: round(days.reduce((sum, d) => sum + d.total, 0)),
+    days,
+    incompleteRecipes: Array.from(incomplete).sort((a, b) => a.localeCompare(b, 'de')),
+  };
+}
+
+// Dishes are costed with their own portion count; dishes without a recipe have no cost
+export function calculateCateringCost(event: CateringEvent, dishList: CateringDish[], costs: Map<number, RecipeCost>): CateringCost {
+  const dishes = dishList.map(dish => {
+    const cost = dish.recipeId ? costs.get(dish.recipeId) : undefined;
+    return {
+      name: dish.name,
+      recipeId: dish.recipeId,
+      portions: dish.portions,
+      perPortion: cost ? cost.perPortion : null,
+      total: cost ? round(cost.perPortion * dish.portions) : null,
+    };
+  });
+
+  const total = round(dishes.reduce((sum, d) => sum + (d.total ?? 0), 0));
+  return { total, perPerson: event.personCount > 0 ? round(total / event.personCount) : 0, dishes };
+}
+
+// Adds dishes, extras, material cost and the sales price (see shared/catering.ts)
+export async function withCateringCosts(events: CateringEvent[]): Promise<(CateringEvent & { dishList: CateringDish[]; extras: CateringExtra[]; cost: CateringCost; price: CateringPrice })[]> {
+  const [recipes, dishes, extras] = await Promise.all([storage.getRecipes(), storage.getAllCateringDishes(), storage.getAllCateringExtras()]);
+  const costs = await getRecipeCosts(recipes);
+  return events.map(event => {
+    const dishList = dishes.filter(d => d.eventId === event.id);
+    const eventExtras = extras.filter(e => e.eventId === event.id);
+    return {
+      ...event,
+      dishList,
+      extras: eventExtras,
+      cost: calculateCateringCost(event, dishList, costs),
+      price: calculateCateringPrice(event, eventExtras),
+    };
+  });
+}
@@ -0,0 +1,139 @@
+import { storage } from "./storage";
+import type { GuestCount } from "@shared/schema";
+
+// Guest count forecast per day and meal from the entered history (pre-filled
+// forecasts are ignored):
+// - weekday pattern: the same weekday in the last weeks, recent weeks weighted higher
+// - same period last year: the same weekday 52 weeks earlier (± one week),
+//   scaled by how the recent weeks compare to the same weeks last year
+// Both are blended when available. Forecasts for past days only use history
+// from before that day, so they can be compared with the actual counts.
+
+const RECENT_WEEKS = 8;
+const YEAR_OFFSET_DAYS = 364;  // 52 weeks, keeps the weekday
+const RECENT_WEIGHT = 0.6;     // share of the weekday pattern when last year is known too
+const MIN_TREND_DAYS = 7;      // days with data in both windows before a trend is applied
+const TREND_LIMITS = [0.5, 2];
+
+export type ForecastBasis = "weekday" | "lastYear" | "both";
+
+export interface GuestForecastEntry {
+  date: string;
+  meal: string;
+  adults: number;
+  children: number;
+  basis: ForecastBasis;
+  samples: number;  // history values the forecast is based on
+  actual: { adults: number; children: number } | null;  // entered count, null if none or only pre-filled
+}
+
+export interface GuestForecast {
+  start: string;
+  end: string;
+  entries: GuestForecastEntry[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+}
+
+function datesBetween(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let d = start; d <= end; d = addDays(d, 1)) dates.push(d);
+  return dates;
+}
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export async function buildGuestForecast(startDate: string, endDate: string, today = new Date().toISOString().split("T")[0]): Promise<GuestForecast> {
+  const earliestAnchor = startDate < today ? startDate : today;
+  const historyStart = addDays(earliestAnchor, -(YEAR_OFFSET_DAYS + RECENT_WEEKS * 7 + 7));
+  const counts = await storage.getGuestCounts(historyStart, endDate > today ? endDate : today);
+
+  const actuals = new Map<string, GuestCount>();
+  for (const count of counts) {
+    if (!count.isForecast) actuals.set(`${count.date}|${count.meal}`, count);
+  }
+  const meals = Array.from(new Set(Array.from(actuals.values()).map(c => c.meal)));
+  const actualAt = (date: string, meal: string) => actuals.get(`${date}|${meal}`);
+
+  // Ratio of guests in the weeks before `anchor` to the same weeks a year earlier
+  const trendCache = new Map<string, number | null>();
+  const trend = (meal: string, anchor: string): number | null => {
+    const key = `${meal}|${anchor}`;
+    if (trendCache.has(key)) return trendCache.get(key)!;
+    let recent = 0, lastYear = 0, days = 0;
+    for (let i = 1; i <= RECENT_WEEKS * 7; i++) {
+      const now = actualAt(addDays(anchor, -i), meal);
+      const before = actualAt(addDays(anchor, -i - YEAR_OFFSET_DAYS), meal);
+      if (!now || !before) continue;
+      recent += now.adults + now.children;
+      lastYear += before.adults + before.children;
+      days++;
+    }
+    const ratio = days >= MIN_TREND_DAYS && lastYear > 0
+      ? Math.min(TREND_LIMITS[1], Math.max(TREND_LIMITS[0], recent / lastYear))
+      : null;
+    trendCache.set(key, ratio);
+    return ratio;
+  };
+
+  const entries: GuestForecastEntry[] = [];
+  for (const date of datesBetween(startDate, endDate)) {
+    const anchor = date < today ? date : today;
+    for (const meal of meals) {
+      // Same weekday in the recent weeks before the anchor, newest first
+      const weekday: { count: GuestCount; weight: number }[] = [];
+      const windowStart = addDays(anchor, -7 * RECENT_WEEKS);
+      for (let day = addDays(date, -7); day >= windowStart; day = addDays(day, -7)) {
+        const count = day < anchor ? actualAt(day, meal) : undefined;
+        if (count) weekday.push({ count, weight: RECENT_WEEKS + 1 - Math.ceil(daysBetween(day, anchor) / 7) });
+      }
+      const lastYear = [-7, 0, 7]
+        .map(offset => actualAt(addDays(date, offset - YEAR_OFFSET_DAYS), meal))
+        .filter((c): c is GuestCount => c !== undefined);
+      if (weekday.length === 0 && lastYear.length === 0) continue;
+
+      const weighted = (field: "adults" | "children") => {
+        const totalWeight = weekday.reduce((sum, w) => sum + w.weight, 0);
+        return weekday.reduce((sum, w) => sum + w.count[field] * w.weight, 0) / totalWeight;
+      };
+      const factor = trend(meal, anchor) ?? 1;
+      const yearAgo = (field: "adults" | "children") => average(lastYear.map(c => c[field])) * factor;
+      const estimate = (field: "adults" | "children") => {
+        if (weekday.length === 0) return yearAgo(field);
+        if (lastYear.length === 0) return weighted(field);
+        return RECENT_WEIGHT * weighted(field) + (1 - RECENT_WEIGHT) * yearAgo(field);
+      };
+
+      const actual = actualAt(date, meal);
+      entries.push({
+        date,
+        meal,
+        adults: Math.round(estimate("adults")),
+        children: Math.round(estimate("children")),
+        basis: weekday.length === 0 ? "lastYear" : lastYear.length === 0 ? "weekday" : "both",
+        samples: weekday.length + lastYear.length,
+        actual: actual ? { adults: actual.adults, children: actual.children } : null,
+      });
+    }
+  }
+
+  return { start: startDate, end: endDate, entries };
+}
+
+// Writes the forecast into days from today on that have no count yet
+export async function prefillGuestCounts(startDate: string, endDate: string, today = new Date().toISOString().split("T")[0]) {
+  const from = startDate < today ? today : startDate;
+  if (from > endDate) return { created: 0, updated: 0 };
+  const forecast = await buildGuestForecast(from, endDate, today);
+  return storage.saveGuestForecasts(forecast.entries
+    .filter(e => e.actual === null)
+    .map(({ date, meal, adults, children }) => ({ date, meal, adults, children })));
+}
@@ -0,0 +1,240 @@
+import Papa from "papaparse";
+import ExcelJS, { type CellValue } from "exceljs";
+import { storage } from "./storage";
+import type { GuestImportSource } from "@shared/schema";
+import { normalizeBoardCode, type GuestImportMeal } from "@shared/guestImport";
+
+// Guest count import from hotel PMS exports (CSV or XLSX). The mapping of a
+// source names the columns; a row is either the occupancy of one night or a
+// reservation from arrival to departure. Rows are summed per date and meal and
+// saved with the upsert semantics of POST /api/guests: counts of the file
+// replace existing ones, dates and meals missing from the file stay untouched.
+// A dry run returns the same changes without saving them.
+
+export const MAX_IMPORT_ROWS = 5000;
+const MAX_STAY_NIGHTS = 60;
+const MEAL_ORDER = ["breakfast", "lunch", "dinner"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A saved source or a mapping sent with the upload
+export type GuestImportMapping = Omit<GuestImportSource, "id" | "name" | "createdAt">;
+
+export interface GuestImportFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export type GuestImportAction = "create" | "update" | "unchanged";
+
+export interface GuestImportChange {
+  date: string;
+  meal: string;
+  adults: number;
+  children: number;
+  current: { adults: number; children: number; isForecast: boolean } | null;
+  action: GuestImportAction;
+}
+
+export interface GuestImportResult {
+  dryRun: boolean;
+  rows: number;  // data rows read, without empty rows
+  start: string | null;
+  end: string | null;
+  changes: GuestImportChange[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: { row: number; error: string }[];  // row numbers as shown in the file
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function cellText(value: CellValue): string {
+  if (value == null) return "";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  if (typeof value === "object") {
+    if ("richText" in value) return value.richText.map(part => part.text).join("");
+    if ("result" in value) return cellText(value.result as CellValue);
+    if ("text" in value) return String(value.text);
+    return "";
+  }
+  return String(value);
+}
+
+// UTF-8 unless the bytes are not valid UTF-8, then Windows-1252 as exported by most PMS
+function decodeText(buffer: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder("windows-1252").decode(buffer);
+  }
+  return text.replace(/^\uFEFF/, "");
+}
+
+async function readRows(file: GuestImportFile, delimiter: string): Promise<string[][]> {
+  const name = file.originalname.toLowerCase();
+  if (name.endsWith(".xlsx")) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file.buffer);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const cells: string[] = [];
+      for (let col = 1; col <= row.cellCount; col++) cells.push(cellText(row.getCell(col).value));
+      rows[rowNumber - 1] = cells;
+    });
+    return Array.from(rows, row => row ?? []);
+  }
+  if (name.endsWith(".csv") || name.endsWith(".txt")) {
+    const parsed = Papa.parse(decodeText(file.buffer), { delimiter: delimiter === "auto" ? "" : delimiter });
+    return parsed.data;
+  }
+  throw new Error("Nur CSV- und Excel-Dateien (.xlsx) werden unterstützt");
+}
+
+function parseDate(value: string, format: string): string | null {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    // ISO dates are accepted in every format, Excel date cells arrive like this
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (format === "DD.MM.YYYY" && (match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})\b/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (format === "MM/DD/YYYY" && (match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/))) {
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split("T")[0];
+}
+
+// Whole, non-negative numbers; empty cells count as 0
+function parseCount(value: string): number | null {
+  const text = value.trim();
+  if (text === "") return 0;
+  return /^\d+([.,]0+)?$/.test(text) ? parseInt(text, 10) : null;
+}
+
+export async function importGuestCounts(file: GuestImportFile, mapping: GuestImportMapping, dryRun: boolean): Promise<GuestImportResult> {
+  if (!mapping.boardColumn && mapping.defaultMeals.length === 0) {
+    throw new Error("Bitte Verpflegungsspalte oder Standard-Mahlzeiten angeben");
+  }
+  const rows = await readRows(file, mapping.delimiter);
+  const header = (rows[mapping.headerRow - 1] ?? []).map(cell => cell.trim().toLowerCase());
+  const column = (name: string | null) => {
+    if (!name) return null;
+    const index = header.indexOf(name.trim().toLowerCase());
+    if (index === -1) throw new Error(`Spalte "${name}" nicht gefunden (Kopfzeile ${mapping.headerRow})`);
+    return index;
+  };
+  const dateCol = column(mapping.dateColumn)!;
+  const departureCol = column(mapping.departureColumn);
+  const adultsCol = column(mapping.adultsColumn)!;
+  const childrenCol = column(mapping.childrenColumn);
+  const boardCol = column(mapping.boardColumn);
+  const boardMeals: Record<string, GuestImportMeal[]> = JSON.parse(mapping.boardMeals || "{}");
+
+  const dataRows = rows
+    .map((cells, index) => ({ cells, row: index + 1 }))
+    .slice(mapping.headerRow)
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ""));
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Maximal ${MAX_IMPORT_ROWS} Zeilen pro Import`);
+  }
+
+  const totals = new Map<string, { date: string; meal: string; adults: number; children: number }>();
+  const skipped: GuestImportResult["skipped"] = [];
+  for (const { cells, row } of dataRows) {
+    const cell = (index: number | null) => (index === null ? "" : cells[index] ?? "");
+    const date = parseDate(cell(dateCol), mapping.dateFormat);
+    if (!date) {
+      skipped.push({ row, error: `Ungültiges Datum "${cell(dateCol)}"` });
+      continue;
+    }
+    const adults = parseCount(cell(adultsCol));
+    const children = parseCount(cell(childrenCol));
+    if (adults === null || children === null) {
+      skipped.push({ row, error: "Ungültige Personenzahl" });
+      continue;
+    }
+
+    const boardCode = normalizeBoardCode(cell(boardCol));
+    const meals = boardCode ? boardMeals[boardCode] : mapping.defaultMeals;
+    if (!meals) {
+      skipped.push({ row, error: `Unbekannte Verpflegung "${boardCode}"` });
+      continue;
+    }
+
+    const nights: string[] = [date];
+    if (departureCol !== null) {
+      const departure = parseDate(cell(departureCol), mapping.dateFormat);
+      if (!departure || departure <= date) {
+        skipped.push({ row, error: "Abreise fehlt oder liegt nicht nach der Anreise" });
+        continue;
+      }
+      for (let night = addDays(date, 1); night < departure; night = addDays(night, 1)) nights.push(night);
+      if (nights.length > MAX_STAY_NIGHTS) {
+        skipped.push({ row, error: `Aufenthalt länger als ${MAX_STAY_NIGHTS} Nächte` });
+        continue;
+      }
+    }
+
+    for (const night of nights) {
+      for (const meal of meals) {
+        const day = meal === "breakfast" && mapping.breakfastNextDay ? addDays(night, 1) : night;
+        const key = `${day}|${meal}`;
+        const total = totals.get(key) ?? { date: day, meal, adults: 0, children: 0 };
+        total.adults += adults;
+        total.children += children;
+        totals.set(key, total);
+      }
+    }
+  }
+
+  const counts = Array.from(totals.values()).sort((a, b) =>
+    a.date.localeCompare(b.date) || MEAL_ORDER.indexOf(a.meal) - MEAL_ORDER.indexOf(b.meal)
+  );
+  const start = counts.length > 0 ? counts[0].date : null;
+  const end = counts.length > 0 ? counts[counts.length - 1].date : null;
+  const existing = new Map(
+    (start && end ? await storage.getGuestCounts(start, end) : []).map(c => [`${c.date}|${c.meal}`, c])
+  );
+
+  // Replacing a pre-filled forecast with the same numbers still turns it into an entered count
+  const changes: GuestImportChange[] = counts.map(count => {
+    const current = existing.get(`${count.date}|${count.meal}`);
+    const action: GuestImportAction = !current ? "create"
+      : current.adults === count.adults && current.children === count.children && !current.isForecast ? "unchanged"
+      : "update";
+    return {
+      ...count,
+      current: current ? { adults: current.adults, children: current.children, isForecast: current.isForecast } : null,
+      action,
+    };
+  });
+
+  if (!dryRun) {
+    await storage.saveGuestCounts(changes.filter(c => c.action !== "unchanged")
+      .map(({ date, meal, adults, children }) => ({ date, meal, adults, children })));
+  }
+
+  return {
+    dryRun,
+    rows: dataRows.length,
+    start,
+    end,
+    changes,
+    created: changes.filter(c => c.action === "create").length,
+    updated: changes.filter(c => c.action === "update").length,
+    unchanged: changes.filter(c => c.action === "unchanged").length,
+    skipped,
+  };
+}
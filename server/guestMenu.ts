@@ -0,0 +1,66 @@
+import { storage } from "./storage";
+import { ALLERGENS, splitAllergens } from "@shared/allergens";
+import { ingredientAllergensByRecipe } from "./allergens";
+import { GUEST_MENU_TEXTS, dietaryTagLabels, type GuestLanguage } from "@shared/guestMenu";
+
+// Public guest menu: the planned dishes of one day in the guest's language,
+// reduced to what guests may see (no portions, notes or costs).
+
+export interface GuestDish {
+  course: string;
+  courseLabel: string;
+  name: string;
+  allergens: { code: string; name: string }[];
+  mayContain: { code: string; name: string }[];
+  tags: string[];
+}
+
+export interface GuestMeal {
+  meal: string;
+  label: string;
+  dishes: GuestDish[];
+}
+
+export interface GuestMenu {
+  date: string;
+  lang: GuestLanguage;
+  meals: GuestMeal[];
+}
+
+const MEAL_ORDER = ["breakfast", "lunch", "dinner"];
+const COURSE_ORDER = ["soup", "main_meat", "side1", "side2", "main_veg", "dessert", "main"];
+
+export async function buildGuestMenu(date: string, lang: GuestLanguage): Promise<GuestMenu> {
+  const [plans, recipes, fromIngredients] = await Promise.all([
+    storage.getMenuPlans(date, date),
+    storage.getRecipes(),
+    ingredientAllergensByRecipe(),
+  ]);
+  const recipeMap = new Map(recipes.map(r => [r.id, r]));
+  const texts = GUEST_MENU_TEXTS[lang];
+  const withNames = (codes: string[]) => codes.map(code => ({ code, name: ALLERGENS[code]?.[lang] ?? code }));
+
+  const mealMap = new Map<string, GuestMeal>();
+  const sorted = [...plans].sort((a, b) => COURSE_ORDER.indexOf(a.course) - COURSE_ORDER.indexOf(b.course));
+  for (const plan of sorted) {
+    const recipe = plan.recipeId ? recipeMap.get(plan.recipeId) : undefined;
+    if (!recipe) continue;
+    if (!mealMap.has(plan.meal)) {
+      mealMap.set(plan.meal, { meal: plan.meal, label: texts.meals[plan.meal] ?? plan.meal, dishes: [] });
+    }
+
+    const { contains, traces } = splitAllergens(recipe.allergens, recipe.mayContain, fromIngredients.get(recipe.id));
+    mealMap.get(plan.meal)!.dishes.push({
+      course: plan.course,
+      courseLabel: texts.courses[plan.course] ?? plan.course,
+      name: recipe.name,
+      allergens: withNames(contains),
+      mayContain: withNames(traces),
+      tags: dietaryTagLabels(recipe.tags, lang),
+    });
+  }
+
+  const meals = Array.from(mealMap.values())
+    .sort((a, b) => MEAL_ORDER.indexOf(a.meal) - MEAL_ORDER.indexOf(b.meal));
+  return { date, lang, meals };
+}
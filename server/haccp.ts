@@ -0,0 +1,374 @@
+import { storage, type HaccpLogBucket } from "./storage";
+import type { Fridge, HaccpCorrectiveAction, HaccpLog } from "@shared/schema";
+import { controlPointTypeInfo, coolingDurationMinutes, formatLimits, isValueWithinLimits } from "@shared/haccp";
+import { verifyHaccpChain, type HaccpChainStatus } from "./haccpChain";
+
+// HACCP deviations: readings outside a control point's limits and their
+// corrective actions. A deviation stays open until a re-measurement is back
+// within the limits.
+
+export interface HaccpDeviation {
+  log: HaccpLog;
+  fridgeName: string;
+  type: string;
+  unit: string;
+  limits: string;
+  tempMin: number;
+  tempMax: number;
+  actions: HaccpCorrectiveAction[];
+  resolved: boolean;
+  resolvedAt: string | null;
+}
+
+export function isDeviationStatus(status: string): boolean {
+  return status === "WARNING" || status === "CRITICAL";
+}
+
+// Drops readings that were superseded by a correction; the correction takes their place
+export function effectiveLogs(logs: HaccpLog[]): HaccpLog[] {
+  const corrected = new Set(logs.map(l => l.correctsLogId).filter((id): id is number => id !== null));
+  return logs.filter(log => !corrected.has(log.id));
+}
+
+export function buildDeviation(log: HaccpLog, fridge: Fridge | undefined, actions: HaccpCorrectiveAction[]): HaccpDeviation {
+  const resolving = fridge
+    ? actions.find(a => a.remeasuredTemperature != null && isValueWithinLimits(fridge, a.remeasuredTemperature))
+    : undefined;
+  const type = fridge?.type ?? "storage";
+  return {
+    log,
+    fridgeName: fridge?.name ?? `#${log.fridgeId}`,
+    type,
+    unit: controlPointTypeInfo(type).unit,
+    limits: fridge ? formatLimits(fridge) : "",
+    tempMin: fridge?.tempMin ?? 0,
+    tempMax: fridge?.tempMax ?? 0,
+    actions,
+    resolved: Boolean(resolving),
+    resolvedAt: resolving ? resolving.timestamp.toISOString() : null,
+  };
+}
+
+// Deviations of the given logs (all logs when omitted), newest first. The
+// given logs should be complete enough to contain the corrections of a reading.
+export async function getHaccpDeviations(options: { logs?: HaccpLog[]; openOnly?: boolean } = {}): Promise<HaccpDeviation[]> {
+  const [allLogs, fridges, actions] = await Promise.all([
+    options.logs ? Promise.resolve(options.logs) : storage.getHaccpLogs(),
+    storage.getFridges(),
+    storage.getCorrectiveActions(),
+  ]);
+  const logs = effectiveLogs(allLogs);
+  const fridgeMap = new Map(fridges.map(f => [f.id, f]));
+  const actionsByLog = new Map<number, HaccpCorrectiveAction[]>();
+  for (const action of actions) {
+    if (!actionsByLog.has(action.logId)) actionsByLog.set(action.logId, []);
+    actionsByLog.get(action.logId)!.push(action);
+  }
+
+  const deviations = logs
+    .filter(log => isDeviationStatus(log.status))
+    .map(log => buildDeviation(log, fridgeMap.get(log.fridgeId), actionsByLog.get(log.id) ?? []))
+    .sort((a, b) => new Date(b.log.timestamp).getTime() - new Date(a.log.timestamp).getTime());
+  return options.openOnly ? deviations.filter(d => !d.resolved) : deviations;
+}
+
+export interface MeasurementSlot {
+  date: string;
+  time: string;
+  fridgeId: number;
+  fridgeName: string;
+  status: "done" | "missed" | "pending";
+  logId: number | null;
+}
+
+export interface MeasurementDay {
+  date: string;
+  due: number;
+  done: number;
+  missed: number;
+  pending: number;
+}
+
+export interface MeasurementScheduleReport {
+  start: string;
+  end: string;
+  totalMissed: number;
+  days: MeasurementDay[];
+  missed: MeasurementSlot[];
+  slots: MeasurementSlot[];
+}
+
+// Day keys and check times of the measurement schedule are server-local
+export function localDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function localDate(date: string, time = "00:00"): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+export function addLocalDays(date: string, days: number): string {
+  const result = localDate(date);
+  result.setDate(result.getDate() + days);
+  return localDateKey(result);
+}
+
+function dateRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate && dates.length < 366; date = addLocalDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Matches the logged readings against each active fridge's daily check times.
+// Dates and slot times are server-local. A reading covers at most one slot; corrections
+// do not count as readings of their own. Slots whose tolerance window has not
+// yet passed are pending rather than missed.
+export async function evaluateMeasurementSchedule(startDate: string, endDate: string, now = new Date()): Promise<MeasurementScheduleReport> {
+  const [fridges, logs] = await Promise.all([storage.getFridges(), storage.getHaccpLogs()]);
+  const dates = dateRange(startDate, endDate);
+
+  const slots: MeasurementSlot[] = [];
+  for (const fridge of fridges) {
+    if (!fridge.active || fridge.checkTimes.length === 0) continue;
+    const toleranceMs = fridge.checkToleranceMinutes * 60 * 1000;
+    const fridgeLogs = logs.filter(log => log.fridgeId === fridge.id && log.correctsLogId === null);
+    const used = new Set<number>();
+
+    for (const date of dates) {
+      for (const time of [...fridge.checkTimes].sort()) {
+        const slotTime = localDate(date, time).getTime();
+        const match = fridgeLogs
+          .filter(log => !used.has(log.id) && Math.abs(new Date(log.timestamp).getTime() - slotTime) <= toleranceMs)
+          .sort((a, b) => Math.abs(new Date(a.timestamp).getTime() - slotTime) - Math.abs(new Date(b.timestamp).getTime() - slotTime))[0];
+        if (match) used.add(match.id);
+
+        slots.push({
+          date,
+          time,
+          fridgeId: fridge.id,
+          fridgeName: fridge.name,
+          status: match ? "done" : now.getTime() <= slotTime + toleranceMs ? "pending" : "missed",
+          logId: match?.id ?? null,
+        });
+      }
+    }
+  }
+
+  const days = dates.map(date => {
+    const daySlots = slots.filter(s => s.date === date);
+    return {
+      date,
+      due: daySlots.length,
+      done: daySlots.filter(s => s.status === "done").length,
+      missed: daySlots.filter(s => s.status === "missed").length,
+      pending: daySlots.filter(s => s.status === "pending").length,
+    };
+  });
+  const missed = slots
+    .filter(s => s.status === "missed")
+    .sort((a, b) => b.date.localeCompare(a.date) || b.time.localeCompare(a.time) || a.fridgeName.localeCompare(b.fridgeName, 'de'));
+
+  return { start: startDate, end: endDate, totalMissed: missed.length, days, missed, slots };
+}
+
+export interface HaccpTrendPoint {
+  time: string;
+  count: number;
+  avg: number;
+  min: number;
+  max: number;
+  deviations: number;
+}
+
+export interface HaccpFridgeStats {
+  fridgeId: number;
+  fridgeName: string;
+  type: string;
+  unit: string;
+  limits: string;
+  tempMin: number;
+  tempMax: number;
+  count: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  inRangePercent: number | null;  // share of readings with status OK
+  deviations: number;
+  series: HaccpTrendPoint[];
+}
+
+export interface HaccpStatsReport {
+  start: string;
+  end: string;
+  bucket: "hour" | "day";
+  fridges: HaccpFridgeStats[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Trend and statistics per control point, aggregated in the database so the
+// client gets one point per hour (ranges up to 7 days) or per day instead of
+// every reading. Cooling points are included; their values are end temperatures.
+export async function getHaccpStats(start: Date, end: Date, fridgeId?: number): Promise<HaccpStatsReport> {
+  const bucket = end.getTime() - start.getTime() <= 7 * 24 * 60 * 60 * 1000 ? "hour" : "day";
+  const [fridges, buckets] = await Promise.all([
+    storage.getFridges(),
+    storage.getHaccpLogBuckets(start, end, bucket, fridgeId),
+  ]);
+
+  const bucketsByFridge = new Map<number, HaccpLogBucket[]>();
+  for (const b of buckets) {
+    if (!bucketsByFridge.has(b.fridgeId)) bucketsByFridge.set(b.fridgeId, []);
+    bucketsByFridge.get(b.fridgeId)!.push(b);
+  }
+
+  const stats = fridges
+    .filter(f => fridgeId === undefined ? f.active : f.id === fridgeId)
+    .map(fridge => {
+      const series = bucketsByFridge.get(fridge.id) ?? [];
+      const count = series.reduce((sum, b) => sum + b.count, 0);
+      const deviations = series.reduce((sum, b) => sum + b.deviations, 0);
+      return {
+        fridgeId: fridge.id,
+        fridgeName: fridge.name,
+        type: fridge.type,
+        unit: controlPointTypeInfo(fridge.type).unit,
+        limits: formatLimits(fridge),
+        tempMin: fridge.tempMin,
+        tempMax: fridge.tempMax,
+        count,
+        mean: count ? round1(series.reduce((sum, b) => sum + b.avg * b.count, 0) / count) : null,
+        min: count ? Math.min(...series.map(b => b.min)) : null,
+        max: count ? Math.max(...series.map(b => b.max)) : null,
+        inRangePercent: count ? round1(((count - deviations) / count) * 100) : null,
+        deviations,
+        series: series.map(({ fridgeId: _id, avg, ...point }) => ({ ...point, avg: round1(avg) })),
+      };
+    });
+
+  return { start: start.toISOString(), end: end.toISOString(), bucket, fridges: stats };
+}
+
+export interface HaccpReportRow {
+  log: HaccpLog;
+  deviation: boolean;
+  remark: string;  // item, notes, cooling details and correction references
+}
+
+export interface HaccpReportSection {
+  fridgeId: number;
+  fridgeName: string;
+  typeLabel: string;
+  unit: string;
+  limits: string;
+  rows: HaccpReportRow[];
+  deviations: number;
+}
+
+export interface HaccpReportMonth {
+  month: string;  // YYYY-MM
+  label: string;  // "Januar 2024"
+  sections: HaccpReportSection[];
+}
+
+export interface HaccpReport {
+  start: string;
+  end: string;
+  totalReadings: number;
+  months: HaccpReportMonth[];
+  deviations: HaccpDeviation[];
+  chain: HaccpChainStatus;
+}
+
+function monthRange(startDate: string, endDate: string): string[] {
+  const months: string[] = [];
+  let [year, month] = startDate.split('-').map(Number);
+  const last = endDate.slice(0, 7);
+  while (months.length < 120) {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    if (key > last) break;
+    months.push(key);
+    month++;
+    if (month > 12) { month = 1; year++; }
+  }
+  return months;
+}
+
+function reportRemark(log: HaccpLog, fridge: Fridge, correctedBy: number | undefined): string {
+  const parts: string[] = [];
+  if (log.item) parts.push(log.item);
+  if (fridge.type === "cooling" && log.startedAt) {
+    parts.push(`ab ${log.startTemperature ?? '?'} ${controlPointTypeInfo(fridge.type).unit}, ${coolingDurationMinutes(log)} min`);
+  }
+  if (log.notes) parts.push(log.notes);
+  if (log.sensorId !== null) parts.push("automatisch (Sensor)");
+  if (log.correctsLogId !== null) parts.push(`Korrektur zu #${log.correctsLogId}: ${log.correctionReason ?? ''}`);
+  if (correctedBy !== undefined) parts.push(`korrigiert durch #${correctedBy}`);
+  return parts.join(" | ");
+}
+
+// Every reading between startDate and endDate (YYYY-MM-DD, server-local, inclusive),
+// per month and control point, for the HACCP PDF. Active control points without
+// readings get an empty section so gaps are visible. Superseded readings stay in
+// the table, marked with the correction that replaced them.
+export async function buildHaccpReport(startDate: string, endDate: string): Promise<HaccpReport> {
+  const [logs, fridges] = await Promise.all([storage.getHaccpLogs(), storage.getFridges()]);
+  const from = new Date(`${startDate}T00:00:00`);
+  const to = new Date(`${endDate}T23:59:59.999`);
+  const inRange = logs
+    .filter(log => log.timestamp >= from && log.timestamp <= to)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id);
+
+  const correctedBy = new Map<number, number>();
+  for (const log of logs) {
+    if (log.correctsLogId !== null) correctedBy.set(log.correctsLogId, log.id);
+  }
+  const monthOf = (log: HaccpLog) =>
+    `${log.timestamp.getFullYear()}-${String(log.timestamp.getMonth() + 1).padStart(2, '0')}`;
+
+  const months = monthRange(startDate, endDate).map(month => {
+    const monthLogs = inRange.filter(log => monthOf(log) === month);
+    const sections = [...fridges]
+      .filter(fridge => fridge.active || monthLogs.some(log => log.fridgeId === fridge.id))
+      .sort((a, b) => a.name.localeCompare(b.name, 'de'))
+      .map(fridge => {
+        const rows = monthLogs
+          .filter(log => log.fridgeId === fridge.id)
+          .map(log => ({
+            log,
+            deviation: isDeviationStatus(log.status),
+            remark: reportRemark(log, fridge, correctedBy.get(log.id)),
+          }));
+        const info = controlPointTypeInfo(fridge.type);
+        return {
+          fridgeId: fridge.id,
+          fridgeName: fridge.name,
+          typeLabel: info.label,
+          unit: info.unit,
+          limits: formatLimits(fridge),
+          rows,
+          deviations: rows.filter(r => r.deviation && !correctedBy.has(r.log.id)).length,
+        };
+      });
+    const [year, monthNumber] = month.split('-').map(Number);
+    return {
+      month,
+      label: new Date(year, monthNumber - 1, 1).toLocaleDateString('de-DE', { month: 'long', year: 'numeric' }),
+      sections,
+    };
+  });
+
+  return {
+    start: startDate,
+    end: endDate,
+    totalReadings: inRange.length,
+    months,
+    deviations: await getHaccpDeviations({ logs: inRange }),
+    // Integrity over the complete log, not only the exported range
+    chain: verifyHaccpChain(logs),
+  };
+}
@@ -0,0 +1,55 @@
+import crypto from "crypto";
+import type { HaccpLog } from "@shared/schema";
+
+// Hash chain over haccp_logs: every row's hash covers its content and the hash
+// of the row before it (by id), so changing or deleting any row breaks the
+// chain from that point on.
+
+export const GENESIS_HASH = "0".repeat(64);
+
+// Postgres advisory lock key that serializes writers of the chain
+export const HACCP_CHAIN_LOCK = 4_711_001;
+
+const iso = (value: Date | string | null) => value === null ? null : new Date(value).toISOString();
+
+export function hashHaccpLog(log: HaccpLog, prevHash: string): string {
+  // Fixed field order; JSON keeps types (null vs "") apart
+  const payload = JSON.stringify([
+    log.id,
+    log.fridgeId,
+    log.temperature,
+    iso(log.timestamp),
+    log.user,
+    log.userId,
+    log.status,
+    log.notes,
+    log.item,
+    log.startTemperature,
+    iso(log.startedAt),
+    log.correctsLogId,
+    log.correctionReason,
+    // Appended only when set so rows sealed before sensors existed keep their hash
+    ...(log.sensorId !== null ? [log.sensorId] : []),
+  ]);
+  return crypto.createHash("sha256").update(prevHash).update(payload).digest("hex");
+}
+
+export interface HaccpChainStatus {
+  valid: boolean;
+  count: number;
+  brokenAtId: number | null;  // first row whose link or hash does not match
+  lastHash: string;
+  checkedAt: string;
+}
+
+export function verifyHaccpChain(logs: HaccpLog[]): HaccpChainStatus {
+  const ordered = [...logs].sort((a, b) => a.id - b.id);
+  let prev = GENESIS_HASH;
+  for (const log of ordered) {
+    if (log.prevHash !== prev || log.hash !== hashHaccpLog(log, prev)) {
+      return { valid: false, count: ordered.length, brokenAtId: log.id, lastHash: prev, checkedAt: new Date().toISOString() };
+    }
+    prev = log.hash;
+  }
+  return { valid: true, count: ordered.length, brokenAtId: null, lastHash: prev, checkedAt: new Date().toISOString() };
+}
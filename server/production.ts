@@ -0,0 +1,285 @@
+import { storage } from "./storage";
+import type { MenuPlan, GuestCount, Recipe } from "@shared/schema";
+import { scaleQuantity, sumQuantities } from "@shared/units";
+import { isCateringBooked } from "@shared/catering";
+
+// Production planning: scales the planned recipes of a date range to the
+// guest counts of each meal and consolidates them per recipe and per course.
+// Booked catering events in the range are added with the portions of their dishes.
+
+// Children eat roughly half an adult portion
+export const CHILD_PORTION_FACTOR = 0.5;
+
+export type PortionSource = "override" | "guests" | "forecast" | "plan";
+
+export interface ProductionIngredient {
+  name: string;
+  amount: number;
+  unit: string;
+}
+
+export interface ProductionItem {
+  planId: number;
+  date: string;
+  meal: string;
+  course: string;
+  recipeId: number;
+  recipeName: string;
+  portions: number;
+  portionSource: PortionSource;
+  ingredients: ProductionIngredient[];
+}
+
+export interface ProductionMeal {
+  date: string;
+  meal: string;
+  adults: number;
+  children: number;
+  guestPortions: number | null;
+  guestForecast: boolean;  // guest count is a pre-filled forecast, not yet confirmed
+  items: ProductionItem[];
+}
+
+export interface ProductionRecipeTotal {
+  recipeId: number;
+  recipeName: string;
+  portions: number;
+  courses: string[];
+  ingredients: ProductionIngredient[];
+}
+
+export interface ProductionCourseTotal {
+  course: string;
+  portions: number;
+  recipes: { recipeId: number; recipeName: string; portions: number }[];
+}
+
+export interface ProductionCateringItem {
+  dishId: number;
+  recipeId: number | null;  // null for free-text dishes, which have no ingredients
+  recipeName: string;
+  portions: number;
+  notes: string | null;
+  ingredients: ProductionIngredient[];
+}
+
+export interface ProductionCateringEvent {
+  eventId: number;
+  date: string;
+  time: string;
+  eventName: string;
+  clientName: string;
+  personCount: number;
+  items: ProductionCateringItem[];
+}
+
+export interface ProductionPlan {
+  start: string;
+  end: string;
+  childFactor: number;
+  meals: ProductionMeal[];
+  catering: ProductionCateringEvent[];
+  byRecipe: ProductionRecipeTotal[];
+  byCourse: ProductionCourseTotal[];
+}
+
+const MEAL_ORDER = ["breakfast", "lunch", "dinner"];
+const COURSE_ORDER = ["soup", "main_meat", "side1", "side2", "main_veg", "dessert", "main", "catering"];
+
+export function guestPortions(count: GuestCount | undefined, childFactor = CHILD_PORTION_FACTOR): number | null {
+  if (!count) return null;
+  return Math.ceil(count.adults + count.children * childFactor);
+}
+
+// Override wins, then the guest count of the meal (entered or forecast), then the portions stored on the plan
+export function resolvePortions(plan: MenuPlan, fromGuests: number | null, forecast = false): { portions: number; source: PortionSource } {
+  if (plan.portionsOverride != null) return { portions: plan.portionsOverride, source: "override" };
+  if (fromGuests != null && fromGuests > 0) return { portions: fromGuests, source: forecast ? "forecast" : "guests" };
+  return { portions: plan.portions, source: "plan" };
+}
+
+export function scaleIngredients(
+  ingredients: ProductionIngredient[],
+  recipe: Recipe,
+  portions: number
+): ProductionIngredient[] {
+  const base = recipe.portions > 0 ? recipe.portions : 1;
+  return ingredients.map(ing => ({
+    name: ing.name,
+    ...scaleQuantity(ing.amount, ing.unit, portions / base),
+  }));
+}
+
+// Merges ingredients by name, summing quantities across compatible units
+export function mergeIngredients(items: ProductionIngredient[]): ProductionIngredient[] {
+  const byName = new Map<string, ProductionIngredient[]>();
+  for (const ing of items) {
+    const key = ing.name.trim().toLowerCase();
+    if (!byName.has(key)) byName.set(key, []);
+    byName.get(key)!.push(ing);
+  }
+
+  const merged: ProductionIngredient[] = [];
+  for (const entries of Array.from(byName.values())) {
+    const name = entries[0].name.trim();
+    for (const quantity of sumQuantities(entries, name)) {
+      merged.push({ name, ...quantity });
+    }
+  }
+  return merged.sort((a, b) => a.name.localeCompare(b.name, 'de'));
+}
+
+export async function buildProductionPlan(startDate: string, endDate: string, childFactor = CHILD_PORTION_FACTOR): Promise<ProductionPlan> {
+  const [plans, counts, recipes, events] = await Promise.all([
+    storage.getMenuPlans(startDate, endDate),
+    storage.getGuestCounts(startDate, endDate),
+    storage.getRecipes(),
+    storage.getCateringEventsInRange(startDate, endDate),
+  ]);
+
+  const recipeMap = new Map(recipes.map(r => [r.id, r]));
+  const countMap = new Map(counts.map(c => [`${c.date}|${c.meal}`, c]));
+  const ingredientCache = new Map<number, ProductionIngredient[]>();
+
+  const mealMap = new Map<string, ProductionMeal>();
+  const recipeTotals = new Map<number, { total: ProductionRecipeTotal; ingredients: ProductionIngredient[] }>();
+  const courseTotals = new Map<string, ProductionCourseTotal>();
+
+  for (const plan of plans) {
+    if (!plan.recipeId) continue;
+    const recipe = recipeMap.get(plan.recipeId);
+    if (!recipe) continue;
+
+    const mealKey = `${plan.date}|${plan.meal}`;
+    const count = countMap.get(mealKey);
+    if (!mealMap.has(mealKey)) {
+      mealMap.set(mealKey, {
+        date: plan.date,
+        meal: plan.meal,
+        adults: count?.adults ?? 0,
+        children: count?.children ?? 0,
+        guestPortions: guestPortions(count, childFactor),
+        guestForecast: count?.isForecast ?? false,
+        items: [],
+      });
+    }
+    const meal = mealMap.get(mealKey)!;
+
+    if (!ingredientCache.has(recipe.id)) {
+      const ings = await storage.getIngredients(recipe.id);
+      ingredientCache.set(recipe.id, ings.map(i => ({ name: i.name, amount: i.amount, unit: i.unit })));
+    }
+
+    const { portions, source } = resolvePortions(plan, meal.guestPortions, meal.guestForecast);
+    const scaled = scaleIngredients(ingredientCache.get(recipe.id)!, recipe, portions);
+
+    meal.items.push({
+      planId: plan.id,
+      date: plan.date,
+      meal: plan.meal,
+      course: plan.course,
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      portions,
+      portionSource: source,
+      ingredients: scaled,
+    });
+
+    // Per recipe
+    if (!recipeTotals.has(recipe.id)) {
+      recipeTotals.set(recipe.id, {
+        total: { recipeId: recipe.id, recipeName: recipe.name, portions: 0, courses: [], ingredients: [] },
+        ingredients: [],
+      });
+    }
+    const recipeTotal = recipeTotals.get(recipe.id)!;
+    recipeTotal.total.portions += portions;
+    if (!recipeTotal.total.courses.includes(plan.course)) recipeTotal.total.courses.push(plan.course);
+    recipeTotal.ingredients.push(...scaled);
+
+    // Per course
+    if (!courseTotals.has(plan.course)) {
+      courseTotals.set(plan.course, { course: plan.course, portions: 0, recipes: [] });
+    }
+    const courseTotal = courseTotals.get(plan.course)!;
+    courseTotal.portions += portions;
+    const courseRecipe = courseTotal.recipes.find(r => r.recipeId === recipe.id);
+    if (courseRecipe) {
+      courseRecipe.portions += portions;
+    } else {
+      courseTotal.recipes.push({ recipeId: recipe.id, recipeName: recipe.name, portions });
+    }
+  }
+
+  // Only booked events are produced; inquiries, open quotes and cancellations are not
+  const catering: ProductionCateringEvent[] = [];
+  for (const event of events.filter(e => isCateringBooked(e.status))) {
+    const items: ProductionCateringItem[] = [];
+    for (const dish of await storage.getCateringDishes(event.id)) {
+      const recipe = dish.recipeId ? recipeMap.get(dish.recipeId) : undefined;
+      if (recipe && !ingredientCache.has(recipe.id)) {
+        const ings = await storage.getIngredients(recipe.id);
+        ingredientCache.set(recipe.id, ings.map(i => ({ name: i.name, amount: i.amount, unit: i.unit })));
+      }
+      const scaled = recipe ? scaleIngredients(ingredientCache.get(recipe.id)!, recipe, dish.portions) : [];
+      items.push({
+        dishId: dish.id,
+        recipeId: recipe?.id ?? null,
+        recipeName: dish.name,
+        portions: dish.portions,
+        notes: dish.notes,
+        ingredients: scaled,
+      });
+      if (!recipe) continue;
+
+      // Catering dishes count towards the recipe totals under their own course
+      if (!recipeTotals.has(recipe.id)) {
+        recipeTotals.set(recipe.id, {
+          total: { recipeId: recipe.id, recipeName: recipe.name, portions: 0, courses: [], ingredients: [] },
+          ingredients: [],
+        });
+      }
+      const recipeTotal = recipeTotals.get(recipe.id)!;
+      recipeTotal.total.portions += dish.portions;
+      if (!recipeTotal.total.courses.includes("catering")) recipeTotal.total.courses.push("catering");
+      recipeTotal.ingredients.push(...scaled);
+
+      if (!courseTotals.has("catering")) {
+        courseTotals.set("catering", { course: "catering", portions: 0, recipes: [] });
+      }
+      const courseTotal = courseTotals.get("catering")!;
+      courseTotal.portions += dish.portions;
+      const courseRecipe = courseTotal.recipes.find(r => r.recipeId === recipe.id);
+      if (courseRecipe) {
+        courseRecipe.portions += dish.portions;
+      } else {
+        courseTotal.recipes.push({ recipeId: recipe.id, recipeName: recipe.name, portions: dish.portions });
+      }
+    }
+    catering.push({
+      eventId: event.id,
+      date: event.date,
+      time: event.time,
+      eventName: event.eventName,
+      clientName: event.clientName,
+      personCount: event.personCount,
+      items,
+    });
+  }
+
+  const meals = Array.from(mealMap.values()).sort((a, b) =>
+    a.date.localeCompare(b.date) || MEAL_ORDER.indexOf(a.meal) - MEAL_ORDER.indexOf(b.meal)
+  );
+  for (const meal of meals) {
+    meal.items.sort((a, b) => COURSE_ORDER.indexOf(a.course) - COURSE_ORDER.indexOf(b.course));
+  }
+
+  const byRecipe = Array.from(recipeTotals.values())
+    .map(({ total, ingredients }) => ({ ...total, ingredients: mergeIngredients(ingredients) }))
+    .sort((a, b) => a.recipeName.localeCompare(b.recipeName, 'de'));
+
+  const byCourse = Array.from(courseTotals.values())
+    .sort((a, b) => COURSE_ORDER.indexOf(a.course) - COURSE_ORDER.indexOf(b.course));
+
+  return { start: startDate, end: endDate, childFactor, meals, catering, byRecipe, byCourse };
+}
@@ -2,12 +2,39 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { scrapeRecipe } from "./scraper";
+import { buildProductionPlan, CHILD_PORTION_FACTOR } from "./production";
+import { buildShoppingList } from "./shopping";
+import { linkIngredientsToArticles, matchArticle, suggestArticles } from "./articles";
+import { getRecipeCosts, getRecipeCostBreakdown, buildMenuCost, withCateringCosts } from "./costing";
+import { syncRecipeAllergens, buildAllergenMatrix, migrateDeclaredAllergens } from "./allergens";
+import { buildGuestMenu } from "./guestMenu";
+import { buildGuestForecast, prefillGuestCounts } from "./forecast";
+import { importGuestCounts } from "./guestImport";
+import { buildCateringProduction, buildCateringRevenue, changeCateringStatus, resolveCateringDishes, resolveCateringExtras } from "./catering";
+import { getHaccpDeviations, buildDeviation, isDeviationStatus, evaluateMeasurementSchedule, localDateKey, addLocalDays, getHaccpStats, buildHaccpReport } from "./haccp";
+import { verifyHaccpChain } from "./haccpChain";
+import { generateApiKey, hashApiKey, ingestSensorReadings, publicSensorDevice } from "./sensors";
+import { findScheduleViolations, getScheduleRules, validateScheduleEntry } from "./scheduleRules";
+import { approveScheduleRequest, createScheduleRequest, getLinkedStaff } from "./scheduleRequests";
+import { buildWorkingHoursReport, buildWorkingHoursWorkbook, monthRange } from "./workingHours";
 import {
-  insertRecipeSchema, insertIngredientSchema, insertFridgeSchema, insertHaccpLogSchema,
-  insertGuestCountSchema, insertCateringEventSchema, insertStaffSchema, insertShiftTypeSchema, insertScheduleEntrySchema, insertMenuPlanSchema,
-  registerUserSchema, loginUserSchema, insertTaskSchema, updateTaskStatusSchema
+  insertRecipeSchema, insertIngredientSchema, insertArticleSchema, insertFridgeSchema, haccpReadingSchema, haccpCorrectionSchema, insertSensorDeviceSchema, correctiveActionInputSchema,
+  insertGuestCountSchema, insertGuestImportSourceSchema, guestImportMappingSchema, insertCateringEventSchema, cateringStatusSchema, insertStaffSchema, insertShiftTypeSchema, insertScheduleEntrySchema, scheduleRulesSchema, insertMenuPlanSchema,
+  scheduleRequestInputSchema, scheduleRequestDecisionSchema,
+  registerUserSchema, loginUserSchema, insertTaskSchema, updateTaskStatusSchema,
+  type CateringEvent
 } from "@shared/schema";
 import { autoCategorize } from "@shared/categorizer";
+import { canonicalUnit } from "@shared/units";
+import { ALLERGEN_LETTERING, LEGACY_ALLERGEN_LETTERING, ingredientAllergens, normalizeAllergenCodes } from "@shared/allergens";
+import { evaluateReading } from "@shared/haccp";
+import { CATERING_QUOTE_VALIDITY_DAYS } from "@shared/catering";
+import { GUEST_MENU_TEXTS, isGuestLanguage } from "@shared/guestMenu";
+import { hasPermission, isRole, parsePermissionMatrix, PERMISSIONS_SETTING_KEY, type PermissionAction, type PermissionMatrix, type PermissionResource } from "@shared/permissions";
+import { SCHEDULE_RULES_SETTING_KEY } from "@shared/schedule";
+import { isAppModule, isModuleVisible, LEGACY_MODULE_SWITCHES, MODULE_VISIBILITY_SETTING_KEY, parseModuleVisibility, type AppModule, type ModuleVisibility } from "@shared/modules";
+import crypto from "crypto";
+import path from "path";
 import multer from "multer";
 import pdfParse from "pdf-parse";
 import bcrypt from "bcryptjs";
@@ -26,6 +53,15 @@ const authRateLimiter = rateLimit({
   skipSuccessfulRequests: true, // Only count failed attempts
 });
 
+// Sensors push often, but a misbehaving gateway must not flood the HACCP log
+const sensorRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 120,
+  message: { error: "Zu viele Anfragen" },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 const registerRateLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 5, // max 5 registrations per hour per IP
@@ -49,17 +85,6 @@ const KITCHEN_POSITIONS = [
 // Helper to safely get route parameter as string (Express 5 types params as string | string[])
 const getParam = (param: string | string[]): string => Array.isArray(param) ? param[0] : param;
 
-// Roles with permission levels
-const ROLE_PERMISSIONS: Record<string, number> = {
-  admin: 100,
-  souschef: 80,
-  koch: 60,
-  fruehkoch: 50,
-  lehrling: 30,
-  abwasch: 20,
-  guest: 10,
-};
-
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -134,6 +159,56 @@ export async function registerRoutes(
     console.log("Default admin account created: admin@mise.app / admin123");
   }
 
+  // Free-text catering dishes from before recipe references become dish rows
+  try {
+    const migratedEvents = await storage.migrateLegacyCateringDishes();
+    if (migratedEvents > 0) {
+      console.log(`Migrated dishes of ${migratedEvents} catering events`);
+    }
+  } catch (err) {
+    console.error("Catering dish migration failed:", err);
+  }
+
+  // Catering events from before the status pipeline were booked orders
+  try {
+    const migratedStatus = await storage.migrateLegacyCateringStatus(new Date().toISOString().split('T')[0]);
+    if (migratedStatus > 0) {
+      console.log(`Set status of ${migratedStatus} existing catering events`);
+    }
+  } catch (err) {
+    console.error("Catering status migration failed:", err);
+  }
+
+  // Allergen codes of the old consecutive lettering become the Austrian letters
+  try {
+    const migratedAllergens = await storage.migrateAllergenLettering();
+    if (migratedAllergens > 0) {
+      console.log(`Migrated allergen codes of ${migratedAllergens} recipes, articles and ingredients`);
+    }
+  } catch (err) {
+    console.error("Allergen lettering migration failed:", err);
+  }
+
+  // Imported allergens the ingredients do not explain move to declaredAllergens
+  try {
+    const declaredAllergens = await migrateDeclaredAllergens();
+    if (declaredAllergens > 0) {
+      console.log(`Kept declared allergens of ${declaredAllergens} recipes`);
+    }
+  } catch (err) {
+    console.error("Declared allergen migration failed:", err);
+  }
+
+  // HACCP rows from before the hash chain are sealed once so the chain covers all of them
+  try {
+    const sealedLogs = await storage.sealUnhashedHaccpLogs();
+    if (sealedLogs > 0) {
+      console.log(`Sealed ${sealedLogs} existing HACCP log entries into the hash chain`);
+    }
+  } catch (err) {
+    console.error("HACCP hash chain sealing failed:", err);
+  }
+
   // Auth middleware helper
   const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
     if (!req.session.userId) {
@@ -159,6 +234,48 @@ export async function registerRoutes(
     next();
   };
 
+  // Permission matrix (shared/permissions.ts) from the settings, cached until an admin changes it
+  let permissionMatrix: PermissionMatrix | null = null;
+  const getPermissionMatrix = async () => {
+    if (!permissionMatrix) {
+      permissionMatrix = parsePermissionMatrix((await storage.getSetting(PERMISSIONS_SETTING_KEY))?.value);
+    }
+    return permissionMatrix;
+  };
+
+  // Module visibility per role (shared/modules.ts), cached the same way. The
+  // legacy show_* switches apply until an admin saves a visibility.
+  let moduleVisibility: ModuleVisibility | null = null;
+  const getModuleVisibility = async () => {
+    if (!moduleVisibility) {
+      const settings = Object.fromEntries((await storage.getAllSettings()).map(s => [s.key, s.value]));
+      moduleVisibility = parseModuleVisibility(settings[MODULE_VISIBILITY_SETTING_KEY], settings);
+    }
+    return moduleVisibility;
+  };
+
+  // Like requireAuth, plus the user's role must reach the matrix entry and see
+  // the module named like the resource, and `module` if given
+  const requirePermission = (resource: PermissionResource, action: PermissionAction, module?: AppModule) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      if (!req.session.userId) {
+        return res.status(401).json({ error: "Nicht angemeldet" });
+      }
+      const user = await storage.getUser(req.session.userId);
+      if (!user || !user.isApproved) {
+        return res.status(401).json({ error: "Keine Berechtigung" });
+      }
+      if (!hasPermission(user.role, resource, action, await getPermissionMatrix())) {
+        return res.status(403).json({ error: "Keine Berechtigung" });
+      }
+      const visibility = await getModuleVisibility();
+      if ([resource, module].filter(isAppModule).some(m => !isModuleVisible(user.role, m, visibility))) {
+        return res.status(403).json({ error: "Bereich ausgeblendet" });
+      }
+      (req as any).user = user;
+      next();
+    };
+
   // === AUTH ROUTES ===
 
   // Register new user (R2-T2: rate limited)
@@ -375,10 +492,122 @@ export async function registerRoutes(
 
   app.put("/api/admin/settings/:key", requireAdmin, async (req, res) => {
     const { value } = req.body;
-    const setting = await storage.setSetting(getParam(req.params.key), value);
+    const key = getParam(req.params.key);
+    const setting = await storage.setSetting(key, value);
+    if (key === PERMISSIONS_SETTING_KEY) permissionMatrix = null;
+    if (key === MODULE_VISIBILITY_SETTING_KEY || key in LEGACY_MODULE_SWITCHES) moduleVisibility = null;
     res.json(setting);
   });
 
+  // === PERMISSIONS ===
+  // The effective matrix, so the client can hide what the user cannot do
+  app.get("/api/permissions", requireAuth, async (_req, res) => {
+    res.json(await getPermissionMatrix());
+  });
+
+  app.put("/api/admin/permissions", requireAdmin, async (req, res) => {
+    try {
+      const entries = Object.values(req.body ?? {}).flatMap(actions => Object.values(actions ?? {}));
+      if (entries.some(role => !isRole(role))) {
+        return res.status(400).json({ error: "Unbekannte Rolle" });
+      }
+      const matrix = parsePermissionMatrix(JSON.stringify(req.body));
+      await storage.setSetting(PERMISSIONS_SETTING_KEY, JSON.stringify(matrix));
+      permissionMatrix = matrix;
+      res.json(matrix);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // === MODULE VISIBILITY ===
+  app.get("/api/modules", requireAuth, async (_req, res) => {
+    res.json(await getModuleVisibility());
+  });
+
+  // Body lists the roles each module is hidden from; admins cannot be hidden from
+  app.put("/api/admin/module-visibility", requireAdmin, async (req, res) => {
+    try {
+      const entries = Object.values(req.body ?? {}).flatMap(roles => (Array.isArray(roles) ? roles : []));
+      if (entries.some(role => !isRole(role))) {
+        return res.status(400).json({ error: "Unbekannte Rolle" });
+      }
+      const visibility = parseModuleVisibility(JSON.stringify(req.body ?? {}));
+      await storage.setSetting(MODULE_VISIBILITY_SETTING_KEY, JSON.stringify(visibility));
+      moduleVisibility = visibility;
+      res.json(visibility);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Guest menu share tokens
+  app.get("/api/admin/share-tokens", requireAdmin, async (req, res) => {
+    const tokens = await storage.getMenuShareTokens();
+    res.json(tokens);
+  });
+
+  app.post("/api/admin/share-tokens", requireAdmin, async (req, res) => {
+    try {
+      const label = typeof req.body.label === 'string' ? req.body.label.trim() : '';
+      const created = await storage.createMenuShareToken({
+        token: crypto.randomBytes(24).toString('base64url'),
+        label,
+      });
+      res.status(201).json(created);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Sensor devices; the API key is only returned once, on creation
+  app.get("/api/admin/sensors", requireAdmin, async (req, res) => {
+    const devices = await storage.getSensorDevices();
+    res.json(devices.map(publicSensorDevice));
+  });
+
+  app.post("/api/admin/sensors", requireAdmin, async (req, res) => {
+    try {
+      const apiKey = generateApiKey();
+      const parsed = insertSensorDeviceSchema.parse({
+        ...req.body,
+        apiKeyHash: hashApiKey(apiKey),
+        keyPrefix: apiKey.slice(0, 10),
+      });
+      const device = await storage.createSensorDevice(parsed);
+      res.status(201).json({ ...publicSensorDevice(device), apiKey });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/admin/sensors/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const parsed = insertSensorDeviceSchema.omit({ apiKeyHash: true, keyPrefix: true }).partial().parse(req.body);
+      const device = await storage.updateSensorDevice(id, parsed);
+      if (!device) return res.status(404).json({ error: "Nicht gefunden" });
+      res.json(publicSensorDevice(device));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Stored readings keep their sensorId; only the device and its key are removed
+  app.delete("/api/admin/sensors/:id", requireAdmin, async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    await storage.deleteSensorDevice(id);
+    res.status(204).send();
+  });
+
+  // Revoking keeps the row so the list shows which links were handed out
+  app.delete("/api/admin/share-tokens/:id", requireAdmin, async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    const revoked = await storage.revokeMenuShareToken(id);
+    if (!revoked) return res.status(404).json({ error: "Nicht gefunden" });
+    res.json(revoked);
+  });
+
   // Create initial admin user if none exists
   app.post("/api/auth/setup", async (req, res) => {
     const users = await storage.getAllUsers();
@@ -410,18 +639,130 @@ export async function registerRoutes(
     });
   });
 
+  // === PUBLIC GUEST MENU (share token, no login) ===
+  const resolveShareToken = async (token: string) => {
+    const shareToken = await storage.getMenuShareTokenByToken(token);
+    return shareToken && !shareToken.revokedAt ? shareToken : undefined;
+  };
+
+  app.get("/api/public/menu/:token", async (req, res) => {
+    try {
+      if (!await resolveShareToken(getParam(req.params.token))) {
+        return res.status(404).json({ error: "Link ungültig oder widerrufen" });
+      }
+      const date = (req.query.date as string) || new Date().toISOString().split('T')[0];
+      const lang = isGuestLanguage(req.query.lang) ? req.query.lang : 'de';
+      const menu = await buildGuestMenu(date, lang);
+      res.json(menu);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Buffet signs: one A6 card per dish, four per A4 page for cutting
+  app.get("/api/public/menu/:token/signs", async (req, res) => {
+    try {
+      if (!await resolveShareToken(getParam(req.params.token))) {
+        return res.status(404).json({ error: "Link ungültig oder widerrufen" });
+      }
+      const date = (req.query.date as string) || new Date().toISOString().split('T')[0];
+      const lang = isGuestLanguage(req.query.lang) ? req.query.lang : 'de';
+      const menu = await buildGuestMenu(date, lang);
+      const texts = GUEST_MENU_TEXTS[lang];
+
+      const PDFDocument = (await import('pdfkit')).default;
+      const doc = new PDFDocument({ margin: 0, size: 'A4', autoFirstPage: false });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="Buffetschilder_${date}_${lang}.pdf"`);
+
+      doc.pipe(res);
+
+      // Helvetica has no Cyrillic or Turkish glyphs
+      const fontDir = path.resolve(process.cwd(), 'server/assets/fonts');
+      doc.registerFont('Sans', path.join(fontDir, 'LiberationSans-Regular.ttf'));
+      doc.registerFont('Sans-Bold', path.join(fontDir, 'LiberationSans-Bold.ttf'));
+
+      const orange = '#F37021';
+      const darkGray = '#333333';
+      const lightGray = '#666666';
+      const cardWidth = 297.5;
+      const cardHeight = 421;
+      const pad = 24;
+
+      const dishes = menu.meals.flatMap(meal => meal.dishes.map(dish => ({ ...dish, mealLabel: meal.label })));
+      if (dishes.length === 0) {
+        doc.addPage();
+        doc.fillColor(lightGray).font('Sans').fontSize(14).text(texts.noMenu, 40, 380, { align: 'center', width: 515 });
+      }
+
+      dishes.forEach((dish, i) => {
+        const slot = i % 4;
+        if (slot === 0) doc.addPage();
+        const x = (slot % 2) * cardWidth;
+        const y = Math.floor(slot / 2) * cardHeight;
+        const inner = cardWidth - pad * 2;
+
+        // Cut marks
+        doc.lineWidth(0.3).dash(3, { space: 3 }).rect(x, y, cardWidth, cardHeight).stroke('#CCCCCC').undash();
+
+        doc.rect(x, y, cardWidth, 8).fill(orange);
+        doc.fillColor(orange).font('Sans-Bold').fontSize(10)
+          .text(`${dish.mealLabel} · ${dish.courseLabel}`.toUpperCase(), x + pad, y + pad, { width: inner });
+        doc.fillColor(darkGray).font('Sans-Bold').fontSize(22)
+          .text(dish.name, x + pad, y + pad + 22, { width: inner });
+
+        let cursor = doc.y + 10;
+        if (dish.tags.length > 0) {
+          doc.fillColor(orange).font('Sans').fontSize(11).text(dish.tags.join(' · '), x + pad, cursor, { width: inner });
+          cursor = doc.y + 10;
+        }
+
+        // Allergen letters large, names below
+        const codes = dish.allergens.map(a => a.code).join(' ');
+        doc.fillColor(darkGray).font('Sans-Bold').fontSize(10).text(texts.allergens, x + pad, cursor, { width: inner });
+        cursor = doc.y + 4;
+        if (dish.allergens.length > 0) {
+          doc.fontSize(26).text(codes, x + pad, cursor, { width: inner });
+          doc.font('Sans').fontSize(9).fillColor(lightGray)
+            .text(dish.allergens.map(a => `${a.code} ${a.name}`).join(', '), x + pad, doc.y + 4, { width: inner });
+        } else {
+          doc.font('Sans').fontSize(11).fillColor(lightGray).text(texts.noAllergens, x + pad, cursor, { width: inner });
+        }
+
+        if (dish.mayContain.length > 0) {
+          doc.font('Sans').fontSize(9).fillColor(lightGray)
+            .text(`${texts.mayContain}: ${dish.mayContain.map(a => `${a.code} ${a.name}`).join(', ')}`, x + pad, doc.y + 8, { width: inner });
+        }
+
+        doc.font('Sans').fontSize(7).fillColor(lightGray)
+          .text('Mise - befor Serve', x + pad, y + cardHeight - pad - 8, { width: inner, align: 'right' });
+      });
+
+      doc.end();
+    } catch (error: any) {
+      console.error('Buffet sign export error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // === RECIPES ===
-  app.get("/api/recipes", requireAuth, async (req, res) => {
+  app.get("/api/recipes", requirePermission("recipes", "view"), async (req, res) => {
     const { q, category } = req.query;
     const filters = {
       q: typeof q === 'string' ? q : undefined,
       category: typeof category === 'string' ? category : undefined,
     };
     const recipes = await storage.getRecipes(filters);
-    res.json(recipes);
+    const user = (req as any).user;
+    if (!isModuleVisible(user.role, "costs", await getModuleVisibility())) {
+      return res.json(recipes);
+    }
+    const costs = await getRecipeCosts(recipes);
+    res.json(recipes.map(r => ({ ...r, cost: costs.get(r.id) })));
   });
 
-  app.get("/api/recipes/:id", requireAuth, async (req, res) => {
+  app.get("/api/recipes/:id", requirePermission("recipes", "view"), async (req, res) => {
     const id = parseInt(getParam(req.params.id), 10);
     const recipe = await storage.getRecipe(id);
     if (!recipe) {
@@ -431,31 +772,37 @@ export async function registerRoutes(
     res.json({ ...recipe, ingredientsList: ingredients });
   });
 
-  app.post("/api/recipes", requireAuth, async (req, res) => {
+  app.post("/api/recipes", requirePermission("recipes", "edit"), async (req, res) => {
     try {
       const parsed = insertRecipeSchema.parse(req.body);
       const recipe = await storage.createRecipe(parsed);
       
-      // Create ingredients if provided
+      // Create ingredients if provided, linked to the article catalog
+      let unmatched: string[] = [];
       if (req.body.ingredientsList && Array.isArray(req.body.ingredientsList)) {
-        for (const ing of req.body.ingredientsList) {
+        const linked = await linkIngredientsToArticles(req.body.ingredientsList as any[]);
+        unmatched = linked.unmatched;
+        for (const ing of linked.ingredients) {
           await storage.createIngredient({
             recipeId: recipe.id,
+            articleId: ing.articleId,
             name: ing.name,
             amount: ing.amount,
             unit: ing.unit,
-            allergens: ing.allergens || []
+            allergens: ing.allergens
           });
         }
       }
       
-      res.status(201).json(recipe);
+      // Recipe allergens follow the ingredients
+      const synced = await syncRecipeAllergens(recipe.id);
+      res.status(201).json({ ...(synced ?? recipe), unmatchedIngredients: unmatched });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.put("/api/recipes/:id", requireAuth, async (req, res) => {
+  app.put("/api/recipes/:id", requirePermission("recipes", "edit"), async (req, res) => {
     try {
       const id = parseInt(getParam(req.params.id), 10);
       const recipe = await storage.updateRecipe(id, req.body);
@@ -464,33 +811,38 @@ export async function registerRoutes(
       }
 
       // Update ingredients if provided
+      let unmatched: string[] = [];
       if (req.body.ingredientsList && Array.isArray(req.body.ingredientsList)) {
+        const linked = await linkIngredientsToArticles(req.body.ingredientsList as any[]);
+        unmatched = linked.unmatched;
         await storage.deleteIngredientsByRecipe(id);
-        for (const ing of req.body.ingredientsList) {
+        for (const ing of linked.ingredients) {
           await storage.createIngredient({
             recipeId: id,
+            articleId: ing.articleId,
             name: ing.name,
             amount: ing.amount,
             unit: ing.unit,
-            allergens: ing.allergens || []
+            allergens: ing.allergens
           });
         }
       }
 
-      res.json(recipe);
+      const synced = await syncRecipeAllergens(id);
+      res.json({ ...(synced ?? recipe), unmatchedIngredients: unmatched });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/recipes/:id", requireAuth, async (req, res) => {
+  app.delete("/api/recipes/:id", requirePermission("recipes", "delete"), async (req, res) => {
     const id = parseInt(getParam(req.params.id), 10);
     await storage.deleteRecipe(id);
     res.status(204).send();
   });
 
   // === RECIPE IMPORT FROM URL ===
-  app.post("/api/recipes/import", requireAuth, async (req, res) => {
+  app.post("/api/recipes/import", requirePermission("recipes", "edit"), async (req, res) => {
     const { url } = req.body;
     if (!url) {
       return res.status(400).json({ error: "URL ist erforderlich" });
@@ -521,19 +873,22 @@ export async function registerRoutes(
         allergens: []
       });
 
-      // Create ingredients
-      for (const ing of scraped.ingredients) {
+      // Create ingredients, linked to the article catalog
+      const linked = await linkIngredientsToArticles(scraped.ingredients);
+      for (const ing of linked.ingredients) {
         await storage.createIngredient({
           recipeId: recipe.id,
+          articleId: ing.articleId,
           name: ing.name,
           amount: ing.amount,
           unit: ing.unit,
-          allergens: []
+          allergens: ing.allergens
         });
       }
 
+      const synced = await syncRecipeAllergens(recipe.id);
       const ingredients = await storage.getIngredients(recipe.id);
-      res.status(201).json({ ...recipe, ingredientsList: ingredients });
+      res.status(201).json({ ...(synced ?? recipe), ingredientsList: ingredients, unmatchedIngredients: linked.unmatched });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -556,12 +911,39 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Maximal 100 Rezepte pro Import" });
       }
 
+      // Allergen codes must exist in the lettering of the file; files with the old
+      // consecutive letters A-N set allergenLettering "legacy" and are remapped
+      const unknownCodes: string[] = [];
+      const normalized = recipes.map((r: any, i: number) => {
+        const lettering = r?.allergenLettering ?? ALLERGEN_LETTERING;
+        if (lettering !== ALLERGEN_LETTERING && lettering !== LEGACY_ALLERGEN_LETTERING) {
+          unknownCodes.push(`Rezept ${i + 1}: allergenLettering "${lettering}"`);
+          return r;
+        }
+        const normalize = (codes: unknown) => {
+          const result = normalizeAllergenCodes(Array.isArray(codes) ? codes : [], lettering);
+          if (result.unknown.length > 0) unknownCodes.push(`Rezept ${i + 1}: ${result.unknown.join(", ")}`);
+          return result.codes;
+        };
+        return {
+          ...r,
+          allergens: normalize(r?.allergens),
+          mayContain: normalize(r?.mayContain),
+          ingredients: Array.isArray(r?.ingredients)
+            ? r.ingredients.map((ing: any) => ({ ...ing, allergens: normalize(ing?.allergens) }))
+            : r?.ingredients,
+        };
+      });
+      if (unknownCodes.length > 0) {
+        return res.status(400).json({ error: `Unbekannte Allergen-Codes (${unknownCodes.join("; ")})` });
+      }
+
       const validCategories = ["ClearSoups", "CreamSoups", "MainMeat", "MainVegan", "Sides", "ColdSauces", "HotSauces", "Salads", "HotDesserts", "ColdDesserts"];
       const created: any[] = [];
       const errors: { index: number; error: string }[] = [];
 
-      for (let i = 0; i < recipes.length; i++) {
-        const r = recipes[i];
+      for (let i = 0; i < normalized.length; i++) {
+        const r = normalized[i];
 
         // Validate required fields
         if (!r.name || typeof r.name !== "string") {
@@ -583,25 +965,38 @@ export async function registerRoutes(
             sourceUrl: r.sourceUrl || null,
             steps: Array.isArray(r.steps) ? r.steps : [],
             allergens: Array.isArray(r.allergens) ? r.allergens : [],
+            mayContain: Array.isArray(r.mayContain) ? r.mayContain : [],
             tags: Array.isArray(r.tags) ? r.tags : [],
           });
 
-          // Create ingredients if provided
+          // Create ingredients if provided, linked to the article catalog
+          let unmatched: string[] = [];
           if (Array.isArray(r.ingredients)) {
-            for (const ing of r.ingredients) {
-              if (ing.name && typeof ing.amount === "number" && ing.unit) {
-                await storage.createIngredient({
-                  recipeId: recipe.id,
-                  name: ing.name,
-                  amount: ing.amount,
-                  unit: ing.unit,
-                  allergens: Array.isArray(ing.allergens) ? ing.allergens : []
-                });
-              }
+            const valid = r.ingredients
+              .filter((ing: any) => ing.name && typeof ing.amount === "number" && ing.unit)
+              .map((ing: any) => ({
+                name: ing.name,
+                amount: ing.amount,
+                unit: canonicalUnit(ing.unit),
+                allergens: Array.isArray(ing.allergens) ? ing.allergens : []
+              }));
+            const linked = await linkIngredientsToArticles(valid);
+            unmatched = linked.unmatched;
+            for (const ing of linked.ingredients) {
+              await storage.createIngredient({ recipeId: recipe.id, ...ing });
+            }
+
+            // Declared allergens the ingredients do not explain stay declared as
+            // contained, later saves merge them back in
+            const fromIngredients = ingredientAllergens(linked.ingredients);
+            const declared = recipe.allergens.filter(code => !fromIngredients.includes(code) && !recipe.mayContain.includes(code));
+            if (declared.length > 0) {
+              await storage.updateRecipe(recipe.id, { declaredAllergens: declared });
             }
+            await syncRecipeAllergens(recipe.id);
           }
 
-          created.push({ id: recipe.id, name: recipe.name });
+          created.push({ id: recipe.id, name: recipe.name, unmatchedIngredients: unmatched });
         } catch (err: any) {
           errors.push({ index: i, error: err.message });
         }
@@ -618,16 +1013,128 @@ export async function registerRoutes(
   });
 
   // === INGREDIENTS ===
-  app.get("/api/recipes/:id/ingredients", requireAuth, async (req, res) => {
+  app.get("/api/recipes/:id/ingredients", requirePermission("recipes", "view"), async (req, res) => {
     const recipeId = parseInt(getParam(req.params.id), 10);
     const ingredients = await storage.getIngredients(recipeId);
     res.json(ingredients);
   });
 
+  app.get("/api/recipes/:id/cost", requirePermission("recipes", "view", "costs"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    const recipe = await storage.getRecipe(id);
+    if (!recipe) {
+      return res.status(404).json({ error: "Rezept nicht gefunden" });
+    }
+    const breakdown = await getRecipeCostBreakdown(recipe);
+    res.json(breakdown);
+  });
+
+  // === ARTICLE CATALOG ===
+  app.get("/api/articles", requirePermission("articles", "view"), async (req, res) => {
+    const articles = await storage.getArticles();
+    res.json(articles);
+  });
+
+  // Ingredients not linked to an article yet, with catalog suggestions for review
+  app.get("/api/articles/unmatched", requirePermission("articles", "view"), async (req, res) => {
+    const [unmatched, articles, recipes] = await Promise.all([
+      storage.getUnmatchedIngredients(),
+      storage.getArticles(),
+      storage.getRecipes(),
+    ]);
+    const recipeMap = new Map(recipes.map(r => [r.id, r.name]));
+    res.json(unmatched.map(ing => ({
+      ...ing,
+      recipeName: recipeMap.get(ing.recipeId) || null,
+      suggestions: suggestArticles(ing.name, articles).map(m => ({ id: m.article.id, name: m.article.name, score: Math.round(m.score * 100) / 100 })),
+    })));
+  });
+
+  // Match free-text names without saving (OCR preview)
+  app.post("/api/articles/match", requirePermission("articles", "view"), async (req, res) => {
+    const { names } = req.body;
+    if (!Array.isArray(names)) {
+      return res.status(400).json({ error: "names muss ein Array sein" });
+    }
+    const articles = await storage.getArticles();
+    res.json(names.map((name: string) => {
+      const match = matchArticle(String(name), articles);
+      return { name, article: match ? { id: match.article.id, name: match.article.name } : null };
+    }));
+  });
+
+  app.get("/api/articles/:id", requirePermission("articles", "view"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    const article = await storage.getArticle(id);
+    if (!article) return res.status(404).json({ error: "Artikel nicht gefunden" });
+    res.json(article);
+  });
+
+  app.post("/api/articles", requirePermission("articles", "edit"), async (req, res) => {
+    try {
+      const parsed = insertArticleSchema.parse(req.body);
+      const article = await storage.createArticle({ ...parsed, defaultUnit: canonicalUnit(parsed.defaultUnit) });
+      res.status(201).json(article);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/articles/:id", requirePermission("articles", "edit"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const parsed = insertArticleSchema.partial().parse(req.body);
+      if (parsed.defaultUnit) parsed.defaultUnit = canonicalUnit(parsed.defaultUnit);
+      const article = await storage.updateArticle(id, parsed);
+      if (!article) return res.status(404).json({ error: "Artikel nicht gefunden" });
+      res.json(article);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/articles/:id", requirePermission("articles", "delete"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    await storage.deleteArticle(id);
+    res.status(204).send();
+  });
+
+  // Link a reviewed ingredient to an article; optionally remember its spelling as synonym
+  app.put("/api/ingredients/:id/article", requirePermission("recipes", "edit"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const { articleId, addSynonym } = req.body;
+      const article = articleId ? await storage.getArticle(parseInt(articleId, 10)) : undefined;
+      if (articleId && !article) return res.status(404).json({ error: "Artikel nicht gefunden" });
+
+      const current = await storage.getIngredient(id);
+      if (!current) return res.status(404).json({ error: "Nicht gefunden" });
+
+      // Like on import, the article's allergens are taken over when the ingredient has none
+      const updated = await storage.updateIngredient(id, {
+        articleId: article?.id ?? null,
+        ...(article && current.allergens.length === 0 ? { allergens: article.allergens } : {}),
+      });
+      if (!updated) return res.status(404).json({ error: "Nicht gefunden" });
+      await syncRecipeAllergens(updated.recipeId);
+
+      if (article && addSynonym) {
+        const spelling = updated.name.trim();
+        const known = [article.name, ...article.synonyms].map(s => s.toLowerCase());
+        if (!known.includes(spelling.toLowerCase())) {
+          await storage.updateArticle(article.id, { synonyms: [...article.synonyms, spelling] });
+        }
+      }
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // === OCR PDF Extraction ===
   const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
 
-  app.post("/api/ocr/pdf", requireAuth, upload.single("file"), async (req: any, res) => {
+  app.post("/api/ocr/pdf", requirePermission("recipes", "edit"), upload.single("file"), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "Keine Datei hochgeladen" });
@@ -640,12 +1147,13 @@ export async function registerRoutes(
   });
 
   // === FRIDGES ===
-  app.get("/api/fridges", requireAuth, async (req, res) => {
+  // Deactivated control points are only listed with ?all=1
+  app.get("/api/fridges", requirePermission("haccp", "view"), async (req, res) => {
     const fridges = await storage.getFridges();
-    res.json(fridges);
+    res.json(req.query.all === '1' ? fridges : fridges.filter(f => f.active));
   });
 
-  app.post("/api/fridges", requireAuth, async (req, res) => {
+  app.post("/api/fridges", requirePermission("haccp", "edit"), async (req, res) => {
     try {
       const parsed = insertFridgeSchema.parse(req.body);
       const fridge = await storage.createFridge(parsed);
@@ -655,10 +1163,19 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/fridges/:id", requireAuth, async (req, res) => {
+  app.put("/api/fridges/:id", requirePermission("haccp", "edit"), async (req, res) => {
     try {
       const id = parseInt(getParam(req.params.id), 10);
-      const fridge = await storage.updateFridge(id, req.body);
+      const parsed = insertFridgeSchema.partial().parse(req.body);
+      // Existing readings were judged by the type's limits, so the type is fixed once there are any
+      const existing = await storage.getFridge(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Kühlschrank nicht gefunden" });
+      }
+      if (parsed.type && parsed.type !== existing.type && (await storage.getHaccpLogsByFridge(id)).length > 0) {
+        return res.status(409).json({ error: "Art des Kontrollpunkts kann nach den ersten Messungen nicht mehr geändert werden" });
+      }
+      const fridge = await storage.updateFridge(id, parsed);
       if (!fridge) {
         return res.status(404).json({ error: "Kühlschrank nicht gefunden" });
       }
@@ -668,102 +1185,281 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/fridges/:id", requireAuth, async (req, res) => {
+  // HACCP records must stay complete, so control points with readings are only deactivated
+  app.delete("/api/fridges/:id", requirePermission("haccp", "delete"), async (req, res) => {
     const id = parseInt(getParam(req.params.id), 10);
-    await storage.deleteFridge(id);
+    const logs = await storage.getHaccpLogsByFridge(id);
+    if (logs.length > 0) {
+      await storage.updateFridge(id, { active: false });
+    } else {
+      await storage.deleteFridge(id);
+    }
     res.status(204).send();
   });
 
   // === HACCP LOGS ===
-  app.get("/api/haccp-logs", requireAuth, async (req, res) => {
+  app.get("/api/haccp-logs", requirePermission("haccp", "view"), async (req, res) => {
     const logs = await storage.getHaccpLogs();
     res.json(logs);
   });
 
-  app.get("/api/fridges/:id/logs", requireAuth, async (req, res) => {
+  app.get("/api/fridges/:id/logs", requirePermission("haccp", "view"), async (req, res) => {
     const fridgeId = parseInt(getParam(req.params.id), 10);
     const logs = await storage.getHaccpLogsByFridge(fridgeId);
     res.json(logs);
   });
 
-  app.post("/api/haccp-logs", requireAuth, async (req, res) => {
+  app.post("/api/haccp-logs", requirePermission("haccp", "edit"), async (req, res) => {
     try {
-      const parsed = insertHaccpLogSchema.parse(req.body);
-      const log = await storage.createHaccpLog(parsed);
+      const parsed = haccpReadingSchema.parse(req.body);
+      const fridge = await storage.getFridge(parsed.fridgeId);
+      if (!fridge) {
+        return res.status(404).json({ error: "Kontrollpunkt nicht gefunden" });
+      }
+      // User, time and status come from the server, never from the client
+      const user = (req as any).user;
+      const timestamp = new Date();
+      if (parsed.startedAt && parsed.startedAt > timestamp) {
+        return res.status(400).json({ error: "Beginn des Abkühlens darf nicht nach der Messung liegen" });
+      }
+      const log = await storage.createHaccpLog({
+        ...parsed,
+        timestamp,
+        user: user.name,
+        userId: user.id,
+        status: evaluateReading(fridge, { ...parsed, timestamp }),
+      });
       res.status(201).json(log);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  // === SEED DATA (for initial setup) ===
-  app.post("/api/seed", requireAdmin, async (req, res) => {
+  // Corrections never change the original row; they are appended and reference it
+  app.post("/api/haccp-logs/:id/corrections", requirePermission("haccp", "edit"), async (req, res) => {
     try {
-      // Check if data already exists
-      const existingFridges = await storage.getFridges();
-      if (existingFridges.length > 0) {
-        return res.json({ message: "Data already seeded" });
+      const originalId = parseInt(getParam(req.params.id), 10);
+      const original = await storage.getHaccpLog(originalId);
+      if (!original) {
+        return res.status(404).json({ error: "Messung nicht gefunden" });
       }
-
-      // Seed fridges
-      await storage.createFridge({ name: "Kühlraum", tempMin: 0, tempMax: 4 });
-      await storage.createFridge({ name: "Tiefkühler", tempMin: -22, tempMax: -18 });
-      await storage.createFridge({ name: "Vorbereitungskühlschrank", tempMin: 0, tempMax: 5 });
-
-      // Seed shift types (Dienste)
-      const existingShiftTypes = await storage.getShiftTypes();
-      if (existingShiftTypes.length === 0) {
-        await storage.createShiftType({ name: "Frühstück", startTime: "06:00", endTime: "14:30", color: "#22c55e" });
-        await storage.createShiftType({ name: "Kochen Mittag", startTime: "07:00", endTime: "15:30", color: "#3b82f6" });
-        await storage.createShiftType({ name: "Kochen Mittag 2", startTime: "08:00", endTime: "16:30", color: "#8b5cf6" });
-        await storage.createShiftType({ name: "Abwasch", startTime: "08:00", endTime: "16:30", color: "#f59e0b" });
-        await storage.createShiftType({ name: "Kochen Abend", startTime: "13:00", endTime: "21:30", color: "#ef4444" });
+      const logs = await storage.getHaccpLogsByFridge(original.fridgeId);
+      if (logs.some(l => l.correctsLogId === originalId)) {
+        return res.status(409).json({ error: "Eintrag wurde bereits korrigiert, bitte die Korrektur korrigieren" });
       }
-
-      // Seed staff members from Dienstplan image
-      const existingStaff = await storage.getStaff();
-      if (existingStaff.length === 0) {
-        await storage.createStaff({ name: "Moscher, Gerald", role: "Koch", color: "#3b82f6" });
-        await storage.createStaff({ name: "Glanzer, Patrick", role: "Koch", color: "#22c55e" });
-        await storage.createStaff({ name: "Cayli, Bugra", role: "Koch", color: "#f59e0b" });
-        await storage.createStaff({ name: "Stindl, Michael", role: "Koch", color: "#8b5cf6" });
-        await storage.createStaff({ name: "Deyab, Mona", role: "Koch", color: "#ec4899" });
-        await storage.createStaff({ name: "Enoma, Helen", role: "Koch", color: "#06b6d4" });
-        await storage.createStaff({ name: "Kononenko, Alina", role: "Koch", color: "#84cc16" });
-        await storage.createStaff({ name: "Nsiah-Youngman, Ma", role: "Koch", color: "#ef4444" });
+      const fridge = await storage.getFridge(original.fridgeId);
+      if (!fridge) {
+        return res.status(404).json({ error: "Kontrollpunkt nicht gefunden" });
       }
 
-      res.json({ message: "Seed data created successfully" });
+      const parsed = haccpCorrectionSchema.parse(req.body);
+      const user = (req as any).user;
+      const corrected = {
+        temperature: parsed.temperature,
+        startTemperature: parsed.startTemperature !== undefined ? parsed.startTemperature : original.startTemperature,
+        startedAt: original.startedAt,
+      };
+      const log = await storage.createHaccpLog({
+        fridgeId: original.fridgeId,
+        ...corrected,
+        notes: parsed.notes !== undefined ? parsed.notes : original.notes,
+        item: parsed.item !== undefined ? parsed.item : original.item,
+        timestamp: new Date(),
+        user: user.name,
+        userId: user.id,
+        // Judged as of the original measurement time
+        status: evaluateReading(fridge, { ...corrected, timestamp: original.timestamp }),
+        correctsLogId: originalId,
+        correctionReason: parsed.reason,
+      });
+      res.status(201).json(log);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/haccp/audit", requirePermission("haccp", "view"), async (req, res) => {
+    try {
+      const logs = await storage.getHaccpLogs();
+      res.json(verifyHaccpChain(logs));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Seed Austrian/Styrian recipes
-  app.post("/api/seed-recipes", requireAdmin, async (req, res) => {
+  // === SENSOR INGESTION (API key per device, no session) ===
+  const requireSensorKey = async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization;
+    const apiKey = header?.startsWith("Bearer ") ? header.slice(7).trim() : req.get("x-api-key");
+    if (!apiKey) {
+      return res.status(401).json({ error: "API-Schlüssel fehlt" });
+    }
+    const device = await storage.getSensorDeviceByKeyHash(hashApiKey(apiKey));
+    if (!device || !device.active) {
+      return res.status(401).json({ error: "Ungültiger API-Schlüssel" });
+    }
+    (req as any).sensor = device;
+    next();
+  };
+
+  app.post("/api/sensors/readings", sensorRateLimiter, requireSensorKey, async (req, res) => {
     try {
-      const existingRecipes = await storage.getRecipes();
-      if (existingRecipes.length >= 20) {
-        return res.json({ message: "Recipes already seeded", count: existingRecipes.length });
-      }
+      const result = await ingestSensorReadings((req as any).sensor, req.body);
+      res.status(result.stored > 0 ? 201 : 200).json(result);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      const austrianRecipes = [
-        // SOUPS (20+)
-        { name: "Frittatensuppe", category: "ClearSoups", portions: 4, prepTime: 30, allergens: ["A", "C", "G"], steps: ["Palatschinken backen", "In Streifen schneiden", "Mit heißer Rindssuppe servieren"] },
-        { name: "Leberknödelsuppe", category: "ClearSoups", portions: 4, prepTime: 45, allergens: ["A", "C", "G"], steps: ["Leber faschieren", "Mit Semmelbröseln und Ei vermengen", "Knödel formen", "In Suppe kochen"] },
-        { name: "Grießnockerlsuppe", category: "ClearSoups", portions: 4, prepTime: 25, allergens: ["A", "C", "G"], steps: ["Butter schaumig rühren", "Grieß und Ei untermengen", "Nockerl formen", "In Suppe kochen"] },
+  // === HACCP CORRECTIVE ACTIONS ===
+  app.get("/api/haccp/deviations", requirePermission("haccp", "view"), async (req, res) => {
+    try {
+      const deviations = await getHaccpDeviations({ openOnly: req.query.status === 'open' });
+      res.json(deviations);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // === HACCP MEASUREMENT SCHEDULE ===
+  // Defaults to the last 7 days including today
+  app.get("/api/haccp/missed-checks", requirePermission("haccp", "view"), async (req, res) => {
+    try {
+      const end = (req.query.end as string) || localDateKey(new Date());
+      const start = (req.query.start as string) || addLocalDays(end, -6);
+      const report = await evaluateMeasurementSchedule(start, end);
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Aggregated trend per control point; `days` or an explicit start/end range
+  // A plain YYYY-MM-DD is a server-local day; end is exclusive, so an end date covers that whole day
+  app.get("/api/haccp/stats", requirePermission("haccp", "view"), async (req, res) => {
+    try {
+      const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+      const endParam = req.query.end as string | undefined;
+      const startParam = req.query.start as string | undefined;
+      const end = !endParam ? new Date() : isDay(endParam) ? new Date(`${addLocalDays(endParam, 1)}T00:00:00`) : new Date(endParam);
+      const days = Math.min(Math.max(parseInt((req.query.days as string) || '7', 10) || 7, 1), 366);
+      const start = !startParam
+        ? new Date(end.getTime() - days * 24 * 60 * 60 * 1000)
+        : isDay(startParam) ? new Date(`${startParam}T00:00:00`) : new Date(startParam);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+        return res.status(400).json({ error: "Ungültiger Zeitraum" });
+      }
+      const fridgeId = req.query.fridgeId ? parseInt(req.query.fridgeId as string, 10) : undefined;
+      const report = await getHaccpStats(start, end, fridgeId);
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/haccp-logs/:id/corrective-actions", requirePermission("haccp", "view"), async (req, res) => {
+    const logId = parseInt(getParam(req.params.id), 10);
+    const actions = await storage.getCorrectiveActionsByLog(logId);
+    res.json(actions);
+  });
+
+  // Returns the updated deviation so the client can tell whether it is resolved
+  app.post("/api/haccp-logs/:id/corrective-actions", requirePermission("haccp", "edit"), async (req, res) => {
+    try {
+      const logId = parseInt(getParam(req.params.id), 10);
+      const log = await storage.getHaccpLog(logId);
+      if (!log) {
+        return res.status(404).json({ error: "Messung nicht gefunden" });
+      }
+      if (!isDeviationStatus(log.status)) {
+        return res.status(400).json({ error: "Messwert liegt im Sollbereich, keine Korrekturmaßnahme nötig" });
+      }
+      const user = (req as any).user;
+      const parsed = correctiveActionInputSchema.parse(req.body);
+      await storage.createCorrectiveAction({ ...parsed, logId, responsibleUser: user.name, userId: user.id });
+
+      const [fridge, actions] = await Promise.all([
+        storage.getFridge(log.fridgeId),
+        storage.getCorrectiveActionsByLog(logId),
+      ]);
+      res.status(201).json(buildDeviation(log, fridge, actions));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // === SEED DATA (for initial setup) ===
+  app.post("/api/seed", requireAdmin, async (req, res) => {
+    try {
+      // Check if data already exists
+      const existingFridges = await storage.getFridges();
+      if (existingFridges.length > 0) {
+        return res.json({ message: "Data already seeded" });
+      }
+
+      // Seed fridges
+      await storage.createFridge({ name: "Kühlraum", tempMin: 0, tempMax: 4, checkTimes: ["07:00", "15:00"] });
+      await storage.createFridge({ name: "Tiefkühler", tempMin: -22, tempMax: -18, checkTimes: ["07:00", "15:00"] });
+      await storage.createFridge({ name: "Vorbereitungskühlschrank", tempMin: 0, tempMax: 5, checkTimes: ["07:00", "15:00"] });
+      await storage.createFridge({ name: "Kerntemperatur Speisen", type: "core_temp", tempMin: 72, tempMax: 100 });
+      await storage.createFridge({ name: "Abkühlen", type: "cooling", tempMin: 65, tempMax: 10, limitMinutes: 90 });
+      await storage.createFridge({ name: "Wareneingang Kühlware", type: "goods_receiving", tempMin: 0, tempMax: 7 });
+      await storage.createFridge({ name: "Fritteuse", type: "fryer_oil", tempMin: 0, tempMax: 24 });
+
+      // Seed shift types (Dienste)
+      const existingShiftTypes = await storage.getShiftTypes();
+      if (existingShiftTypes.length === 0) {
+        await storage.createShiftType({ name: "Frühstück", startTime: "06:00", endTime: "14:30", color: "#22c55e" });
+        await storage.createShiftType({ name: "Kochen Mittag", startTime: "07:00", endTime: "15:30", color: "#3b82f6" });
+        await storage.createShiftType({ name: "Kochen Mittag 2", startTime: "08:00", endTime: "16:30", color: "#8b5cf6" });
+        await storage.createShiftType({ name: "Abwasch", startTime: "08:00", endTime: "16:30", color: "#f59e0b" });
+        await storage.createShiftType({ name: "Kochen Abend", startTime: "13:00", endTime: "21:30", color: "#ef4444" });
+      }
+
+      // Seed staff members from Dienstplan image
+      const existingStaff = await storage.getStaff();
+      if (existingStaff.length === 0) {
+        await storage.createStaff({ name: "Moscher, Gerald", role: "Koch", color: "#3b82f6" });
+        await storage.createStaff({ name: "Glanzer, Patrick", role: "Koch", color: "#22c55e" });
+        await storage.createStaff({ name: "Cayli, Bugra", role: "Koch", color: "#f59e0b" });
+        await storage.createStaff({ name: "Stindl, Michael", role: "Koch", color: "#8b5cf6" });
+        await storage.createStaff({ name: "Deyab, Mona", role: "Koch", color: "#ec4899" });
+        await storage.createStaff({ name: "Enoma, Helen", role: "Koch", color: "#06b6d4" });
+        await storage.createStaff({ name: "Kononenko, Alina", role: "Koch", color: "#84cc16" });
+        await storage.createStaff({ name: "Nsiah-Youngman, Ma", role: "Koch", color: "#ef4444" });
+      }
+
+      res.json({ message: "Seed data created successfully" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Seed Austrian/Styrian recipes
+  app.post("/api/seed-recipes", requireAdmin, async (req, res) => {
+    try {
+      const existingRecipes = await storage.getRecipes();
+      if (existingRecipes.length >= 20) {
+        return res.json({ message: "Recipes already seeded", count: existingRecipes.length });
+      }
+
+      const austrianRecipes = [
+        // SOUPS (20+)
+        { name: "Frittatensuppe", category: "ClearSoups", portions: 4, prepTime: 30, allergens: ["A", "C", "G"], steps: ["Palatschinken backen", "In Streifen schneiden", "Mit heißer Rindssuppe servieren"] },
+        { name: "Leberknödelsuppe", category: "ClearSoups", portions: 4, prepTime: 45, allergens: ["A", "C", "G"], steps: ["Leber faschieren", "Mit Semmelbröseln und Ei vermengen", "Knödel formen", "In Suppe kochen"] },
+        { name: "Grießnockerlsuppe", category: "ClearSoups", portions: 4, prepTime: 25, allergens: ["A", "C", "G"], steps: ["Butter schaumig rühren", "Grieß und Ei untermengen", "Nockerl formen", "In Suppe kochen"] },
         { name: "Knoblauchcremesuppe", category: "CreamSoups", portions: 4, prepTime: 30, allergens: ["A", "G"], steps: ["Knoblauch anrösten", "Mit Suppe aufgießen", "Obers hinzufügen", "Pürieren"] },
         { name: "Kürbiscremesuppe", category: "CreamSoups", portions: 4, prepTime: 35, allergens: ["G"], steps: ["Kürbis würfeln", "Mit Zwiebeln anbraten", "Aufgießen und pürieren", "Mit Kernöl verfeinern"] },
-        { name: "Selleriecremesuppe", category: "CreamSoups", portions: 4, prepTime: 30, allergens: ["G", "I"], steps: ["Sellerie kochen", "Pürieren", "Mit Obers verfeinern"] },
+        { name: "Selleriecremesuppe", category: "CreamSoups", portions: 4, prepTime: 30, allergens: ["G", "L"], steps: ["Sellerie kochen", "Pürieren", "Mit Obers verfeinern"] },
         { name: "Schwammerlsuppe", category: "CreamSoups", portions: 4, prepTime: 35, allergens: ["G"], steps: ["Pilze putzen", "Anbraten", "Mit Suppe aufgießen", "Mit Sauerrahm verfeinern"] },
-        { name: "Erdäpfelsuppe", category: "CreamSoups", portions: 4, prepTime: 40, allergens: ["G", "I"], steps: ["Kartoffeln würfeln", "Mit Lauch anbraten", "Kochen und pürieren"] },
-        { name: "Klare Rindsuppe", category: "ClearSoups", portions: 6, prepTime: 180, allergens: ["I"], steps: ["Rindfleisch und Knochen kochen", "Wurzelgemüse hinzufügen", "Abseihen", "Würzen"] },
+        { name: "Erdäpfelsuppe", category: "CreamSoups", portions: 4, prepTime: 40, allergens: ["G", "L"], steps: ["Kartoffeln würfeln", "Mit Lauch anbraten", "Kochen und pürieren"] },
+        { name: "Klare Rindsuppe", category: "ClearSoups", portions: 6, prepTime: 180, allergens: ["L"], steps: ["Rindfleisch und Knochen kochen", "Wurzelgemüse hinzufügen", "Abseihen", "Würzen"] },
         { name: "Karfiolcremesuppe", category: "CreamSoups", portions: 4, prepTime: 30, allergens: ["G"], steps: ["Karfiol kochen", "Pürieren", "Mit Obers verfeinern", "Mit Muskat würzen"] },
         { name: "Spargelcremesuppe", category: "CreamSoups", portions: 4, prepTime: 35, allergens: ["G"], steps: ["Spargel kochen", "Schalen für Fond", "Pürieren", "Mit Obers vollenden"] },
         { name: "Bärlauchcremesuppe", category: "CreamSoups", portions: 4, prepTime: 25, allergens: ["G"], steps: ["Zwiebeln anbraten", "Bärlauch hinzufügen", "Pürieren", "Mit Sauerrahm servieren"] },
         { name: "Tomatencremesuppe", category: "CreamSoups", portions: 4, prepTime: 30, allergens: ["G"], steps: ["Tomaten rösten", "Mit Basilikum pürieren", "Obers einrühren"] },
         { name: "Linsensuppe", category: "ClearSoups", portions: 4, prepTime: 45, allergens: [], steps: ["Linsen mit Gemüse kochen", "Mit Essig abschmecken"] },
-        { name: "Erbsensuppe", category: "ClearSoups", portions: 4, prepTime: 60, allergens: ["I"], steps: ["Erbsen einweichen", "Mit Suppengrün kochen", "Pürieren"] },
+        { name: "Erbsensuppe", category: "ClearSoups", portions: 4, prepTime: 60, allergens: ["L"], steps: ["Erbsen einweichen", "Mit Suppengrün kochen", "Pürieren"] },
         { name: "Bohnensuppe", category: "ClearSoups", portions: 4, prepTime: 50, allergens: [], steps: ["Weiße Bohnen kochen", "Mit Speck verfeinern"] },
         { name: "Zwiebelsuppe", category: "ClearSoups", portions: 4, prepTime: 40, allergens: ["A", "G"], steps: ["Zwiebeln karamellisieren", "Mit Suppe aufgießen", "Mit Käsetoast servieren"] },
         { name: "Nudelsuppe", category: "ClearSoups", portions: 4, prepTime: 20, allergens: ["A", "C"], steps: ["Rindssuppe aufkochen", "Nudeln einlegen", "Schnittlauch darüber"] },
@@ -783,7 +1479,7 @@ export async function registerRoutes(
         { name: "Beuschel", category: "MainMeat", portions: 4, prepTime: 90, allergens: ["A"], steps: ["Innereien kochen", "Sauce zubereiten", "Mit Semmelknödel servieren"] },
         { name: "Blunzengröstl", category: "MainMeat", portions: 4, prepTime: 30, allergens: ["C"], steps: ["Blutwurst würfeln", "Mit Erdäpfeln braten", "Mit Spiegelei servieren"] },
         { name: "Kalbsrahmgeschnetzeltes", category: "MainMeat", portions: 4, prepTime: 35, allergens: ["G"], steps: ["Kalbfleisch schnetzeln", "Anbraten", "Mit Rahmsauce servieren"] },
-        { name: "Altwiener Suppentopf", category: "MainMeat", portions: 6, prepTime: 120, allergens: ["I"], steps: ["Rindfleisch mit Gemüse kochen", "Als Eintopf servieren"] },
+        { name: "Altwiener Suppentopf", category: "MainMeat", portions: 6, prepTime: 120, allergens: ["L"], steps: ["Rindfleisch mit Gemüse kochen", "Als Eintopf servieren"] },
         { name: "Faschierter Braten", category: "MainMeat", portions: 6, prepTime: 70, allergens: ["A", "C"], steps: ["Faschiertes würzen", "Formen", "Im Rohr braten"] },
         { name: "Krautfleckerl mit Speck", category: "MainMeat", portions: 4, prepTime: 40, allergens: ["A", "C"], steps: ["Kraut dünsten", "Fleckerl kochen", "Mit Speck mischen"] },
         { name: "Gebackene Leber", category: "MainMeat", portions: 4, prepTime: 25, allergens: ["A", "C"], steps: ["Leber schneiden", "Panieren", "Ausbacken", "Mit Erdäpfelpüree servieren"] },
@@ -957,7 +1653,7 @@ export async function registerRoutes(
   });
 
   // === RECIPE EXPORT ===
-  app.get("/api/recipes/:id/export/:format", requireAuth, async (req, res) => {
+  app.get("/api/recipes/:id/export/:format", requirePermission("recipes", "view"), async (req, res) => {
     try {
       const id = parseInt(getParam(req.params.id), 10);
       const format = getParam(req.params.format);
@@ -1070,7 +1766,7 @@ export async function registerRoutes(
   });
 
   // === GUEST COUNTS ===
-  app.get("/api/guests", requireAuth, async (req, res) => {
+  app.get("/api/guests", requirePermission("guests", "view"), async (req, res) => {
     const { start, end } = req.query;
     const startDate = (start as string) || new Date().toISOString().split('T')[0];
     const endDate = (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
@@ -1078,7 +1774,7 @@ export async function registerRoutes(
     res.json(counts);
   });
 
-  app.post("/api/guests", requireAuth, async (req, res) => {
+  app.post("/api/guests", requirePermission("guests", "edit"), async (req, res) => {
     try {
       const parsed = insertGuestCountSchema.parse(req.body);
       const existing = await storage.getGuestCountByDateMeal(parsed.date, parsed.meal);
@@ -1093,50 +1789,41 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/guests/:id", requireAuth, async (req, res) => {
+  // Forecast per day and meal next to the entered counts; defaults to the next 14 days
+  const forecastRange = (req: Request) => {
+    const startDate = (req.query.start as string) || (req.body?.start as string) || new Date().toISOString().split('T')[0];
+    const endDate = (req.query.end as string) || (req.body?.end as string) || new Date(Date.now() + 13 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    const days = (new Date(endDate).getTime() - new Date(startDate).getTime()) / (24 * 60 * 60 * 1000);
+    if (!datePattern.test(startDate) || !datePattern.test(endDate) || days < 0 || days > 92) return null;
+    return { startDate, endDate };
+  };
+
+  app.get("/api/guests/forecast", requirePermission("guests", "view"), async (req, res) => {
     try {
-      const id = parseInt(getParam(req.params.id), 10);
-      const updated = await storage.updateGuestCount(id, req.body);
-      if (!updated) return res.status(404).json({ error: "Nicht gefunden" });
-      res.json(updated);
+      const range = forecastRange(req);
+      if (!range) return res.status(400).json({ error: "Ungültiger Zeitraum" });
+      res.json(await buildGuestForecast(range.startDate, range.endDate));
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/guests/:id", requireAuth, async (req, res) => {
-    const id = parseInt(getParam(req.params.id), 10);
-    await storage.deleteGuestCount(id);
-    res.status(204).send();
-  });
-
-  // === CATERING EVENTS ===
-  app.get("/api/catering", requireAuth, async (req, res) => {
-    const events = await storage.getCateringEvents();
-    res.json(events);
-  });
-
-  app.get("/api/catering/:id", requireAuth, async (req, res) => {
-    const id = parseInt(getParam(req.params.id), 10);
-    const event = await storage.getCateringEvent(id);
-    if (!event) return res.status(404).json({ error: "Nicht gefunden" });
-    res.json(event);
-  });
-
-  app.post("/api/catering", requireAuth, async (req, res) => {
+  // Pre-fills days from today on without a count, so production has numbers early
+  app.post("/api/guests/forecast/prefill", requirePermission("guests", "edit"), async (req, res) => {
     try {
-      const parsed = insertCateringEventSchema.parse(req.body);
-      const created = await storage.createCateringEvent(parsed);
-      res.status(201).json(created);
+      const range = forecastRange(req);
+      if (!range) return res.status(400).json({ error: "Ungültiger Zeitraum" });
+      res.json(await prefillGuestCounts(range.startDate, range.endDate));
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.put("/api/catering/:id", requireAuth, async (req, res) => {
+  app.put("/api/guests/:id", requirePermission("guests", "edit"), async (req, res) => {
     try {
       const id = parseInt(getParam(req.params.id), 10);
-      const updated = await storage.updateCateringEvent(id, req.body);
+      const updated = await storage.updateGuestCount(id, req.body);
       if (!updated) return res.status(404).json({ error: "Nicht gefunden" });
       res.json(updated);
     } catch (error: any) {
@@ -1144,262 +1831,1355 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/catering/:id", requireAuth, async (req, res) => {
+  app.delete("/api/guests/:id", requirePermission("guests", "delete"), async (req, res) => {
     const id = parseInt(getParam(req.params.id), 10);
-    await storage.deleteCateringEvent(id);
+    await storage.deleteGuestCount(id);
     res.status(204).send();
   });
 
-  // === STAFF ===
-  app.get("/api/staff", requireAuth, async (req, res) => {
-    const members = await storage.getStaff();
-    res.json(members);
-  });
-
-  app.get("/api/staff/:id", requireAuth, async (req, res) => {
-    const id = parseInt(getParam(req.params.id), 10);
-    const member = await storage.getStaffMember(id);
-    if (!member) return res.status(404).json({ error: "Mitarbeiter nicht gefunden" });
-    res.json(member);
+  // === GUEST IMPORT (PMS exports) ===
+  app.get("/api/guests/import-sources", requirePermission("guests", "view"), async (_req, res) => {
+    res.json(await storage.getGuestImportSources());
   });
 
-  app.post("/api/staff", requireAuth, async (req, res) => {
+  app.post("/api/guests/import-sources", requirePermission("guests", "edit"), async (req, res) => {
     try {
-      const parsed = insertStaffSchema.parse(req.body);
-      const created = await storage.createStaff(parsed);
-      res.status(201).json(created);
+      const parsed = insertGuestImportSourceSchema.parse(req.body);
+      res.status(201).json(await storage.createGuestImportSource(parsed));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.put("/api/staff/:id", requireAuth, async (req, res) => {
+  app.put("/api/guests/import-sources/:id", requirePermission("guests", "edit"), async (req, res) => {
     try {
       const id = parseInt(getParam(req.params.id), 10);
-      const updated = await storage.updateStaff(id, req.body);
-      if (!updated) return res.status(404).json({ error: "Mitarbeiter nicht gefunden" });
+      const parsed = insertGuestImportSourceSchema.parse(req.body);
+      const updated = await storage.updateGuestImportSource(id, parsed);
+      if (!updated) return res.status(404).json({ error: "Quelle nicht gefunden" });
       res.json(updated);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/staff/:id", requireAuth, async (req, res) => {
-    const id = parseInt(getParam(req.params.id), 10);
-    await storage.deleteStaff(id);
+  app.delete("/api/guests/import-sources/:id", requirePermission("guests", "delete"), async (req, res) => {
+    await storage.deleteGuestImportSource(parseInt(getParam(req.params.id), 10));
     res.status(204).send();
   });
 
-  // === SHIFT TYPES (Dienste) ===
-  app.get("/api/shift-types", requireAuth, async (req, res) => {
-    const shiftTypes = await storage.getShiftTypes();
-    res.json(shiftTypes);
-  });
-
-  app.post("/api/shift-types", requireAuth, async (req, res) => {
+  // Multipart upload: `file` (CSV/XLSX), `sourceId` or an inline `mapping` (JSON),
+  // `dryRun=true` for the preview
+  app.post("/api/guests/import", requirePermission("guests", "edit"), upload.single("file"), async (req: any, res) => {
     try {
-      const parsed = insertShiftTypeSchema.parse(req.body);
-      const created = await storage.createShiftType(parsed);
-      res.status(201).json(created);
+      if (!req.file) {
+        return res.status(400).json({ error: "Keine Datei hochgeladen" });
+      }
+      let mapping;
+      if (req.body.sourceId) {
+        mapping = await storage.getGuestImportSource(parseInt(req.body.sourceId, 10));
+        if (!mapping) return res.status(404).json({ error: "Quelle nicht gefunden" });
+      } else if (req.body.mapping) {
+        mapping = guestImportMappingSchema.parse(JSON.parse(req.body.mapping));
+      } else {
+        return res.status(400).json({ error: "Bitte Quelle wählen" });
+      }
+      const dryRun = req.body.dryRun === "true" || req.body.dryRun === "1";
+      res.json(await importGuestCounts(req.file, mapping, dryRun));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.put("/api/shift-types/:id", requireAuth, async (req, res) => {
-    try {
-      const id = parseInt(getParam(req.params.id), 10);
-      const updated = await storage.updateShiftType(id, req.body);
-      if (!updated) return res.status(404).json({ error: "Diensttyp nicht gefunden" });
-      res.json(updated);
-    } catch (error: any) {
-      res.status(400).json({ error: error.message });
-    }
-  });
+  // === CATERING EVENTS ===
+  // Events are returned with their dishes (`dishList`), extras, material cost and price;
+  // the material cost only to roles that see the costs module
+  const cateringWithCosts = async (events: CateringEvent[], role: string) => {
+    const priced = await withCateringCosts(events);
+    if (isModuleVisible(role, "costs", await getModuleVisibility())) return priced;
+    return priced.map(({ cost, ...event }) => event);
+  };
 
-  app.delete("/api/shift-types/:id", requireAuth, async (req, res) => {
-    const id = parseInt(getParam(req.params.id), 10);
-    await storage.deleteShiftType(id);
-    res.status(204).send();
+  app.get("/api/catering", requirePermission("catering", "view"), async (req, res) => {
+    const { start, end } = req.query;
+    const events = start && end
+      ? await storage.getCateringEventsInRange(start as string, end as string)
+      : await storage.getCateringEvents();
+    res.json(await cateringWithCosts(events, (req as any).user.role));
   });
 
-  // === SCHEDULE ===
-  // R2-T9: Added mine=1 filter for "Meine Schichten"
-  app.get("/api/schedule", requireAuth, async (req, res) => {
-    const { start, end, mine } = req.query;
-    const startDate = (start as string) || new Date().toISOString().split('T')[0];
-    const endDate = (end as string) || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    let entries = await storage.getScheduleEntries(startDate, endDate);
-
-    // Filter to only show user's own shifts
-    if (mine === "1") {
-      const user = (req as any).user;
-      if (user) {
-        // Find staff member linked to this user
-        const allStaff = await storage.getStaff();
-        const myStaff = allStaff.find((s: any) => s.userId === user.id);
-        if (myStaff) {
-          entries = entries.filter(e => e.staffId === myStaff.id);
-        } else {
-          // No staff linked to user, return empty
-          entries = [];
-        }
+  app.get("/api/catering/revenue", requirePermission("catering", "view"), async (req, res) => {
+    try {
+      const year = req.query.year ? parseInt(req.query.year as string, 10) : new Date().getFullYear();
+      if (isNaN(year) || year < 2000 || year > 2100) {
+        return res.status(400).json({ error: "Ungültiges Jahr" });
       }
+      res.json(await buildCateringRevenue(year));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
+  });
 
-    res.json(entries);
+  app.get("/api/catering/:id", requirePermission("catering", "view"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    const event = await storage.getCateringEvent(id);
+    if (!event) return res.status(404).json({ error: "Nicht gefunden" });
+    const [withCost] = await cateringWithCosts([event], (req as any).user.role);
+    res.json(withCost);
   });
 
-  app.post("/api/schedule", requireAuth, async (req, res) => {
+  app.post("/api/catering", requirePermission("catering", "edit"), async (req, res) => {
     try {
-      const parsed = insertScheduleEntrySchema.parse(req.body);
-      const created = await storage.createScheduleEntry(parsed);
-      res.status(201).json(created);
+      const { dishList, extras: extraList, ...body } = req.body;
+      const parsed = insertCateringEventSchema.omit({ dishes: true }).parse(body);
+      const dishes = await resolveCateringDishes(dishList ?? []);
+      const extras = resolveCateringExtras(extraList ?? []);
+      const created = await storage.createCateringEvent(parsed);
+      await storage.replaceCateringDishes(created.id, dishes);
+      await storage.replaceCateringExtras(created.id, extras);
+      const [withCost] = await cateringWithCosts([created], (req as any).user.role);
+      res.status(201).json(withCost);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.put("/api/schedule/:id", requireAuth, async (req, res) => {
+  // `dishList` and `extras` replace all dishes / extras of the event when present.
+  // Invoiced events are final.
+  app.put("/api/catering/:id", requirePermission("catering", "edit"), async (req, res) => {
     try {
       const id = parseInt(getParam(req.params.id), 10);
-      const updated = await storage.updateScheduleEntry(id, req.body);
-      if (!updated) return res.status(404).json({ error: "Schichteintrag nicht gefunden" });
-      res.json(updated);
+      const { dishList, extras: extraList, ...body } = req.body;
+      const parsed = insertCateringEventSchema.omit({ dishes: true }).partial().parse(body);
+      const dishes = dishList !== undefined ? await resolveCateringDishes(dishList) : null;
+      const extras = extraList !== undefined ? resolveCateringExtras(extraList) : null;
+      const existing = await storage.getCateringEvent(id);
+      if (!existing) return res.status(404).json({ error: "Nicht gefunden" });
+      if (existing.status === "invoiced") {
+        return res.status(400).json({ error: "Abgerechnete Events können nicht mehr geändert werden" });
+      }
+      const updated = await storage.updateCateringEvent(id, parsed);
+      if (!updated) return res.status(404).json({ error: "Nicht gefunden" });
+      if (dishes) await storage.replaceCateringDishes(id, dishes);
+      if (extras) await storage.replaceCateringExtras(id, extras);
+      const [withCost] = await cateringWithCosts([updated], (req as any).user.role);
+      res.json(withCost);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/schedule/:id", requireAuth, async (req, res) => {
+  app.delete("/api/catering/:id", requirePermission("catering", "delete"), async (req, res) => {
     const id = parseInt(getParam(req.params.id), 10);
-    await storage.deleteScheduleEntry(id);
-    res.status(204).send();
-  });
-
-  // === MENU PLANS ===
-  app.get("/api/menu-plans", requireAuth, async (req, res) => {
-    const { start, end, date, withRecipes } = req.query;
-    // Support single date or date range
-    const startDate = (date as string) || (start as string) || new Date().toISOString().split('T')[0];
-    const endDate = (date as string) || (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    const plans = await storage.getMenuPlans(startDate, endDate);
-
-    // Optionally include recipe data
-    if (withRecipes === '1' || withRecipes === 'true') {
-      const recipes = await storage.getRecipes();
-      const recipeMap = new Map(recipes.map(r => [r.id, r]));
-      const plansWithRecipes = plans.map(plan => ({
-        ...plan,
-        recipe: plan.recipeId ? recipeMap.get(plan.recipeId) : null,
-      }));
-      return res.json(plansWithRecipes);
+    const event = await storage.getCateringEvent(id);
+    if (event?.status === "invoiced") {
+      return res.status(400).json({ error: "Abgerechnete Events können nicht gelöscht werden" });
     }
-
-    res.json(plans);
+    await storage.deleteCateringEvent(id);
+    res.status(204).send();
   });
 
-  app.post("/api/menu-plans", requireAuth, async (req, res) => {
+  // Status pipeline: inquiry → quoted → confirmed → done → invoiced, or cancelled
+  app.post("/api/catering/:id/status", requirePermission("catering", "edit"), async (req, res) => {
     try {
-      const parsed = insertMenuPlanSchema.parse(req.body);
-      const created = await storage.createMenuPlan(parsed);
-      res.status(201).json(created);
+      const id = parseInt(getParam(req.params.id), 10);
+      const { status } = cateringStatusSchema.parse(req.body);
+      const event = await storage.getCateringEvent(id);
+      if (!event) return res.status(404).json({ error: "Nicht gefunden" });
+      const updated = await changeCateringStatus(event, status);
+      const [withCost] = await cateringWithCosts([updated], (req as any).user.role);
+      res.json(withCost);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.put("/api/menu-plans/:id", requireAuth, async (req, res) => {
+  app.get("/api/catering/:id/production", requirePermission("catering", "view"), async (req, res) => {
     try {
       const id = parseInt(getParam(req.params.id), 10);
-      const updated = await storage.updateMenuPlan(id, req.body);
-      if (!updated) return res.status(404).json({ error: "Nicht gefunden" });
-      res.json(updated);
+      const event = await storage.getCateringEvent(id);
+      if (!event) return res.status(404).json({ error: "Nicht gefunden" });
+      const production = await buildCateringProduction(event, await storage.getCateringDishes(id));
+      res.json(production);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/menu-plans/:id", requireAuth, async (req, res) => {
-    const id = parseInt(getParam(req.params.id), 10);
-    await storage.deleteMenuPlan(id);
-    res.status(204).send();
-  });
-
-  // === HACCP REPORT PDF EXPORT ===
-  app.get("/api/haccp-logs/export", requireAuth, async (req, res) => {
+  // Banquet event order. `version=kitchen` (default) adds the ingredient demand,
+  // `version=client` is the customer copy with a confirmation signature instead.
+  app.get("/api/catering/:id/beo/:format", requirePermission("catering", "view"), async (req, res) => {
     try {
-      const { start, end } = req.query;
-      const logs = await storage.getHaccpLogs();
-      const fridges = await storage.getFridges();
-      
-      // Filter by date range if provided
-      let filteredLogs = logs;
-      if (start && end) {
-        const startDate = new Date(start as string);
-        const endDate = new Date(end as string);
-        endDate.setHours(23, 59, 59);
-        filteredLogs = logs.filter(log => {
-          const logDate = new Date(log.timestamp);
-          return logDate >= startDate && logDate <= endDate;
-        });
-      }
-      
-      const PDFDocument = (await import('pdfkit')).default;
-      const doc = new PDFDocument({ margin: 50, size: 'A4' });
-      
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="HACCP_Bericht_${new Date().toISOString().split('T')[0]}.pdf"`);
-      
-      doc.pipe(res);
-      
-      doc.fontSize(20).font('Helvetica-Bold').text('HACCP Temperaturbericht', { align: 'center' });
-      doc.fontSize(10).font('Helvetica').text(`Erstellt am: ${new Date().toLocaleDateString('de-DE')}`, { align: 'center' });
-      doc.moveDown(2);
-      
-      // Group by fridge
-      const fridgeMap = new Map<number, typeof filteredLogs>();
-      for (const log of filteredLogs) {
-        if (!fridgeMap.has(log.fridgeId)) fridgeMap.set(log.fridgeId, []);
-        fridgeMap.get(log.fridgeId)!.push(log);
-      }
-      
-      for (const [fridgeId, fridgeLogs] of Array.from(fridgeMap.entries())) {
-        const fridge = fridges.find(f => f.id === fridgeId);
-        if (!fridge) continue;
-        
-        doc.fontSize(14).font('Helvetica-Bold').text(fridge.name);
-        doc.fontSize(10).font('Helvetica').text(`Sollbereich: ${fridge.tempMin}°C bis ${fridge.tempMax}°C`);
-        doc.moveDown(0.5);
-        
-        // Table header
-        doc.fontSize(9).font('Helvetica-Bold');
-        doc.text('Datum/Zeit', 50, doc.y, { width: 120, continued: true });
-        doc.text('Temp.', 170, doc.y, { width: 50, continued: true });
-        doc.text('Status', 220, doc.y, { width: 60, continued: true });
-        doc.text('Benutzer', 280, doc.y);
-        doc.moveDown(0.3);
-        
-        doc.font('Helvetica').fontSize(9);
-        for (const log of fridgeLogs.slice(0, 20)) {
-          const date = new Date(log.timestamp).toLocaleString('de-DE');
-          doc.text(date, 50, doc.y, { width: 120, continued: true });
-          doc.text(`${log.temperature}°C`, 170, doc.y, { width: 50, continued: true });
-          doc.text(log.status, 220, doc.y, { width: 60, continued: true });
-          doc.text(log.user, 280, doc.y);
-        }
-        
-        if (fridgeLogs.length > 20) {
-          doc.text(`... und ${fridgeLogs.length - 20} weitere Einträge`);
-        }
-        
-        doc.moveDown(1.5);
+      const id = parseInt(getParam(req.params.id), 10);
+      const format = getParam(req.params.format);
+      const forClient = req.query.version === 'client';
+      const event = await storage.getCateringEvent(id);
+      if (!event) return res.status(404).json({ error: "Nicht gefunden" });
+      if (format !== 'pdf' && format !== 'docx') {
+        return res.status(400).json({ error: "Nicht unterstütztes Format. Verwenden Sie 'pdf' oder 'docx'" });
       }
-      
-      if (filteredLogs.length === 0) {
-        doc.fontSize(12).font('Helvetica').text('Keine HACCP-Einträge im ausgewählten Zeitraum.', { align: 'center' });
+
+      const [production, recipes] = await Promise.all([
+        storage.getCateringDishes(id).then(dishes => buildCateringProduction(event, dishes)),
+        storage.getRecipes(),
+      ]);
+      const recipeMap = new Map(recipes.map(r => [r.id, r]));
+      const allergensOf = (recipeId: number | null) => (recipeId ? recipeMap.get(recipeId)?.allergens ?? [] : []).join(', ');
+      const eventDate = new Date(`${event.date}T00:00:00`).toLocaleDateString('de-DE', { weekday: 'long', day: '2-digit', month: 'long', year: 'numeric' });
+      const title = forClient ? 'Auftragsbestätigung' : 'Bankett-Auftrag (BEO)';
+      const details: [string, string][] = [
+        ['Auftrag', `#${event.id}`],
+        ['Kunde', event.clientName],
+        ['Veranstaltung', event.eventName],
+        ['Datum', eventDate],
+        ['Uhrzeit', `${event.time} Uhr`],
+        ['Personen', String(event.personCount)],
+      ];
+      const groups = Array.from(new Set(production.ingredients.map(i => i.group)));
+      const fileName = `BEO_${event.date}_${event.eventName.replace(/[^a-zA-Z0-9äöüÄÖÜß]/g, '_')}${forClient ? '_Kunde' : ''}`;
+
+      if (format === 'docx') {
+        const { Document, Packer, Paragraph, TextRun, HeadingLevel } = await import('docx');
+        const children: any[] = [
+          new Paragraph({ text: `${title}: ${event.eventName}`, heading: HeadingLevel.HEADING_1 }),
+          ...details.map(([label, value]) => new Paragraph({ children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun({ text: value })] })),
+          new Paragraph({ text: '' }),
+          new Paragraph({ text: 'Menü', heading: HeadingLevel.HEADING_2 }),
+        ];
+        for (const dish of production.dishes) {
+          const allergens = allergensOf(dish.recipeId);
+          children.push(new Paragraph({
+            children: [
+              new TextRun({ text: dish.name, bold: true }),
+              new TextRun({ text: ` – ${dish.portions} Portionen${allergens ? ` (Allergene: ${allergens})` : ''}` }),
+            ],
+          }));
+          if (dish.notes) children.push(new Paragraph({ children: [new TextRun({ text: dish.notes, italics: true })] }));
+        }
+        if (event.notes) {
+          children.push(new Paragraph({ text: '' }), new Paragraph({ text: 'Hinweise', heading: HeadingLevel.HEADING_2 }), new Paragraph({ text: event.notes }));
+        }
+        if (!forClient) {
+          children.push(new Paragraph({ text: '' }), new Paragraph({ text: `Warenbedarf (${production.totalPortions} Portionen)`, heading: HeadingLevel.HEADING_2 }));
+          for (const group of groups) {
+            children.push(new Paragraph({ children: [new TextRun({ text: group, bold: true })] }));
+            for (const ing of production.ingredients.filter(i => i.group === group)) {
+              children.push(new Paragraph({ text: `• ${ing.amount} ${ing.unit} ${ing.name}` }));
+            }
+          }
+        } else {
+          children.push(
+            new Paragraph({ text: '' }),
+            new Paragraph({ text: 'Auftrag bestätigt:' }),
+            new Paragraph({ text: '' }),
+            new Paragraph({ text: '______________________________        ______________________________' }),
+            new Paragraph({ text: 'Ort, Datum                                              Unterschrift Kunde' }),
+          );
+        }
+
+        const doc = new Document({ sections: [{ children }] });
+        const buffer = await Packer.toBuffer(doc);
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.docx"`);
+        res.send(buffer);
+        return;
+      }
+
+      const PDFDocument = (await import('pdfkit')).default;
+      const doc = new PDFDocument({ margin: 40, size: 'A4' });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+
+      doc.pipe(res);
+
+      const orange = '#F37021';
+      const darkGray = '#333333';
+      const lightGray = '#666666';
+      const pageWidth = 515;
+      const startX = 40;
+
+      doc.rect(0, 0, 595, 80).fill(orange);
+      doc.fillColor('white').fontSize(24).font('Helvetica-Bold').text(title.toUpperCase(), startX, 22, { align: 'center' });
+      doc.fontSize(12).font('Helvetica').text(event.eventName, startX, 54, { align: 'center' });
+
+      let yPos = 100;
+      for (const [label, value] of details) {
+        doc.fillColor(lightGray).fontSize(10).font('Helvetica').text(label, startX, yPos, { width: 100 });
+        doc.fillColor(darkGray).font('Helvetica-Bold').text(value, startX + 100, yPos, { width: pageWidth - 100 });
+        yPos += 16;
+      }
+      yPos += 10;
+
+      const sectionHeader = (text: string) => {
+        if (yPos > 720) {
+          doc.addPage();
+          yPos = 50;
+        }
+        doc.rect(startX, yPos, pageWidth, 22).fill(orange);
+        doc.fillColor('white').fontSize(12).font('Helvetica-Bold').text(text, startX + 10, yPos + 5);
+        yPos += 30;
+      };
+
+      sectionHeader('Menü');
+      if (production.dishes.length === 0) {
+        doc.fillColor(lightGray).fontSize(10).font('Helvetica').text('Noch keine Speisen festgelegt.', startX, yPos);
+        yPos += 18;
+      }
+      for (const dish of production.dishes) {
+        const allergens = allergensOf(dish.recipeId);
+        const noteHeight = dish.notes ? doc.fontSize(9).heightOfString(dish.notes, { width: pageWidth - 20 }) : 0;
+        if (yPos + 20 + noteHeight > 770) {
+          doc.addPage();
+          yPos = 50;
+        }
+        doc.fillColor(darkGray).fontSize(11).font('Helvetica-Bold').text(dish.name, startX + 10, yPos, { width: 330 });
+        doc.font('Helvetica').text(`${dish.portions} Port.`, startX + 345, yPos, { width: 70, align: 'right' });
+        if (allergens) doc.fillColor(orange).fontSize(9).font('Helvetica-Bold').text(allergens, startX + 425, yPos + 1, { width: 90, align: 'right' });
+        yPos += 16;
+        if (dish.notes) {
+          doc.fillColor(lightGray).fontSize(9).font('Helvetica-Oblique').text(dish.notes, startX + 10, yPos, { width: pageWidth - 20 });
+          yPos += noteHeight + 4;
+        }
+        yPos += 4;
+      }
+
+      if (event.notes) {
+        yPos += 6;
+        sectionHeader('Hinweise');
+        doc.fillColor(darkGray).fontSize(10).font('Helvetica').text(event.notes, startX + 10, yPos, { width: pageWidth - 20 });
+        yPos = doc.y + 10;
+      }
+
+      if (!forClient) {
+        yPos += 6;
+        sectionHeader(`Warenbedarf (${production.totalPortions} Portionen)`);
+        if (production.ingredients.length === 0) {
+          doc.fillColor(lightGray).fontSize(10).font('Helvetica').text('Keine Rezepte mit Zutaten verknüpft.', startX, yPos);
+          yPos += 18;
+        }
+        for (const group of groups) {
+          if (yPos > 740) {
+            doc.addPage();
+            yPos = 50;
+          }
+          doc.fillColor(orange).fontSize(10).font('Helvetica-Bold').text(group, startX + 10, yPos);
+          yPos += 15;
+          for (const ing of production.ingredients.filter(i => i.group === group)) {
+            if (yPos > 770) {
+              doc.addPage();
+              yPos = 50;
+            }
+            doc.lineWidth(0.5).rect(startX + 14, yPos + 1, 8, 8).stroke(lightGray);
+            doc.fillColor(darkGray).fontSize(10).font('Helvetica').text(ing.name, startX + 30, yPos, { width: 280 });
+            doc.font('Helvetica-Bold').text(`${ing.amount} ${ing.unit}`, startX + 320, yPos, { width: 100, align: 'right' });
+            yPos += 15;
+          }
+          yPos += 6;
+        }
+      } else {
+        if (yPos > 680) {
+          doc.addPage();
+          yPos = 50;
+        }
+        yPos += 30;
+        doc.fillColor(darkGray).fontSize(10).font('Helvetica-Bold').text('Auftrag bestätigt:', startX, yPos);
+        yPos += 45;
+        doc.lineWidth(0.5).moveTo(startX, yPos).lineTo(startX + 220, yPos).stroke(darkGray);
+        doc.moveTo(startX + 295, yPos).lineTo(startX + pageWidth, yPos).stroke(darkGray);
+        doc.fillColor(lightGray).fontSize(8).font('Helvetica').text('Ort, Datum', startX, yPos + 4);
+        doc.text('Unterschrift Kunde', startX + 295, yPos + 4);
+      }
+
+      doc.fontSize(8).fillColor(lightGray).text(`Mise - befor Serve | ${title} #${event.id} | Erstellt am ${new Date().toLocaleDateString('de-DE')}`, startX, 780, { align: 'center' });
+
+      doc.end();
+    } catch (error: any) {
+      console.error('BEO export error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Quote for the customer: menu, per-person price, extras, deposit. Until the
+  // event is quoted the document is marked as a draft.
+  app.get("/api/catering/:id/quote", requirePermission("catering", "view"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const event = await storage.getCateringEvent(id);
+      if (!event) return res.status(404).json({ error: "Nicht gefunden" });
+      if (event.pricePerPerson == null) {
+        return res.status(400).json({ error: "Bitte zuerst den Preis pro Person festlegen" });
+      }
+
+      const [[priced], recipes] = await Promise.all([withCateringCosts([event]), storage.getRecipes()]);
+      const { dishList, extras, price } = priced;
+      const recipeMap = new Map(recipes.map(r => [r.id, r]));
+      const allergensOf = (recipeId: number | null) => (recipeId ? recipeMap.get(recipeId)?.allergens ?? [] : []).join(', ');
+      const eur = (value: number) => `${value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} €`;
+      const issuedAt = event.quotedAt ? new Date(event.quotedAt) : new Date();
+      const validUntil = new Date(issuedAt.getTime() + CATERING_QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+      const eventDate = new Date(`${event.date}T00:00:00`).toLocaleDateString('de-DE', { weekday: 'long', day: '2-digit', month: 'long', year: 'numeric' });
+      const number = event.quoteNumber ?? 'Entwurf';
+      const details: [string, string][] = [
+        ['Angebot Nr.', number],
+        ['Datum', issuedAt.toLocaleDateString('de-DE')],
+        ['Kunde', event.clientName],
+        ['Veranstaltung', event.eventName],
+        ['Termin', `${eventDate}, ${event.time} Uhr`],
+        ['Personen', String(event.personCount)],
+      ];
+      const lines: { label: string; quantity: number; unitPrice: number; total: number }[] = [
+        { label: 'Menü pro Person', quantity: event.personCount, unitPrice: event.pricePerPerson, total: price.base ?? 0 },
+        ...extras.map(e => ({ label: e.name, quantity: e.quantity, unitPrice: e.unitPrice, total: Math.round(e.quantity * e.unitPrice * 100) / 100 })),
+      ];
+
+      const PDFDocument = (await import('pdfkit')).default;
+      const doc = new PDFDocument({ margin: 40, size: 'A4' });
+      const fileName = `Angebot_${event.quoteNumber ?? `Entwurf_${event.id}`}_${event.eventName.replace(/[^a-zA-Z0-9äöüÄÖÜß]/g, '_')}`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+
+      doc.pipe(res);
+
+      const orange = '#F37021';
+      const darkGray = '#333333';
+      const lightGray = '#666666';
+      const pageWidth = 515;
+      const startX = 40;
+
+      doc.rect(0, 0, 595, 80).fill(orange);
+      doc.fillColor('white').fontSize(24).font('Helvetica-Bold').text(event.quoteNumber ? 'ANGEBOT' : 'ANGEBOT (ENTWURF)', startX, 22, { align: 'center' });
+      doc.fontSize(12).font('Helvetica').text(event.eventName, startX, 54, { align: 'center' });
+
+      let yPos = 100;
+      for (const [label, value] of details) {
+        doc.fillColor(lightGray).fontSize(10).font('Helvetica').text(label, startX, yPos, { width: 100 });
+        doc.fillColor(darkGray).font('Helvetica-Bold').text(value, startX + 100, yPos, { width: pageWidth - 100 });
+        yPos += 16;
+      }
+      yPos += 10;
+
+      const sectionHeader = (text: string) => {
+        if (yPos > 700) {
+          doc.addPage();
+          yPos = 50;
+        }
+        doc.rect(startX, yPos, pageWidth, 22).fill(orange);
+        doc.fillColor('white').fontSize(12).font('Helvetica-Bold').text(text, startX + 10, yPos + 5);
+        yPos += 30;
+      };
+
+      sectionHeader('Menü');
+      if (dishList.length === 0) {
+        doc.fillColor(lightGray).fontSize(10).font('Helvetica').text('Das Menü wird noch abgestimmt.', startX + 10, yPos);
+        yPos += 18;
+      }
+      for (const dish of dishList) {
+        if (yPos > 760) {
+          doc.addPage();
+          yPos = 50;
+        }
+        const allergens = allergensOf(dish.recipeId);
+        doc.fillColor(darkGray).fontSize(11).font('Helvetica-Bold').text(dish.name, startX + 10, yPos, { width: 400 });
+        if (allergens) doc.fillColor(orange).fontSize(9).font('Helvetica-Bold').text(allergens, startX + 415, yPos + 1, { width: 100, align: 'right' });
+        yPos += 20;
+      }
+      yPos += 6;
+
+      sectionHeader('Preise');
+      const columns = { label: startX + 10, quantity: startX + 290, unitPrice: startX + 355, total: startX + 435 };
+      doc.fillColor(lightGray).fontSize(9).font('Helvetica-Bold');
+      doc.text('Leistung', columns.label, yPos);
+      doc.text('Menge', columns.quantity, yPos, { width: 55, align: 'right' });
+      doc.text('Einzelpreis', columns.unitPrice, yPos, { width: 75, align: 'right' });
+      doc.text('Gesamt', columns.total, yPos, { width: 80, align: 'right' });
+      yPos += 16;
+      for (const line of lines) {
+        if (yPos > 740) {
+          doc.addPage();
+          yPos = 50;
+        }
+        doc.fillColor(darkGray).fontSize(10).font('Helvetica').text(line.label, columns.label, yPos, { width: 270 });
+        doc.text(line.quantity.toLocaleString('de-DE'), columns.quantity, yPos, { width: 55, align: 'right' });
+        doc.text(eur(line.unitPrice), columns.unitPrice, yPos, { width: 75, align: 'right' });
+        doc.text(eur(line.total), columns.total, yPos, { width: 80, align: 'right' });
+        yPos += 16;
+      }
+
+      if (yPos > 690) {
+        doc.addPage();
+        yPos = 50;
+      }
+      doc.lineWidth(0.5).moveTo(columns.quantity, yPos).lineTo(startX + pageWidth, yPos).stroke(darkGray);
+      yPos += 6;
+      const totals: [string, string][] = [['Summe netto', eur(price.total ?? 0)]];
+      if (price.deposit > 0) {
+        totals.push(['Anzahlung bei Auftragsbestätigung', eur(price.deposit)], ['Restbetrag nach Veranstaltung', eur(price.balance ?? 0)]);
+      }
+      totals.forEach(([label, value], index) => {
+        doc.fillColor(darkGray).fontSize(10).font(index === 0 ? 'Helvetica-Bold' : 'Helvetica').text(label, columns.label, yPos, { width: 345, align: 'right' });
+        doc.text(value, columns.total, yPos, { width: 80, align: 'right' });
+        yPos += 16;
+      });
+
+      yPos += 10;
+      doc.fillColor(lightGray).fontSize(9).font('Helvetica')
+        .text(`Alle Preise in Euro zuzüglich der gesetzlichen Umsatzsteuer. Das Angebot ist gültig bis ${validUntil.toLocaleDateString('de-DE')}.`, startX, yPos, { width: pageWidth });
+      yPos = doc.y + 10;
+
+      if (event.notes) {
+        sectionHeader('Hinweise');
+        doc.fillColor(darkGray).fontSize(10).font('Helvetica').text(event.notes, startX + 10, yPos, { width: pageWidth - 20 });
+        yPos = doc.y + 10;
+      }
+
+      if (yPos > 680) {
+        doc.addPage();
+        yPos = 50;
+      }
+      yPos += 30;
+      doc.fillColor(darkGray).fontSize(10).font('Helvetica-Bold').text('Angebot angenommen:', startX, yPos);
+      yPos += 45;
+      doc.lineWidth(0.5).moveTo(startX, yPos).lineTo(startX + 220, yPos).stroke(darkGray);
+      doc.moveTo(startX + 295, yPos).lineTo(startX + pageWidth, yPos).stroke(darkGray);
+      doc.fillColor(lightGray).fontSize(8).font('Helvetica').text('Ort, Datum', startX, yPos + 4);
+      doc.text('Unterschrift Kunde', startX + 295, yPos + 4);
+
+      doc.fontSize(8).fillColor(lightGray).text(`Mise - befor Serve | Angebot ${number} | Erstellt am ${new Date().toLocaleDateString('de-DE')}`, startX, 780, { align: 'center' });
+
+      doc.end();
+    } catch (error: any) {
+      console.error('Quote export error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // === STAFF ===
+  app.get("/api/staff", requirePermission("schedule", "view"), async (req, res) => {
+    const members = await storage.getStaff();
+    res.json(members);
+  });
+
+  app.get("/api/staff/:id", requirePermission("schedule", "view"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    const member = await storage.getStaffMember(id);
+    if (!member) return res.status(404).json({ error: "Mitarbeiter nicht gefunden" });
+    res.json(member);
+  });
+
+  app.post("/api/staff", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const parsed = insertStaffSchema.parse(req.body);
+      const created = await storage.createStaff(parsed);
+      res.status(201).json(created);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/staff/:id", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const updated = await storage.updateStaff(id, insertStaffSchema.partial().parse(req.body));
+      if (!updated) return res.status(404).json({ error: "Mitarbeiter nicht gefunden" });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/staff/:id", requirePermission("schedule", "delete"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    await storage.deleteStaff(id);
+    res.status(204).send();
+  });
+
+  // === SHIFT TYPES (Dienste) ===
+  app.get("/api/shift-types", requirePermission("schedule", "view"), async (req, res) => {
+    const shiftTypes = await storage.getShiftTypes();
+    res.json(shiftTypes);
+  });
+
+  app.post("/api/shift-types", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const parsed = insertShiftTypeSchema.parse(req.body);
+      const created = await storage.createShiftType(parsed);
+      res.status(201).json(created);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/shift-types/:id", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const updated = await storage.updateShiftType(id, insertShiftTypeSchema.partial().parse(req.body));
+      if (!updated) return res.status(404).json({ error: "Diensttyp nicht gefunden" });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/shift-types/:id", requirePermission("schedule", "delete"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    await storage.deleteShiftType(id);
+    res.status(204).send();
+  });
+
+  // === SCHEDULE ===
+  // R2-T9: Added mine=1 filter for "Meine Schichten"
+  app.get("/api/schedule", requirePermission("schedule", "view"), async (req, res) => {
+    const { start, end, mine } = req.query;
+    const startDate = (start as string) || new Date().toISOString().split('T')[0];
+    const endDate = (end as string) || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    let entries = await storage.getScheduleEntries(startDate, endDate);
+
+    // Filter to only show user's own shifts
+    if (mine === "1") {
+      const user = (req as any).user;
+      if (user) {
+        // Find staff member linked to this user
+        const allStaff = await storage.getStaff();
+        const myStaff = allStaff.find((s: any) => s.userId === user.id);
+        if (myStaff) {
+          entries = entries.filter(e => e.staffId === myStaff.id);
+        } else {
+          // No staff linked to user, return empty
+          entries = [];
+        }
+      }
+    }
+
+    res.json(entries);
+  });
+
+  // Shift planning rules (server/scheduleRules.ts)
+  app.get("/api/schedule/rules", requirePermission("schedule", "view"), async (_req, res) => {
+    res.json(await getScheduleRules());
+  });
+
+  app.put("/api/schedule/rules", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const rules = scheduleRulesSchema.parse(req.body);
+      await storage.setSetting(SCHEDULE_RULES_SETTING_KEY, JSON.stringify(rules));
+      res.json(rules);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/schedule/violations", requirePermission("schedule", "view"), async (req, res) => {
+    const { start, end } = req.query;
+    if (typeof start !== "string" || typeof end !== "string") {
+      return res.status(400).json({ error: "start und end erforderlich" });
+    }
+    res.json(await findScheduleViolations(start, end));
+  });
+
+  // Entries breaking a rule set to "error" are rejected with the violations;
+  // saved entries come back with the warnings they cause
+  app.post("/api/schedule", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const parsed = insertScheduleEntrySchema.parse(req.body);
+      const violations = await validateScheduleEntry({ ...parsed, id: 0, shiftTypeId: parsed.shiftTypeId ?? null });
+      const errors = violations.filter(v => v.severity === "error");
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors.map(v => v.message).join("; "), violations });
+      }
+      const created = await storage.createScheduleEntry(parsed);
+      const warnings = violations.map(v => ({ ...v, entryIds: v.entryIds.map(entryId => entryId || created.id) }));
+      res.status(201).json({ ...created, warnings });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/schedule/:id", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const existing = await storage.getScheduleEntry(id);
+      if (!existing) return res.status(404).json({ error: "Schichteintrag nicht gefunden" });
+      const parsed = insertScheduleEntrySchema.partial().parse(req.body);
+      const violations = await validateScheduleEntry({ ...existing, ...parsed, id });
+      const errors = violations.filter(v => v.severity === "error");
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors.map(v => v.message).join("; "), violations });
+      }
+      const updated = await storage.updateScheduleEntry(id, parsed);
+      if (!updated) return res.status(404).json({ error: "Schichteintrag nicht gefunden" });
+      res.json({ ...updated, warnings: violations });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/schedule/:id", requirePermission("schedule", "delete"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    await storage.deleteScheduleEntry(id);
+    res.status(204).send();
+  });
+
+  // === SCHEDULE REQUESTS (Urlaub, Diensttausch) ===
+  // Users who may edit the schedule see all requests, everyone else the ones
+  // of their linked staff member, including swaps offered to them
+  app.get("/api/schedule-requests", requirePermission("schedule", "view"), async (req, res) => {
+    const user = (req as any).user;
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    const requests = await storage.getScheduleRequests(status);
+    if (hasPermission(user.role, "schedule", "edit", await getPermissionMatrix())) {
+      return res.json(requests);
+    }
+    const member = await getLinkedStaff(user.id);
+    res.json(member ? requests.filter(r => r.staffId === member.id || r.targetStaffId === member.id) : []);
+  });
+
+  app.post("/api/schedule-requests", requirePermission("schedule", "view"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const member = await getLinkedStaff(user.id);
+      if (!member) return res.status(400).json({ error: "Ihrem Konto ist kein Mitarbeiter zugeordnet" });
+      const input = scheduleRequestInputSchema.parse(req.body);
+      const created = await createScheduleRequest(input, member, user.name);
+      res.status(201).json(created);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Applies the request to the schedule; rule errors block it like a manual change
+  app.post("/api/schedule-requests/:id/approve", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const { note } = scheduleRequestDecisionSchema.parse(req.body ?? {});
+      const request = await storage.getScheduleRequest(id);
+      if (!request) return res.status(404).json({ error: "Antrag nicht gefunden" });
+      if (request.status !== "pending") return res.status(400).json({ error: "Antrag ist nicht mehr offen" });
+      const user = (req as any).user;
+      const { request: decided, violations } = await approveScheduleRequest(id, { status: "approved", decidedBy: user.name, decisionNote: note || null });
+      const errors = violations.filter(v => v.severity === "error");
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors.map(v => v.message).join("; "), violations });
+      }
+      if (!decided) return res.status(400).json({ error: "Antrag ist nicht mehr offen" });
+      res.json({ ...decided, warnings: violations });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/schedule-requests/:id/reject", requirePermission("schedule", "edit"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const { note } = scheduleRequestDecisionSchema.parse(req.body ?? {});
+      if (!(await storage.getScheduleRequest(id))) return res.status(404).json({ error: "Antrag nicht gefunden" });
+      const user = (req as any).user;
+      const decided = await storage.decideScheduleRequest(id, { status: "rejected", decidedBy: user.name, decisionNote: note || null });
+      if (!decided) return res.status(400).json({ error: "Antrag ist nicht mehr offen" });
+      res.json(decided);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // The colleague of a swap accepts or declines it before it can be approved
+  app.post("/api/schedule-requests/:id/accept", requirePermission("schedule", "view"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    const request = await storage.getScheduleRequest(id);
+    if (!request) return res.status(404).json({ error: "Antrag nicht gefunden" });
+    const member = await getLinkedStaff((req as any).user.id);
+    if (request.type !== "swap" || member?.id !== request.targetStaffId) return res.status(403).json({ error: "Keine Berechtigung" });
+    const accepted = await storage.acceptScheduleRequest(id);
+    if (!accepted) return res.status(400).json({ error: "Antrag ist nicht mehr offen oder bereits angenommen" });
+    res.json(accepted);
+  });
+
+  app.post("/api/schedule-requests/:id/decline", requirePermission("schedule", "view"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const { note } = scheduleRequestDecisionSchema.parse(req.body ?? {});
+      const request = await storage.getScheduleRequest(id);
+      if (!request) return res.status(404).json({ error: "Antrag nicht gefunden" });
+      const user = (req as any).user;
+      const member = await getLinkedStaff(user.id);
+      if (request.type !== "swap" || member?.id !== request.targetStaffId) return res.status(403).json({ error: "Keine Berechtigung" });
+      const decided = await storage.decideScheduleRequest(id, { status: "declined", decidedBy: user.name, decisionNote: note || null });
+      if (!decided) return res.status(400).json({ error: "Antrag ist nicht mehr offen" });
+      res.json(decided);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/schedule-requests/:id/withdraw", requirePermission("schedule", "view"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    const request = await storage.getScheduleRequest(id);
+    if (!request) return res.status(404).json({ error: "Antrag nicht gefunden" });
+    const user = (req as any).user;
+    const member = await getLinkedStaff(user.id);
+    if (member?.id !== request.staffId) return res.status(403).json({ error: "Keine Berechtigung" });
+    const decided = await storage.decideScheduleRequest(id, { status: "withdrawn", decidedBy: user.name, decisionNote: null });
+    if (!decided) return res.status(400).json({ error: "Antrag ist nicht mehr offen" });
+    res.json(decided);
+  });
+
+  // === MENU PLANS ===
+  app.get("/api/menu-plans", requirePermission("menu", "view"), async (req, res) => {
+    const { start, end, date, withRecipes } = req.query;
+    // Support single date or date range
+    const startDate = (date as string) || (start as string) || new Date().toISOString().split('T')[0];
+    const endDate = (date as string) || (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const plans = await storage.getMenuPlans(startDate, endDate);
+
+    // Optionally include recipe data
+    if (withRecipes === '1' || withRecipes === 'true') {
+      const recipes = await storage.getRecipes();
+      const recipeMap = new Map(recipes.map(r => [r.id, r]));
+      const plansWithRecipes = plans.map(plan => ({
+        ...plan,
+        recipe: plan.recipeId ? recipeMap.get(plan.recipeId) : null,
+      }));
+      return res.json(plansWithRecipes);
+    }
+
+    res.json(plans);
+  });
+
+  app.post("/api/menu-plans", requirePermission("menu", "edit"), async (req, res) => {
+    try {
+      const parsed = insertMenuPlanSchema.parse(req.body);
+      const created = await storage.createMenuPlan(parsed);
+      res.status(201).json(created);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/menu-plans/:id", requirePermission("menu", "edit"), async (req, res) => {
+    try {
+      const id = parseInt(getParam(req.params.id), 10);
+      const updated = await storage.updateMenuPlan(id, req.body);
+      if (!updated) return res.status(404).json({ error: "Nicht gefunden" });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/menu-plans/:id", requirePermission("menu", "delete"), async (req, res) => {
+    const id = parseInt(getParam(req.params.id), 10);
+    await storage.deleteMenuPlan(id);
+    res.status(204).send();
+  });
+
+  // === PRODUCTION PLANNING ===
+  app.get("/api/production", requirePermission("menu", "view"), async (req, res) => {
+    try {
+      const { start, end, date, childFactor } = req.query;
+      const startDate = (date as string) || (start as string) || new Date().toISOString().split('T')[0];
+      const endDate = (date as string) || (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const factor = childFactor !== undefined ? parseFloat(childFactor as string) : CHILD_PORTION_FACTOR;
+      if (isNaN(factor) || factor < 0) {
+        return res.status(400).json({ error: "Ungültiger Kinderfaktor" });
       }
-      
+      const plan = await buildProductionPlan(startDate, endDate, factor);
+      res.json(plan);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // === COSTING ===
+  app.get("/api/costs/menu", requirePermission("menu", "view", "costs"), async (req, res) => {
+    try {
+      const { start, end, date } = req.query;
+      const startDate = (date as string) || (start as string) || new Date().toISOString().split('T')[0];
+      const endDate = (date as string) || (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const cost = await buildMenuCost(startDate, endDate);
+      res.json(cost);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // === SHOPPING / ORDER LIST ===
+  app.get("/api/shopping-list", requirePermission("menu", "view"), async (req, res) => {
+    try {
+      const { start, end } = req.query;
+      const startDate = (start as string) || new Date().toISOString().split('T')[0];
+      const endDate = (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const list = await buildShoppingList(startDate, endDate);
+      res.json(list);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/shopping-list/export", requirePermission("menu", "view"), async (req, res) => {
+    try {
+      const { start, end, format = 'pdf' } = req.query;
+      const startDate = (start as string) || new Date().toISOString().split('T')[0];
+      const endDate = (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const list = await buildShoppingList(startDate, endDate);
+
+      if (format === 'xlsx') {
+        const ExcelJS = await import('exceljs');
+        const workbook = new ExcelJS.Workbook();
+        const sheet = workbook.addWorksheet('Bestellliste');
+
+        sheet.columns = [
+          { header: 'Warengruppe', key: 'group', width: 22 },
+          { header: 'Artikel', key: 'name', width: 30 },
+          { header: 'Menge', key: 'amount', width: 12 },
+          { header: 'Einheit', key: 'unit', width: 10 },
+          { header: 'Rezepte', key: 'recipes', width: 50 }
+        ];
+        sheet.getRow(1).font = { bold: true };
+
+        for (const group of list.groups) {
+          for (const item of group.items) {
+            sheet.addRow({
+              group: group.group,
+              name: item.name,
+              amount: item.amount,
+              unit: item.unit,
+              recipes: item.recipes.join(', ')
+            });
+          }
+        }
+
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="Bestellliste_${startDate}_${endDate}.xlsx"`);
+        await workbook.xlsx.write(res);
+        return;
+      }
+
+      // Default: PDF
+      const PDFDocument = (await import('pdfkit')).default;
+      const doc = new PDFDocument({ margin: 40, size: 'A4' });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="Bestellliste_${startDate}_${endDate}.pdf"`);
+
+      doc.pipe(res);
+
+      const orange = '#F37021';
+      const darkGray = '#333333';
+      const lightGray = '#666666';
+      const pageWidth = 515;
+      const startX = 40;
+
+      doc.rect(0, 0, 595, 80).fill(orange);
+      doc.fillColor('white').fontSize(28).font('Helvetica-Bold').text('BESTELLLISTE', startX, 25, { align: 'center' });
+      const startD = new Date(startDate);
+      const endD = new Date(endDate);
+      const dateRange = `${startD.toLocaleDateString('de-DE', { day: '2-digit', month: 'long' })} - ${endD.toLocaleDateString('de-DE', { day: '2-digit', month: 'long', year: 'numeric' })}`;
+      doc.fontSize(12).font('Helvetica').text(dateRange, startX, 55, { align: 'center' });
+
+      let yPos = 100;
+
+      for (const group of list.groups) {
+        if (yPos > 700) {
+          doc.addPage();
+          yPos = 50;
+        }
+
+        doc.rect(startX, yPos, pageWidth, 22).fill(orange);
+        doc.fillColor('white').fontSize(12).font('Helvetica-Bold').text(group.group, startX + 10, yPos + 5);
+        yPos += 28;
+
+        for (const item of group.items) {
+          if (yPos > 760) {
+            doc.addPage();
+            yPos = 50;
+          }
+          doc.lineWidth(0.5).rect(startX + 8, yPos + 1, 8, 8).stroke(lightGray);
+          doc.fillColor(darkGray).fontSize(10).font('Helvetica');
+          doc.text(item.name, startX + 24, yPos, { width: 260 });
+          doc.font('Helvetica-Bold').text(`${item.amount} ${item.unit}`, startX + 290, yPos, { width: 90, align: 'right' });
+          doc.fillColor(lightGray).fontSize(8).font('Helvetica').text(item.recipes.join(', '), startX + 390, yPos + 1, { width: 125, height: 12, ellipsis: true });
+          yPos += 16;
+        }
+        yPos += 8;
+      }
+
+      if (list.groups.length === 0) {
+        doc.fillColor(lightGray).fontSize(14).font('Helvetica').text('Keine Zutaten im ausgewählten Zeitraum.', startX, yPos + 50, { align: 'center' });
+      }
+
+      doc.fontSize(8).fillColor(lightGray).text('Mise - befor Serve | Bestellliste', startX, 780, { align: 'center' });
+
+      doc.end();
+    } catch (error: any) {
+      console.error('Shopping list export error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // === ALLERGEN MATRIX ===
+  app.get("/api/allergen-matrix", requirePermission("menu", "view"), async (req, res) => {
+    try {
+      const { start, end } = req.query;
+      const startDate = (start as string) || new Date().toISOString().split('T')[0];
+      const endDate = (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const matrix = await buildAllergenMatrix(startDate, endDate);
+      res.json(matrix);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/allergen-matrix/export", requirePermission("menu", "view"), async (req, res) => {
+    try {
+      const { start, end, format = 'pdf' } = req.query;
+      const startDate = (start as string) || new Date().toISOString().split('T')[0];
+      const endDate = (end as string) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const matrix = await buildAllergenMatrix(startDate, endDate);
+
+      const mealNames: Record<string, string> = { breakfast: 'Frühstück', lunch: 'Mittagessen', dinner: 'Abendessen' };
+      const courseNames: Record<string, string> = { soup: 'Suppe', main_meat: 'Fleisch', side1: 'Beilage 1', side2: 'Beilage 2', main_veg: 'Vegetarisch', dessert: 'Dessert', main: 'Gericht' };
+      // "X" = contained, "(X)" = may contain traces
+      const mark = (row: typeof matrix.rows[number], code: string) =>
+        row.contains.includes(code) ? 'X' : row.mayContain.includes(code) ? '(X)' : '';
+      const filename = `Allergene_${startDate}_${endDate}`;
+
+      if (format === 'csv') {
+        // Semicolon separated with BOM so Excel opens umlauts correctly
+        const escape = (value: string) => /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+        const lines = [
+          ['Datum', 'Mahlzeit', 'Gang', 'Gericht', ...matrix.allergens.map(a => `${a.code} ${a.name}`)].map(escape).join(';'),
+          ...matrix.rows.map(row => [
+            new Date(row.date).toLocaleDateString('de-DE'),
+            mealNames[row.meal] || row.meal,
+            courseNames[row.course] || row.course,
+            row.recipeName,
+            ...matrix.allergens.map(a => mark(row, a.code)),
+          ].map(escape).join(';')),
+        ];
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        return res.send('\uFEFF' + lines.join('\r\n'));
+      }
+
+      if (format === 'xlsx') {
+        const ExcelJS = await import('exceljs');
+        const workbook = new ExcelJS.Workbook();
+        const sheet = workbook.addWorksheet('Allergene');
+
+        sheet.columns = [
+          { header: 'Datum', key: 'date', width: 12 },
+          { header: 'Mahlzeit', key: 'meal', width: 14 },
+          { header: 'Gang', key: 'course', width: 12 },
+          { header: 'Gericht', key: 'recipe', width: 32 },
+          ...matrix.allergens.map(a => ({ header: a.code, key: a.code, width: 5 })),
+        ];
+        sheet.getRow(1).font = { bold: true };
+
+        for (const row of matrix.rows) {
+          const added = sheet.addRow({
+            date: new Date(row.date).toLocaleDateString('de-DE'),
+            meal: mealNames[row.meal] || row.meal,
+            course: courseNames[row.course] || row.course,
+            recipe: row.recipeName,
+            ...Object.fromEntries(matrix.allergens.map(a => [a.code, mark(row, a.code)])),
+          });
+          added.eachCell((cell, col) => {
+            if (col > 4) cell.alignment = { horizontal: 'center' };
+          });
+        }
+
+        sheet.addRow([]);
+        sheet.addRow(['Legende: X = enthalten, (X) = kann Spuren enthalten']);
+        for (const a of matrix.allergens) {
+          sheet.addRow([a.code, a.name]);
+        }
+
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+        await workbook.xlsx.write(res);
+        return;
+      }
+
+      // Default: PDF in landscape for hanging at the buffet
+      const PDFDocument = (await import('pdfkit')).default;
+      const doc = new PDFDocument({ margin: 40, size: 'A4', layout: 'landscape' });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+
+      doc.pipe(res);
+
+      const orange = '#F37021';
+      const darkGray = '#333333';
+      const lightGray = '#666666';
+      const bgLight = '#FFF8F5';
+      const startX = 40;
+      const nameWidth = 300;
+      const codeWidth = 30;
+      const tableWidth = nameWidth + codeWidth * matrix.allergens.length;
+
+      doc.rect(0, 0, 842, 70).fill(orange);
+      doc.fillColor('white').fontSize(24).font('Helvetica-Bold').text('ALLERGENKENNZEICHNUNG', startX, 18, { align: 'center', width: 762 });
+      const dateRange = `${new Date(startDate).toLocaleDateString('de-DE', { day: '2-digit', month: 'long' })} - ${new Date(endDate).toLocaleDateString('de-DE', { day: '2-digit', month: 'long', year: 'numeric' })}`;
+      doc.fontSize(11).font('Helvetica').text(dateRange, startX, 46, { align: 'center', width: 762 });
+
+      const drawHeader = (y: number) => {
+        doc.rect(startX, y, tableWidth, 18).fill(darkGray);
+        doc.fillColor('white').fontSize(9).font('Helvetica-Bold').text('Gericht', startX + 6, y + 5);
+        matrix.allergens.forEach((a, i) => {
+          doc.text(a.code, startX + nameWidth + i * codeWidth, y + 5, { width: codeWidth, align: 'center' });
+        });
+        return y + 18;
+      };
+
+      let yPos = drawHeader(85);
+      let currentGroup = '';
+      const weekdays = ['Sonntag', 'Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag'];
+
+      for (const row of matrix.rows) {
+        if (yPos > 500) {
+          doc.addPage({ margin: 40, size: 'A4', layout: 'landscape' });
+          yPos = drawHeader(40);
+          currentGroup = '';
+        }
+
+        const group = `${row.date}|${row.meal}`;
+        if (group !== currentGroup) {
+          currentGroup = group;
+          const d = new Date(row.date);
+          doc.rect(startX, yPos, tableWidth, 16).fill(bgLight);
+          doc.fillColor(orange).fontSize(9).font('Helvetica-Bold')
+            .text(`${weekdays[d.getDay()]}, ${d.toLocaleDateString('de-DE')} – ${mealNames[row.meal] || row.meal}`, startX + 6, yPos + 4);
+          yPos += 16;
+        }
+
+        doc.fillColor(darkGray).fontSize(9).font('Helvetica').text(row.recipeName, startX + 6, yPos + 4, { width: nameWidth - 12, lineBreak: false, ellipsis: true });
+        matrix.allergens.forEach((a, i) => {
+          const value = mark(row, a.code);
+          if (value) {
+            doc.font('Helvetica-Bold').fillColor(value === 'X' ? darkGray : lightGray)
+              .text(value, startX + nameWidth + i * codeWidth, yPos + 4, { width: codeWidth, align: 'center' });
+          }
+        });
+        yPos += 16;
+        doc.moveTo(startX, yPos).lineTo(startX + tableWidth, yPos).lineWidth(0.3).stroke('#DDDDDD');
+      }
+
+      if (matrix.rows.length === 0) {
+        doc.fillColor(lightGray).fontSize(12).font('Helvetica').text('Keine Gerichte im ausgewählten Zeitraum geplant.', startX, yPos + 30, { align: 'center', width: 762 });
+        yPos += 50;
+      }
+
+      // Legend with the allergen names
+      if (yPos > 470) {
+        doc.addPage({ margin: 40, size: 'A4', layout: 'landscape' });
+        yPos = 40;
+      }
+      yPos += 14;
+      doc.fillColor(darkGray).fontSize(8).font('Helvetica-Bold').text('Legende: X = enthalten, (X) = kann Spuren enthalten', startX, yPos);
+      yPos += 12;
+      const perColumn = Math.ceil(matrix.allergens.length / 4);
+      matrix.allergens.forEach((a, i) => {
+        const col = Math.floor(i / perColumn);
+        const line = i % perColumn;
+        doc.font('Helvetica-Bold').text(a.code, startX + col * 190, yPos + line * 11, { continued: true })
+          .font('Helvetica').text(` ${a.name}`);
+      });
+
+      doc.fontSize(8).fillColor(lightGray).text('Mise - befor Serve | Allergenkennzeichnung gemäß LMIV', startX, 560, { align: 'center', width: 762 });
+
+      doc.end();
+    } catch (error: any) {
+      console.error('Allergen matrix export error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // === HACCP REPORT PDF EXPORT ===
+  // Monthly table per control point with every reading; defaults to the current month
+  app.get("/api/haccp-logs/export", requirePermission("haccp", "view"), async (req, res) => {
+    try {
+      const today = new Date();
+      const isoDate = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+      const startDate = (req.query.start as string) || isoDate(new Date(today.getFullYear(), today.getMonth(), 1));
+      const endDate = (req.query.end as string) || isoDate(today);
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      if (!datePattern.test(startDate) || !datePattern.test(endDate) || startDate > endDate) {
+        return res.status(400).json({ error: "Ungültiger Zeitraum" });
+      }
+
+      const report = await buildHaccpReport(startDate, endDate);
+      const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('de-DE');
+
+      const PDFDocument = (await import('pdfkit')).default;
+      const doc = new PDFDocument({ margin: 50, size: 'A4', bufferPages: true });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="HACCP_Bericht_${startDate}_${endDate}.pdf"`);
+
+      doc.pipe(res);
+
+      const orange = '#F37021';
+      const red = '#CC0000';
+      const left = 50;
+      const tableWidth = 495;
+      const pageBottom = doc.page.height - 70; // room for the footer
+      const columns = [
+        { label: 'Datum', width: 55 },
+        { label: 'Uhrzeit', width: 40 },
+        { label: 'Wert', width: 55 },
+        { label: 'Status', width: 60 },
+        { label: 'Erfasst von', width: 95 },
+        { label: 'Bemerkung', width: 190 },
+      ];
+
+      const ensureSpace = (height: number) => {
+        if (doc.y + height > pageBottom) {
+          doc.addPage();
+          return true;
+        }
+        return false;
+      };
+
+      const drawTableHeader = () => {
+        const y = doc.y;
+        doc.rect(left, y, tableWidth, 16).fill('#F2F2F2');
+        doc.fillColor('#000000').fontSize(8).font('Helvetica-Bold');
+        let x = left;
+        for (const column of columns) {
+          doc.text(column.label, x + 2, y + 4, { width: column.width - 4, lineBreak: false });
+          x += column.width;
+        }
+        doc.y = y + 18;
+      };
+
+      doc.fontSize(20).font('Helvetica-Bold').text('HACCP Bericht', { align: 'center' });
+      doc.fontSize(10).font('Helvetica')
+        .text(`Zeitraum: ${formatDay(startDate)} bis ${formatDay(endDate)}`, { align: 'center' })
+        .text(`${report.totalReadings} Messungen, ${report.deviations.length} Abweichung(en) • Erstellt am ${new Date().toLocaleString('de-DE')}`, { align: 'center' });
+      doc.moveDown(1);
+
+      report.months.forEach((month, monthIndex) => {
+        // Every month starts on its own page so it can be filed and signed separately
+        if (monthIndex > 0) doc.addPage();
+        doc.fontSize(16).font('Helvetica-Bold').fillColor(orange).text(month.label, left);
+        doc.fillColor('#000000').moveDown(0.5);
+
+        for (const section of month.sections) {
+          const sectionTitle = () => {
+            doc.fontSize(12).font('Helvetica-Bold').fillColor('#000000').text(`${section.fridgeName} (${section.typeLabel})`, left);
+            doc.fontSize(9).font('Helvetica')
+              .text(`Sollwert: ${section.limits} • ${section.rows.length} Messungen • ${section.deviations} Abweichung(en)`, left);
+            doc.moveDown(0.3);
+          };
+
+          ensureSpace(60);
+          sectionTitle();
+          if (section.rows.length === 0) {
+            doc.fontSize(9).font('Helvetica-Oblique').fillColor('#666666').text('Keine Messungen in diesem Monat', left);
+            doc.fillColor('#000000').moveDown(1);
+            continue;
+          }
+          drawTableHeader();
+
+          for (const row of section.rows) {
+            const timestamp = new Date(row.log.timestamp);
+            const cells = [
+              timestamp.toLocaleDateString('de-DE'),
+              timestamp.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' }),
+              `${row.log.temperature} ${section.unit}`,
+              row.deviation ? 'Abweichung' : 'OK',
+              row.log.user,
+              `#${row.log.id}${row.remark ? ` ${row.remark}` : ''}`,
+            ];
+            doc.fontSize(8).font('Helvetica');
+            const height = Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - 4 }))) + 4;
+
+            if (ensureSpace(height)) {
+              doc.fontSize(10).font('Helvetica-Bold').fillColor('#000000').text(`${section.fridgeName} (Fortsetzung)`, left);
+              doc.moveDown(0.3);
+              drawTableHeader();
+            }
+
+            const y = doc.y;
+            if (row.deviation) doc.rect(left, y - 1, tableWidth, height).fill('#FDECEC');
+            let x = left;
+            cells.forEach((cell, i) => {
+              doc.fontSize(8).font(i === 3 && row.deviation ? 'Helvetica-Bold' : 'Helvetica')
+                .fillColor(i === 3 && row.deviation ? red : '#000000')
+                .text(cell, x + 2, y + 1, { width: columns[i].width - 4 });
+              x += columns[i].width;
+            });
+            doc.moveTo(left, y + height - 1).lineTo(left + tableWidth, y + height - 1).lineWidth(0.3).strokeColor('#DDDDDD').stroke();
+            doc.y = y + height;
+          }
+          doc.fillColor('#000000');
+          doc.moveDown(1);
+        }
+
+        // Signature block of the responsible chef for this month
+        ensureSpace(90);
+        doc.moveDown(0.5);
+        doc.fontSize(10).font('Helvetica-Bold').fillColor('#000000').text(`Geprüft (${month.label}) – verantwortliche Küchenleitung`, left);
+        doc.moveDown(2.2);
+        const lineY = doc.y;
+        const fields = [{ label: 'Name', x: left, width: 180 }, { label: 'Datum', x: left + 200, width: 100 }, { label: 'Unterschrift', x: left + 320, width: 175 }];
+        for (const field of fields) {
+          doc.moveTo(field.x, lineY).lineTo(field.x + field.width, lineY).lineWidth(0.5).strokeColor('#000000').stroke();
+          doc.fontSize(8).font('Helvetica').fillColor('#666666').text(field.label, field.x, lineY + 3, { width: field.width, lineBreak: false });
+        }
+        doc.fillColor('#000000');
+        doc.y = lineY + 20;
+      });
+
+      // Deviations with their corrective actions
+      if (report.deviations.length > 0) {
+        doc.addPage();
+        doc.fontSize(14).font('Helvetica-Bold').fillColor('#000000').text('Abweichungen und Korrekturmaßnahmen', left);
+        doc.fontSize(10).font('Helvetica')
+          .text(`${report.deviations.length} Abweichung(en), davon ${report.deviations.filter(d => !d.resolved).length} offen`);
+        doc.moveDown(0.5);
+
+        for (const deviation of report.deviations) {
+          ensureSpace(40);
+          const measured = new Date(deviation.log.timestamp).toLocaleString('de-DE');
+          doc.fontSize(10).font('Helvetica-Bold').fillColor(deviation.resolved ? '#000000' : red)
+            .text(`#${deviation.log.id} ${measured} | ${deviation.fridgeName}${deviation.log.item ? ` (${deviation.log.item})` : ''}: ${deviation.log.temperature} ${deviation.unit} (Soll ${deviation.limits}) | ${deviation.resolved ? 'behoben' : 'OFFEN'}`, left, doc.y, { width: tableWidth });
+          doc.fillColor('#000000').font('Helvetica').fontSize(9);
+          if (deviation.actions.length === 0) {
+            doc.text('Keine Korrekturmaßnahme erfasst', 65);
+          }
+          for (const action of deviation.actions) {
+            const remeasured = action.remeasuredTemperature != null ? `, Nachmessung ${action.remeasuredTemperature} ${deviation.unit}` : ', Nachmessung ausstehend';
+            ensureSpace(14);
+            doc.text(`${new Date(action.timestamp).toLocaleString('de-DE')} – ${action.responsibleUser}: ${action.action}${remeasured}`, 65, doc.y, { width: 480 });
+          }
+          doc.moveDown(0.5);
+        }
+      }
+
+      // Integrity statement over the complete log, not only the exported range
+      const chain = report.chain;
+      ensureSpace(60);
+      doc.moveDown(1);
+      doc.fontSize(10).font('Helvetica-Bold').fillColor(chain.valid ? '#000000' : red)
+        .text(chain.valid ? 'Integrität: Aufzeichnungen unverändert' : 'Integrität: Aufzeichnungen wurden verändert!', left);
+      doc.fontSize(8).font('Helvetica').fillColor('#666666')
+        .text(chain.valid
+          ? `Hash-Kette über ${chain.count} Einträge geprüft am ${new Date(chain.checkedAt).toLocaleString('de-DE')}. Letzter Hash: ${chain.lastHash}`
+          : `Hash-Kette bricht bei Eintrag #${chain.brokenAtId} (geprüft am ${new Date(chain.checkedAt).toLocaleString('de-DE')}).`, left, doc.y, { width: tableWidth });
+
+      // Footer with page numbers; the bottom margin is lifted so the text does not open a new page
+      const pages = doc.bufferedPageRange();
+      for (let i = pages.start; i < pages.start + pages.count; i++) {
+        doc.switchToPage(i);
+        doc.page.margins.bottom = 0;
+        doc.fontSize(8).font('Helvetica').fillColor('#666666')
+          .text(`HACCP Bericht ${formatDay(startDate)} – ${formatDay(endDate)} • Seite ${i - pages.start + 1} von ${pages.count}`, left, doc.page.height - 40, { width: tableWidth, align: 'center', lineBreak: false });
+      }
+      doc.fillColor('#000000');
+
       doc.end();
     } catch (error: any) {
       console.error('HACCP export error:', error);
@@ -1408,7 +3188,7 @@ export async function registerRoutes(
   });
 
   // === MENU PLAN EXPORT (PDF, XLSX, DOCX) ===
-  app.get("/api/menu-plans/export", requireAuth, async (req, res) => {
+  app.get("/api/menu-plans/export", requirePermission("menu", "view"), async (req, res) => {
     try {
       const { start, end, format = 'pdf' } = req.query;
       const startDate = (start as string) || new Date().toISOString().split('T')[0];
@@ -1420,7 +3200,7 @@ export async function registerRoutes(
       const mealNames: Record<string, string> = { breakfast: 'Frühstück', lunch: 'Mittagessen', dinner: 'Abendessen' };
       const courseNames: Record<string, string> = { soup: 'Suppe', main_meat: 'Fleisch', side1: 'Beilage 1', side2: 'Beilage 2', main_veg: 'Vegetarisch', dessert: 'Dessert', main: 'Gericht' };
       
-      const dateMap = new Map<string, { meal: string; course: string; recipeName: string; portions: number }[]>();
+      const dateMap = new Map<string, { meal: string; course: string; recipeName: string; portions: number; allergens: string[] }[]>();
       for (const plan of plans) {
         if (!dateMap.has(plan.date)) dateMap.set(plan.date, []);
         const recipe = recipes.find(r => r.id === plan.recipeId);
@@ -1428,7 +3208,8 @@ export async function registerRoutes(
           meal: plan.meal,
           course: (plan as any).course || 'main',
           recipeName: recipe?.name || '-',
-          portions: plan.portions
+          portions: plan.portions,
+          allergens: recipe?.allergens ?? []
         });
       }
       
@@ -1444,6 +3225,7 @@ export async function registerRoutes(
           { header: 'Mahlzeit', key: 'meal', width: 15 },
           { header: 'Gang', key: 'course', width: 15 },
           { header: 'Rezept', key: 'recipe', width: 30 },
+          { header: 'Allergene', key: 'allergens', width: 15 },
           { header: 'Portionen', key: 'portions', width: 12 }
         ];
         
@@ -1455,6 +3237,7 @@ export async function registerRoutes(
               meal: mealNames[entry.meal] || entry.meal,
               course: courseNames[entry.course] || entry.course,
               recipe: entry.recipeName,
+              allergens: entry.allergens.join(', '),
               portions: entry.portions
             });
           }
@@ -1530,6 +3313,9 @@ export async function registerRoutes(
               doc.fillColor(lightGray).fontSize(9).font('Helvetica');
               doc.text(`${courseNames[entry.course] || entry.course}:`, startX + 12, yPos, { continued: true });
               doc.fillColor(darkGray).font('Helvetica-Bold').text(` ${entry.recipeName}`, { continued: true });
+              if (entry.allergens.length > 0) {
+                doc.fillColor(orange).font('Helvetica').text(` ${entry.allergens.join(',')}`, { continued: true });
+              }
               doc.fillColor(lightGray).font('Helvetica').text(` (${entry.portions} Port.)`);
               yPos += 14;
             }
@@ -1554,7 +3340,7 @@ export async function registerRoutes(
   });
 
   // === GUEST COUNTS EXPORT ===
-  app.get("/api/guest-counts/export", async (req, res) => {
+  app.get("/api/guest-counts/export", requirePermission("guests", "view"), async (req, res) => {
     try {
       const { start, end, format = 'pdf' } = req.query;
       const startDate = (start as string) || new Date().toISOString().split('T')[0];
@@ -1584,7 +3370,7 @@ export async function registerRoutes(
             adults: count.adults,
             children: count.children,
             total: count.adults + count.children,
-            notes: count.notes || ''
+            notes: count.notes || (count.isForecast ? 'Prognose' : '')
           });
         }
         
@@ -1618,7 +3404,7 @@ export async function registerRoutes(
         doc.fontSize(12).font('Helvetica-Bold').text(d.toLocaleDateString('de-DE', { weekday: 'long', day: '2-digit', month: 'long' }));
         
         for (const count of dayCounts) {
-          doc.fontSize(10).font('Helvetica').text(`  ${mealNames[count.meal]}: ${count.adults} Erw. + ${count.children} Kinder = ${count.adults + count.children} Gesamt`);
+          doc.fontSize(10).font('Helvetica').text(`  ${mealNames[count.meal]}: ${count.adults} Erw. + ${count.children} Kinder = ${count.adults + count.children} Gesamt${count.isForecast ? ' (Prognose)' : ''}`);
         }
         doc.moveDown(0.5);
       }
@@ -1634,8 +3420,32 @@ export async function registerRoutes(
     }
   });
 
+  // === WORKING HOURS ===
+  // Users who may edit the schedule see everyone's hours, everyone else only
+  // the row of their linked staff member
+  app.get("/api/schedule/hours", requirePermission("schedule", "view"), async (req, res) => {
+    const user = (req as any).user;
+    const month = typeof req.query.month === "string" ? req.query.month : "";
+    if (!monthRange(month)) return res.status(400).json({ error: "Ungültiger Monat (YYYY-MM)" });
+    const report = await buildWorkingHoursReport(month);
+    if (hasPermission(user.role, "schedule", "edit", await getPermissionMatrix())) {
+      return res.json(report);
+    }
+    const member = await getLinkedStaff(user.id);
+    res.json({ ...report, staff: member ? report.staff.filter(row => row.staffId === member.id) : [] });
+  });
+
+  app.get("/api/schedule/hours/export", requirePermission("schedule", "edit"), async (req, res) => {
+    const month = typeof req.query.month === "string" ? req.query.month : "";
+    if (!monthRange(month)) return res.status(400).json({ error: "Ungültiger Monat (YYYY-MM)" });
+    const workbook = await buildWorkingHoursWorkbook(month);
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="Stunden_${month}.xlsx"`);
+    await workbook.xlsx.write(res);
+  });
+
   // === SCHEDULE EXPORT ===
-  app.get("/api/schedule/export", requireAuth, async (req, res) => {
+  app.get("/api/schedule/export", requirePermission("schedule", "view"), async (req, res) => {
     try {
       const { start, end, format = 'pdf' } = req.query;
       const startDate = (start as string) || new Date().toISOString().split('T')[0];
@@ -1826,7 +3636,7 @@ export async function registerRoutes(
   // === TASKS ("Heute" Modul) ===
 
   // Get tasks by date (default: today)
-  app.get("/api/tasks", requireAuth, async (req, res) => {
+  app.get("/api/tasks", requirePermission("tasks", "view"), async (req, res) => {
     try {
       const date = (req.query.date as string) || new Date().toISOString().split("T")[0];
       const taskList = await storage.getTasksByDate(date);
@@ -1837,7 +3647,7 @@ export async function registerRoutes(
   });
 
   // Create task
-  app.post("/api/tasks", requireAuth, async (req, res) => {
+  app.post("/api/tasks", requirePermission("tasks", "edit"), async (req, res) => {
     try {
       const parsed = insertTaskSchema.parse(req.body);
       const task = await storage.createTask(parsed);
@@ -1848,7 +3658,7 @@ export async function registerRoutes(
   });
 
   // Update task status
-  app.patch("/api/tasks/:id/status", requireAuth, async (req, res) => {
+  app.patch("/api/tasks/:id/status", requirePermission("tasks", "edit"), async (req, res) => {
     try {
       const { status } = updateTaskStatusSchema.parse(req.body);
       const updated = await storage.updateTask(parseInt(getParam(req.params.id), 10), { status });
@@ -1862,7 +3672,7 @@ export async function registerRoutes(
   });
 
   // Delete task
-  app.delete("/api/tasks/:id", requireAuth, async (req, res) => {
+  app.delete("/api/tasks/:id", requirePermission("tasks", "delete"), async (req, res) => {
     try {
       await storage.deleteTask(parseInt(getParam(req.params.id), 10));
       res.status(204).send();
@@ -1872,12 +3682,12 @@ export async function registerRoutes(
   });
 
   // === R2-T12: TASK TEMPLATES (Admin only) ===
-  app.get("/api/task-templates", requireAuth, async (_req, res) => {
+  app.get("/api/task-templates", requirePermission("tasks", "view"), async (_req, res) => {
     const templates = await storage.getTaskTemplates();
     res.json(templates);
   });
 
-  app.get("/api/task-templates/:id", requireAuth, async (req, res) => {
+  app.get("/api/task-templates/:id", requirePermission("tasks", "view"), async (req, res) => {
     const template = await storage.getTaskTemplate(parseInt(getParam(req.params.id), 10));
     if (!template) {
       return res.status(404).json({ error: "Vorlage nicht gefunden" });
@@ -1923,7 +3733,7 @@ export async function registerRoutes(
   });
 
   // R2-T13: Create tasks from template
-  app.post("/api/task-templates/:id/apply", requireAuth, async (req, res) => {
+  app.post("/api/task-templates/:id/apply", requirePermission("tasks", "edit"), async (req, res) => {
     try {
       const templateId = parseInt(getParam(req.params.id), 10);
       const { date } = req.body;
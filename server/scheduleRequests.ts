@@ -0,0 +1,128 @@
+import { storage, type ScheduleChanges, type ScheduleEntryLoader, type ScheduleRequestDecision } from "./storage";
+import { validateScheduleChanges } from "./scheduleRules";
+import type { ScheduleEntry, ScheduleRequest, ScheduleRequestInput, Staff } from "@shared/schema";
+import type { ScheduleViolation } from "@shared/schedule";
+import { awaitsColleague } from "@shared/scheduleRequests";
+
+// Vacation and shift swap requests (see shared/scheduleRequests.ts).
+// - vacation: on approval every Monday to Friday of the range and every other
+//   day with a planned shift becomes a vacation day; the staff member's entries
+//   on these days are replaced. Weekends without a shift stay as they are, so
+//   the hours report credits working days only.
+// - swap: the offered shift goes to the colleague and, in an exchange, the
+//   colleague's shift to the requester. The colleague has to accept first. Both
+//   are checked against the shift planning rules like a manual change; rules set
+//   to "error" block the approval.
+// Entries changed or deleted since the request was made block the approval. The
+// entries are read and checked inside the transaction that saves the approval.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function isWeekday(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day >= 1 && day <= 5;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// The staff member a user account is linked to (staff.userId)
+export async function getLinkedStaff(userId: string): Promise<Staff | undefined> {
+  return (await storage.getStaff()).find(member => member.userId === userId);
+}
+
+async function ownFutureShift(entryId: number, staffId: number, message: string): Promise<ScheduleEntry> {
+  const entry = await storage.getScheduleEntry(entryId);
+  if (!entry || entry.staffId !== staffId || entry.type !== "shift") throw new Error(message);
+  if (entry.date < today()) throw new Error("Vergangene Dienste können nicht getauscht werden");
+  return entry;
+}
+
+export async function createScheduleRequest(input: ScheduleRequestInput, member: Staff, requestedBy: string): Promise<ScheduleRequest> {
+  const pending = (await storage.getScheduleRequests("pending")).filter(r => r.staffId === member.id && r.type === input.type);
+  const note = input.note || null;
+
+  if (input.type === "vacation") {
+    if (input.startDate < today()) throw new Error("Urlaub kann nicht rückwirkend beantragt werden");
+    if (pending.some(r => r.startDate <= input.endDate && r.endDate >= input.startDate)) {
+      throw new Error("Für diesen Zeitraum gibt es bereits einen offenen Urlaubsantrag");
+    }
+    return storage.createScheduleRequest({
+      type: "vacation",
+      staffId: member.id,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      note,
+      requestedBy,
+    });
+  }
+
+  const entry = await ownFutureShift(input.entryId, member.id, "Nur eigene Dienste können getauscht werden");
+  if (pending.some(r => r.entryId === entry.id)) throw new Error("Für diesen Dienst gibt es bereits einen offenen Tauschantrag");
+  const target = await storage.getStaffMember(input.targetStaffId);
+  if (!target || target.id === member.id) throw new Error("Bitte einen anderen Mitarbeiter wählen");
+  const targetEntry = input.targetEntryId != null
+    ? await ownFutureShift(input.targetEntryId, target.id, "Der Gegendienst gehört nicht zum gewählten Mitarbeiter")
+    : null;
+  return storage.createScheduleRequest({
+    type: "swap",
+    staffId: member.id,
+    startDate: entry.date,
+    endDate: entry.date,
+    entryId: entry.id,
+    targetStaffId: target.id,
+    targetEntryId: targetEntry?.id ?? null,
+    targetDate: targetEntry?.date ?? null,
+    note,
+    requestedBy,
+  });
+}
+
+// Schedule changes of approving the request and the rule violations they cause
+async function planScheduleRequest(request: ScheduleRequest, loadEntries: ScheduleEntryLoader): Promise<{ changes: ScheduleChanges; violations: ScheduleViolation[] }> {
+  const changes: ScheduleChanges = { deleteEntryIds: [], createEntries: [], moveEntries: [] };
+
+  if (request.type === "vacation") {
+    const entries = await loadEntries([request.staffId], request.startDate, request.endDate);
+    for (let date = request.startDate; date <= request.endDate; date = addDays(date, 1)) {
+      const own = entries.filter(e => e.date === date);
+      if (!isWeekday(date) && !own.some(e => e.type === "shift")) continue;
+      changes.deleteEntryIds.push(...own.map(e => e.id));
+      changes.createEntries.push({ staffId: request.staffId, date, type: "vacation", shiftTypeId: null, shift: null, notes: null });
+    }
+    return { changes, violations: [] };
+  }
+
+  if (awaitsColleague(request)) throw new Error("Der Kollege hat dem Tausch noch nicht zugestimmt");
+  const entry = (await loadEntries([request.staffId], request.startDate, request.startDate)).find(e => e.id === request.entryId);
+  if (!entry || request.targetStaffId == null) {
+    throw new Error("Der Dienst wurde seit dem Antrag geändert oder gelöscht");
+  }
+  const moved = [{ ...entry, staffId: request.targetStaffId }];
+  if (request.targetDate) {
+    const targetEntry = (await loadEntries([request.targetStaffId], request.targetDate, request.targetDate)).find(e => e.id === request.targetEntryId);
+    if (!targetEntry) {
+      throw new Error("Der Gegendienst wurde seit dem Antrag geändert oder gelöscht");
+    }
+    moved.push({ ...targetEntry, staffId: request.staffId });
+  }
+  changes.moveEntries = moved.map(e => ({ id: e.id, staffId: e.staffId }));
+  return { changes, violations: await validateScheduleChanges(moved, loadEntries) };
+}
+
+// Approves a pending request together with its schedule changes. Rule errors
+// leave it pending; `request` is undefined then or when it is no longer pending.
+export async function approveScheduleRequest(id: number, decision: ScheduleRequestDecision): Promise<{ request: ScheduleRequest | undefined; violations: ScheduleViolation[] }> {
+  let violations: ScheduleViolation[] = [];
+  const request = await storage.decideScheduleRequest(id, decision, async (pending, loadEntries) => {
+    const plan = await planScheduleRequest(pending, loadEntries);
+    violations = plan.violations;
+    return violations.some(v => v.severity === "error") ? null : plan.changes;
+  });
+  return { request, violations };
+}
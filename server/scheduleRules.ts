@@ -0,0 +1,185 @@
+import { storage, type ScheduleEntryLoader } from "./storage";
+import type { ScheduleEntry, ShiftType } from "@shared/schema";
+import {
+  minutesOfDay,
+  netShiftHours,
+  parseScheduleRules,
+  shiftHours,
+  SCHEDULE_ABSENCE_TYPES,
+  SCHEDULE_RULES_SETTING_KEY,
+  type ScheduleRuleConfig,
+  type ScheduleViolation,
+} from "@shared/schedule";
+
+// Shift planning rules (see shared/schedule.ts), checked per staff member:
+// - rest between the end of one working day and the start of the next one;
+//   shifts on the same day (split shifts) count as one working day
+// - days with a shift in a row
+// - planned working hours per week (Monday to Sunday, without breaks)
+// - shifts on a day with vacation or sick leave
+// Legacy shifts without a shift type count as working days but have no times.
+
+export type ScheduleEntryInput = Pick<ScheduleEntry, "id" | "staffId" | "date" | "type" | "shiftTypeId">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function weekStart(date: string): string {
+  const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+  return addDays(date, -weekday);
+}
+
+function formatDay(date: string): string {
+  const [, month, day] = date.split("-");
+  return `${day}.${month}.`;
+}
+
+function formatHours(hours: number): string {
+  return Number(hours.toFixed(1)).toLocaleString("de-DE");
+}
+
+export async function getScheduleRules(): Promise<ScheduleRuleConfig> {
+  return parseScheduleRules((await storage.getSetting(SCHEDULE_RULES_SETTING_KEY))?.value);
+}
+
+// Days around a date whose entries can take part in a violation on that date
+function ruleMargin(rules: ScheduleRuleConfig): number {
+  return Math.max(rules.maxConsecutiveDays, 7);
+}
+
+export function checkScheduleRules(entries: ScheduleEntryInput[], shiftTypes: ShiftType[], rules: ScheduleRuleConfig): ScheduleViolation[] {
+  const violations: ScheduleViolation[] = [];
+  const shiftTypeById = new Map(shiftTypes.map(st => [st.id, st]));
+  const staffIds = Array.from(new Set(entries.map(e => e.staffId)));
+
+  for (const staffId of staffIds) {
+    const own = entries.filter(e => e.staffId === staffId);
+    const shifts = own.filter(e => e.type === "shift").sort((a, b) => a.date.localeCompare(b.date));
+    const push = (violation: Omit<ScheduleViolation, "staffId" | "severity">) => {
+      const severity = rules.severity[violation.rule];
+      if (severity !== "off") violations.push({ ...violation, staffId, severity });
+    };
+
+    for (const shift of shifts) {
+      const absence = own.find(e => e.date === shift.date && SCHEDULE_ABSENCE_TYPES.includes(e.type));
+      if (absence) {
+        push({
+          rule: "absenceConflict",
+          date: shift.date,
+          entryIds: [shift.id, absence.id],
+          message: `Dienst trotz ${absence.type === "sick" ? "Krankmeldung" : "Urlaub"}`,
+        });
+      }
+    }
+
+    // Working days with start and end in ms (the end may lie on the next day) and net hours
+    const days = new Map<string, { date: string; start: number; end: number; hours: number; entryIds: number[] }>();
+    for (const shift of shifts) {
+      const shiftType = shift.shiftTypeId != null ? shiftTypeById.get(shift.shiftTypeId) : undefined;
+      if (!shiftType) continue;
+      const start = new Date(`${shift.date}T00:00:00Z`).getTime() + minutesOfDay(shiftType.startTime) * 60000;
+      const end = start + shiftHours(shiftType.startTime, shiftType.endTime) * 3600000;
+      const hours = netShiftHours(shiftType);
+      const day = days.get(shift.date);
+      if (day) {
+        day.start = Math.min(day.start, start);
+        day.end = Math.max(day.end, end);
+        day.hours += hours;
+        day.entryIds.push(shift.id);
+      } else {
+        days.set(shift.date, { date: shift.date, start, end, hours, entryIds: [shift.id] });
+      }
+    }
+    const workingDays = Array.from(days.values());
+
+    for (let i = 1; i < workingDays.length; i++) {
+      const previous = workingDays[i - 1];
+      const current = workingDays[i];
+      const rest = (current.start - previous.end) / 3600000;
+      if (rest >= rules.minRestHours) continue;
+      push({
+        rule: "minRest",
+        date: current.date,
+        entryIds: [...previous.entryIds, ...current.entryIds],
+        message: rest < 0
+          ? `Überschneidet sich mit dem Dienst am ${formatDay(previous.date)}`
+          : `Nur ${formatHours(rest)} h Ruhezeit nach dem Dienst am ${formatDay(previous.date)} (mind. ${formatHours(rules.minRestHours)} h)`,
+      });
+    }
+
+    const dates = Array.from(new Set(shifts.map(s => s.date)));
+    let runStart = 0;
+    for (let i = 1; i <= dates.length; i++) {
+      if (i < dates.length && dates[i] === addDays(dates[i - 1], 1)) continue;
+      const run = dates.slice(runStart, i);
+      if (run.length > rules.maxConsecutiveDays) {
+        push({
+          rule: "maxConsecutiveDays",
+          date: run[rules.maxConsecutiveDays],
+          entryIds: shifts.filter(s => run.includes(s.date)).map(s => s.id),
+          message: `${run.length} Tage am Stück im Dienst (max. ${rules.maxConsecutiveDays})`,
+        });
+      }
+      runStart = i;
+    }
+
+    const weeks = new Map<string, typeof workingDays>();
+    for (const day of workingDays) {
+      const week = weekStart(day.date);
+      weeks.set(week, [...(weeks.get(week) ?? []), day]);
+    }
+    for (const [week, weekDays] of Array.from(weeks.entries())) {
+      const total = weekDays.reduce((sum, day) => sum + day.hours, 0);
+      if (total <= rules.maxWeeklyHours) continue;
+      // Shown on the day the limit is exceeded
+      let cumulative = 0;
+      const exceeded = weekDays.find(day => (cumulative += day.hours) > rules.maxWeeklyHours)!;
+      push({
+        rule: "maxWeeklyHours",
+        date: exceeded.date,
+        entryIds: weekDays.flatMap(day => day.entryIds),
+        message: `${formatHours(total)} h in der Woche ab ${formatDay(week)} (max. ${formatHours(rules.maxWeeklyHours)} h)`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// Violations the entry takes part in once saved; it replaces the stored entry with the same id (0 for a new one)
+export async function validateScheduleEntry(entry: ScheduleEntryInput): Promise<ScheduleViolation[]> {
+  return validateScheduleChanges([entry]);
+}
+
+const loadSavedEntries: ScheduleEntryLoader = async (staffIds, startDate, endDate) =>
+  (await storage.getScheduleEntries(startDate, endDate)).filter(e => staffIds.includes(e.staffId));
+
+// Violations the entries take part in once saved together, e.g. both shifts of a swap.
+// `loadEntries` reads the saved entries around them, e.g. inside a transaction.
+export async function validateScheduleChanges(changed: ScheduleEntryInput[], loadEntries = loadSavedEntries): Promise<ScheduleViolation[]> {
+  const rules = await getScheduleRules();
+  const margin = ruleMargin(rules);
+  const dates = changed.map(e => e.date).sort();
+  const ids = new Set(changed.map(e => e.id));
+  const staffIds = Array.from(new Set(changed.map(e => e.staffId)));
+  const [saved, shiftTypes] = await Promise.all([
+    loadEntries(staffIds, addDays(dates[0], -margin), addDays(dates[dates.length - 1], margin)),
+    storage.getShiftTypes(),
+  ]);
+  const entries = [...saved.filter(e => !ids.has(e.id)), ...changed];
+  return checkScheduleRules(entries, shiftTypes, rules).filter(v => v.entryIds.some(id => ids.has(id)));
+}
+
+// Violations shown on the days of a range
+export async function findScheduleViolations(startDate: string, endDate: string): Promise<ScheduleViolation[]> {
+  const rules = await getScheduleRules();
+  const margin = ruleMargin(rules);
+  const [entries, shiftTypes] = await Promise.all([
+    storage.getScheduleEntries(addDays(startDate, -margin), addDays(endDate, margin)),
+    storage.getShiftTypes(),
+  ]);
+  return checkScheduleRules(entries, shiftTypes, rules).filter(v => v.date >= startDate && v.date <= endDate);
+}
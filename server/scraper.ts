@@ -1,4 +1,5 @@
 import * as cheerio from 'cheerio';
+import { canonicalUnit, isKnownUnit } from '@shared/units';
 
 interface ScrapedRecipe {
   name: string;
@@ -174,13 +175,19 @@ function parseIngredientString(str: string): { name: string; amount: number; uni
       }
     }
     
-    const unit = match[2] || 'Stück';
+    // Only accept the second token as unit if it is one ("2 Eier" has no unit)
+    if (match[2] && !isKnownUnit(match[2])) {
+      const rest = str.slice(match[1]?.length ?? 0).trim();
+      return { name: rest || str, amount, unit: 'Stk' };
+    }
+
+    const unit = canonicalUnit(match[2] || 'Stk');
     const name = match[3]?.trim() || str;
     
     return { name, amount, unit };
   }
 
-  return { name: str, amount: 1, unit: 'Stück' };
+  return { name: str, amount: 1, unit: 'Stk' };
 }
 
 function scrapeWithSelectors($: cheerio.CheerioAPI, url: string): ScrapedRecipe | null {
@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { sensorReadingSchema, type Fridge, type SensorDevice } from "@shared/schema";
+import { evaluateReading } from "@shared/haccp";
+
+// Sensor ingestion: readings pushed by wireless thermometers or a gateway with
+// a per-device API key. Readings are de-duplicated, thinned out to the
+// device's sample interval and evaluated against the control point's limits.
+
+export const MAX_BATCH_SIZE = 500;
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+const MAX_READING_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface IngestResult {
+  received: number;
+  stored: number;
+  duplicates: number;
+  sampledOut: number;
+  rejected: { index: number; error: string }[];
+}
+
+export function generateApiKey(): string {
+  return `mise_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash("sha256").update(apiKey).digest("hex");
+}
+
+// Device record without the key hash, for the admin UI
+export function publicSensorDevice(device: SensorDevice): Omit<SensorDevice, "apiKeyHash"> {
+  const { apiKeyHash: _hash, ...rest } = device;
+  return rest;
+}
+
+// Accepts a single reading, an array or { readings: [...] }
+function normalizeBatch(body: unknown): unknown[] {
+  if (Array.isArray(body)) return body;
+  if (body && typeof body === "object" && Array.isArray((body as any).readings)) return (body as any).readings;
+  return body ? [body] : [];
+}
+
+export async function ingestSensorReadings(device: SensorDevice, body: unknown, now = new Date()): Promise<IngestResult> {
+  const batch = normalizeBatch(body);
+  if (batch.length > MAX_BATCH_SIZE) {
+    throw new Error(`Maximal ${MAX_BATCH_SIZE} Messwerte pro Anfrage`);
+  }
+
+  const result: IngestResult = { received: batch.length, stored: 0, duplicates: 0, sampledOut: 0, rejected: [] };
+  const fridges = new Map((await storage.getFridges()).map(f => [f.id, f]));
+  const valid: { index: number; fridge: Fridge; temperature: number; measuredAt: Date }[] = [];
+
+  batch.forEach((raw, index) => {
+    const parsed = sensorReadingSchema.safeParse(raw);
+    if (!parsed.success) {
+      result.rejected.push({ index, error: parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join(", ") });
+      return;
+    }
+    const reading = parsed.data;
+    if (device.fridgeId && reading.fridgeId && reading.fridgeId !== device.fridgeId) {
+      result.rejected.push({ index, error: "Sensor ist einem anderen Kontrollpunkt zugeordnet" });
+      return;
+    }
+    const fridge = fridges.get(device.fridgeId ?? reading.fridgeId ?? -1);
+    if (!fridge || !fridge.active) {
+      result.rejected.push({ index, error: "Kontrollpunkt nicht gefunden" });
+      return;
+    }
+    if (fridge.type === "cooling") {
+      result.rejected.push({ index, error: "Abkühlvorgänge können nicht per Sensor erfasst werden" });
+      return;
+    }
+    const measuredAt = new Date(reading.measuredAt);
+    if (measuredAt.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) {
+      result.rejected.push({ index, error: "Messzeitpunkt liegt in der Zukunft" });
+      return;
+    }
+    if (measuredAt.getTime() < now.getTime() - MAX_READING_AGE_MS) {
+      result.rejected.push({ index, error: "Messwert ist älter als 7 Tage" });
+      return;
+    }
+    valid.push({ index, fridge, temperature: reading.temperature, measuredAt });
+  });
+
+  // Oldest first, so sampling compares each reading with its stored predecessor
+  valid.sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime());
+  const intervalMs = device.sampleIntervalMinutes * 60 * 1000;
+
+  for (const reading of valid) {
+    if (await storage.getSensorLogAt(device.id, reading.fridge.id, reading.measuredAt)) {
+      result.duplicates++;
+      continue;
+    }
+
+    const status = evaluateReading(reading.fridge, { temperature: reading.temperature, timestamp: reading.measuredAt });
+    const last = await storage.getLatestSensorLog(device.id, reading.fridge.id, reading.measuredAt);
+    // A status change is always stored so short excursions are not sampled away
+    const due = !last
+      || last.status !== status
+      || reading.measuredAt.getTime() - new Date(last.timestamp).getTime() >= intervalMs;
+    if (!due) {
+      result.sampledOut++;
+      continue;
+    }
+
+    await storage.createHaccpLog({
+      fridgeId: reading.fridge.id,
+      temperature: reading.temperature,
+      timestamp: reading.measuredAt,
+      user: `Sensor: ${device.name}`,
+      userId: null,
+      sensorId: device.id,
+      status,
+      notes: null,
+    });
+    result.stored++;
+  }
+
+  await storage.updateSensorDevice(device.id, { lastSeenAt: now });
+  return result;
+}
@@ -0,0 +1,87 @@
+import { buildProductionPlan } from "./production";
+import { sumQuantities } from "@shared/units";
+
+// Shopping / order list: expands the production plan of a date range (menu
+// and catering) into ingredient quantities, merges identical ingredients across
+// recipes and groups them by product group for ordering.
+
+export interface ShoppingItem {
+  name: string;
+  amount: number;
+  unit: string;
+  recipes: string[];
+}
+
+export interface ShoppingGroup {
+  group: string;
+  items: ShoppingItem[];
+}
+
+export interface ShoppingList {
+  start: string;
+  end: string;
+  groups: ShoppingGroup[];
+}
+
+const PRODUCT_GROUPS: { group: string; keywords: string[] }[] = [
+  { group: "Fleisch & Fisch", keywords: ["fleisch", "rind", "schwein", "kalb", "lamm", "huhn", "hühner", "hendl", "pute", "ente", "speck", "schinken", "wurst", "faschiert", "hack", "filet", "lachs", "forelle", "fisch", "garnele", "zander"] },
+  { group: "Milchprodukte & Eier", keywords: ["milch", "obers", "sahne", "rahm", "butter", "käse", "topfen", "quark", "joghurt", "ei", "eier", "dotter", "mascarpone", "creme fraiche"] },
+  { group: "Obst & Gemüse", keywords: ["zwiebel", "knoblauch", "karotte", "möhre", "kartoffel", "erdäpfel", "sellerie", "lauch", "porree", "paprika", "tomate", "zucchini", "spinat", "salat", "kraut", "kohl", "pilz", "champignon", "apfel", "zitrone", "orange", "beere", "gurke", "kürbis", "petersilie", "schnittlauch", "basilikum", "gemüse", "obst"] },
+  { group: "Trockenwaren", keywords: ["mehl", "zucker", "reis", "nudel", "teigwaren", "grieß", "brösel", "semmel", "brot", "linsen", "bohnen", "erbsen", "haferflocken", "stärke", "backpulver", "germ", "hefe", "nüsse", "mandel", "schokolade", "kakao"] },
+  { group: "Öle, Essig & Saucen", keywords: ["öl", "essig", "senf", "ketchup", "mayonnaise", "sojasauce", "fond", "brühe", "suppe", "wein"] },
+  { group: "Gewürze", keywords: ["salz", "pfeffer", "paprikapulver", "kümmel", "muskat", "majoran", "oregano", "thymian", "rosmarin", "lorbeer", "zimt", "vanille", "curry", "chili", "gewürz"] },
+];
+
+const OTHER_GROUP = "Sonstiges";
+
+export function productGroup(name: string): string {
+  const lower = name.toLowerCase();
+  const words = lower.split(/[\s,\-()]+/);
+  // Spices are checked first so "Paprikapulver" is not filed as a vegetable
+  const candidates = [...PRODUCT_GROUPS].sort((a, b) => (b.group === "Gewürze" ? 1 : 0) - (a.group === "Gewürze" ? 1 : 0));
+  for (const { group, keywords } of candidates) {
+    // Short keywords ("ei", "öl") must match a whole word, longer ones may be part of a compound
+    if (keywords.some(k => words.includes(k) || (k.length > 3 && lower.includes(k)))) return group;
+  }
+  return OTHER_GROUP;
+}
+
+export async function buildShoppingList(startDate: string, endDate: string): Promise<ShoppingList> {
+  const production = await buildProductionPlan(startDate, endDate);
+  const byName = new Map<string, { name: string; entries: { amount: number; unit: string }[]; recipes: string[] }>();
+
+  const items = [
+    ...production.meals.flatMap(meal => meal.items),
+    ...production.catering.flatMap(event => event.items),
+  ];
+  for (const item of items) {
+    for (const ing of item.ingredients) {
+      const name = ing.name.trim();
+      const key = name.toLowerCase();
+      if (!byName.has(key)) byName.set(key, { name, entries: [], recipes: [] });
+      const entry = byName.get(key)!;
+      entry.entries.push({ amount: ing.amount, unit: ing.unit });
+      if (!entry.recipes.includes(item.recipeName)) entry.recipes.push(item.recipeName);
+    }
+  }
+
+  const groupMap = new Map<string, ShoppingItem[]>();
+  for (const { name, entries, recipes } of Array.from(byName.values())) {
+    const group = productGroup(name);
+    if (!groupMap.has(group)) groupMap.set(group, []);
+    // Units that cannot be converted into each other (e.g. "Bund" and "g") stay separate lines
+    for (const quantity of sumQuantities(entries, name)) {
+      groupMap.get(group)!.push({ name, ...quantity, recipes });
+    }
+  }
+
+  const order = [...PRODUCT_GROUPS.map(g => g.group), OTHER_GROUP];
+  const groups = Array.from(groupMap.entries())
+    .sort(([a], [b]) => order.indexOf(a) - order.indexOf(b))
+    .map(([group, items]) => ({
+      group,
+      items: items.sort((a, b) => a.name.localeCompare(b.name, 'de')),
+    }));
+
+  return { start: startDate, end: endDate, groups };
+}
@@ -1,23 +1,71 @@
 import {
   type User, type InsertUser,
   type Recipe, type InsertRecipe,
+  type Article, type InsertArticle,
   type Ingredient, type InsertIngredient,
   type Fridge, type InsertFridge,
   type HaccpLog, type InsertHaccpLog,
-  type GuestCount, type InsertGuestCount,
+  type HaccpCorrectiveAction, type InsertHaccpCorrectiveAction,
+  type SensorDevice, type InsertSensorDevice,
+  type GuestCount, type InsertGuestCount, type GuestImportSource, type InsertGuestImportSource,
   type CateringEvent, type InsertCateringEvent,
+  type CateringDish, type InsertCateringDish,
+  type CateringExtra, type InsertCateringExtra,
   type Staff, type InsertStaff,
   type ShiftType, type InsertShiftType,
   type ScheduleEntry, type InsertScheduleEntry,
+  type ScheduleRequest, type InsertScheduleRequest,
   type MenuPlan, type InsertMenuPlan,
   type AppSetting, type InsertAppSetting,
   type Task, type InsertTask,
   type TaskTemplate, type InsertTaskTemplate,
-  users, recipes, ingredients, fridges, haccpLogs,
-  guestCounts, cateringEvents, staff, shiftTypes, scheduleEntries, menuPlans, appSettings, tasks, taskTemplates
+  type MenuShareToken, type InsertMenuShareToken,
+  users, recipes, articles, ingredients, fridges, haccpLogs, haccpCorrectiveActions, sensorDevices,
+  guestCounts, guestImportSources, cateringEvents, cateringDishes, cateringExtras, staff, shiftTypes, scheduleEntries, scheduleRequests, menuPlans, appSettings, tasks, taskTemplates, menuShareTokens
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte } from "drizzle-orm";
+import { eq, desc, and, or, gte, lt, lte, isNull, asc, sql, like, inArray, arrayOverlaps, type AnyColumn } from "drizzle-orm";
+import { GENESIS_HASH, HACCP_CHAIN_LOCK, hashHaccpLog } from "./haccpChain";
+import { ALLERGEN_LETTERING, LEGACY_ALLERGEN_CODES } from "@shared/allergens";
+
+// Fields written by a catering status change; not part of InsertCateringEvent
+export type CateringStatusUpdate = Pick<CateringEvent, "status"> &
+  Partial<Pick<CateringEvent, "quotedAt" | "invoicedAt">>;
+
+// Quote or invoice numbers a status change assigns, by number prefix (e.g. "RE-2026-")
+export type CateringNumberPrefixes = Partial<Record<"quoteNumber" | "invoiceNumber", string>>;
+
+// Postgres advisory lock key that serializes the assignment of catering numbers
+const CATERING_NUMBER_LOCK = 4_711_002;
+
+// Fields written by a decision on a schedule request; not part of InsertScheduleRequest
+export type ScheduleRequestDecision = Pick<ScheduleRequest, "status" | "decidedBy" | "decisionNote">;
+
+// Schedule entry changes of an approved request, applied together with the decision
+export interface ScheduleChanges {
+  deleteEntryIds: number[];
+  createEntries: InsertScheduleEntry[];
+  moveEntries: { id: number; staffId: number }[];
+}
+
+// Entries of the given staff members in a date range; inside a decision they are
+// locked until it is saved
+export type ScheduleEntryLoader = (staffIds: number[], startDate: string, endDate: string) => Promise<ScheduleEntry[]>;
+
+// Works out the schedule changes of a pending request; null keeps it pending
+export type ScheduleRequestPlanner = (request: ScheduleRequest, loadEntries: ScheduleEntryLoader) => Promise<ScheduleChanges | null>;
+
+// Readings of one control point aggregated per hour or day; corrected readings
+// are replaced by their correction
+export interface HaccpLogBucket {
+  fridgeId: number;
+  time: string; // bucket start, server-local "YYYY-MM-DDTHH:MM:SS"
+  count: number;
+  avg: number;
+  min: number;
+  max: number;
+  deviations: number;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -32,6 +80,7 @@ export interface IStorage {
   getSetting(key: string): Promise<AppSetting | undefined>;
   getAllSettings(): Promise<AppSetting[]>;
   setSetting(key: string, value: string): Promise<AppSetting>;
+  migrateAllergenLettering(): Promise<number>;
   
   getRecipes(filters?: { q?: string; category?: string }): Promise<Recipe[]>;
   getRecipe(id: number): Promise<Recipe | undefined>;
@@ -40,8 +89,19 @@ export interface IStorage {
   deleteRecipe(id: number): Promise<void>;
   
   getIngredients(recipeId: number): Promise<Ingredient[]>;
+  getAllIngredients(): Promise<Ingredient[]>;
+  getIngredient(id: number): Promise<Ingredient | undefined>;
+  getUnmatchedIngredients(): Promise<Ingredient[]>;
   createIngredient(ingredient: InsertIngredient): Promise<Ingredient>;
+  updateIngredient(id: number, ingredient: Partial<InsertIngredient>): Promise<Ingredient | undefined>;
   deleteIngredientsByRecipe(recipeId: number): Promise<void>;
+
+  // Article catalog
+  getArticles(): Promise<Article[]>;
+  getArticle(id: number): Promise<Article | undefined>;
+  createArticle(article: InsertArticle): Promise<Article>;
+  updateArticle(id: number, article: Partial<InsertArticle>): Promise<Article | undefined>;
+  deleteArticle(id: number): Promise<void>;
   
   getFridges(): Promise<Fridge[]>;
   getFridge(id: number): Promise<Fridge | undefined>;
@@ -51,7 +111,22 @@ export interface IStorage {
   
   getHaccpLogs(): Promise<HaccpLog[]>;
   getHaccpLogsByFridge(fridgeId: number): Promise<HaccpLog[]>;
+  getHaccpLog(id: number): Promise<HaccpLog | undefined>;
   createHaccpLog(log: InsertHaccpLog): Promise<HaccpLog>;
+  sealUnhashedHaccpLogs(): Promise<number>;
+  getHaccpLogBuckets(start: Date, end: Date, bucket: "hour" | "day", fridgeId?: number): Promise<HaccpLogBucket[]>;
+  getLatestSensorLog(sensorId: number, fridgeId: number, before: Date): Promise<HaccpLog | undefined>;
+  getSensorLogAt(sensorId: number, fridgeId: number, timestamp: Date): Promise<HaccpLog | undefined>;
+
+  // Sensor devices
+  getSensorDevices(): Promise<SensorDevice[]>;
+  getSensorDeviceByKeyHash(apiKeyHash: string): Promise<SensorDevice | undefined>;
+  createSensorDevice(device: InsertSensorDevice): Promise<SensorDevice>;
+  updateSensorDevice(id: number, device: Partial<InsertSensorDevice> & { lastSeenAt?: Date }): Promise<SensorDevice | undefined>;
+  deleteSensorDevice(id: number): Promise<void>;
+  getCorrectiveActions(): Promise<HaccpCorrectiveAction[]>;
+  getCorrectiveActionsByLog(logId: number): Promise<HaccpCorrectiveAction[]>;
+  createCorrectiveAction(action: InsertHaccpCorrectiveAction): Promise<HaccpCorrectiveAction>;
 
   // Guest counts
   getGuestCounts(startDate: string, endDate: string): Promise<GuestCount[]>;
@@ -59,13 +134,32 @@ export interface IStorage {
   createGuestCount(count: InsertGuestCount): Promise<GuestCount>;
   updateGuestCount(id: number, count: Partial<InsertGuestCount>): Promise<GuestCount | undefined>;
   deleteGuestCount(id: number): Promise<void>;
+  saveGuestForecasts(forecasts: Pick<GuestCount, "date" | "meal" | "adults" | "children">[]): Promise<{ created: number; updated: number }>;
+  saveGuestCounts(counts: Pick<GuestCount, "date" | "meal" | "adults" | "children">[]): Promise<{ created: number; updated: number }>;
+
+  // Guest import sources (PMS column mappings)
+  getGuestImportSources(): Promise<GuestImportSource[]>;
+  getGuestImportSource(id: number): Promise<GuestImportSource | undefined>;
+  createGuestImportSource(source: InsertGuestImportSource): Promise<GuestImportSource>;
+  updateGuestImportSource(id: number, source: Partial<InsertGuestImportSource>): Promise<GuestImportSource | undefined>;
+  deleteGuestImportSource(id: number): Promise<void>;
 
   // Catering events
   getCateringEvents(): Promise<CateringEvent[]>;
+  getCateringEventsInRange(startDate: string, endDate: string): Promise<CateringEvent[]>;
   getCateringEvent(id: number): Promise<CateringEvent | undefined>;
   createCateringEvent(event: InsertCateringEvent): Promise<CateringEvent>;
   updateCateringEvent(id: number, event: Partial<InsertCateringEvent>): Promise<CateringEvent | undefined>;
   deleteCateringEvent(id: number): Promise<void>;
+  getCateringDishes(eventId: number): Promise<CateringDish[]>;
+  getAllCateringDishes(): Promise<CateringDish[]>;
+  replaceCateringDishes(eventId: number, dishes: Omit<InsertCateringDish, "eventId">[]): Promise<CateringDish[]>;
+  migrateLegacyCateringDishes(): Promise<number>;
+  updateCateringEventStatus(id: number, fromStatus: string, update: CateringStatusUpdate, numbers?: CateringNumberPrefixes): Promise<CateringEvent | undefined>;
+  migrateLegacyCateringStatus(today: string): Promise<number>;
+  getCateringExtras(eventId: number): Promise<CateringExtra[]>;
+  getAllCateringExtras(): Promise<CateringExtra[]>;
+  replaceCateringExtras(eventId: number, extras: Omit<InsertCateringExtra, "eventId">[]): Promise<CateringExtra[]>;
 
   // Staff
   getStaff(): Promise<Staff[]>;
@@ -88,6 +182,13 @@ export interface IStorage {
   updateScheduleEntry(id: number, entry: Partial<InsertScheduleEntry>): Promise<ScheduleEntry | undefined>;
   deleteScheduleEntry(id: number): Promise<void>;
 
+  // Schedule requests (vacation, shift swap)
+  getScheduleRequests(status?: string): Promise<ScheduleRequest[]>;
+  getScheduleRequest(id: number): Promise<ScheduleRequest | undefined>;
+  createScheduleRequest(request: InsertScheduleRequest): Promise<ScheduleRequest>;
+  acceptScheduleRequest(id: number): Promise<ScheduleRequest | undefined>;
+  decideScheduleRequest(id: number, decision: ScheduleRequestDecision, plan?: ScheduleRequestPlanner): Promise<ScheduleRequest | undefined>;
+
   // Menu plans
   getMenuPlans(startDate: string, endDate: string): Promise<MenuPlan[]>;
   getMenuPlan(id: number): Promise<MenuPlan | undefined>;
@@ -107,6 +208,12 @@ export interface IStorage {
   createTaskTemplate(template: InsertTaskTemplate): Promise<TaskTemplate>;
   updateTaskTemplate(id: number, template: Partial<InsertTaskTemplate>): Promise<TaskTemplate | undefined>;
   deleteTaskTemplate(id: number): Promise<void>;
+
+  // Guest menu share tokens
+  getMenuShareTokens(): Promise<MenuShareToken[]>;
+  getMenuShareTokenByToken(token: string): Promise<MenuShareToken | undefined>;
+  createMenuShareToken(shareToken: InsertMenuShareToken): Promise<MenuShareToken>;
+  revokeMenuShareToken(id: number): Promise<MenuShareToken | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -163,6 +270,41 @@ export class DatabaseStorage implements IStorage {
       return created;
     }
   }
+  // Rewrites allergen codes of the consecutive A-N lettering to the Austrian
+  // letters on recipes, articles and ingredients, once
+  async migrateAllergenLettering(): Promise<number> {
+    return db.transaction(async (tx) => {
+      const [marker] = await tx.select().from(appSettings).where(eq(appSettings.key, "allergen_lettering")).for("update");
+      if (marker?.value === ALLERGEN_LETTERING) return 0;
+
+      const remap = (column: AnyColumn) => sql`array(
+        select case code ${sql.join(Object.entries(LEGACY_ALLERGEN_CODES).map(([from, to]) => sql`when ${from} then ${to}`), sql` `)} else code end
+        from unnest(${column}) with ordinality as t(code, pos) order by pos
+      )`;
+      const legacy = (column: AnyColumn) => arrayOverlaps(column, Object.keys(LEGACY_ALLERGEN_CODES));
+
+      const migratedRecipes = await tx.update(recipes)
+        .set({ allergens: remap(recipes.allergens), mayContain: remap(recipes.mayContain) })
+        .where(or(legacy(recipes.allergens), legacy(recipes.mayContain)))
+        .returning({ id: recipes.id });
+      const migratedArticles = await tx.update(articles)
+        .set({ allergens: remap(articles.allergens) })
+        .where(legacy(articles.allergens))
+        .returning({ id: articles.id });
+      const migratedIngredients = await tx.update(ingredients)
+        .set({ allergens: remap(ingredients.allergens) })
+        .where(legacy(ingredients.allergens))
+        .returning({ id: ingredients.id });
+
+      if (marker) {
+        await tx.update(appSettings).set({ value: ALLERGEN_LETTERING }).where(eq(appSettings.key, "allergen_lettering"));
+      } else {
+        await tx.insert(appSettings).values({ key: "allergen_lettering", value: ALLERGEN_LETTERING });
+      }
+      return migratedRecipes.length + migratedArticles.length + migratedIngredients.length;
+    });
+  }
+
 
   async getRecipes(filters?: { q?: string; category?: string }): Promise<Recipe[]> {
     let query = db.select().from(recipes);
@@ -209,15 +351,57 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(ingredients).where(eq(ingredients.recipeId, recipeId));
   }
 
+  async getAllIngredients(): Promise<Ingredient[]> {
+    return db.select().from(ingredients);
+  }
+
+  async getIngredient(id: number): Promise<Ingredient | undefined> {
+    const [ingredient] = await db.select().from(ingredients).where(eq(ingredients.id, id));
+    return ingredient;
+  }
+
+  async getUnmatchedIngredients(): Promise<Ingredient[]> {
+    return db.select().from(ingredients).where(isNull(ingredients.articleId)).orderBy(asc(ingredients.name));
+  }
+
   async createIngredient(ingredient: InsertIngredient): Promise<Ingredient> {
     const [created] = await db.insert(ingredients).values(ingredient).returning();
     return created;
   }
 
+  async updateIngredient(id: number, ingredient: Partial<InsertIngredient>): Promise<Ingredient | undefined> {
+    const [updated] = await db.update(ingredients).set(ingredient).where(eq(ingredients.id, id)).returning();
+    return updated;
+  }
+
   async deleteIngredientsByRecipe(recipeId: number): Promise<void> {
     await db.delete(ingredients).where(eq(ingredients.recipeId, recipeId));
   }
 
+  // Article catalog
+  async getArticles(): Promise<Article[]> {
+    return db.select().from(articles).orderBy(asc(articles.name));
+  }
+
+  async getArticle(id: number): Promise<Article | undefined> {
+    const [article] = await db.select().from(articles).where(eq(articles.id, id));
+    return article;
+  }
+
+  async createArticle(article: InsertArticle): Promise<Article> {
+    const [created] = await db.insert(articles).values(article).returning();
+    return created;
+  }
+
+  async updateArticle(id: number, article: Partial<InsertArticle>): Promise<Article | undefined> {
+    const [updated] = await db.update(articles).set(article).where(eq(articles.id, id)).returning();
+    return updated;
+  }
+
+  async deleteArticle(id: number): Promise<void> {
+    await db.delete(articles).where(eq(articles.id, id));
+  }
+
   async getFridges(): Promise<Fridge[]> {
     return db.select().from(fridges);
   }
@@ -249,8 +433,128 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(haccpLogs).where(eq(haccpLogs.fridgeId, fridgeId)).orderBy(desc(haccpLogs.timestamp));
   }
 
+  async getHaccpLog(id: number): Promise<HaccpLog | undefined> {
+    const [log] = await db.select().from(haccpLogs).where(eq(haccpLogs.id, id));
+    return log;
+  }
+
+  // Appends to the hash chain. The advisory lock serializes writers so every
+  // row links to its actual predecessor; the hash is computed from the row as
+  // stored (including its id) and set in the same transaction.
   async createHaccpLog(log: InsertHaccpLog): Promise<HaccpLog> {
-    const [created] = await db.insert(haccpLogs).values(log).returning();
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${HACCP_CHAIN_LOCK})`);
+      const [last] = await tx.select({ hash: haccpLogs.hash }).from(haccpLogs).orderBy(desc(haccpLogs.id)).limit(1);
+      const prevHash = last?.hash ?? GENESIS_HASH;
+      const [inserted] = await tx.insert(haccpLogs).values({ ...log, prevHash }).returning();
+      const [sealed] = await tx.update(haccpLogs)
+        .set({ hash: hashHaccpLog(inserted, prevHash) })
+        .where(eq(haccpLogs.id, inserted.id))
+        .returning();
+      return sealed;
+    });
+  }
+
+  async getHaccpLogBuckets(start: Date, end: Date, bucket: "hour" | "day", fridgeId?: number): Promise<HaccpLogBucket[]> {
+    // The unit is inlined (not a bind parameter) so SELECT and GROUP BY render the same expression
+    const time = sql<string>`to_char(date_trunc(${sql.raw(bucket === "day" ? "'day'" : "'hour'")}, ${haccpLogs.timestamp}), 'YYYY-MM-DD"T"HH24:MI:SS')`;
+    const conditions = [
+      gte(haccpLogs.timestamp, start),
+      lt(haccpLogs.timestamp, end),
+      sql`NOT EXISTS (SELECT 1 FROM haccp_logs c WHERE c.corrects_log_id = ${haccpLogs.id})`,
+    ];
+    if (fridgeId !== undefined) conditions.push(eq(haccpLogs.fridgeId, fridgeId));
+
+    return db.select({
+      fridgeId: haccpLogs.fridgeId,
+      time,
+      count: sql<number>`count(*)`.mapWith(Number),
+      avg: sql<number>`avg(${haccpLogs.temperature})`.mapWith(Number),
+      min: sql<number>`min(${haccpLogs.temperature})`.mapWith(Number),
+      max: sql<number>`max(${haccpLogs.temperature})`.mapWith(Number),
+      deviations: sql<number>`count(*) filter (where ${haccpLogs.status} <> 'OK')`.mapWith(Number),
+    })
+      .from(haccpLogs)
+      .where(and(...conditions))
+      .groupBy(haccpLogs.fridgeId, time)
+      .orderBy(haccpLogs.fridgeId, time);
+  }
+
+  async getLatestSensorLog(sensorId: number, fridgeId: number, before: Date): Promise<HaccpLog | undefined> {
+    const [log] = await db.select().from(haccpLogs)
+      .where(and(eq(haccpLogs.sensorId, sensorId), eq(haccpLogs.fridgeId, fridgeId), lte(haccpLogs.timestamp, before)))
+      .orderBy(desc(haccpLogs.timestamp))
+      .limit(1);
+    return log;
+  }
+
+  async getSensorLogAt(sensorId: number, fridgeId: number, timestamp: Date): Promise<HaccpLog | undefined> {
+    const [log] = await db.select().from(haccpLogs)
+      .where(and(eq(haccpLogs.sensorId, sensorId), eq(haccpLogs.fridgeId, fridgeId), eq(haccpLogs.timestamp, timestamp)));
+    return log;
+  }
+
+  // Seals rows written before the hash chain existed, in id order, once
+  async sealUnhashedHaccpLogs(): Promise<number> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${HACCP_CHAIN_LOCK})`);
+      // Only rows from before the chain are sealed; a NULL hash appearing later
+      // is tampering and has to show up as a chain break, not be resealed
+      const [marker] = await tx.select().from(appSettings).where(eq(appSettings.key, "haccp_chain_sealed")).for("update");
+      if (marker) return 0;
+
+      const rows = await tx.select().from(haccpLogs).orderBy(asc(haccpLogs.id));
+      let prevHash = GENESIS_HASH;
+      let sealedCount = 0;
+      for (const row of rows) {
+        if (row.hash === null) {
+          const hash = hashHaccpLog({ ...row, prevHash }, prevHash);
+          await tx.update(haccpLogs).set({ prevHash, hash }).where(eq(haccpLogs.id, row.id));
+          prevHash = hash;
+          sealedCount++;
+        } else {
+          prevHash = row.hash;
+        }
+      }
+      await tx.insert(appSettings).values({ key: "haccp_chain_sealed", value: new Date().toISOString() });
+      return sealedCount;
+    });
+  }
+
+  // Sensor devices
+  async getSensorDevices(): Promise<SensorDevice[]> {
+    return db.select().from(sensorDevices).orderBy(asc(sensorDevices.name));
+  }
+
+  async getSensorDeviceByKeyHash(apiKeyHash: string): Promise<SensorDevice | undefined> {
+    const [device] = await db.select().from(sensorDevices).where(eq(sensorDevices.apiKeyHash, apiKeyHash));
+    return device;
+  }
+
+  async createSensorDevice(device: InsertSensorDevice): Promise<SensorDevice> {
+    const [created] = await db.insert(sensorDevices).values(device).returning();
+    return created;
+  }
+
+  async updateSensorDevice(id: number, device: Partial<InsertSensorDevice> & { lastSeenAt?: Date }): Promise<SensorDevice | undefined> {
+    const [updated] = await db.update(sensorDevices).set(device).where(eq(sensorDevices.id, id)).returning();
+    return updated;
+  }
+
+  async deleteSensorDevice(id: number): Promise<void> {
+    await db.delete(sensorDevices).where(eq(sensorDevices.id, id));
+  }
+
+  async getCorrectiveActions(): Promise<HaccpCorrectiveAction[]> {
+    return db.select().from(haccpCorrectiveActions).orderBy(asc(haccpCorrectiveActions.timestamp));
+  }
+
+  async getCorrectiveActionsByLog(logId: number): Promise<HaccpCorrectiveAction[]> {
+    return db.select().from(haccpCorrectiveActions).where(eq(haccpCorrectiveActions.logId, logId)).orderBy(asc(haccpCorrectiveActions.timestamp));
+  }
+
+  async createCorrectiveAction(action: InsertHaccpCorrectiveAction): Promise<HaccpCorrectiveAction> {
+    const [created] = await db.insert(haccpCorrectiveActions).values(action).returning();
     return created;
   }
 
@@ -271,8 +575,9 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  // A count saved by hand replaces a pre-filled forecast
   async updateGuestCount(id: number, count: Partial<InsertGuestCount>): Promise<GuestCount | undefined> {
-    const [updated] = await db.update(guestCounts).set(count).where(eq(guestCounts.id, id)).returning();
+    const [updated] = await db.update(guestCounts).set({ ...count, isForecast: false }).where(eq(guestCounts.id, id)).returning();
     return updated;
   }
 
@@ -280,18 +585,87 @@ export class DatabaseStorage implements IStorage {
     await db.delete(guestCounts).where(eq(guestCounts.id, id));
   }
 
+  // Fills days without a count and refreshes earlier forecasts; entered counts are never touched
+  async saveGuestForecasts(forecasts: Pick<GuestCount, "date" | "meal" | "adults" | "children">[]): Promise<{ created: number; updated: number }> {
+    return db.transaction(async (tx) => {
+      let created = 0, updated = 0;
+      for (const forecast of forecasts) {
+        const [existing] = await tx.select().from(guestCounts)
+          .where(and(eq(guestCounts.date, forecast.date), eq(guestCounts.meal, forecast.meal)));
+        if (!existing) {
+          await tx.insert(guestCounts).values({ ...forecast, isForecast: true });
+          created++;
+        } else if (existing.isForecast && (existing.adults !== forecast.adults || existing.children !== forecast.children)) {
+          await tx.update(guestCounts).set({ adults: forecast.adults, children: forecast.children }).where(eq(guestCounts.id, existing.id));
+          updated++;
+        }
+      }
+      return { created, updated };
+    });
+  }
+
+  // Upserts like POST /api/guests in one transaction: existing counts keep their notes
+  // and stop being forecasts
+  async saveGuestCounts(counts: Pick<GuestCount, "date" | "meal" | "adults" | "children">[]): Promise<{ created: number; updated: number }> {
+    return db.transaction(async (tx) => {
+      let created = 0, updated = 0;
+      for (const count of counts) {
+        const [existing] = await tx.select().from(guestCounts)
+          .where(and(eq(guestCounts.date, count.date), eq(guestCounts.meal, count.meal)));
+        if (!existing) {
+          await tx.insert(guestCounts).values(count);
+          created++;
+        } else {
+          await tx.update(guestCounts).set({ adults: count.adults, children: count.children, isForecast: false }).where(eq(guestCounts.id, existing.id));
+          updated++;
+        }
+      }
+      return { created, updated };
+    });
+  }
+
+  // Guest import sources
+  async getGuestImportSources(): Promise<GuestImportSource[]> {
+    return db.select().from(guestImportSources).orderBy(guestImportSources.name);
+  }
+
+  async getGuestImportSource(id: number): Promise<GuestImportSource | undefined> {
+    const [source] = await db.select().from(guestImportSources).where(eq(guestImportSources.id, id));
+    return source;
+  }
+
+  async createGuestImportSource(source: InsertGuestImportSource): Promise<GuestImportSource> {
+    const [created] = await db.insert(guestImportSources).values(source).returning();
+    return created;
+  }
+
+  async updateGuestImportSource(id: number, source: Partial<InsertGuestImportSource>): Promise<GuestImportSource | undefined> {
+    const [updated] = await db.update(guestImportSources).set(source).where(eq(guestImportSources.id, id)).returning();
+    return updated;
+  }
+
+  async deleteGuestImportSource(id: number): Promise<void> {
+    await db.delete(guestImportSources).where(eq(guestImportSources.id, id));
+  }
+
   // Catering events
   async getCateringEvents(): Promise<CateringEvent[]> {
     return db.select().from(cateringEvents).orderBy(desc(cateringEvents.date));
   }
 
+  async getCateringEventsInRange(startDate: string, endDate: string): Promise<CateringEvent[]> {
+    return db.select().from(cateringEvents)
+      .where(and(gte(cateringEvents.date, startDate), lte(cateringEvents.date, endDate)))
+      .orderBy(asc(cateringEvents.date), asc(cateringEvents.time));
+  }
+
   async getCateringEvent(id: number): Promise<CateringEvent | undefined> {
     const [event] = await db.select().from(cateringEvents).where(eq(cateringEvents.id, id));
     return event;
   }
 
   async createCateringEvent(event: InsertCateringEvent): Promise<CateringEvent> {
-    const [created] = await db.insert(cateringEvents).values(event).returning();
+    const [created] = await db.insert(cateringEvents).values({ ...event, statusChangedAt: new Date() }).returning();
     return created;
   }
 
@@ -304,6 +678,112 @@ export class DatabaseStorage implements IStorage {
     await db.delete(cateringEvents).where(eq(cateringEvents.id, id));
   }
 
+  async getCateringDishes(eventId: number): Promise<CateringDish[]> {
+    return db.select().from(cateringDishes).where(eq(cateringDishes.eventId, eventId)).orderBy(asc(cateringDishes.sortOrder), asc(cateringDishes.id));
+  }
+
+  async getAllCateringDishes(): Promise<CateringDish[]> {
+    return db.select().from(cateringDishes).orderBy(asc(cateringDishes.eventId), asc(cateringDishes.sortOrder), asc(cateringDishes.id));
+  }
+
+  async replaceCateringDishes(eventId: number, dishes: Omit<InsertCateringDish, "eventId">[]): Promise<CateringDish[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(cateringDishes).where(eq(cateringDishes.eventId, eventId));
+      if (dishes.length === 0) return [];
+      return tx.insert(cateringDishes)
+        .values(dishes.map((dish, index) => ({ ...dish, eventId, sortOrder: index })))
+        .returning();
+    });
+  }
+
+  // Turns the old free-text dishes into dish rows (one portion per person),
+  // linked to a recipe of the same name where there is one
+  async migrateLegacyCateringDishes(): Promise<number> {
+    const events = await db.select().from(cateringEvents).where(sql`cardinality(${cateringEvents.dishes}) > 0`);
+    if (events.length === 0) return 0;
+    const allRecipes = await db.select({ id: recipes.id, name: recipes.name }).from(recipes);
+    const byName = new Map(allRecipes.map(r => [r.name.trim().toLowerCase(), r.id]));
+
+    for (const event of events) {
+      await db.transaction(async (tx) => {
+        const [{ count }] = await tx.select({ count: sql<number>`count(*)`.mapWith(Number) })
+          .from(cateringDishes).where(eq(cateringDishes.eventId, event.id));
+        await tx.insert(cateringDishes).values(event.dishes.map((name, index) => ({
+          eventId: event.id,
+          recipeId: byName.get(name.trim().toLowerCase()) ?? null,
+          name: name.trim(),
+          portions: event.personCount,
+          sortOrder: count + index,
+        })));
+        await tx.update(cateringEvents).set({ dishes: [] }).where(eq(cateringEvents.id, event.id));
+      });
+    }
+    return events.length;
+  }
+
+  // Changes the status only while it is still `fromStatus` (undefined otherwise).
+  // Numbers are the next one after the highest with the prefix, zero-padded so
+  // text order works, and are assigned in the same transaction as the status so
+  // concurrent changes neither reuse a number nor leave a gap.
+  async updateCateringEventStatus(id: number, fromStatus: string, update: CateringStatusUpdate, numbers: CateringNumberPrefixes = {}): Promise<CateringEvent | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${CATERING_NUMBER_LOCK})`);
+      const [event] = await tx.select({ status: cateringEvents.status }).from(cateringEvents)
+        .where(eq(cateringEvents.id, id))
+        .for("update");
+      if (!event || event.status !== fromStatus) return undefined;
+
+      const assigned: Partial<Pick<CateringEvent, "quoteNumber" | "invoiceNumber">> = {};
+      for (const field of ["quoteNumber", "invoiceNumber"] as const) {
+        const prefix = numbers[field];
+        if (!prefix) continue;
+        const column = cateringEvents[field];
+        const [last] = await tx.select({ number: column }).from(cateringEvents)
+          .where(like(column, `${prefix}%`))
+          .orderBy(desc(column))
+          .limit(1);
+        const next = last?.number ? parseInt(last.number.slice(prefix.length), 10) + 1 : 1;
+        assigned[field] = `${prefix}${String(next).padStart(4, "0")}`;
+      }
+
+      const [updated] = await tx.update(cateringEvents)
+        .set({ ...update, ...assigned, statusChangedAt: new Date() })
+        .where(eq(cateringEvents.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Events from before the lifecycle existed were booked: past ones count as done
+  async migrateLegacyCateringStatus(today: string): Promise<number> {
+    const migrated = await db.update(cateringEvents)
+      .set({
+        status: sql`case when ${cateringEvents.date} < ${today} then 'done' else 'confirmed' end`,
+        statusChangedAt: new Date(),
+      })
+      .where(isNull(cateringEvents.statusChangedAt))
+      .returning({ id: cateringEvents.id });
+    return migrated.length;
+  }
+
+  async getCateringExtras(eventId: number): Promise<CateringExtra[]> {
+    return db.select().from(cateringExtras).where(eq(cateringExtras.eventId, eventId)).orderBy(asc(cateringExtras.sortOrder), asc(cateringExtras.id));
+  }
+
+  async getAllCateringExtras(): Promise<CateringExtra[]> {
+    return db.select().from(cateringExtras).orderBy(asc(cateringExtras.eventId), asc(cateringExtras.sortOrder), asc(cateringExtras.id));
+  }
+
+  async replaceCateringExtras(eventId: number, extras: Omit<InsertCateringExtra, "eventId">[]): Promise<CateringExtra[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(cateringExtras).where(eq(cateringExtras.eventId, eventId));
+      if (extras.length === 0) return [];
+      return tx.insert(cateringExtras)
+        .values(extras.map((extra, index) => ({ ...extra, eventId, sortOrder: index })))
+        .returning();
+    });
+  }
+
   // Staff
   async getStaff(): Promise<Staff[]> {
     return db.select().from(staff);
@@ -377,6 +857,67 @@ export class DatabaseStorage implements IStorage {
     await db.delete(scheduleEntries).where(eq(scheduleEntries.id, id));
   }
 
+  // Schedule requests (vacation, shift swap)
+  async getScheduleRequests(status?: string): Promise<ScheduleRequest[]> {
+    return db.select().from(scheduleRequests)
+      .where(status ? eq(scheduleRequests.status, status) : undefined)
+      .orderBy(desc(scheduleRequests.createdAt));
+  }
+
+  async getScheduleRequest(id: number): Promise<ScheduleRequest | undefined> {
+    const [request] = await db.select().from(scheduleRequests).where(eq(scheduleRequests.id, id));
+    return request;
+  }
+
+  async createScheduleRequest(request: InsertScheduleRequest): Promise<ScheduleRequest> {
+    const [created] = await db.insert(scheduleRequests).values(request).returning();
+    return created;
+  }
+
+  // The colleague's acceptance of a pending swap; undefined when it is no longer pending or already accepted
+  async acceptScheduleRequest(id: number): Promise<ScheduleRequest | undefined> {
+    const [accepted] = await db.update(scheduleRequests)
+      .set({ acceptedAt: new Date() })
+      .where(and(eq(scheduleRequests.id, id), eq(scheduleRequests.status, "pending"), isNull(scheduleRequests.acceptedAt)))
+      .returning();
+    return accepted;
+  }
+
+  // Decides a pending request; undefined when it is no longer pending or the plan
+  // keeps it pending. The plan runs inside the transaction on entries read FOR
+  // UPDATE, so they cannot change between its checks and the update.
+  async decideScheduleRequest(id: number, decision: ScheduleRequestDecision, plan?: ScheduleRequestPlanner): Promise<ScheduleRequest | undefined> {
+    return db.transaction(async (tx) => {
+      const [request] = await tx.select().from(scheduleRequests)
+        .where(and(eq(scheduleRequests.id, id), eq(scheduleRequests.status, "pending")))
+        .for("update");
+      if (!request) return undefined;
+      const changes = plan
+        ? await plan(request, (staffIds, startDate, endDate) => tx.select().from(scheduleEntries)
+            .where(and(inArray(scheduleEntries.staffId, staffIds), gte(scheduleEntries.date, startDate), lte(scheduleEntries.date, endDate)))
+            .orderBy(asc(scheduleEntries.id))
+            .for("update"))
+        : null;
+      if (plan && !changes) return undefined;
+
+      const [decided] = await tx.update(scheduleRequests)
+        .set({ ...decision, decidedAt: new Date() })
+        .where(eq(scheduleRequests.id, id))
+        .returning();
+      if (!changes) return decided;
+      if (changes.deleteEntryIds.length > 0) {
+        await tx.delete(scheduleEntries).where(inArray(scheduleEntries.id, changes.deleteEntryIds));
+      }
+      if (changes.createEntries.length > 0) {
+        await tx.insert(scheduleEntries).values(changes.createEntries);
+      }
+      for (const move of changes.moveEntries) {
+        await tx.update(scheduleEntries).set({ staffId: move.staffId }).where(eq(scheduleEntries.id, move.id));
+      }
+      return decided;
+    });
+  }
+
   // Menu plans
   async getMenuPlans(startDate: string, endDate: string): Promise<MenuPlan[]> {
     return db.select().from(menuPlans)
@@ -444,6 +985,26 @@ export class DatabaseStorage implements IStorage {
   async deleteTaskTemplate(id: number): Promise<void> {
     await db.delete(taskTemplates).where(eq(taskTemplates.id, id));
   }
+
+  // Guest menu share tokens
+  async getMenuShareTokens(): Promise<MenuShareToken[]> {
+    return db.select().from(menuShareTokens).orderBy(desc(menuShareTokens.createdAt));
+  }
+
+  async getMenuShareTokenByToken(token: string): Promise<MenuShareToken | undefined> {
+    const [shareToken] = await db.select().from(menuShareTokens).where(eq(menuShareTokens.token, token));
+    return shareToken;
+  }
+
+  async createMenuShareToken(shareToken: InsertMenuShareToken): Promise<MenuShareToken> {
+    const [created] = await db.insert(menuShareTokens).values(shareToken).returning();
+    return created;
+  }
+
+  async revokeMenuShareToken(id: number): Promise<MenuShareToken | undefined> {
+    const [updated] = await db.update(menuShareTokens).set({ revokedAt: new Date() }).where(eq(menuShareTokens.id, id)).returning();
+    return updated;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -7,3 +7,14 @@ declare module "pdf-parse" {
   function pdfParse(dataBuffer: Buffer): Promise<PDFData>;
   export = pdfParse;
 }
+
+declare module "papaparse" {
+  interface ParseResult {
+    data: string[][];
+    errors: { row?: number; message: string }[];
+  }
+  const Papa: {
+    parse(input: string, config?: { delimiter?: string; skipEmptyLines?: boolean }): ParseResult;
+  };
+  export = Papa;
+}
@@ -0,0 +1,295 @@
+import ExcelJS from "exceljs";
+import { storage } from "./storage";
+import type { ScheduleEntry, ShiftType, Staff } from "@shared/schema";
+import { netShiftHours, shiftBreakMinutes, shiftHours } from "@shared/schedule";
+
+// Working-hours accounting per staff member and month for payroll:
+// - planned hours from the shift types of the month's shifts, gross and net of
+//   the unpaid break (shift type value or the statutory minimum); shifts over
+//   midnight count on their start day, legacy shifts without a shift type as 0 h
+// - vacation and sick days are credited with a fifth of the weekly hours
+// - target hours are a fifth of the weekly hours per Monday to Friday;
+//   public holidays are not known to the app and count as working days
+// - the overtime balance starts with the opening balance on the staff member's
+//   balance start date and carries the difference of every month since over;
+//   without a start date only the opening balance is carried over
+// Staff without contracted weekly hours get planned hours only, no target and
+// no balance.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WorkingHoursWeek {
+  start: string;   // Monday
+  week: number;    // ISO week number
+  hours: number;   // net hours of the whole week, including days outside the month
+}
+
+export interface WorkingHoursRow {
+  staffId: number;
+  name: string;
+  role: string;
+  weeklyHours: number | null;
+  shifts: number;
+  untimedShifts: number;  // legacy shifts without a shift type, counted as 0 h
+  grossHours: number;
+  breakHours: number;
+  netHours: number;
+  vacationDays: number;
+  sickDays: number;
+  creditedHours: number;
+  targetHours: number | null;
+  difference: number | null;  // net + credited - target from the balance start on
+  carryOver: number | null;   // balance at the start of the month
+  balance: number | null;     // balance at the end of the month
+  weeks: WorkingHoursWeek[];
+}
+
+export interface WorkingHoursReport {
+  month: string;
+  start: string;
+  end: string;
+  weeks: Omit<WorkingHoursWeek, "hours">[];
+  staff: WorkingHoursRow[];
+}
+
+interface DayHours {
+  shifts: number;
+  untimedShifts: number;
+  grossHours: number;
+  breakHours: number;
+  netHours: number;
+  absence: "vacation" | "sick" | null;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function weekday(date: string): number {
+  return (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+function isoWeek(monday: string): number {
+  const thursday = new Date(`${addDays(monday, 3)}T00:00:00Z`);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1;
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+// First and last day of a "YYYY-MM" month
+export function monthRange(month: string): { start: string; end: string } | null {
+  const match = month.match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+  const [year, monthIndex] = [Number(match[1]), Number(match[2]) - 1];
+  if (monthIndex < 0 || monthIndex > 11) return null;
+  const start = new Date(Date.UTC(year, monthIndex, 1)).toISOString().split("T")[0];
+  const end = new Date(Date.UTC(year, monthIndex + 1, 0)).toISOString().split("T")[0];
+  return { start, end };
+}
+
+// Hours per day of one staff member's entries
+function hoursByDay(entries: ScheduleEntry[], shiftTypes: ShiftType[]): Map<string, DayHours> {
+  const shiftTypeById = new Map(shiftTypes.map(st => [st.id, st]));
+  const days = new Map<string, DayHours>();
+  for (const entry of entries) {
+    const day = days.get(entry.date) ?? { shifts: 0, untimedShifts: 0, grossHours: 0, breakHours: 0, netHours: 0, absence: null };
+    if (entry.type === "shift") {
+      const shiftType = entry.shiftTypeId != null ? shiftTypeById.get(entry.shiftTypeId) : undefined;
+      day.shifts++;
+      if (shiftType) {
+        day.grossHours += shiftHours(shiftType.startTime, shiftType.endTime);
+        day.breakHours += shiftBreakMinutes(shiftType) / 60;
+        day.netHours += netShiftHours(shiftType);
+      } else {
+        day.untimedShifts++;
+      }
+    } else if (entry.type === "sick") {
+      day.absence = "sick";
+    } else if (entry.type === "vacation" && day.absence !== "sick") {
+      day.absence = "vacation";
+    }
+    days.set(entry.date, day);
+  }
+  return days;
+}
+
+// Net plus credited minus target hours of a day, for staff with weekly hours
+function dayDifference(date: string, day: DayHours | undefined, weeklyHours: number): number {
+  const dailyHours = weeklyHours / 5;
+  const target = weekday(date) < 5 ? dailyHours : 0;
+  const credited = day?.absence ? dailyHours : 0;
+  return (day?.netHours ?? 0) + credited - target;
+}
+
+function buildRow(member: Staff, days: Map<string, DayHours>, start: string, end: string, weeks: Omit<WorkingHoursWeek, "hours">[]): WorkingHoursRow {
+  const row: WorkingHoursRow = {
+    staffId: member.id,
+    name: member.name,
+    role: member.role,
+    weeklyHours: member.weeklyHours,
+    shifts: 0,
+    untimedShifts: 0,
+    grossHours: 0,
+    breakHours: 0,
+    netHours: 0,
+    vacationDays: 0,
+    sickDays: 0,
+    creditedHours: 0,
+    targetHours: null,
+    difference: null,
+    carryOver: null,
+    balance: null,
+    weeks: [],
+  };
+
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const day = days.get(date);
+    if (!day) continue;
+    row.shifts += day.shifts;
+    row.untimedShifts += day.untimedShifts;
+    row.grossHours += day.grossHours;
+    row.breakHours += day.breakHours;
+    row.netHours += day.netHours;
+    if (day.absence === "vacation") row.vacationDays++;
+    if (day.absence === "sick") row.sickDays++;
+  }
+
+  row.weeks = weeks.map(week => {
+    let hours = 0;
+    for (let i = 0; i < 7; i++) hours += days.get(addDays(week.start, i))?.netHours ?? 0;
+    return { ...week, hours: round(hours) };
+  });
+
+  if (member.weeklyHours != null) {
+    const dailyHours = member.weeklyHours / 5;
+    const balanceStart = member.hoursBalanceStart ?? start;
+    row.creditedHours = (row.vacationDays + row.sickDays) * dailyHours;
+    let target = 0;
+    let difference = 0;
+    for (let date = start > balanceStart ? start : balanceStart; date <= end; date = addDays(date, 1)) {
+      if (weekday(date) < 5) target += dailyHours;
+      difference += dayDifference(date, days.get(date), member.weeklyHours);
+    }
+    let carryOver = member.openingBalanceHours;
+    for (let date = balanceStart; date < start; date = addDays(date, 1)) {
+      carryOver += dayDifference(date, days.get(date), member.weeklyHours);
+    }
+    row.targetHours = round(target);
+    row.difference = round(difference);
+    row.carryOver = round(carryOver);
+    row.balance = round(carryOver + difference);
+  }
+
+  row.grossHours = round(row.grossHours);
+  row.breakHours = round(row.breakHours);
+  row.netHours = round(row.netHours);
+  row.creditedHours = round(row.creditedHours);
+  return row;
+}
+
+async function loadMonth(month: string) {
+  const range = monthRange(month);
+  if (!range) throw new Error("Ungültiger Monat (YYYY-MM)");
+  const { start, end } = range;
+
+  const weeks: Omit<WorkingHoursWeek, "hours">[] = [];
+  for (let monday = addDays(start, -weekday(start)); monday <= end; monday = addDays(monday, 7)) {
+    weeks.push({ start: monday, week: isoWeek(monday) });
+  }
+  const weeksEnd = addDays(weeks[weeks.length - 1].start, 6);
+
+  const [staffList, shiftTypes] = await Promise.all([storage.getStaff(), storage.getShiftTypes()]);
+  // Entries back to the earliest balance start are needed for the carry-over
+  const balanceStarts = staffList
+    .filter(member => member.weeklyHours != null && member.hoursBalanceStart && member.hoursBalanceStart < weeks[0].start)
+    .map(member => member.hoursBalanceStart!);
+  const loadStart = balanceStarts.reduce((earliest, date) => (date < earliest ? date : earliest), weeks[0].start);
+  const entries = await storage.getScheduleEntries(loadStart, weeksEnd);
+
+  return { start, end, weeks, staffList, shiftTypes, entries };
+}
+
+export async function buildWorkingHoursReport(month: string): Promise<WorkingHoursReport> {
+  const { start, end, weeks, staffList, shiftTypes, entries } = await loadMonth(month);
+  const staff = staffList.map(member =>
+    buildRow(member, hoursByDay(entries.filter(e => e.staffId === member.id), shiftTypes), start, end, weeks)
+  );
+  return { month, start, end, weeks, staff };
+}
+
+function formatDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}.${month}.${year}`;
+}
+
+// Summary sheet per staff member and a sheet with every entry of the month
+export async function buildWorkingHoursWorkbook(month: string): Promise<ExcelJS.Workbook> {
+  const report = await buildWorkingHoursReport(month);
+  const [entries, staffList, shiftTypes] = await Promise.all([
+    storage.getScheduleEntries(report.start, report.end),
+    storage.getStaff(),
+    storage.getShiftTypes(),
+  ]);
+
+  const workbook = new ExcelJS.Workbook();
+  const summary = workbook.addWorksheet("Stunden");
+  summary.columns = [
+    { header: "Mitarbeiter", key: "name", width: 22 },
+    { header: "Position", key: "role", width: 16 },
+    { header: "Wochenstunden", key: "weeklyHours", width: 14 },
+    { header: "Dienste", key: "shifts", width: 9 },
+    { header: "Brutto (h)", key: "grossHours", width: 11 },
+    { header: "Pausen (h)", key: "breakHours", width: 11 },
+    { header: "Netto (h)", key: "netHours", width: 11 },
+    { header: "Urlaubstage", key: "vacationDays", width: 11 },
+    { header: "Krankheitstage", key: "sickDays", width: 13 },
+    { header: "Gutschrift (h)", key: "creditedHours", width: 13 },
+    { header: "Soll (h)", key: "targetHours", width: 10 },
+    { header: "Differenz (h)", key: "difference", width: 12 },
+    { header: "Übertrag (h)", key: "carryOver", width: 12 },
+    { header: "Saldo (h)", key: "balance", width: 10 },
+    ...report.weeks.map(week => ({ header: `KW ${week.week}`, key: week.start, width: 8 })),
+  ];
+  summary.getRow(1).font = { bold: true };
+  for (const row of report.staff) {
+    const { weeks, ...values } = row;
+    summary.addRow({ ...values, ...Object.fromEntries(weeks.map(week => [week.start, week.hours])) });
+  }
+
+  const details = workbook.addWorksheet("Einzelnachweis");
+  details.columns = [
+    { header: "Datum", key: "date", width: 12 },
+    { header: "Mitarbeiter", key: "staff", width: 22 },
+    { header: "Typ", key: "type", width: 10 },
+    { header: "Dienst", key: "shiftType", width: 16 },
+    { header: "Beginn", key: "startTime", width: 8 },
+    { header: "Ende", key: "endTime", width: 8 },
+    { header: "Pause (Min.)", key: "breakMinutes", width: 12 },
+    { header: "Netto (h)", key: "netHours", width: 10 },
+  ];
+  details.getRow(1).font = { bold: true };
+  const typeNames: Record<string, string> = { shift: "Schicht", vacation: "Urlaub", sick: "Krank", off: "Frei" };
+  const staffById = new Map(staffList.map(member => [member.id, member]));
+  const shiftTypeById = new Map(shiftTypes.map(st => [st.id, st]));
+  const sorted = [...entries].sort((a, b) =>
+    a.date.localeCompare(b.date) || (staffById.get(a.staffId)?.name ?? "").localeCompare(staffById.get(b.staffId)?.name ?? "")
+  );
+  for (const entry of sorted) {
+    const shiftType = entry.type === "shift" && entry.shiftTypeId != null ? shiftTypeById.get(entry.shiftTypeId) : undefined;
+    details.addRow({
+      date: formatDate(entry.date),
+      staff: staffById.get(entry.staffId)?.name ?? "Unbekannt",
+      type: typeNames[entry.type] ?? entry.type,
+      shiftType: shiftType?.name ?? "",
+      startTime: shiftType?.startTime ?? "",
+      endTime: shiftType?.endTime ?? "",
+      breakMinutes: shiftType ? shiftBreakMinutes(shiftType) : "",
+      netHours: shiftType ? round(netShiftHours(shiftType)) : "",
+    });
+  }
+
+  return workbook;
+}
@@ -0,0 +1,84 @@
+// Allergen list (EU-14, Austrian lettering) and derivation: a recipe declares every allergen of its
+// ingredients plus manually declared ones and "may contain" additions (cross-contact)
+// Used by both server (sync on save/import, allergen matrix) and client (labels, editor warning)
+
+// EU-14 allergens per regulation 1169/2011 with the Austrian letters A-H, L-P, R
+// (Allergeninformationsverordnung), names per UI language
+export const ALLERGENS: Record<string, { code: string; [lang: string]: string }> = {
+  A: { code: "A", de: "Glutenhaltiges Getreide", en: "Gluten", tr: "Gluten", uk: "Глютен" },
+  B: { code: "B", de: "Krebstiere", en: "Crustaceans", tr: "Kabuklular", uk: "Ракоподібні" },
+  C: { code: "C", de: "Eier", en: "Eggs", tr: "Yumurta", uk: "Яйця" },
+  D: { code: "D", de: "Fisch", en: "Fish", tr: "Balik", uk: "Риба" },
+  E: { code: "E", de: "Erdnüsse", en: "Peanuts", tr: "Yer fistigi", uk: "Арахіс" },
+  F: { code: "F", de: "Soja", en: "Soy", tr: "Soya", uk: "Соя" },
+  G: { code: "G", de: "Milch", en: "Milk", tr: "Süt", uk: "Молоко" },
+  H: { code: "H", de: "Schalenfrüchte", en: "Nuts", tr: "Kabuklu yemisler", uk: "Горіхи" },
+  L: { code: "L", de: "Sellerie", en: "Celery", tr: "Kereviz", uk: "Селера" },
+  M: { code: "M", de: "Senf", en: "Mustard", tr: "Hardal", uk: "Гірчиця" },
+  N: { code: "N", de: "Sesam", en: "Sesame", tr: "Susam", uk: "Кунжут" },
+  O: { code: "O", de: "Sulfite", en: "Sulphites", tr: "Sülfitler", uk: "Сульфіти" },
+  P: { code: "P", de: "Lupinen", en: "Lupin", tr: "Acibakla", uk: "Люпин" },
+  R: { code: "R", de: "Weichtiere", en: "Molluscs", tr: "Yumusakçalar", uk: "Молюски" },
+};
+
+// Codes in declaration order
+export const ALLERGEN_CODES = ["A", "B", "C", "D", "E", "F", "G", "H", "L", "M", "N", "O", "P", "R"] as const;
+
+// Earlier versions numbered the allergens A-N consecutively; stored codes are
+// migrated once on startup (setting "allergen_lettering")
+export const LEGACY_ALLERGEN_CODES: Record<string, string> = { I: "L", J: "M", K: "N", L: "O", M: "P", N: "R" };
+export const ALLERGEN_LETTERING = "at";
+export const LEGACY_ALLERGEN_LETTERING = "legacy";
+
+// Codes of an imported file in its lettering, mapped to the current letters;
+// codes that do not exist in that lettering are returned as unknown
+export function normalizeAllergenCodes(codes: string[], lettering: string = ALLERGEN_LETTERING): { codes: string[]; unknown: string[] } {
+  const unknown: string[] = [];
+  const mapped: string[] = [];
+  for (const raw of codes) {
+    const code = String(raw).trim().toUpperCase();
+    if (lettering === LEGACY_ALLERGEN_LETTERING && code.length === 1 && code >= "A" && code <= "N") {
+      mapped.push(LEGACY_ALLERGEN_CODES[code] ?? code);
+    } else if (lettering !== LEGACY_ALLERGEN_LETTERING && (ALLERGEN_CODES as readonly string[]).includes(code)) {
+      mapped.push(code);
+    } else {
+      unknown.push(String(raw));
+    }
+  }
+  return { codes: sortAllergens(mapped), unknown };
+}
+
+export function sortAllergens(codes: Iterable<string>): string[] {
+  const unique = Array.from(new Set(Array.from(codes, c => c.trim().toUpperCase()).filter(Boolean)));
+  return unique.sort((a, b) => {
+    const ia = ALLERGEN_CODES.indexOf(a as typeof ALLERGEN_CODES[number]);
+    const ib = ALLERGEN_CODES.indexOf(b as typeof ALLERGEN_CODES[number]);
+    return (ia === -1 ? 99 : ia) - (ib === -1 ? 99 : ib) || a.localeCompare(b);
+  });
+}
+
+// Allergens contributed by the ingredients alone
+export function ingredientAllergens(ingredients: { allergens?: string[] | null }[]): string[] {
+  return sortAllergens(ingredients.flatMap(ing => ing.allergens ?? []));
+}
+
+export function deriveAllergens(ingredients: { allergens?: string[] | null }[], mayContain: string[] = [], declared: string[] = []): string[] {
+  return sortAllergens([...ingredientAllergens(ingredients), ...declared, ...mayContain]);
+}
+
+// Contained vs. trace allergens of a recipe. Ingredient allergens and declared
+// codes not marked "may contain" are contained; a "may contain" code is shown
+// as a trace only when the recipe does not contain it anyway.
+export function splitAllergens(declared: string[], mayContain: string[], ingredientCodes: string[] = []): { contains: string[]; traces: string[] } {
+  const traceCodes = sortAllergens(mayContain);
+  const contains = sortAllergens([...ingredientCodes, ...declared.filter(code => !traceCodes.includes(code.trim().toUpperCase()))]);
+  return { contains, traces: traceCodes.filter(code => !contains.includes(code)) };
+}
+
+// Difference between a stored allergen list and the derived one
+export function allergenDeviation(stored: string[], derived: string[]): { missing: string[]; extra: string[] } {
+  return {
+    missing: derived.filter(code => !stored.includes(code)),
+    extra: stored.filter(code => !derived.includes(code)),
+  };
+}
@@ -0,0 +1,75 @@
+// Catering lifecycle and pricing
+// Used by both server (status changes, quote, revenue) and client (badges, forms, totals)
+//
+// An event moves inquiry → quoted → confirmed → done → invoiced; it can be
+// cancelled until it has taken place. Only booked events (confirmed or later)
+// feed production, shopping list and revenue.
+
+export const CATERING_STATUSES = ["inquiry", "quoted", "confirmed", "done", "invoiced", "cancelled"] as const;
+export type CateringStatus = typeof CATERING_STATUSES[number];
+
+export const CATERING_STATUS_LABELS: Record<CateringStatus, string> = {
+  inquiry: "Anfrage",
+  quoted: "Angebot",
+  confirmed: "Bestätigt",
+  done: "Durchgeführt",
+  invoiced: "Abgerechnet",
+  cancelled: "Storniert",
+};
+
+// Allowed next statuses. Quotes can be revised (back to inquiry), cancelled events reopened.
+export const CATERING_STATUS_TRANSITIONS: Record<CateringStatus, CateringStatus[]> = {
+  inquiry: ["quoted", "confirmed", "cancelled"],
+  quoted: ["inquiry", "confirmed", "cancelled"],
+  confirmed: ["quoted", "done", "cancelled"],
+  done: ["invoiced"],
+  invoiced: [],
+  cancelled: ["inquiry"],
+};
+
+// Days a quote is valid from its issue date
+export const CATERING_QUOTE_VALIDITY_DAYS = 14;
+
+export const CATERING_BOOKED_STATUSES: CateringStatus[] = ["confirmed", "done", "invoiced"];
+
+export function isCateringStatus(value: unknown): value is CateringStatus {
+  return typeof value === "string" && (CATERING_STATUSES as readonly string[]).includes(value);
+}
+
+export function canChangeCateringStatus(from: string, to: CateringStatus): boolean {
+  return isCateringStatus(from) && CATERING_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function isCateringBooked(status: string): boolean {
+  return (CATERING_BOOKED_STATUSES as string[]).includes(status);
+}
+
+export interface CateringPriceInput {
+  personCount: number;
+  pricePerPerson: number | null;
+  depositAmount: number | null;
+}
+
+export interface CateringExtraPriceInput {
+  quantity: number;
+  unitPrice: number;
+}
+
+// Net amounts in EUR; `total` is null until a price per person is set
+export interface CateringPrice {
+  base: number | null;
+  extras: number;
+  total: number | null;
+  deposit: number;
+  balance: number | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function calculateCateringPrice(event: CateringPriceInput, extras: CateringExtraPriceInput[]): CateringPrice {
+  const base = event.pricePerPerson != null ? round(event.pricePerPerson * event.personCount) : null;
+  const extrasTotal = round(extras.reduce((sum, e) => sum + e.quantity * e.unitPrice, 0));
+  const total = base != null ? round(base + extrasTotal) : null;
+  const deposit = round(event.depositAmount ?? 0);
+  return { base, extras: extrasTotal, total, deposit, balance: total != null ? round(total - deposit) : null };
+}
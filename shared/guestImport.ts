@@ -0,0 +1,39 @@
+// Guest count import from hotel PMS exports
+// Used by both server (parsing, validation) and client (mapping editor)
+//
+// A source describes the columns of one PMS export. Counts in such exports are
+// per night, and the board type decides which meals the guests take.
+
+export const GUEST_IMPORT_MEALS = ["breakfast", "lunch", "dinner"] as const;
+export type GuestImportMeal = typeof GUEST_IMPORT_MEALS[number];
+
+export const GUEST_IMPORT_DELIMITERS = ["auto", ";", ",", "\t"] as const;
+export type GuestImportDelimiter = typeof GUEST_IMPORT_DELIMITERS[number];
+
+export const GUEST_IMPORT_DELIMITER_LABELS: Record<GuestImportDelimiter, string> = {
+  auto: "Automatisch",
+  ";": "Semikolon (;)",
+  ",": "Komma (,)",
+  "\t": "Tabulator",
+};
+
+export const GUEST_IMPORT_DATE_FORMATS = ["DD.MM.YYYY", "YYYY-MM-DD", "MM/DD/YYYY"] as const;
+export type GuestImportDateFormat = typeof GUEST_IMPORT_DATE_FORMATS[number];
+
+// Common German and English board codes, as a starting point for a new source
+export const DEFAULT_BOARD_MEALS: Record<string, GuestImportMeal[]> = {
+  OV: [],
+  RO: [],
+  "ÜF": ["breakfast"],
+  BB: ["breakfast"],
+  HP: ["breakfast", "dinner"],
+  HB: ["breakfast", "dinner"],
+  VP: ["breakfast", "lunch", "dinner"],
+  FB: ["breakfast", "lunch", "dinner"],
+  AI: ["breakfast", "lunch", "dinner"],
+};
+
+// Board codes are matched case-insensitively
+export function normalizeBoardCode(code: string): string {
+  return code.trim().toUpperCase();
+}
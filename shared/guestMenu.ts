@@ -0,0 +1,85 @@
+// Guest-facing menu texts in the guest languages
+// Used by both server (public menu JSON, buffet sign PDF) and client (public menu page)
+
+export const GUEST_LANGUAGES = ["de", "en", "tr", "uk"] as const;
+export type GuestLanguage = typeof GUEST_LANGUAGES[number];
+
+interface GuestMenuTexts {
+  title: string;
+  allergens: string;
+  mayContain: string;
+  noAllergens: string;
+  noMenu: string;
+  print: string;
+  signs: string;
+  meals: Record<string, string>;
+  courses: Record<string, string>;
+}
+
+export const GUEST_MENU_TEXTS: Record<GuestLanguage, GuestMenuTexts> = {
+  de: {
+    title: "Unser Menü",
+    allergens: "Allergene",
+    mayContain: "Kann Spuren enthalten",
+    noAllergens: "Keine deklarationspflichtigen Allergene",
+    noMenu: "Für diesen Tag ist noch kein Menü geplant.",
+    print: "Drucken",
+    signs: "Buffetschilder (PDF)",
+    meals: { breakfast: "Frühstück", lunch: "Mittagessen", dinner: "Abendessen" },
+    courses: { soup: "Suppe", main_meat: "Hauptspeise", side1: "Beilage", side2: "Beilage", main_veg: "Vegetarisch", dessert: "Dessert", main: "Gericht" },
+  },
+  en: {
+    title: "Our Menu",
+    allergens: "Allergens",
+    mayContain: "May contain traces of",
+    noAllergens: "No declarable allergens",
+    noMenu: "No menu has been planned for this day yet.",
+    print: "Print",
+    signs: "Buffet signs (PDF)",
+    meals: { breakfast: "Breakfast", lunch: "Lunch", dinner: "Dinner" },
+    courses: { soup: "Soup", main_meat: "Main course", side1: "Side dish", side2: "Side dish", main_veg: "Vegetarian", dessert: "Dessert", main: "Dish" },
+  },
+  tr: {
+    title: "Menümüz",
+    allergens: "Alerjenler",
+    mayContain: "Eser miktarda içerebilir",
+    noAllergens: "Beyan edilmesi gereken alerjen yok",
+    noMenu: "Bu gün için henüz menü planlanmadı.",
+    print: "Yazdır",
+    signs: "Büfe kartları (PDF)",
+    meals: { breakfast: "Kahvaltı", lunch: "Öğle yemeği", dinner: "Akşam yemeği" },
+    courses: { soup: "Çorba", main_meat: "Ana yemek", side1: "Garnitür", side2: "Garnitür", main_veg: "Vejetaryen", dessert: "Tatlı", main: "Yemek" },
+  },
+  uk: {
+    title: "Наше меню",
+    allergens: "Алергени",
+    mayContain: "Може містити сліди",
+    noAllergens: "Без алергенів, що підлягають декларуванню",
+    noMenu: "На цей день меню ще не заплановано.",
+    print: "Друк",
+    signs: "Таблички для буфету (PDF)",
+    meals: { breakfast: "Сніданок", lunch: "Обід", dinner: "Вечеря" },
+    courses: { soup: "Суп", main_meat: "Основна страва", side1: "Гарнір", side2: "Гарнір", main_veg: "Вегетаріанське", dessert: "Десерт", main: "Страва" },
+  },
+};
+
+// Recipe tags that are relevant for guests; other tags (e.g. "schnell") stay internal
+export const DIETARY_TAGS: Record<string, Record<GuestLanguage, string>> = {
+  vegetarisch: { de: "Vegetarisch", en: "Vegetarian", tr: "Vejetaryen", uk: "Вегетаріанське" },
+  vegan: { de: "Vegan", en: "Vegan", tr: "Vegan", uk: "Веганське" },
+  glutenfrei: { de: "Glutenfrei", en: "Gluten-free", tr: "Glutensiz", uk: "Без глютену" },
+  laktosefrei: { de: "Laktosefrei", en: "Lactose-free", tr: "Laktozsuz", uk: "Без лактози" },
+  scharf: { de: "Scharf", en: "Spicy", tr: "Acılı", uk: "Гостре" },
+  schwein: { de: "Mit Schweinefleisch", en: "Contains pork", tr: "Domuz eti içerir", uk: "Містить свинину" },
+  halal: { de: "Halal", en: "Halal", tr: "Helal", uk: "Халяль" },
+};
+
+export function isGuestLanguage(value: unknown): value is GuestLanguage {
+  return typeof value === "string" && (GUEST_LANGUAGES as readonly string[]).includes(value);
+}
+
+export function dietaryTagLabels(tags: string[], lang: GuestLanguage): string[] {
+  return tags
+    .map(tag => DIETARY_TAGS[tag.trim().toLowerCase()]?.[lang])
+    .filter((label): label is string => Boolean(label));
+}
@@ -0,0 +1,126 @@
+// HACCP control point types with their limits and status evaluation
+// Used by both server (status on save, deviations, export) and client (forms, labels)
+//
+// A control point is stored in the `fridges` table. `tempMin` / `tempMax` hold its
+// limits and `haccpLogs.temperature` the measured value; which of them apply and in
+// which unit depends on the type.
+
+export const CONTROL_POINT_TYPES = ["storage", "core_temp", "cooling", "goods_receiving", "fryer_oil"] as const;
+export type ControlPointType = typeof CONTROL_POINT_TYPES[number];
+
+interface ControlPointTypeInfo {
+  label: string;
+  unit: string;
+  bounds: "range" | "min" | "max";  // which limits a value is checked against
+  minLabel: string;
+  maxLabel: string;
+  itemLabel: string | null;         // free text per reading (dish, delivery), null if not used
+  defaults: { tempMin: number; tempMax: number; limitMinutes: number | null };
+}
+
+export const CONTROL_POINT_TYPE_INFO: Record<ControlPointType, ControlPointTypeInfo> = {
+  storage: {
+    label: "Lagertemperatur",
+    unit: "°C",
+    bounds: "range",
+    minLabel: "Min. Temperatur (°C)",
+    maxLabel: "Max. Temperatur (°C)",
+    itemLabel: null,
+    defaults: { tempMin: 0, tempMax: 4, limitMinutes: null },
+  },
+  core_temp: {
+    label: "Kerntemperatur",
+    unit: "°C",
+    bounds: "min",
+    minLabel: "Mindestens (°C)",
+    maxLabel: "Max. (°C)",
+    itemLabel: "Gericht",
+    defaults: { tempMin: 72, tempMax: 100, limitMinutes: null },
+  },
+  cooling: {
+    label: "Abkühlen",
+    unit: "°C",
+    bounds: "max",
+    minLabel: "Start ab (°C)",
+    maxLabel: "Ziel max. (°C)",
+    itemLabel: "Gericht",
+    defaults: { tempMin: 65, tempMax: 10, limitMinutes: 90 },
+  },
+  goods_receiving: {
+    label: "Wareneingang",
+    unit: "°C",
+    bounds: "range",
+    minLabel: "Min. Temperatur (°C)",
+    maxLabel: "Max. Temperatur (°C)",
+    itemLabel: "Lieferant / Ware",
+    defaults: { tempMin: 0, tempMax: 7, limitMinutes: null },
+  },
+  fryer_oil: {
+    label: "Frittieröl",
+    unit: "% TPM",
+    bounds: "max",
+    minLabel: "Min. (% TPM)",
+    maxLabel: "Max. polare Anteile (% TPM)",
+    itemLabel: null,
+    defaults: { tempMin: 0, tempMax: 24, limitMinutes: null },
+  },
+};
+
+export interface ControlPointLimits {
+  type: string;
+  tempMin: number;
+  tempMax: number;
+  limitMinutes?: number | null;
+}
+
+export interface ControlPointReading {
+  temperature: number;
+  timestamp: string | Date;
+  startTemperature?: number | null;
+  startedAt?: string | Date | null;
+}
+
+export function isControlPointType(value: unknown): value is ControlPointType {
+  return typeof value === "string" && (CONTROL_POINT_TYPES as readonly string[]).includes(value);
+}
+
+export function controlPointTypeInfo(type: string): ControlPointTypeInfo {
+  return CONTROL_POINT_TYPE_INFO[isControlPointType(type) ? type : "storage"];
+}
+
+export function isValueWithinLimits(point: ControlPointLimits, value: number): boolean {
+  const { bounds } = controlPointTypeInfo(point.type);
+  if (bounds === "min") return value >= point.tempMin;
+  if (bounds === "max") return value <= point.tempMax;
+  return value >= point.tempMin && value <= point.tempMax;
+}
+
+// Minutes between start and end of a cooling reading, null if no start was recorded
+export function coolingDurationMinutes(reading: ControlPointReading): number | null {
+  if (!reading.startedAt) return null;
+  return Math.round((new Date(reading.timestamp).getTime() - new Date(reading.startedAt).getTime()) / 60000);
+}
+
+// "OK" or "WARNING". Cooling additionally has to start at tempMin or above and
+// reach the target within limitMinutes.
+export function evaluateReading(point: ControlPointLimits, reading: ControlPointReading): "OK" | "WARNING" {
+  if (!isValueWithinLimits(point, reading.temperature)) return "WARNING";
+  if (point.type === "cooling" && reading.startTemperature != null && reading.startTemperature < point.tempMin) return "WARNING";
+  if (point.type === "cooling" && point.limitMinutes) {
+    const duration = coolingDurationMinutes(reading);
+    if (duration === null || duration > point.limitMinutes) return "WARNING";
+  }
+  return "OK";
+}
+
+// Human readable limits, e.g. "0–4 °C", "mind. 72 °C", "65 °C auf max. 10 °C in 90 min".
+// Kept to characters the standard PDF fonts can render.
+export function formatLimits(point: ControlPointLimits): string {
+  const info = controlPointTypeInfo(point.type);
+  if (point.type === "cooling") {
+    return `${point.tempMin} ${info.unit} auf max. ${point.tempMax} ${info.unit}${point.limitMinutes ? ` in ${point.limitMinutes} min` : ""}`;
+  }
+  if (info.bounds === "min") return `mind. ${point.tempMin} ${info.unit}`;
+  if (info.bounds === "max") return `max. ${point.tempMax} ${info.unit}`;
+  return `${point.tempMin}–${point.tempMax} ${info.unit}`;
+}
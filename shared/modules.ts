@@ -0,0 +1,71 @@
+// Module visibility per role
+// Used by both server (route middleware) and client (navigation, pages, settings)
+//
+// A module hidden from a role is gone for its users: page and navigation entry
+// disappear and the module's API routes answer 403, whatever the permission
+// matrix allows. Admins always see everything, Today is always visible. Stored
+// as JSON in the `module_visibility` app setting, listing the roles each module
+// is hidden from.
+
+import { ROLES, isRole, type Role } from "./permissions";
+
+export const APP_MODULES = ["recipes", "articles", "menu", "costs", "guests", "catering", "schedule", "haccp"] as const;
+export type AppModule = typeof APP_MODULES[number];
+
+export const APP_MODULE_INFO: Record<AppModule, { label: string; description: string }> = {
+  recipes: { label: "Rezepte", description: "Rezeptdatenbank" },
+  articles: { label: "Artikel", description: "Artikelkatalog und Preise" },
+  menu: { label: "Menüplan", description: "Wochenmenü, Produktion und Einkauf" },
+  costs: { label: "Kosten", description: "Wareneinsatz von Rezepten und Menüplan" },
+  guests: { label: "Gästezahlen", description: "Gästeverwaltung und Prognose" },
+  catering: { label: "Catering", description: "Veranstaltungen, Angebote und Umsatz" },
+  schedule: { label: "Dienstplan", description: "Personalplanung" },
+  haccp: { label: "HACCP", description: "Temperaturprotokoll" },
+};
+
+export type ModuleVisibility = Record<AppModule, Role[]>;
+
+export const MODULE_VISIBILITY_SETTING_KEY = "module_visibility";
+
+// Global switches from before per-role visibility; "false" hid the modules for everyone
+export const LEGACY_MODULE_SWITCHES: Record<string, AppModule[]> = {
+  show_recipes: ["recipes"],
+  show_menu_plan: ["menu"],
+  show_guests: ["guests", "catering"],
+  show_schedule: ["schedule"],
+  show_haccp: ["haccp"],
+};
+
+export function isAppModule(value: unknown): value is AppModule {
+  return typeof value === "string" && (APP_MODULES as readonly string[]).includes(value);
+}
+
+// Stored visibility, or the legacy switches while none is stored; unknown modules and roles are ignored
+export function parseModuleVisibility(stored: string | null | undefined, legacy: Record<string, string | undefined> = {}): ModuleVisibility {
+  const visibility = Object.fromEntries(APP_MODULES.map(module => [module, [] as Role[]])) as ModuleVisibility;
+  if (!stored) {
+    for (const [key, modules] of Object.entries(LEGACY_MODULE_SWITCHES)) {
+      if (legacy[key] !== "false") continue;
+      for (const module of modules) visibility[module] = ROLES.filter(role => role !== "admin");
+    }
+    return visibility;
+  }
+  let parsed: any = {};
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    parsed = {};
+  }
+  for (const module of APP_MODULES) {
+    const roles = Array.isArray(parsed?.[module]) ? parsed[module] : [];
+    visibility[module] = Array.from(new Set(roles.filter((role: unknown): role is Role => isRole(role) && role !== "admin")));
+  }
+  return visibility;
+}
+
+export const DEFAULT_MODULE_VISIBILITY: ModuleVisibility = parseModuleVisibility(null);
+
+export function isModuleVisible(role: string, module: AppModule, visibility: ModuleVisibility = DEFAULT_MODULE_VISIBILITY): boolean {
+  if (role === "admin") return true;
+  return !visibility[module].includes(role as Role);
+}
@@ -0,0 +1,91 @@
+// Role-based permissions
+// Used by both server (route middleware) and client (routes, navigation, buttons, admin matrix)
+//
+// Every role has a level. The permission matrix holds the minimum role per
+// resource and action; a user may act if their role's level reaches it. Admins
+// always pass. The matrix is adjustable in the settings and stored as JSON in
+// the `permissions` app setting; missing entries fall back to the defaults.
+
+export const ROLE_LEVELS = {
+  admin: 100,
+  souschef: 80,
+  koch: 60,
+  fruehkoch: 50,
+  lehrling: 30,
+  abwasch: 20,
+  guest: 10,
+} as const;
+export type Role = keyof typeof ROLE_LEVELS;
+
+// Highest level first
+export const ROLES = Object.keys(ROLE_LEVELS) as Role[];
+
+export const PERMISSION_RESOURCES = ["recipes", "articles", "menu", "guests", "catering", "schedule", "haccp", "tasks"] as const;
+export type PermissionResource = typeof PERMISSION_RESOURCES[number];
+
+export const PERMISSION_RESOURCE_LABELS: Record<PermissionResource, string> = {
+  recipes: "Rezepte",
+  articles: "Artikel",
+  menu: "Menüplan & Produktion",
+  guests: "Gästezahlen",
+  catering: "Catering",
+  schedule: "Dienstplan",
+  haccp: "HACCP",
+  tasks: "Aufgaben",
+};
+
+export const PERMISSION_ACTIONS = ["view", "edit", "delete"] as const;
+export type PermissionAction = typeof PERMISSION_ACTIONS[number];
+
+export const PERMISSION_ACTION_LABELS: Record<PermissionAction, string> = {
+  view: "Ansehen",
+  edit: "Bearbeiten",
+  delete: "Löschen",
+};
+
+export type PermissionMatrix = Record<PermissionResource, Record<PermissionAction, Role>>;
+
+export const PERMISSIONS_SETTING_KEY = "permissions";
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  recipes: { view: "guest", edit: "koch", delete: "souschef" },
+  articles: { view: "guest", edit: "koch", delete: "souschef" },
+  menu: { view: "guest", edit: "souschef", delete: "souschef" },
+  guests: { view: "guest", edit: "koch", delete: "souschef" },
+  catering: { view: "guest", edit: "souschef", delete: "souschef" },
+  schedule: { view: "guest", edit: "souschef", delete: "souschef" },
+  haccp: { view: "guest", edit: "abwasch", delete: "souschef" },
+  tasks: { view: "guest", edit: "abwasch", delete: "souschef" },
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ROLE_LEVELS, value);
+}
+
+export function roleLevel(role: string): number {
+  return isRole(role) ? ROLE_LEVELS[role] : 0;
+}
+
+// Stored matrix merged over the defaults; unknown resources, actions and roles are ignored
+export function parsePermissionMatrix(stored: string | null | undefined): PermissionMatrix {
+  let parsed: any = {};
+  try {
+    parsed = stored ? JSON.parse(stored) : {};
+  } catch {
+    parsed = {};
+  }
+  const matrix = {} as PermissionMatrix;
+  for (const resource of PERMISSION_RESOURCES) {
+    matrix[resource] = { ...DEFAULT_PERMISSIONS[resource] };
+    for (const action of PERMISSION_ACTIONS) {
+      const role = parsed?.[resource]?.[action];
+      if (isRole(role)) matrix[resource][action] = role;
+    }
+  }
+  return matrix;
+}
+
+export function hasPermission(role: string, resource: PermissionResource, action: PermissionAction, matrix: PermissionMatrix = DEFAULT_PERMISSIONS): boolean {
+  if (role === "admin") return true;
+  return roleLevel(role) >= ROLE_LEVELS[matrix[resource][action]];
+}
@@ -0,0 +1,121 @@
+// Shift planning rules and working hours
+// Used by both server (validation of schedule entries, hours report) and client (cell markers, rule settings)
+//
+// Rules are checked when an entry is saved and for the displayed range. Each
+// rule is off, a warning (entry is saved, the cell is marked) or an error (the
+// entry is rejected). Limits and severities are stored as JSON in the
+// `schedule_rules` app setting; missing values fall back to the defaults.
+
+export const SCHEDULE_RULES = ["minRest", "maxConsecutiveDays", "maxWeeklyHours", "absenceConflict"] as const;
+export type ScheduleRule = typeof SCHEDULE_RULES[number];
+
+export const SCHEDULE_RULE_LABELS: Record<ScheduleRule, string> = {
+  minRest: "Ruhezeit zwischen Diensten",
+  maxConsecutiveDays: "Tage am Stück",
+  maxWeeklyHours: "Wochenstunden",
+  absenceConflict: "Dienst trotz Urlaub/Krankheit",
+};
+
+export const SCHEDULE_RULE_SEVERITIES = ["off", "warning", "error"] as const;
+export type ScheduleRuleSeverity = typeof SCHEDULE_RULE_SEVERITIES[number];
+
+export const SCHEDULE_RULE_SEVERITY_LABELS: Record<ScheduleRuleSeverity, string> = {
+  off: "Aus",
+  warning: "Warnung",
+  error: "Sperren",
+};
+
+export interface ScheduleRuleConfig {
+  minRestHours: number;
+  maxConsecutiveDays: number;
+  maxWeeklyHours: number;
+  severity: Record<ScheduleRule, ScheduleRuleSeverity>;
+}
+
+export const SCHEDULE_RULES_SETTING_KEY = "schedule_rules";
+
+// 11 h rest and 48 h per week as in the German Arbeitszeitgesetz
+export const DEFAULT_SCHEDULE_RULES: ScheduleRuleConfig = {
+  minRestHours: 11,
+  maxConsecutiveDays: 6,
+  maxWeeklyHours: 48,
+  severity: {
+    minRest: "warning",
+    maxConsecutiveDays: "warning",
+    maxWeeklyHours: "warning",
+    absenceConflict: "error",
+  },
+};
+
+// Absences a shift must not be planned on
+export const SCHEDULE_ABSENCE_TYPES = ["vacation", "sick"];
+
+export interface ScheduleViolation {
+  rule: ScheduleRule;
+  severity: Exclude<ScheduleRuleSeverity, "off">;
+  staffId: number;
+  date: string;        // day the violation is shown on
+  entryIds: number[];  // entries involved, new entries have id 0
+  message: string;
+}
+
+function isSeverity(value: unknown): value is ScheduleRuleSeverity {
+  return typeof value === "string" && (SCHEDULE_RULE_SEVERITIES as readonly string[]).includes(value);
+}
+
+function positiveNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Stored config merged over the defaults; invalid values are ignored
+export function parseScheduleRules(stored: string | null | undefined): ScheduleRuleConfig {
+  let parsed: any = {};
+  try {
+    parsed = stored ? JSON.parse(stored) : {};
+  } catch {
+    parsed = {};
+  }
+  const severity = { ...DEFAULT_SCHEDULE_RULES.severity };
+  for (const rule of SCHEDULE_RULES) {
+    if (isSeverity(parsed?.severity?.[rule])) severity[rule] = parsed.severity[rule];
+  }
+  return {
+    minRestHours: positiveNumber(parsed?.minRestHours, DEFAULT_SCHEDULE_RULES.minRestHours),
+    maxConsecutiveDays: Math.round(positiveNumber(parsed?.maxConsecutiveDays, DEFAULT_SCHEDULE_RULES.maxConsecutiveDays)),
+    maxWeeklyHours: positiveNumber(parsed?.maxWeeklyHours, DEFAULT_SCHEDULE_RULES.maxWeeklyHours),
+    severity,
+  };
+}
+
+// "HH:MM" (or "HH:MM:SS") as minutes after midnight
+export function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+// Length of a shift in hours; an end before the start means the shift ends the next day
+export function shiftHours(startTime: string, endTime: string): number {
+  const minutes = minutesOfDay(endTime) - minutesOfDay(startTime);
+  return (minutes <= 0 ? minutes + 24 * 60 : minutes) / 60;
+}
+
+// Statutory minimum break (§ 11 AZG, Austria): 30 min when the working time exceeds 6 h
+export function statutoryBreakMinutes(hours: number): number {
+  return hours > 6 ? 30 : 0;
+}
+
+export interface ShiftTimes {
+  startTime: string;
+  endTime: string;
+  breakMinutes?: number | null;
+}
+
+// Unpaid break of a shift type; without a configured break the statutory minimum applies
+export function shiftBreakMinutes(shiftType: ShiftTimes): number {
+  return shiftType.breakMinutes ?? statutoryBreakMinutes(shiftHours(shiftType.startTime, shiftType.endTime));
+}
+
+// Working hours of a shift without the break
+export function netShiftHours(shiftType: ShiftTimes): number {
+  return Math.max(0, shiftHours(shiftType.startTime, shiftType.endTime) - shiftBreakMinutes(shiftType) / 60);
+}
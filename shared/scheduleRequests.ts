@@ -0,0 +1,40 @@
+// Vacation and shift swap requests
+// Used by both server (request routes, approval) and client (request dialogs, badges)
+//
+// Staff members linked to a user account request vacation for a range of days
+// or offer one of their shifts to a colleague, either in exchange for one of the
+// colleague's shifts or as a handover. The colleague accepts or declines a swap
+// first. Users who may edit the schedule approve or reject pending requests; an
+// approval changes the schedule entries. The requester can withdraw a request
+// while it is pending.
+
+export const SCHEDULE_REQUEST_TYPES = ["vacation", "swap"] as const;
+export type ScheduleRequestType = typeof SCHEDULE_REQUEST_TYPES[number];
+
+export const SCHEDULE_REQUEST_TYPE_LABELS: Record<ScheduleRequestType, string> = {
+  vacation: "Urlaub",
+  swap: "Diensttausch",
+};
+
+export const SCHEDULE_REQUEST_STATUSES = ["pending", "approved", "rejected", "declined", "withdrawn"] as const;
+export type ScheduleRequestStatus = typeof SCHEDULE_REQUEST_STATUSES[number];
+
+export const SCHEDULE_REQUEST_STATUS_LABELS: Record<ScheduleRequestStatus, string> = {
+  pending: "Offen",
+  approved: "Genehmigt",
+  rejected: "Abgelehnt",
+  declined: "Vom Kollegen abgelehnt",
+  withdrawn: "Zurückgezogen",
+};
+
+// Longest vacation per request, in calendar days
+export const MAX_VACATION_REQUEST_DAYS = 42;
+
+// A pending swap the colleague has not accepted yet; it cannot be approved before
+export function awaitsColleague(request: { type: string; status: string; acceptedAt: Date | string | null }): boolean {
+  return request.type === "swap" && request.status === "pending" && request.acceptedAt == null;
+}
+
+export function isScheduleRequestStatus(value: unknown): value is ScheduleRequestStatus {
+  return typeof value === "string" && (SCHEDULE_REQUEST_STATUSES as readonly string[]).includes(value);
+}
@@ -1,7 +1,12 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, doublePrecision, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, doublePrecision, timestamp, boolean, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { CONTROL_POINT_TYPES } from "./haccp";
+import { CATERING_STATUSES } from "./catering";
+import { GUEST_IMPORT_MEALS, GUEST_IMPORT_DELIMITERS, GUEST_IMPORT_DATE_FORMATS, normalizeBoardCode } from "./guestImport";
+import { SCHEDULE_RULE_SEVERITIES } from "./schedule";
+import { MAX_VACATION_REQUEST_DAYS } from "./scheduleRequests";
 
 // Recipe Categories - Single source of truth for client and server
 export const RECIPE_CATEGORIES = [
@@ -56,37 +61,98 @@ export const recipes = pgTable("recipes", {
   image: text("image"),
   sourceUrl: text("source_url"),
   steps: text("steps").array().notNull().default([]),
-  allergens: text("allergens").array().notNull().default([]),
+  allergens: text("allergens").array().notNull().default([]), // derived: ingredient allergens + declaredAllergens + mayContain
+  declaredAllergens: text("declared_allergens").array().notNull().default([]), // manually declared as contained, not listed by the ingredients
+  mayContain: text("may_contain").array().notNull().default([]), // manual additions (cross-contact, unlisted components)
   // R2-T3: Tags for filtering (e.g., vegetarisch, schnell, vegan)
   tags: text("tags").array().notNull().default([]),
+  salesPrice: doublePrecision("sales_price"), // net sales price per portion, basis for the food-cost percentage
   // R2-T4: Track last modification
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Article catalog: canonical ingredient master data shared by all recipes
+export const articles = pgTable("articles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  synonyms: text("synonyms").array().notNull().default([]), // alternative spellings used for matching
+  defaultUnit: text("default_unit").notNull().default("kg"), // unit the price refers to
+  allergens: text("allergens").array().notNull().default([]),
+  supplier: text("supplier"),
+  price: doublePrecision("price"), // net price per defaultUnit
+});
+
 export const ingredients = pgTable("ingredients", {
   id: serial("id").primaryKey(),
   recipeId: integer("recipe_id").references(() => recipes.id, { onDelete: "cascade" }).notNull(),
+  articleId: integer("article_id").references(() => articles.id, { onDelete: "set null" }), // null = not yet matched, needs review
   name: text("name").notNull(),
   amount: doublePrecision("amount").notNull(),
   unit: text("unit").notNull(),
   allergens: text("allergens").array().notNull().default([]),
 });
 
+// HACCP control points. Historically only fridges, hence the table name; the
+// type decides which limits apply and in which unit (see shared/haccp.ts)
 export const fridges = pgTable("fridges", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  type: text("type").notNull().default("storage"), // storage, core_temp, cooling, goods_receiving, fryer_oil
   tempMin: doublePrecision("temp_min").notNull(),
   tempMax: doublePrecision("temp_max").notNull(),
+  limitMinutes: integer("limit_minutes"), // cooling: max. minutes from start to target
+  // Daily measurement slots ("HH:MM"); a reading within checkToleranceMinutes of a slot covers it
+  checkTimes: text("check_times").array().notNull().default([]),
+  checkToleranceMinutes: integer("check_tolerance_minutes").notNull().default(60),
+  active: boolean("active").notNull().default(true), // control points with readings are deactivated, never deleted
 });
 
+// Append-only: rows are never updated or deleted. A correction is a new row
+// referencing the original. Each row is sealed with a SHA-256 hash over its
+// content and the previous row's hash (see server/haccpChain.ts).
 export const haccpLogs = pgTable("haccp_logs", {
   id: serial("id").primaryKey(),
-  fridgeId: integer("fridge_id").references(() => fridges.id, { onDelete: "cascade" }).notNull(),
-  temperature: doublePrecision("temperature").notNull(),
+  fridgeId: integer("fridge_id").references(() => fridges.id).notNull(),
+  temperature: doublePrecision("temperature").notNull(), // measured value in the control point's unit
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   user: text("user").notNull(),
   status: text("status").notNull(),
   notes: text("notes"),
+  item: text("item"), // dish or delivery the reading refers to
+  startTemperature: doublePrecision("start_temperature"), // cooling: temperature at start
+  startedAt: timestamp("started_at"), // cooling: start of cooling down
+  userId: varchar("user_id"), // authenticated user who wrote the row; null for legacy rows and sensors
+  sensorId: integer("sensor_id"), // sensor device that pushed the reading (see sensorDevices)
+  correctsLogId: integer("corrects_log_id").references((): AnyPgColumn => haccpLogs.id),
+  correctionReason: text("correction_reason"),
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
+});
+
+// Wireless thermometers / gateways pushing readings via the ingestion API.
+// Only the SHA-256 of the API key is stored; the key itself is shown once on creation.
+export const sensorDevices = pgTable("sensor_devices", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  fridgeId: integer("fridge_id").references(() => fridges.id, { onDelete: "cascade" }), // null: gateway for any control point
+  apiKeyHash: text("api_key_hash").notNull().unique(),
+  keyPrefix: text("key_prefix").notNull(), // first characters, to recognize the key
+  sampleIntervalMinutes: integer("sample_interval_minutes").notNull().default(15),
+  active: boolean("active").notNull().default(true),
+  lastSeenAt: timestamp("last_seen_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Follow-up of an out-of-range reading. The deviation counts as resolved once a
+// re-measurement lies within the fridge's range again.
+export const haccpCorrectiveActions = pgTable("haccp_corrective_actions", {
+  id: serial("id").primaryKey(),
+  logId: integer("log_id").references(() => haccpLogs.id, { onDelete: "cascade" }).notNull(),
+  action: text("action").notNull(),
+  remeasuredTemperature: doublePrecision("remeasured_temperature"),
+  responsibleUser: text("responsible_user").notNull(),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+  userId: varchar("user_id"), // authenticated user who recorded the action; null for legacy rows
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
@@ -102,11 +168,43 @@ export const loginUserSchema = z.object({
 });
 export const insertAppSettingSchema = createInsertSchema(appSettings).omit({ id: true });
 export const insertRecipeSchema = createInsertSchema(recipes).omit({ id: true });
+export const insertArticleSchema = createInsertSchema(articles).omit({ id: true });
 export const insertIngredientSchema = createInsertSchema(ingredients).omit({ id: true });
-export const insertFridgeSchema = createInsertSchema(fridges).omit({ id: true });
-export const insertHaccpLogSchema = createInsertSchema(haccpLogs).omit({ id: true }).extend({
+export const insertFridgeSchema = createInsertSchema(fridges).omit({ id: true }).extend({
+  type: z.enum(CONTROL_POINT_TYPES).optional(),
+  checkTimes: z.array(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Uhrzeit im Format HH:MM")).optional(),
+  checkToleranceMinutes: z.number().int().min(0).max(720).optional(),
+});
+export const insertHaccpLogSchema = createInsertSchema(haccpLogs).omit({ id: true, prevHash: true, hash: true }).extend({
   timestamp: z.string().or(z.date()).transform(val => typeof val === 'string' ? new Date(val) : val),
+  startedAt: z.string().or(z.date()).transform(val => typeof val === 'string' ? new Date(val) : val).nullable().optional(),
+});
+// What a client may send for a new reading; user, timestamp and status are set by the server,
+// sensorId only by /api/sensors/readings
+export const haccpReadingSchema = insertHaccpLogSchema.omit({
+  timestamp: true, user: true, userId: true, sensorId: true, status: true, correctsLogId: true, correctionReason: true,
+});
+export const haccpCorrectionSchema = z.object({
+  temperature: z.number(),
+  notes: z.string().nullable().optional(),
+  item: z.string().nullable().optional(),
+  startTemperature: z.number().nullable().optional(),
+  reason: z.string().trim().min(1, "Bitte Grund der Korrektur angeben"),
+});
+export const insertSensorDeviceSchema = createInsertSchema(sensorDevices).omit({ id: true, createdAt: true, lastSeenAt: true }).extend({
+  sampleIntervalMinutes: z.number().int().min(0).max(24 * 60).optional(),
+});
+// One reading pushed by a sensor; fridgeId may be omitted for devices bound to a control point
+export const sensorReadingSchema = z.object({
+  fridgeId: z.number().int().optional(),
+  temperature: z.number(),
+  measuredAt: z.string().datetime({ offset: true }),
+});
+export const insertHaccpCorrectiveActionSchema = createInsertSchema(haccpCorrectiveActions).omit({ id: true, timestamp: true }).extend({
+  action: z.string().trim().min(1, "Bitte Maßnahme beschreiben"),
 });
+// What a client may send for a corrective action; user and time are set by the server
+export const correctiveActionInputSchema = insertHaccpCorrectiveActionSchema.omit({ logId: true, responsibleUser: true, userId: true });
 
 // Guest counts per meal
 export const guestCounts = pgTable("guest_counts", {
@@ -116,6 +214,27 @@ export const guestCounts = pgTable("guest_counts", {
   adults: integer("adults").notNull().default(0),
   children: integer("children").notNull().default(0),
   notes: text("notes"),
+  isForecast: boolean("is_forecast").notNull().default(false), // pre-filled from the forecast until the front office enters the count
+});
+
+// Column mapping of a hotel PMS export, saved per source (see server/guestImport.ts).
+// Columns are referenced by their header text.
+export const guestImportSources = pgTable("guest_import_sources", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g. "Protel Belegung", "Anreiseliste"
+  delimiter: text("delimiter").notNull().default("auto"), // CSV only, see GUEST_IMPORT_DELIMITERS
+  headerRow: integer("header_row").notNull().default(1), // 1-based; rows above are skipped
+  dateColumn: text("date_column").notNull(), // night of the stay, or arrival when departureColumn is set
+  dateFormat: text("date_format").notNull().default("DD.MM.YYYY"),
+  departureColumn: text("departure_column"), // reservation lists: every night from arrival to departure counts
+  adultsColumn: text("adults_column").notNull(),
+  childrenColumn: text("children_column"),
+  boardColumn: text("board_column"),
+  // Board code → meals as JSON: { "HP": ["breakfast", "dinner"] }
+  boardMeals: text("board_meals").notNull().default("{}"),
+  defaultMeals: text("default_meals").array().notNull().default([]), // meals when the row has no board code
+  breakfastNextDay: boolean("breakfast_next_day").notNull().default(true), // breakfast of a night is served the next morning
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Catering events
@@ -126,8 +245,40 @@ export const cateringEvents = pgTable("catering_events", {
   date: text("date").notNull(), // YYYY-MM-DD
   time: text("time").notNull(), // HH:MM
   personCount: integer("person_count").notNull(),
-  dishes: text("dishes").array().notNull().default([]),
+  dishes: text("dishes").array().notNull().default([]), // legacy free-text dishes, moved into cateringDishes on startup
+  notes: text("notes"),
+  // Lifecycle, see CATERING_STATUSES in shared/catering.ts; changed only via the status endpoint
+  status: text("status").notNull().default("inquiry"),
+  statusChangedAt: timestamp("status_changed_at"), // null for events from before the lifecycle existed
+  pricePerPerson: doublePrecision("price_per_person"), // net
+  depositAmount: doublePrecision("deposit_amount"), // net, deducted from the invoice
+  quoteNumber: text("quote_number").unique(), // assigned when the event is first quoted
+  quotedAt: timestamp("quoted_at"),
+  invoiceNumber: text("invoice_number").unique(), // assigned when the event is invoiced, without gaps
+  invoicedAt: timestamp("invoiced_at"),
+});
+
+// Dishes of a catering event. `name` is the recipe name at the time of ordering
+// (or free text for dishes without a recipe), so the order stays readable if the
+// recipe is renamed or deleted.
+export const cateringDishes = pgTable("catering_dishes", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").references(() => cateringEvents.id, { onDelete: "cascade" }).notNull(),
+  recipeId: integer("recipe_id").references(() => recipes.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  portions: integer("portions").notNull(),
   notes: text("notes"),
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
+// Priced extras of a catering event (drinks, service staff, rental, delivery)
+export const cateringExtras = pgTable("catering_extras", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").references(() => cateringEvents.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  quantity: doublePrecision("quantity").notNull().default(1),
+  unitPrice: doublePrecision("unit_price").notNull(), // net
+  sortOrder: integer("sort_order").notNull().default(0),
 });
 
 // Staff members
@@ -140,6 +291,10 @@ export const staff = pgTable("staff", {
   phone: text("phone"),
   // R2-T7: Link staff to user account (optional)
   userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  // Working-hours accounting: contracted hours, null = no target and no overtime balance
+  weeklyHours: doublePrecision("weekly_hours"),
+  hoursBalanceStart: text("hours_balance_start"), // YYYY-MM-DD, balances are carried over from this day on
+  openingBalanceHours: doublePrecision("opening_balance_hours").notNull().default(0), // overtime balance on that day
 });
 
 // Shift types (Dienste) with times
@@ -148,6 +303,7 @@ export const shiftTypes = pgTable("shift_types", {
   name: text("name").notNull(),
   startTime: text("start_time").notNull(), // HH:MM
   endTime: text("end_time").notNull(), // HH:MM
+  breakMinutes: integer("break_minutes"), // unpaid break, null = statutory minimum
   color: text("color").notNull().default("#F37021"),
 });
 
@@ -162,6 +318,27 @@ export const scheduleEntries = pgTable("schedule_entries", {
   notes: text("notes"),
 });
 
+// Vacation and shift swap requests of staff members, decided by schedule editors
+export const scheduleRequests = pgTable("schedule_requests", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // vacation, swap
+  staffId: integer("staff_id").references(() => staff.id, { onDelete: "cascade" }).notNull(), // requesting staff member
+  startDate: text("start_date").notNull(), // vacation: first day; swap: day of the offered shift
+  endDate: text("end_date").notNull(), // vacation: last day; swap: same as startDate
+  entryId: integer("entry_id").references(() => scheduleEntries.id, { onDelete: "set null" }), // swap: offered shift
+  targetStaffId: integer("target_staff_id").references(() => staff.id, { onDelete: "cascade" }), // swap: colleague
+  targetEntryId: integer("target_entry_id").references(() => scheduleEntries.id, { onDelete: "set null" }), // swap: colleague's shift in exchange, null = handover
+  targetDate: text("target_date"), // swap: day of the colleague's shift
+  note: text("note"),
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, declined (by the colleague), withdrawn
+  acceptedAt: timestamp("accepted_at"), // swap: when the colleague accepted, required for the approval
+  requestedBy: text("requested_by").notNull(), // user name
+  decidedBy: text("decided_by"), // user name of the approver, the colleague when declined, or the requester when withdrawn
+  decisionNote: text("decision_note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  decidedAt: timestamp("decided_at"),
+});
+
 // Menu plans
 export const menuPlans = pgTable("menu_plans", {
   id: serial("id").primaryKey(),
@@ -170,14 +347,102 @@ export const menuPlans = pgTable("menu_plans", {
   course: text("course").notNull().default("main"), // soup, main_meat, side1, side2, main_veg, dessert, main (for breakfast)
   recipeId: integer("recipe_id").references(() => recipes.id, { onDelete: "set null" }),
   portions: integer("portions").notNull().default(1),
+  portionsOverride: integer("portions_override"), // manual override for production planning, null = derive from guest counts
   notes: text("notes"),
 });
 
-export const insertGuestCountSchema = createInsertSchema(guestCounts).omit({ id: true });
-export const insertCateringEventSchema = createInsertSchema(cateringEvents).omit({ id: true });
-export const insertStaffSchema = createInsertSchema(staff).omit({ id: true });
-export const insertShiftTypeSchema = createInsertSchema(shiftTypes).omit({ id: true });
+export const insertGuestCountSchema = createInsertSchema(guestCounts).omit({ id: true, isForecast: true });
+const guestImportColumnSchema = z.string().trim().nullable().optional().transform(value => value || null);
+export const insertGuestImportSourceSchema = createInsertSchema(guestImportSources).omit({ id: true, createdAt: true }).extend({
+  name: z.string().trim().min(1, "Bitte Quelle benennen"),
+  delimiter: z.enum(GUEST_IMPORT_DELIMITERS).default("auto"),
+  headerRow: z.number().int().min(1, "Kopfzeile muss mindestens 1 sein").default(1),
+  dateColumn: z.string().trim().min(1, "Bitte Datumsspalte angeben"),
+  dateFormat: z.enum(GUEST_IMPORT_DATE_FORMATS).default("DD.MM.YYYY"),
+  departureColumn: guestImportColumnSchema,
+  adultsColumn: z.string().trim().min(1, "Bitte Spalte für Erwachsene angeben"),
+  childrenColumn: guestImportColumnSchema,
+  boardColumn: guestImportColumnSchema,
+  boardMeals: z.record(z.string(), z.array(z.enum(GUEST_IMPORT_MEALS))).default({})
+    .transform(mapping => JSON.stringify(Object.fromEntries(
+      Object.entries(mapping).filter(([code]) => code.trim()).map(([code, meals]) => [normalizeBoardCode(code), meals])
+    ))),
+  defaultMeals: z.array(z.enum(GUEST_IMPORT_MEALS)).default([]),
+  breakfastNextDay: z.boolean().default(true),
+});
+// A mapping sent with the upload instead of a saved source, e.g. to try it out
+export const guestImportMappingSchema = insertGuestImportSourceSchema.omit({ name: true });
+export const insertCateringEventSchema = createInsertSchema(cateringEvents).omit({
+  id: true, status: true, statusChangedAt: true, quoteNumber: true, quotedAt: true, invoiceNumber: true, invoicedAt: true,
+}).extend({
+  pricePerPerson: z.number().min(0, "Preis darf nicht negativ sein").nullable().optional(),
+  depositAmount: z.number().min(0, "Anzahlung darf nicht negativ sein").nullable().optional(),
+});
+export const cateringStatusSchema = z.object({ status: z.enum(CATERING_STATUSES) });
+export const insertCateringDishSchema = createInsertSchema(cateringDishes).omit({ id: true });
+// A dish as sent by the client; the event id and order come from the request
+export const cateringDishInputSchema = z.object({
+  recipeId: z.number().int().nullable().optional(),
+  name: z.string().trim().optional(),
+  portions: z.number().int().min(0, "Portionen dürfen nicht negativ sein"),
+  notes: z.string().nullable().optional(),
+}).refine(dish => dish.recipeId != null || Boolean(dish.name), { message: "Bitte Rezept wählen oder Speise benennen" });
+export const insertCateringExtraSchema = createInsertSchema(cateringExtras).omit({ id: true });
+// An extra as sent by the client; the event id and order come from the request
+export const cateringExtraInputSchema = z.object({
+  name: z.string().trim().min(1, "Bitte Zusatzleistung benennen"),
+  quantity: z.number().positive("Menge muss größer als 0 sein").default(1),
+  unitPrice: z.number().min(0, "Preis darf nicht negativ sein"),
+});
+export const insertStaffSchema = createInsertSchema(staff).omit({ id: true }).extend({
+  weeklyHours: z.number().min(0, "Wochenstunden dürfen nicht negativ sein").max(80, "Höchstens 80 Wochenstunden").nullable().optional(),
+  hoursBalanceStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ungültiges Datum").nullable().optional(),
+});
+export const insertShiftTypeSchema = createInsertSchema(shiftTypes).omit({ id: true }).extend({
+  breakMinutes: z.number().int().min(0, "Pause darf nicht negativ sein").max(240, "Pause höchstens 240 Minuten").nullable().optional(),
+});
 export const insertScheduleEntrySchema = createInsertSchema(scheduleEntries).omit({ id: true });
+const scheduleRuleSeveritySchema = z.enum(SCHEDULE_RULE_SEVERITIES);
+export const scheduleRulesSchema = z.object({
+  minRestHours: z.number().min(1, "Ruhezeit muss mindestens 1 h sein").max(24, "Ruhezeit darf höchstens 24 h sein"),
+  maxConsecutiveDays: z.number().int().min(1, "Mindestens 1 Tag am Stück").max(31, "Höchstens 31 Tage am Stück"),
+  maxWeeklyHours: z.number().min(1, "Wochenstunden müssen mindestens 1 h sein").max(168, "Eine Woche hat 168 h"),
+  severity: z.object({
+    minRest: scheduleRuleSeveritySchema,
+    maxConsecutiveDays: scheduleRuleSeveritySchema,
+    maxWeeklyHours: scheduleRuleSeveritySchema,
+    absenceConflict: scheduleRuleSeveritySchema,
+  }),
+});
+export const insertScheduleRequestSchema = createInsertSchema(scheduleRequests).omit({
+  id: true, status: true, acceptedAt: true, decidedBy: true, decisionNote: true, createdAt: true, decidedAt: true,
+});
+const requestDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ungültiges Datum");
+const requestNoteSchema = z.string().trim().max(500, "Bemerkung höchstens 500 Zeichen").nullable().optional();
+// A request as sent by the staff member; staff, dates of swaps and requester come from the server
+export const scheduleRequestInputSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("vacation"),
+    startDate: requestDateSchema,
+    endDate: requestDateSchema,
+    note: requestNoteSchema,
+  }),
+  z.object({
+    type: z.literal("swap"),
+    entryId: z.number().int(),
+    targetStaffId: z.number().int(),
+    targetEntryId: z.number().int().nullable().optional(),
+    note: requestNoteSchema,
+  }),
+]).superRefine((request, ctx) => {
+  if (request.type !== "vacation") return;
+  if (request.endDate < request.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Das Ende liegt vor dem Beginn", path: ["endDate"] });
+  } else if ((Date.parse(request.endDate) - Date.parse(request.startDate)) / 86400000 >= MAX_VACATION_REQUEST_DAYS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Höchstens ${MAX_VACATION_REQUEST_DAYS} Tage pro Antrag`, path: ["endDate"] });
+  }
+});
+export const scheduleRequestDecisionSchema = z.object({ note: requestNoteSchema });
 export const insertMenuPlanSchema = createInsertSchema(menuPlans).omit({ id: true });
 
 // Tasks for "Heute" module
@@ -197,6 +462,17 @@ export const updateTaskStatusSchema = z.object({
   status: z.enum(["open", "done"]),
 });
 
+// Share tokens for the public guest menu; revoked tokens stop working immediately
+export const menuShareTokens = pgTable("menu_share_tokens", {
+  id: serial("id").primaryKey(),
+  token: text("token").notNull().unique(),
+  label: text("label").notNull().default(""), // e.g. "Buffet-Tablet", "QR-Code Speisesaal"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const insertMenuShareTokenSchema = createInsertSchema(menuShareTokens).omit({ id: true, createdAt: true, revokedAt: true });
+
 // R2-T12: Task Templates for recurring checklists
 export const taskTemplates = pgTable("task_templates", {
   id: serial("id").primaryKey(),
@@ -216,25 +492,44 @@ export type AppSetting = typeof appSettings.$inferSelect;
 export type InsertAppSetting = z.infer<typeof insertAppSettingSchema>;
 export type Recipe = typeof recipes.$inferSelect;
 export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
+export type Article = typeof articles.$inferSelect;
+export type InsertArticle = z.infer<typeof insertArticleSchema>;
 export type Ingredient = typeof ingredients.$inferSelect;
 export type InsertIngredient = z.infer<typeof insertIngredientSchema>;
 export type Fridge = typeof fridges.$inferSelect;
 export type InsertFridge = z.infer<typeof insertFridgeSchema>;
 export type HaccpLog = typeof haccpLogs.$inferSelect;
 export type InsertHaccpLog = z.infer<typeof insertHaccpLogSchema>;
+export type SensorDevice = typeof sensorDevices.$inferSelect;
+export type InsertSensorDevice = z.infer<typeof insertSensorDeviceSchema>;
+export type SensorReading = z.infer<typeof sensorReadingSchema>;
+export type HaccpCorrectiveAction = typeof haccpCorrectiveActions.$inferSelect;
+export type InsertHaccpCorrectiveAction = z.infer<typeof insertHaccpCorrectiveActionSchema>;
 export type GuestCount = typeof guestCounts.$inferSelect;
 export type InsertGuestCount = z.infer<typeof insertGuestCountSchema>;
+export type GuestImportSource = typeof guestImportSources.$inferSelect;
+export type InsertGuestImportSource = z.infer<typeof insertGuestImportSourceSchema>;
 export type CateringEvent = typeof cateringEvents.$inferSelect;
 export type InsertCateringEvent = z.infer<typeof insertCateringEventSchema>;
+export type CateringDish = typeof cateringDishes.$inferSelect;
+export type InsertCateringDish = z.infer<typeof insertCateringDishSchema>;
+export type CateringDishInput = z.infer<typeof cateringDishInputSchema>;
+export type CateringExtra = typeof cateringExtras.$inferSelect;
+export type InsertCateringExtra = z.infer<typeof insertCateringExtraSchema>;
 export type Staff = typeof staff.$inferSelect;
 export type InsertStaff = z.infer<typeof insertStaffSchema>;
 export type ShiftType = typeof shiftTypes.$inferSelect;
 export type InsertShiftType = z.infer<typeof insertShiftTypeSchema>;
 export type ScheduleEntry = typeof scheduleEntries.$inferSelect;
 export type InsertScheduleEntry = z.infer<typeof insertScheduleEntrySchema>;
+export type ScheduleRequest = typeof scheduleRequests.$inferSelect;
+export type InsertScheduleRequest = z.infer<typeof insertScheduleRequestSchema>;
+export type ScheduleRequestInput = z.infer<typeof scheduleRequestInputSchema>;
 export type MenuPlan = typeof menuPlans.$inferSelect;
 export type InsertMenuPlan = z.infer<typeof insertMenuPlanSchema>;
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type MenuShareToken = typeof menuShareTokens.$inferSelect;
+export type InsertMenuShareToken = z.infer<typeof insertMenuShareTokenSchema>;
 export type TaskTemplate = typeof taskTemplates.$inferSelect;
 export type InsertTaskTemplate = z.infer<typeof insertTaskTemplateSchema>;
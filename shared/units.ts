@@ -0,0 +1,217 @@
+// Unit normalization and conversion for ingredient quantities
+// Used by both server (imports, production/shopping aggregation) and client (recipe scaler, OCR flow)
+
+export type UnitDimension = "mass" | "volume" | "piece" | "other";
+
+interface UnitDefinition {
+  unit: string;            // canonical spelling
+  dimension: UnitDimension;
+  factor: number;          // multiple of the base unit (g, ml, Stk); 0 for "other"
+  metric?: boolean;        // part of the g/kg or ml/l family, rescaled for display
+  aliases: string[];       // lowercase, without trailing dot
+}
+
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  { unit: "mg", dimension: "mass", factor: 0.001, metric: true, aliases: ["mg", "milligramm"] },
+  { unit: "g", dimension: "mass", factor: 1, metric: true, aliases: ["g", "gr", "gramm", "gram", "grams"] },
+  { unit: "dag", dimension: "mass", factor: 10, metric: true, aliases: ["dag", "dkg", "deka", "dekagramm"] },
+  { unit: "kg", dimension: "mass", factor: 1000, metric: true, aliases: ["kg", "kilo", "kilogramm", "kilogram"] },
+  { unit: "ml", dimension: "volume", factor: 1, metric: true, aliases: ["ml", "milliliter"] },
+  { unit: "cl", dimension: "volume", factor: 10, metric: true, aliases: ["cl", "zentiliter", "centiliter"] },
+  { unit: "dl", dimension: "volume", factor: 100, metric: true, aliases: ["dl", "deziliter"] },
+  { unit: "l", dimension: "volume", factor: 1000, metric: true, aliases: ["l", "ltr", "liter", "litre"] },
+  { unit: "TL", dimension: "volume", factor: 5, aliases: ["tl", "teelöffel", "teeloeffel", "tsp"] },
+  { unit: "EL", dimension: "volume", factor: 15, aliases: ["el", "esslöffel", "essloeffel", "tbsp"] },
+  { unit: "Tasse", dimension: "volume", factor: 250, aliases: ["tasse", "tassen", "cup", "cups"] },
+  { unit: "Stk", dimension: "piece", factor: 1, aliases: ["stk", "stück", "stueck", "st", "stck", "pc", "pcs", "piece", "pieces"] },
+  { unit: "Prise", dimension: "other", factor: 0, aliases: ["prise", "prisen", "priese", "pinch"] },
+  { unit: "Msp", dimension: "other", factor: 0, aliases: ["msp", "messerspitze"] },
+  { unit: "Bund", dimension: "other", factor: 0, aliases: ["bund", "bd"] },
+  { unit: "Becher", dimension: "other", factor: 0, aliases: ["becher"] },
+  { unit: "Pkg", dimension: "other", factor: 0, aliases: ["pkg", "pck", "packung", "packungen", "päckchen", "pkt"] },
+  { unit: "Dose", dimension: "other", factor: 0, aliases: ["dose", "dosen"] },
+  { unit: "Scheibe", dimension: "other", factor: 0, aliases: ["scheibe", "scheiben"] },
+  { unit: "Blatt", dimension: "other", factor: 0, aliases: ["blatt", "blätter"] },
+  { unit: "Zehe", dimension: "other", factor: 0, aliases: ["zehe", "zehen"] },
+];
+
+const ALIAS_MAP = new Map<string, UnitDefinition>();
+for (const def of UNIT_DEFINITIONS) {
+  for (const alias of def.aliases) ALIAS_MAP.set(alias, def);
+}
+
+// Keywords match a word of the ingredient name or the end of a compound noun
+// ("Olivenöl", "Basmatireis"); keywords longer than three letters also with a
+// plural ending ("Zwiebeln", "Tomaten"). Words containing an `exclude` part never
+// match ("Kartoffelbrei" is no egg).
+interface KeywordEntry {
+  keywords: string[];
+  exclude?: string[];
+}
+
+const PLURAL_ENDINGS = ["", "n", "en", "e", "s"];
+
+// Density in g per ml, matched by keyword in the ingredient name (default 1 = water)
+const DENSITIES: (KeywordEntry & { density: number })[] = [
+  { keywords: ["öl", "oil"], density: 0.92 },
+  { keywords: ["milch"], density: 1.03 },
+  { keywords: ["obers", "sahne", "rahm"], density: 1.0 },
+  { keywords: ["honig"], density: 1.4 },
+  { keywords: ["sirup"], density: 1.3 },
+  { keywords: ["mehl"], density: 0.55 },
+  { keywords: ["staubzucker", "puderzucker"], density: 0.56 },
+  { keywords: ["zucker"], density: 0.85 },
+  { keywords: ["salz"], density: 1.2 },
+  { keywords: ["reis"], density: 0.85 },
+  { keywords: ["butter"], density: 0.91 },
+  { keywords: ["grieß"], density: 0.7 },
+];
+
+// Average weight in g of one piece, matched by keyword in the ingredient name
+const PIECE_WEIGHTS: (KeywordEntry & { grams: number })[] = [
+  { keywords: ["eidotter", "dotter", "eigelb"], grams: 20 },
+  { keywords: ["eiklar", "eiweiß"], grams: 35 },
+  { keywords: ["ei", "eier"], exclude: ["brei"], grams: 60 },
+  { keywords: ["zwiebel"], grams: 100 },
+  { keywords: ["knoblauch", "knoblauchzehe"], grams: 5 },
+  { keywords: ["karotte", "möhre"], grams: 80 },
+  { keywords: ["kartoffel", "erdäpfel", "erdapfel"], grams: 150 },
+  { keywords: ["paprika", "paprikaschote"], grams: 150 },
+  { keywords: ["tomate"], grams: 100 },
+  { keywords: ["zitrone", "limette"], grams: 100 },
+  { keywords: ["apfel", "äpfel"], grams: 150 },
+  { keywords: ["semmel", "brötchen"], grams: 50 },
+  { keywords: ["zucchini"], grams: 200 },
+  { keywords: ["lorbeer", "lorbeerblatt", "lorbeerblätter"], grams: 0.2 },
+];
+
+function normalizeKey(raw: string): string {
+  return raw.trim().replace(/\.$/, "").toLowerCase();
+}
+
+function matchesKeyword(word: string, keyword: string): boolean {
+  const endings = keyword.length > 3 ? PLURAL_ENDINGS : [""];
+  return endings.some(ending => word.endsWith(keyword + ending));
+}
+
+function findByKeyword<T extends KeywordEntry>(table: T[], name: string): T | undefined {
+  const words = name.toLowerCase().split(/[\s,\-()\/]+/).filter(Boolean);
+  return table.find(entry => words.some(word =>
+    !entry.exclude?.some(part => word.includes(part)) && entry.keywords.some(keyword => matchesKeyword(word, keyword))
+  ));
+}
+
+export function isKnownUnit(raw: string): boolean {
+  return ALIAS_MAP.has(normalizeKey(raw));
+}
+
+// "Kilo" -> "kg", "Esslöffel" -> "EL"; unknown units are returned trimmed
+export function canonicalUnit(raw: string | null | undefined): string {
+  if (!raw) return "Stk";
+  const def = ALIAS_MAP.get(normalizeKey(raw));
+  return def ? def.unit : raw.trim();
+}
+
+export function unitDimension(unit: string): UnitDimension {
+  return ALIAS_MAP.get(normalizeKey(unit))?.dimension ?? "other";
+}
+
+export function getDensity(ingredientName: string): number {
+  return findByKeyword(DENSITIES, ingredientName)?.density ?? 1;
+}
+
+export function getPieceWeight(ingredientName: string): number | null {
+  return findByKeyword(PIECE_WEIGHTS, ingredientName)?.grams ?? null;
+}
+
+// Converts between units; crosses mass/volume via density and piece/mass via piece weight.
+// Returns null when the conversion is not possible.
+export function convertUnit(amount: number, from: string, to: string, ingredientName = ""): number | null {
+  const fromDef = ALIAS_MAP.get(normalizeKey(from));
+  const toDef = ALIAS_MAP.get(normalizeKey(to));
+  if (!fromDef || !toDef) return canonicalUnit(from) === canonicalUnit(to) ? amount : null;
+  if (fromDef.unit === toDef.unit) return amount;
+  if (fromDef.dimension === "other" || toDef.dimension === "other") return null;
+
+  // Base amount in g, ml or Stk
+  const base = amount * fromDef.factor;
+  if (fromDef.dimension === toDef.dimension) return base / toDef.factor;
+
+  const grams = toGrams(base, fromDef.dimension, ingredientName);
+  if (grams === null) return null;
+  if (toDef.dimension === "mass") return grams / toDef.factor;
+  if (toDef.dimension === "volume") return grams / getDensity(ingredientName) / toDef.factor;
+  const pieceWeight = getPieceWeight(ingredientName);
+  return pieceWeight ? grams / pieceWeight / toDef.factor : null;
+}
+
+function toGrams(base: number, dimension: UnitDimension, ingredientName: string): number | null {
+  if (dimension === "mass") return base;
+  if (dimension === "volume") return base * getDensity(ingredientName);
+  if (dimension === "piece") {
+    const pieceWeight = getPieceWeight(ingredientName);
+    return pieceWeight ? base * pieceWeight : null;
+  }
+  return null;
+}
+
+// Reduces a quantity to its base unit (g, ml, Stk) so quantities can be summed
+export function toBaseUnit(amount: number, unit: string): { amount: number; unit: string } {
+  const def = ALIAS_MAP.get(normalizeKey(unit));
+  if (!def || def.dimension === "other") return { amount, unit: canonicalUnit(unit) };
+  const baseUnit = def.dimension === "mass" ? "g" : def.dimension === "volume" ? "ml" : "Stk";
+  return { amount: amount * def.factor, unit: baseUnit };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Picks a readable unit within the metric family: 1500 g -> 1.5 kg, 0.25 l -> 250 ml.
+// Spoons, cups and non-metric units keep their unit.
+export function formatQuantity(amount: number, unit: string): { amount: number; unit: string } {
+  const def = ALIAS_MAP.get(normalizeKey(unit));
+  if (!def || !def.metric) {
+    return { amount: round(amount), unit: canonicalUnit(unit) };
+  }
+  const base = amount * def.factor;
+  if (def.dimension === "mass") {
+    return base >= 1000 ? { amount: round(base / 1000), unit: "kg" } : { amount: round(base), unit: "g" };
+  }
+  return base >= 1000 ? { amount: round(base / 1000), unit: "l" } : { amount: round(base), unit: "ml" };
+}
+
+// Scales a recipe quantity and returns it in a readable unit
+export function scaleQuantity(amount: number, unit: string, factor: number): { amount: number; unit: string } {
+  return formatQuantity(amount * factor, unit);
+}
+
+// Sums quantities of one ingredient given in mixed units. Mass and volume are summed in their base
+// unit; volumes and pieces are folded into grams when the same ingredient is also listed by weight.
+export function sumQuantities(entries: { amount: number; unit: string }[], ingredientName = ""): { amount: number; unit: string }[] {
+  const buckets = new Map<string, number>();
+  let spoonsOnly = true;
+
+  for (const entry of entries) {
+    const base = toBaseUnit(entry.amount, entry.unit);
+    if (base.unit === "ml" && !["TL", "EL"].includes(canonicalUnit(entry.unit))) spoonsOnly = false;
+    buckets.set(base.unit, (buckets.get(base.unit) ?? 0) + base.amount);
+  }
+
+  if (buckets.has("g")) {
+    for (const unit of ["ml", "Stk"]) {
+      if (!buckets.has(unit)) continue;
+      const grams = convertUnit(buckets.get(unit)!, unit, "g", ingredientName);
+      if (grams === null) continue;
+      buckets.set("g", buckets.get("g")! + grams);
+      buckets.delete(unit);
+    }
+  }
+
+  return Array.from(buckets.entries()).map(([unit, amount]) => {
+    if (unit === "ml" && spoonsOnly) {
+      return amount >= 15 ? { amount: round(amount / 15), unit: "EL" } : { amount: round(amount / 5), unit: "TL" };
+    }
+    return formatQuantity(amount, unit);
+  });
+}